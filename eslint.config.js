@@ -32,6 +32,7 @@ export default [
         clearInterval: 'readonly',
         confirm: 'readonly',
         alert: 'readonly',
+        self: 'readonly',
       },
     },
     plugins: {
@@ -0,0 +1,77 @@
+#!/usr/bin/env tsx
+
+/* eslint-disable no-console */
+/* eslint-disable no-undef */
+
+/**
+ * Experiment Script
+ * Runs a headless ExperimentRunner protocol from a JSON file
+ *
+ * Usage: npm run experiment -- <protocol.json> [--out results.json]
+ *
+ * Example protocol:
+ * {
+ *   "name": "anomaly round trip",
+ *   "latticeSize": 16,
+ *   "steps": 1400,
+ *   "seed": 42,
+ *   "events": [
+ *     { "at": 200, "type": "perturb", "perturbation": { "id": "anomaly", "params": { "x": 8, "y": 8 } } },
+ *     { "at": 700, "type": "measure", "label": "before reversal" },
+ *     { "at": 700, "type": "reverse" },
+ *     { "at": 1400, "type": "photonTest", "steps": 100 }
+ *   ]
+ * }
+ */
+
+import fs from 'fs';
+import { ExperimentRunner, ExperimentProtocol } from '../src/analytics/ExperimentRunner.js';
+
+function showHelp(): void {
+  console.log(`
+Experiment Script
+
+Usage:
+  npm run experiment -- <protocol.json>                   Print the summary
+  npm run experiment -- <protocol.json> --out file.json   Also write the full results
+  `);
+}
+
+/**
+ * Main execution
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    showHelp();
+    return;
+  }
+
+  const protocolPath = args[0];
+  const outIndex = args.indexOf('--out');
+  const outPath = outIndex !== -1 ? args[outIndex + 1] : null;
+
+  const protocol = JSON.parse(fs.readFileSync(protocolPath, 'utf-8')) as ExperimentProtocol;
+  const runner = new ExperimentRunner(protocol);
+
+  console.error(`Running ${protocol.name ?? protocolPath} (${protocol.steps} steps, ${protocol.events?.length ?? 0} events)...`);
+
+  const result = await runner.run((completed, total) => {
+    console.error(`  [${completed}/${total}]`);
+  }, Math.max(1, Math.ceil(protocol.steps / 10)));
+
+  console.log(ExperimentRunner.summarize(result));
+
+  if (outPath) {
+    fs.writeFileSync(outPath, ExperimentRunner.toJSON(result));
+    console.error(`✓ Wrote results to ${outPath}`);
+  }
+}
+
+// Run the script
+main().catch(error => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error('\n❌ Error:', errorMessage);
+  process.exit(1);
+});
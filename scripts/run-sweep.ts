@@ -0,0 +1,77 @@
+#!/usr/bin/env tsx
+
+/* eslint-disable no-console */
+/* eslint-disable no-undef */
+
+/**
+ * Parameter Sweep Script
+ * Runs a headless BatchRunner sweep from a JSON specification
+ *
+ * Usage: npm run sweep -- <spec.json> [--out results.csv|results.json]
+ *
+ * Example spec:
+ * {
+ *   "latticeSize": 16,
+ *   "steps": 200,
+ *   "seed": 42,
+ *   "axes": { "symmetryStrength": [0.3, 0.5, 0.7], "anomalyProbability": [0.1, 0.4] }
+ * }
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { BatchRunner, SweepSpec } from '../src/analytics/BatchRunner.js';
+
+function showHelp(): void {
+  console.log(`
+Parameter Sweep Script
+
+Usage:
+  npm run sweep -- <spec.json>                  Print CSV results to stdout
+  npm run sweep -- <spec.json> --out file.csv   Write CSV results
+  npm run sweep -- <spec.json> --out file.json  Write JSON results (with spec)
+  `);
+}
+
+/**
+ * Main execution
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    showHelp();
+    return;
+  }
+
+  const specPath = args[0];
+  const outIndex = args.indexOf('--out');
+  const outPath = outIndex !== -1 ? args[outIndex + 1] : null;
+
+  const spec = JSON.parse(fs.readFileSync(specPath, 'utf-8')) as SweepSpec;
+  const runner = new BatchRunner(spec);
+  const total = runner.getPoints().length;
+
+  console.error(`Running ${total} sweep points (${spec.steps} steps each)...`);
+
+  const rows = await runner.run((row, completed) => {
+    console.error(`  [${completed}/${total}] ${JSON.stringify(row.values)} (${row.durationMs} ms)`);
+  });
+
+  if (!outPath) {
+    console.log(BatchRunner.toCSV(rows));
+    return;
+  }
+
+  const output =
+    path.extname(outPath) === '.json' ? BatchRunner.toJSON(rows, spec) : BatchRunner.toCSV(rows);
+  fs.writeFileSync(outPath, output);
+  console.error(`✓ Wrote ${rows.length} rows to ${outPath}`);
+}
+
+// Run the script
+main().catch(error => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error('\n❌ Error:', errorMessage);
+  process.exit(1);
+});
@@ -6,15 +6,25 @@
  * - Online Statistics (correlation)
  * - Drift Monitor
  * - Mode Amplitude Tracker
+ * - Spectrum Analyzer
+ * - Thermodynamics Tracker
+ * - Cluster Tracker
+ * - Domain Analyzer
  * - Simulation Logger
  */
 
 import { Simulation } from '../core/Simulation.js';
+import type { LatticeDimensions } from '../core/Lattice.js';
 import { PhotonWindowTest, PhotonWindowResult } from './PhotonWindowTest.js';
 import { OnlineStatistics, StatisticsSnapshot } from './OnlineStatistics.js';
 import { DriftMonitor, DriftMetrics } from './DriftMonitor.js';
 import { ModeAmplitudeTracker, AmplitudeMetrics } from './ModeAmplitudeTracker.js';
 import { SimulationLogger } from './SimulationLogger.js';
+import { SpectrumAnalyzer, SpectrumSummary, WaveVector } from './SpectrumAnalyzer.js';
+import { ThermodynamicsTracker, ThermodynamicsSummary } from './ThermodynamicsTracker.js';
+import { ClusterTracker, ClusterSnapshot, ClusterTrail } from './ClusterTracker.js';
+import { DomainAnalyzer, DomainSample } from './DomainAnalyzer.js';
+import { MonteCarlo } from '../core/MonteCarlo.js';
 
 export interface AdvancedMetrics {
   statistics: StatisticsSnapshot;
@@ -25,9 +35,12 @@ export interface AdvancedMetrics {
 
 export interface AdvancedAnalyticsConfig {
   kx?: number;
-  latticeSize?: number;
+  latticeSize?: number | LatticeDimensions; // N (cube) or Nx×Ny×Nz
   E_0_ref?: number;
   maxLogEntries?: number;
+  spectrumInterval?: number; // Updates between spectrum analyses
+  thermodynamicsWindow?: number; // Samples kept for χ and C
+  clusterTrailLength?: number; // Centroids kept per anomaly cluster trail
 }
 
 export class AdvancedAnalytics {
@@ -36,6 +49,15 @@ export class AdvancedAnalytics {
   private driftMonitor: DriftMonitor;
   private amplitudeTracker: ModeAmplitudeTracker;
   private logger: SimulationLogger;
+  private spectrum: SpectrumAnalyzer;
+  private spectrumSummary: SpectrumSummary | null = null;
+  private spectrumInterval: number;
+  private thermodynamics: ThermodynamicsTracker;
+  private clusters: ClusterTracker;
+  private domains: DomainAnalyzer;
+  private clusterStep: number | null = null;
+  private clusterEpoch: number | null = null;
+  private updateCount = 0;
   private E_0_ref: number;
 
   constructor(config: AdvancedAnalyticsConfig = {}) {
@@ -43,7 +65,10 @@ export class AdvancedAnalytics {
       kx = 6,
       latticeSize = 64,
       E_0_ref = 1.0,
-      maxLogEntries = 1500
+      maxLogEntries = 1500,
+      spectrumInterval = 10,
+      thermodynamicsWindow = 500,
+      clusterTrailLength = 100
     } = config;
 
     this.E_0_ref = E_0_ref;
@@ -52,12 +77,26 @@ export class AdvancedAnalytics {
     this.driftMonitor = new DriftMonitor(E_0_ref);
     this.amplitudeTracker = new ModeAmplitudeTracker(kx, latticeSize);
     this.logger = new SimulationLogger(maxLogEntries);
+    this.spectrum = new SpectrumAnalyzer({ trackedModes: AdvancedAnalytics.harmonicsOf(kx) });
+    this.spectrumInterval = Math.max(1, Math.floor(spectrumInterval));
+    this.thermodynamics = new ThermodynamicsTracker(thermodynamicsWindow);
+    this.clusters = new ClusterTracker({ trailLength: clusterTrailLength });
+    this.domains = new DomainAnalyzer();
+  }
+
+  /**
+   * Tracked spectrum modes: k_x and its first harmonics along x
+   */
+  private static harmonicsOf(kx: number): WaveVector[] {
+    return [1, 2, 3].map(n => ({ kx: n * kx, ky: 0, kz: 0 }));
   }
 
   /**
    * Update all analytics with current simulation state
+   * @param time - Time to record (defaults to simulation.time)
+   * @param step - Step count on screen (defaults to simulation.stepCount)
    */
-  update(simulation: Simulation): void {
+  update(simulation: Simulation, time: number = simulation.time, step: number = simulation.stepCount): void {
     const lattice = simulation.lattice;
     const energies = lattice.calculateTotalEnergy();
     
@@ -71,9 +110,31 @@ export class AdvancedAnalytics {
     // Update amplitude tracker
     const amplitude = this.amplitudeTracker.calculateAmplitude(lattice);
     
+    // Analyze the full spectrum every spectrumInterval updates
+    if (this.updateCount % this.spectrumInterval === 0) {
+      this.spectrumSummary = this.spectrum.update(lattice, time);
+    }
+    this.updateCount++;
+
+    // Sample energy and magnetization of the lattice Hamiltonian
+    this.thermodynamics.update(MonteCarlo.measure(lattice), lattice.getNodeCount());
+
+    // Track anomaly clusters and spin domains once per step (paused frames would read as standing still);
+    // tracks start over when the state does not follow on from the last tracked one
+    const epoch = simulation.getEpoch();
+    if (step !== this.clusterStep || epoch !== this.clusterEpoch) {
+      if (this.clusterEpoch !== null && epoch !== this.clusterEpoch) {
+        this.clusters.reset();
+      }
+      this.clusters.update(lattice, step);
+      this.domains.update(lattice, step);
+      this.clusterStep = step;
+      this.clusterEpoch = epoch;
+    }
+
     // Log current state
     this.logger.log(
-      simulation.time,
+      time,
       energies.E_0,
       energies.E_sym,
       energies.E_asym,
@@ -100,6 +161,49 @@ export class AdvancedAnalytics {
     };
   }
 
+  /**
+   * Get the most recent spectrum summary (null before the first analysis)
+   */
+  getSpectrum(): SpectrumSummary | null {
+    return this.spectrumSummary;
+  }
+
+  /**
+   * Set the temperature of a thermal (Monte Carlo) run, or null for the
+   * reversible engines; χ and C are only reported at a positive temperature
+   */
+  setTemperature(temperature: number | null): void {
+    this.thermodynamics.setTemperature(temperature);
+  }
+
+  /**
+   * Get magnetization, susceptibility and specific heat over the sample window
+   */
+  getThermodynamics(): ThermodynamicsSummary {
+    return this.thermodynamics.getSummary();
+  }
+
+  /**
+   * Get the anomaly clusters of the last tracked step (null before the first)
+   */
+  getClusters(): ClusterSnapshot | null {
+    return this.clusters.getSnapshot();
+  }
+
+  /**
+   * Get the centroid trails of the largest anomaly clusters
+   */
+  getClusterTrails(maxClusters: number = 20): ClusterTrail[] {
+    return this.clusters.getTrails(maxClusters);
+  }
+
+  /**
+   * Get the domain wall and topology analysis of the last analyzed step
+   */
+  getDomains(): DomainSample | null {
+    return this.domains.getLatest();
+  }
+
   /**
    * Get formatted stats panel data
    */
@@ -107,15 +211,25 @@ export class AdvancedAnalytics {
     rho: string;
     drift: string;
     rmsAkx: string;
+    magnetization: string;
+    susceptibility: string;
+    specificHeat: string;
+    clusters: string;
   } {
     const stats = this.statistics.getSnapshot();
     const drift = this.driftMonitor.getMetrics();
     const amplitude = this.amplitudeTracker.getMetrics();
+    const thermo = this.thermodynamics.getSummary();
+    const clusters = this.clusters.getStatistics();
 
     return {
       rho: stats.correlation.toFixed(3),
       drift: `${drift.meanDrift.toFixed(5)} / ${drift.maxDrift.toFixed(5)}`,
-      rmsAkx: amplitude.rmsAmplitude.toFixed(4)
+      rmsAkx: amplitude.rmsAmplitude.toFixed(4),
+      magnetization: `${thermo.magnetization.toFixed(4)} / ${thermo.absMagnetization.toFixed(4)}`,
+      susceptibility: thermo.susceptibility === null ? '--' : thermo.susceptibility.toFixed(4),
+      specificHeat: thermo.specificHeat === null ? '--' : thermo.specificHeat.toFixed(4),
+      clusters: `${clusters.count} / ${clusters.largest}`
     };
   }
 
@@ -159,6 +273,7 @@ export class AdvancedAnalytics {
    */
   setKx(kx: number): void {
     this.amplitudeTracker.setKx(kx);
+    this.spectrum.setTrackedModes(AdvancedAnalytics.harmonicsOf(kx));
   }
 
   /**
@@ -169,6 +284,14 @@ export class AdvancedAnalytics {
     this.driftMonitor.reset();
     this.amplitudeTracker.reset();
     this.logger.clear();
+    this.spectrum.reset();
+    this.spectrumSummary = null;
+    this.thermodynamics.reset();
+    this.clusters.reset();
+    this.domains.reset();
+    this.clusterStep = null;
+    this.clusterEpoch = null;
+    this.updateCount = 0;
   }
 
   /**
@@ -187,6 +310,10 @@ export class AdvancedAnalytics {
       statistics: this.statistics,
       driftMonitor: this.driftMonitor,
       modeAmplitude: this.amplitudeTracker,
+      spectrum: this.spectrum,
+      thermodynamics: this.thermodynamics,
+      clusters: this.clusters,
+      domains: this.domains,
       logger: this.logger
     };
   }
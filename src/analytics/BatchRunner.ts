@@ -0,0 +1,367 @@
+/**
+ * BatchRunner - Headless parameter sweeps
+ *
+ * Expands a sweep specification over SimulationParams and the AuthorPhysics
+ * wave number k_x (and the Monte Carlo temperature) into a grid of points,
+ * runs each point for N steps and collects final StepStatistics,
+ * EnergyMetrics, thermodynamic averages and Photon Window results.
+ *
+ * Has no DOM dependencies, so it can be driven from Node/tsx
+ * (see scripts/run-sweep.ts) as well as from the browser.
+ */
+
+import { Lattice, LatticeDimensions, resolveDimensions } from '../core/Lattice.js';
+import { Simulation, SimulationParams, StepStatistics } from '../core/Simulation.js';
+import { AuthorPhysics, EnergyMetrics, FourierMode } from '../core/AuthorPhysics.js';
+import { SwapDynamics } from '../core/SwapDynamics.js';
+import { StochasticEngine } from '../core/StochasticEngine.js';
+import { PhysicsEngine, PhysicsEngineId } from '../core/PhysicsEngine.js';
+import { SeededRandom } from '../core/Random.js';
+import { BoundaryOption } from '../core/Boundary.js';
+import { InitialConditionSpec } from '../core/InitialConditions.js';
+import { REVERSIBLE_RULES, createReversibleRule } from '../core/ReversibleRules.js';
+import { MonteCarlo, MonteCarloAlgorithm } from '../core/MonteCarlo.js';
+import { PhotonWindowTest, PhotonWindowResult } from './PhotonWindowTest.js';
+import { ThermodynamicsTracker, ThermodynamicsSummary } from './ThermodynamicsTracker.js';
+import { analyzeCorrelation, CorrelationLength } from './CorrelationAnalyzer.js';
+
+export type SweepParameter =
+  | 'symmetryStrength'
+  | 'anomalyProbability'
+  | 'energyThreshold'
+  | 'interactionRange'
+  | 'waveSpeed'
+  | 'timeStep'
+  | 'J'
+  | 'Jx'
+  | 'Jy'
+  | 'Jz'
+  | 'h'
+  | 'E_0'
+  | 'temperature'
+  | 'k_x';
+
+/** Which PhysicsEngine drives each sweep point (thermal = Monte Carlo sweeps) */
+export type BatchEngine = PhysicsEngineId;
+
+/** Settings of the engines built by createBatchEngine */
+export interface BatchEngineOptions {
+  rule?: string; // Swap engine reversible rule id (author physics brings its own)
+  temperature?: number; // Thermal engine temperature (default 2.0)
+  algorithm?: MonteCarloAlgorithm; // Thermal engine update (default 'metropolis')
+}
+
+export interface SweepSpec {
+  latticeSize: number | LatticeDimensions; // N (cube) or Nx×Ny×Nz, depth 1 for 2D
+  steps: number;
+  engine?: BatchEngine;
+  boundary?: BoundaryOption; // Default periodic on every axis
+  baseParams?: Partial<SimulationParams>;
+  k_x?: number;
+  initialCondition?: InitialConditionSpec; // Author engine only; default cosine at k_x
+  rule?: string; // Author/swap engine reversible rule id (default 'margolus-swap')
+  temperature?: number; // Thermal engine temperature (default 2.0; sweepable)
+  algorithm?: MonteCarloAlgorithm; // Thermal engine update (default 'metropolis')
+  equilibrationSteps?: number; // Thermal sweeps before sampling starts (default steps / 2)
+  axes: Partial<Record<SweepParameter, number[]>>;
+  photonWindowSteps?: number; // 0 disables the Photon Window test
+  seed?: number; // Shared by every point (common random numbers)
+}
+
+export interface SweepPoint {
+  index: number;
+  values: Partial<Record<SweepParameter, number>>;
+}
+
+export interface BatchResultRow {
+  index: number;
+  values: Partial<Record<SweepParameter, number>>;
+  seed: number;
+  steps: number;
+  statistics: StepStatistics;
+  correlationLength: CorrelationLength; // Fitted spin correlation length of the final state
+  energy: EnergyMetrics;
+  fourier: FourierMode;
+  photonWindow: PhotonWindowResult | null;
+  thermodynamics: ThermodynamicsSummary; // Sampled every step after equilibration
+  initialCondition: InitialConditionSpec | null; // Applied condition (author engine)
+  durationMs: number;
+}
+
+/**
+ * Build the engine driving a headless run
+ * @param engine - Engine id
+ * @param simulation - Simulation whose seeded stream the thermal engine uses
+ * @param authorPhysics - Author physics instance (returned for 'author')
+ * @param options - Swap rule and thermal settings
+ */
+export function createBatchEngine(
+  engine: BatchEngine,
+  simulation: Simulation,
+  authorPhysics: AuthorPhysics,
+  options: BatchEngineOptions = {}
+): PhysicsEngine {
+  switch (engine) {
+    case 'author':
+      return authorPhysics;
+    case 'swap':
+      return options.rule ? new SwapDynamics(createReversibleRule(options.rule)) : new SwapDynamics();
+    case 'thermal':
+      return new MonteCarlo({ temperature: options.temperature ?? 2.0, algorithm: options.algorithm }, simulation.random);
+    default:
+      return new StochasticEngine();
+  }
+}
+
+export class BatchRunner {
+  private readonly spec: SweepSpec;
+  private readonly seed: number;
+
+  /**
+   * Create a new BatchRunner
+   * @param spec - Sweep specification
+   */
+  constructor(spec: SweepSpec) {
+    const { width, height, depth } = resolveDimensions(spec.latticeSize);
+    if (width < 2 || height < 2 || depth < 1) {
+      throw new Error(`Invalid lattice size: ${width}×${height}×${depth}`);
+    }
+    if (spec.steps < 0) {
+      throw new Error(`Invalid step count: ${spec.steps}`);
+    }
+    if (spec.rule !== undefined && !(spec.rule in REVERSIBLE_RULES)) {
+      throw new Error(`Unknown reversible rule: ${spec.rule}`);
+    }
+
+    this.spec = spec;
+    this.seed = spec.seed ?? SeededRandom.generateSeed();
+  }
+
+  /**
+   * Expand sweep axes into the cartesian product of all values
+   * @param axes - Values to sweep per parameter
+   * @returns Sweep points (a single empty point if no axes are given)
+   */
+  static expandSweep(axes: Partial<Record<SweepParameter, number[]>>): SweepPoint[] {
+    let combinations: Partial<Record<SweepParameter, number>>[] = [{}];
+
+    for (const [name, values] of Object.entries(axes) as [SweepParameter, number[]][]) {
+      if (!values || values.length === 0) continue;
+
+      const next: Partial<Record<SweepParameter, number>>[] = [];
+      for (const combination of combinations) {
+        for (const value of values) {
+          next.push({ ...combination, [name]: value });
+        }
+      }
+      combinations = next;
+    }
+
+    return combinations.map((values, index) => ({ index, values }));
+  }
+
+  /**
+   * Get the points this runner will execute
+   */
+  getPoints(): SweepPoint[] {
+    return BatchRunner.expandSweep(this.spec.axes);
+  }
+
+  /**
+   * Run every sweep point sequentially
+   * @param onProgress - Called after each point completes
+   * @returns One result row per sweep point
+   */
+  async run(
+    onProgress?: (row: BatchResultRow, completed: number, total: number) => void
+  ): Promise<BatchResultRow[]> {
+    const points = this.getPoints();
+    const rows: BatchResultRow[] = [];
+
+    for (const point of points) {
+      const row = await this.runPoint(point);
+      rows.push(row);
+      if (onProgress) {
+        onProgress(row, rows.length, points.length);
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Run a single sweep point
+   * @param point - Sweep point to run
+   * @returns Result row with final statistics
+   */
+  async runPoint(point: SweepPoint): Promise<BatchResultRow> {
+    const startTime = Date.now();
+    const { k_x: pointKx, temperature: pointTemperature, ...simulationValues } = point.values;
+    const { width, height, depth } = resolveDimensions(this.spec.latticeSize);
+    const k_x = pointKx ?? this.spec.k_x ?? 6;
+    const engine = this.spec.engine ?? 'stochastic';
+
+    const lattice = new Lattice(width, height, depth, undefined, this.spec.boundary ?? 'periodic');
+    const simulation = new Simulation(lattice, {
+      ...this.spec.baseParams,
+      ...simulationValues,
+      seed: this.seed
+    });
+    const authorPhysics = new AuthorPhysics(lattice, k_x, createReversibleRule(this.spec.rule ?? 'margolus-swap'));
+    authorPhysics.setInitialCondition(this.spec.initialCondition ?? null);
+    authorPhysics.setHamiltonian(lattice.getHamiltonian());
+    const temperature = pointTemperature ?? this.spec.temperature ?? 2.0;
+    const thermodynamics = new ThermodynamicsTracker(Math.max(1, this.spec.steps));
+    thermodynamics.setTemperature(engine === 'thermal' ? temperature : null);
+    const equilibration = this.spec.equilibrationSteps ?? Math.floor(this.spec.steps / 2);
+
+    simulation.setEngine(createBatchEngine(engine, simulation, authorPhysics, {
+      rule: this.spec.rule,
+      temperature,
+      algorithm: this.spec.algorithm
+    }));
+    simulation.initializeEngine();
+
+    for (let i = 0; i < this.spec.steps; i++) {
+      simulation.step();
+
+      if (i >= equilibration) {
+        thermodynamics.update(MonteCarlo.measure(lattice), lattice.getNodeCount());
+      }
+    }
+
+    const statistics = simulation.getStepStatistics();
+    const correlationLength = analyzeCorrelation(lattice).spin.correlationLength;
+    const energy = simulation.getEngine().calculateEnergy(lattice);
+    const fourier = authorPhysics.calculateFourierMode(lattice);
+    const photonWindow = await this.runPhotonWindow(simulation);
+
+    return {
+      index: point.index,
+      values: point.values,
+      seed: this.seed,
+      steps: this.spec.steps,
+      statistics,
+      correlationLength,
+      energy,
+      fourier,
+      photonWindow,
+      thermodynamics: thermodynamics.getSummary(),
+      initialCondition: simulation.initialCondition,
+      durationMs: Date.now() - startTime
+    };
+  }
+
+  /**
+   * Run the Photon Window test through the simulation's engine
+   */
+  private async runPhotonWindow(simulation: Simulation): Promise<PhotonWindowResult | null> {
+    const steps = this.spec.photonWindowSteps ?? 100;
+    if (steps <= 0) return null;
+
+    return new PhotonWindowTest().run(simulation, steps);
+  }
+
+  /**
+   * Convert result rows to CSV (one row per sweep point)
+   * @param rows - Result rows
+   * @returns CSV string with header
+   */
+  static toCSV(rows: BatchResultRow[]): string {
+    const parameters = Array.from(
+      new Set(rows.flatMap(row => Object.keys(row.values)))
+    ) as SweepParameter[];
+
+    const headers = [
+      'index',
+      ...parameters,
+      'seed',
+      'steps',
+      'vacuum',
+      'broken',
+      'anomalous',
+      'totalE_sym',
+      'totalE_asym',
+      'totalE_0',
+      'T_info',
+      'phaseCoherence',
+      'entropy',
+      'correlationLength',
+      'symmetryRatio',
+      'anomalyDensity',
+      'E_sym',
+      'E_asym',
+      'E_0',
+      'E_sym_norm',
+      'E_asym_norm',
+      'E_0_norm',
+      'H',
+      'A_kx',
+      'magnetization',
+      'abs_magnetization',
+      'susceptibility',
+      'specific_heat',
+      'photon_hamming',
+      'photon_ratio',
+      'photon_passed',
+      'photon_exact',
+      'photon_divergence',
+      'duration_ms'
+    ];
+
+    const lines = [headers.join(',')];
+
+    for (const row of rows) {
+      const { statistics: s, energy: e, photonWindow: p, thermodynamics: t } = row;
+      const values = [
+        row.index,
+        ...parameters.map(name => row.values[name] ?? ''),
+        row.seed,
+        row.steps,
+        s.vacuum,
+        s.broken,
+        s.anomalous,
+        s.totalE_sym,
+        s.totalE_asym,
+        s.totalE_0,
+        s.T_info,
+        s.phaseCoherence,
+        s.entropy,
+        Number.isFinite(row.correlationLength.length) ? row.correlationLength.length : '',
+        s.symmetryRatio,
+        s.anomalyDensity,
+        e.E_sym,
+        e.E_asym,
+        e.E_0,
+        e.E_sym_norm,
+        e.E_asym_norm,
+        e.E_0_norm,
+        e.H,
+        row.fourier.normalized,
+        t.magnetization,
+        t.absMagnetization,
+        t.susceptibility ?? '',
+        t.specificHeat ?? '',
+        p ? p.hammingDistance : '',
+        p ? p.reversibilityRatio : '',
+        p ? p.passed : '',
+        p ? p.exact : '',
+        p?.divergenceStep ?? '',
+        row.durationMs
+      ];
+      lines.push(values.join(','));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Convert result rows to JSON together with the sweep specification
+   * @param rows - Result rows
+   * @param spec - Sweep specification that produced the rows
+   * @returns Pretty-printed JSON string
+   */
+  static toJSON(rows: BatchResultRow[], spec?: SweepSpec): string {
+    return JSON.stringify({ spec, results: rows }, null, 2);
+  }
+}
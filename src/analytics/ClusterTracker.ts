@@ -0,0 +1,441 @@
+/**
+ * ClusterTracker - Connected anomalous regions tracked over time
+ *
+ * Each update labels the connected components (6-neighbour, across
+ * periodic and antiperiodic edges) of the nodes in the tracked states and
+ * matches them to the previous update's clusters by site overlap, falling
+ * back to the nearest centroid for small clusters that moved off their
+ * old sites. A cluster keeps its id while it continues; merges, splits,
+ * births and deaths are reported as events.
+ *
+ * Positions are in sites; centroids and velocities use the minimum image
+ * across wrapping edges, so a cluster crossing the seam does not jump.
+ */
+
+import type { Lattice } from '../core/Lattice.js';
+import type { NodeState } from '../core/Node.js';
+import { STATE_CODES } from '../core/LatticeStorage.js';
+import { axisOffset } from '../core/Boundary.js';
+
+export interface ClusterPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** One connected component of a labelling */
+export interface ClusterComponent {
+  label: number;
+  size: number;
+  centroid: ClusterPoint;
+}
+
+export interface ClusterLabelling {
+  labels: Int32Array; // Component label per site (-1: not in a cluster)
+  clusters: ClusterComponent[];
+}
+
+export interface ClusterLabellingOptions {
+  states?: NodeState[]; // Node states that form clusters (default broken and anomalous)
+  minSize?: number;     // Smaller components are ignored (default 1)
+}
+
+export interface TrackedCluster {
+  id: number;
+  size: number;
+  centroid: ClusterPoint;
+  velocity: ClusterPoint; // Sites per step (signed: stepping backward reverses it)
+  birthStep: number;
+  lifetime: number;       // Steps tracked so far
+  parentIds: number[];    // Clusters this one came from at the last update (merges list several)
+}
+
+export type ClusterEventType = 'birth' | 'death' | 'merge' | 'split';
+
+export interface ClusterEvent {
+  type: ClusterEventType;
+  step: number;
+  id: number;        // Born, ended, merged-into or split cluster
+  related: number[]; // Merge: the merged clusters; split: the pieces; death: cluster it merged into, if any
+}
+
+export interface ClusterTrail {
+  id: number;
+  points: ClusterPoint[]; // Oldest first
+}
+
+export interface ClusterSnapshot {
+  step: number;
+  clusters: TrackedCluster[];
+  events: ClusterEvent[]; // Events of this update
+}
+
+export interface ClusterStatistics {
+  count: number;
+  largest: number;
+  meanSize: number;
+  births: number;
+  deaths: number;
+  merges: number;
+  splits: number;
+  meanLifetime: number; // Of ended clusters
+  maxLifetime: number;  // Of all clusters, ended or alive
+}
+
+export interface ClusterTrackerConfig extends ClusterLabellingOptions {
+  trailLength?: number;   // Centroids kept per cluster (default 100)
+  matchDistance?: number; // Centroid distance for matching clusters without overlap (default 1.5)
+  maxEvents?: number;     // Events kept (default 1000)
+}
+
+interface Track extends TrackedCluster {
+  trail: ClusterPoint[];
+}
+
+const DEFAULT_STATES: NodeState[] = ['broken', 'anomalous'];
+
+/**
+ * Label the connected clusters of nodes in the given states
+ * @param lattice - Lattice to label
+ * @param options - Clustered states and minimum size
+ */
+export function labelClusters(lattice: Lattice, options: ClusterLabellingOptions = {}): ClusterLabelling {
+  const { width: W, height: H, depth: D } = lattice;
+  const n = W * H * D;
+  const codes = new Set((options.states ?? DEFAULT_STATES).map(state => STATE_CODES[state]));
+  const minSize = Math.max(1, options.minSize ?? 1);
+  const states = lattice.storage.states;
+  const wraps = (condition: string): boolean => condition === 'periodic' || condition === 'antiperiodic';
+  const wrapX = wraps(lattice.boundary.x), wrapY = wraps(lattice.boundary.y), wrapZ = wraps(lattice.boundary.z);
+
+  const labels = new Int32Array(n).fill(-1);
+  const visited = new Uint8Array(n);
+  const queue = new Int32Array(n);
+  // Unwrapped coordinates of the sites reached by the current search
+  const ux = new Int32Array(n), uy = new Int32Array(n), uz = new Int32Array(n);
+  const clusters: ClusterComponent[] = [];
+
+  const wrap = (value: number, size: number): number => ((value % size) + size) % size;
+
+  for (let seed = 0; seed < n; seed++) {
+    if (visited[seed] || !codes.has(states[seed])) continue;
+
+    visited[seed] = 1;
+    queue[0] = seed;
+    ux[seed] = seed % W;
+    uy[seed] = Math.floor(seed / W) % H;
+    uz[seed] = Math.floor(seed / (W * H));
+    let head = 0, tail = 1;
+    let sx = 0, sy = 0, sz = 0;
+
+    while (head < tail) {
+      const i = queue[head++];
+      const x = ux[i], y = uy[i], z = uz[i];
+      sx += x; sy += y; sz += z;
+
+      for (let d = 0; d < 6; d++) {
+        const axis = d >> 1;
+        const delta = d & 1 ? -1 : 1;
+        let nx = x, ny = y, nz = z;
+        if (axis === 0) nx += delta; else if (axis === 1) ny += delta; else nz += delta;
+
+        const cx = wrap(nx, W), cy = wrap(ny, H), cz = wrap(nz, D);
+        if ((cx !== nx && !wrapX) || (cy !== ny && !wrapY) || (cz !== nz && !wrapZ)) continue;
+
+        const j = cz * W * H + cy * W + cx;
+        if (visited[j] || !codes.has(states[j])) continue;
+
+        visited[j] = 1;
+        ux[j] = nx; uy[j] = ny; uz[j] = nz;
+        queue[tail++] = j;
+      }
+    }
+
+    if (tail < minSize) continue;
+
+    const label = clusters.length;
+    for (let k = 0; k < tail; k++) labels[queue[k]] = label;
+    clusters.push({
+      label,
+      size: tail,
+      centroid: {
+        x: wrapX ? wrap(sx / tail, W) : sx / tail,
+        y: wrapY ? wrap(sy / tail, H) : sy / tail,
+        z: wrapZ ? wrap(sz / tail, D) : sz / tail
+      }
+    });
+  }
+
+  return { labels, clusters };
+}
+
+export class ClusterTracker {
+  private readonly options: ClusterLabellingOptions;
+  private readonly trailLength: number;
+  private readonly matchDistance: number;
+  private readonly maxEvents: number;
+
+  private tracks: Map<number, Track> = new Map();
+  private ids: Int32Array = new Int32Array(0); // Track id per site at the last update (-1: none)
+  private events: ClusterEvent[] = [];
+  private lastSnapshot: ClusterSnapshot | null = null;
+  private lastStep: number | null = null;
+  private nextId = 1;
+  private counts = { births: 0, deaths: 0, merges: 0, splits: 0 };
+  private endedLifetimeSum = 0;
+  private maxLifetime = 0;
+
+  /**
+   * @param config - Clustered states, minimum size, trail length and matching distance
+   */
+  constructor(config: ClusterTrackerConfig = {}) {
+    this.options = { states: config.states ?? DEFAULT_STATES, minSize: config.minSize ?? 1 };
+    this.trailLength = Math.max(1, config.trailLength ?? 100);
+    this.matchDistance = config.matchDistance ?? 1.5;
+    this.maxEvents = Math.max(1, config.maxEvents ?? 1000);
+  }
+
+  /**
+   * Label the lattice and match its clusters to the previous update
+   * @param lattice - Current lattice
+   * @param step - Step count of this state (default: one past the last update)
+   */
+  update(lattice: Lattice, step: number = (this.lastStep ?? -1) + 1): ClusterSnapshot {
+    const { labels, clusters } = labelClusters(lattice, this.options);
+    if (this.ids.length !== labels.length) {
+      this.reset();
+      this.ids = new Int32Array(labels.length).fill(-1);
+    }
+
+    const dt = this.lastStep === null ? 0 : step - this.lastStep;
+    const events: ClusterEvent[] = [];
+
+    // Site overlap between previous tracks and new components
+    const overlaps = new Map<number, number>(); // key: trackId * clusters.length + label
+    for (let i = 0; i < labels.length; i++) {
+      const label = labels[i];
+      const id = this.ids[i];
+      if (label < 0 || id < 0) continue;
+      const key = id * clusters.length + label;
+      overlaps.set(key, (overlaps.get(key) ?? 0) + 1);
+    }
+
+    const parents: number[][] = clusters.map(() => []);
+    const children = new Map<number, number[]>();
+    const pairs: { id: number; label: number; overlap: number }[] = [];
+    for (const [key, overlap] of overlaps) {
+      const id = Math.floor(key / clusters.length);
+      const label = key % clusters.length;
+      pairs.push({ id, label, overlap });
+      parents[label].push(id);
+      if (!children.has(id)) children.set(id, []);
+      children.get(id)!.push(label);
+    }
+
+    // Clusters that lost all their sites: nearest new component without parents
+    for (const track of this.tracks.values()) {
+      if (children.has(track.id)) continue;
+      let best = -1, bestDistance = this.matchDistance;
+      for (const cluster of clusters) {
+        if (parents[cluster.label].length > 0) continue;
+        const distance = this.distance(lattice, track.centroid, cluster.centroid);
+        if (distance <= bestDistance) {
+          best = cluster.label;
+          bestDistance = distance;
+        }
+      }
+      if (best >= 0) {
+        pairs.push({ id: track.id, label: best, overlap: 0 });
+        parents[best].push(track.id);
+        children.set(track.id, [best]);
+      }
+    }
+
+    // Largest overlaps continue their track's id
+    pairs.sort((a, b) => b.overlap - a.overlap);
+    const assigned = new Int32Array(clusters.length).fill(-1);
+    const continued = new Set<number>();
+    for (const { id, label } of pairs) {
+      if (assigned[label] >= 0 || continued.has(id)) continue;
+      assigned[label] = id;
+      continued.add(id);
+    }
+
+    const next = new Map<number, Track>();
+    for (const cluster of clusters) {
+      const previous = assigned[cluster.label] >= 0 ? this.tracks.get(assigned[cluster.label])! : null;
+      const track: Track = previous
+        ? this.continueTrack(lattice, previous, cluster, dt)
+        : this.startTrack(cluster, step);
+      track.parentIds = [...parents[cluster.label]];
+      assigned[cluster.label] = track.id;
+      next.set(track.id, track);
+
+      if (!previous) {
+        events.push({ type: 'birth', step, id: track.id, related: track.parentIds });
+      }
+      if (track.parentIds.length > 1) {
+        events.push({ type: 'merge', step, id: track.id, related: track.parentIds });
+      }
+    }
+
+    for (const track of this.tracks.values()) {
+      const pieces = (children.get(track.id) ?? []).map(label => assigned[label]);
+      if (pieces.length > 1) {
+        events.push({ type: 'split', step, id: track.id, related: pieces });
+      }
+      if (!continued.has(track.id)) {
+        events.push({ type: 'death', step, id: track.id, related: pieces });
+        this.endedLifetimeSum += track.lifetime;
+        this.counts.deaths++;
+      }
+    }
+
+    for (const event of events) {
+      if (event.type === 'birth') this.counts.births++;
+      if (event.type === 'merge') this.counts.merges++;
+      if (event.type === 'split') this.counts.splits++;
+    }
+
+    for (let i = 0; i < labels.length; i++) {
+      this.ids[i] = labels[i] >= 0 ? assigned[labels[i]] : -1;
+    }
+    this.tracks = next;
+    this.lastStep = step;
+    this.events.push(...events);
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+
+    this.lastSnapshot = { step, clusters: this.getClusters(), events };
+    return this.lastSnapshot;
+  }
+
+  private startTrack(cluster: ClusterComponent, step: number): Track {
+    return {
+      id: this.nextId++,
+      size: cluster.size,
+      centroid: cluster.centroid,
+      velocity: { x: 0, y: 0, z: 0 },
+      birthStep: step,
+      lifetime: 0,
+      parentIds: [],
+      trail: [cluster.centroid]
+    };
+  }
+
+  private continueTrack(lattice: Lattice, track: Track, cluster: ClusterComponent, dt: number): Track {
+    const offset = this.offset(lattice, track.centroid, cluster.centroid);
+    const lifetime = track.lifetime + Math.abs(dt);
+    this.maxLifetime = Math.max(this.maxLifetime, lifetime);
+
+    const trail = [...track.trail, cluster.centroid];
+    if (trail.length > this.trailLength) trail.splice(0, trail.length - this.trailLength);
+
+    return {
+      ...track,
+      size: cluster.size,
+      centroid: cluster.centroid,
+      velocity: dt === 0 ? { x: 0, y: 0, z: 0 } : { x: offset.x / dt, y: offset.y / dt, z: offset.z / dt },
+      lifetime,
+      trail
+    };
+  }
+
+  private offset(lattice: Lattice, a: ClusterPoint, b: ClusterPoint): ClusterPoint {
+    return {
+      x: axisOffset(a.x, b.x, lattice.width, lattice.boundary.x),
+      y: axisOffset(a.y, b.y, lattice.height, lattice.boundary.y),
+      z: axisOffset(a.z, b.z, lattice.depth, lattice.boundary.z)
+    };
+  }
+
+  private distance(lattice: Lattice, a: ClusterPoint, b: ClusterPoint): number {
+    const { x, y, z } = this.offset(lattice, a, b);
+    return Math.sqrt(x * x + y * y + z * z);
+  }
+
+  /**
+   * Clusters alive at the last update, largest first
+   */
+  getClusters(): TrackedCluster[] {
+    return [...this.tracks.values()]
+      .map(track => this.toCluster(track))
+      .sort((a, b) => b.size - a.size);
+  }
+
+  /**
+   * A cluster alive at the last update (null if it has ended or never existed)
+   */
+  getCluster(id: number): TrackedCluster | null {
+    const track = this.tracks.get(id);
+    return track ? this.toCluster(track) : null;
+  }
+
+  private toCluster(track: Track): TrackedCluster {
+    return {
+      id: track.id,
+      size: track.size,
+      centroid: track.centroid,
+      velocity: track.velocity,
+      birthStep: track.birthStep,
+      lifetime: track.lifetime,
+      parentIds: track.parentIds
+    };
+  }
+
+  /**
+   * Result of the last update (null before the first)
+   */
+  getSnapshot(): ClusterSnapshot | null {
+    return this.lastSnapshot;
+  }
+
+  /**
+   * Recorded events, optionally only those from a step on
+   */
+  getEvents(sinceStep?: number): ClusterEvent[] {
+    return sinceStep === undefined ? [...this.events] : this.events.filter(e => e.step >= sinceStep);
+  }
+
+  /**
+   * Centroid trails of the clusters alive at the last update
+   * @param maxClusters - Only the largest clusters (default all)
+   */
+  getTrails(maxClusters: number = Infinity): ClusterTrail[] {
+    return [...this.tracks.values()]
+      .sort((a, b) => b.size - a.size)
+      .slice(0, maxClusters)
+      .map(track => ({ id: track.id, points: [...track.trail] }));
+  }
+
+  /**
+   * Counts of the current clusters and of all events since the last reset
+   */
+  getStatistics(): ClusterStatistics {
+    const sizes = [...this.tracks.values()].map(track => track.size);
+    return {
+      count: sizes.length,
+      largest: sizes.length > 0 ? Math.max(...sizes) : 0,
+      meanSize: sizes.length > 0 ? sizes.reduce((sum, size) => sum + size, 0) / sizes.length : 0,
+      ...this.counts,
+      meanLifetime: this.counts.deaths > 0 ? this.endedLifetimeSum / this.counts.deaths : 0,
+      maxLifetime: this.maxLifetime
+    };
+  }
+
+  /**
+   * Forget every cluster and event (e.g. after a reset or a history seek)
+   */
+  reset(): void {
+    this.tracks.clear();
+    this.ids.fill(-1);
+    this.events = [];
+    this.lastSnapshot = null;
+    this.lastStep = null;
+    this.nextId = 1;
+    this.counts = { births: 0, deaths: 0, merges: 0, splits: 0 };
+    this.endedLifetimeSum = 0;
+    this.maxLifetime = 0;
+  }
+}
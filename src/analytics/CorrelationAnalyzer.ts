@@ -0,0 +1,261 @@
+/**
+ * CorrelationAnalyzer - Spatial correlation functions and structure factors
+ *
+ * Exact over the whole lattice via the Wiener-Khinchin theorem: the field is
+ * transformed once, S(k) = |F(k)|² / N, and the connected correlation
+ * C(r) = ⟨δφ(0) δφ(r)⟩ is the inverse transform of |F(k)|² with the k = 0
+ * mode removed. Two fields are analyzed:
+ * - spin: the ±1 spins
+ * - state: the vacuum/broken/anomalous states, as the sum of the connected
+ *   correlations of their indicator fields (excess probability that two
+ *   sites a distance r apart share a state)
+ * C(r) is normalized to C(0) = 1 and averaged over shells of rounded
+ * minimum-image distance (r is the mean distance in the shell); S(k) over
+ * shells of |q|. The correlation length is fitted to C(r) ~ e^{-r/ξ}, with
+ * the standard error of the slope as its error bar.
+ *
+ * The transform uses the periodic DFT basis, as SpectrumAnalyzer does; for
+ * open or antiperiodic edges the correlations across the edge are those of
+ * the periodically continued field.
+ */
+
+import type { Lattice } from '../core/Lattice.js';
+import { STATE_CODES } from '../core/LatticeStorage.js';
+import { fft3D } from './FFT.js';
+
+export interface CorrelationLength {
+  length: number;         // ξ in lattice units
+  error: number | null;   // Standard error (null with fewer than 3 fit points)
+  points: number;         // Shells used by the fit
+}
+
+export interface FieldCorrelation {
+  r: number[];            // Mean distance of each shell
+  correlation: number[];  // C(r) / C(0) per shell
+  q: number[];            // Shell wave number |q|, in units of 1 / lattice spacing
+  structureFactor: number[]; // Mean S(q) per shell (S(0) includes the mean field)
+  variance: number;       // C(0): fluctuation of the field per site
+  correlationLength: CorrelationLength;
+}
+
+export interface CorrelationAnalysis {
+  spin: FieldCorrelation;
+  state: FieldCorrelation;
+}
+
+export interface CorrelationOptions {
+  cutoff?: number; // Fit shells while C(r) stays above this (default 0.05)
+}
+
+interface Shells {
+  rIndex: Int32Array;   // Distance shell of every displacement
+  qIndex: Int32Array;   // Wave number shell of every mode
+  rCounts: number[];
+  rSums: number[];      // Summed distance per shell
+  qCounts: number[];
+  dq: number;
+  fitRange: number;     // Largest shell that is complete
+}
+
+/**
+ * Shell tables for the minimum-image displacements and wave vectors
+ */
+function buildShells(width: number, height: number, depth: number): Shells {
+  const n = width * height * depth;
+  const half = [Math.floor(width / 2), Math.floor(height / 2), Math.floor(depth / 2)];
+  const dq = (2 * Math.PI) / Math.max(width, height, depth);
+  const rIndex = new Int32Array(n);
+  const qIndex = new Int32Array(n);
+  const rCounts: number[] = [];
+  const rSums: number[] = [];
+  const qCounts: number[] = [];
+
+  let i = 0;
+  for (let z = 0; z < depth; z++) {
+    const wz = z > half[2] ? z - depth : z;
+    for (let y = 0; y < height; y++) {
+      const wy = y > half[1] ? y - height : y;
+      for (let x = 0; x < width; x++, i++) {
+        const wx = x > half[0] ? x - width : x;
+
+        const distance = Math.sqrt(wx * wx + wy * wy + wz * wz);
+        const r = Math.round(distance);
+        const q = Math.round(2 * Math.PI * Math.hypot(wx / width, wy / height, wz / depth) / dq);
+        rIndex[i] = r;
+        qIndex[i] = q;
+        while (rCounts.length <= r) {
+          rCounts.push(0);
+          rSums.push(0);
+        }
+        while (qCounts.length <= q) qCounts.push(0);
+        rCounts[r]++;
+        rSums[r] += distance;
+        qCounts[q]++;
+      }
+    }
+  }
+
+  // Shells past half the smallest extent only cover some directions
+  // (depth 1 and 2 slabs are treated as 2D)
+  const extents = [width, height, depth].filter(extent => extent > 2);
+  const fitRange = extents.length > 0 ? Math.floor(Math.min(...extents) / 2) : 1;
+
+  return { rIndex, qIndex, rCounts, rSums, qCounts, dq, fitRange };
+}
+
+/**
+ * Add the structure factor and connected correlation of one field
+ * (correlation summed over displacements, structure factor over modes)
+ */
+function accumulateField(
+  field: Float64Array,
+  width: number,
+  height: number,
+  depth: number,
+  correlation: Float64Array,
+  structureFactor: Float64Array
+): void {
+  const n = field.length;
+  const re = Float64Array.from(field);
+  const im = new Float64Array(n);
+
+  fft3D(re, im, width, height, depth);
+  for (let k = 0; k < n; k++) {
+    const power = re[k] * re[k] + im[k] * im[k];
+    structureFactor[k] += power / n;
+    re[k] = power;
+    im[k] = 0;
+  }
+
+  // Removing the k = 0 mode subtracts the mean (connected correlation)
+  re[0] = 0;
+  fft3D(re, im, width, height, depth, true);
+  for (let r = 0; r < n; r++) {
+    correlation[r] += re[r] / n;
+  }
+}
+
+/**
+ * Fit C(r) ~ e^{-r/ξ} to the shells after r = 0 while C(r) > cutoff
+ * @param r - Distance of each shell (r[0] = 0)
+ * @param correlation - Normalized C(r) per shell
+ * @param cutoff - Smallest correlation still fitted
+ */
+export function fitCorrelationLength(r: number[], correlation: number[], cutoff: number = 0.05): CorrelationLength {
+  const xs: number[] = [0];
+  const ys: number[] = [0];
+  for (let shell = 1; shell < Math.min(r.length, correlation.length); shell++) {
+    if (!(correlation[shell] > cutoff)) break;
+    xs.push(r[shell]);
+    ys.push(Math.log(Math.min(1, correlation[shell])));
+  }
+
+  if (xs.length < 2) {
+    return { length: 0, error: null, points: 0 };
+  }
+
+  // Least squares through the fitted shells (C(0) = 1 anchors the line)
+  const n = xs.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let sxx = 0, sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) * (xs[i] - meanX);
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+  }
+  const slope = sxy / sxx;
+  if (!(slope < 0)) {
+    // Flat within the fit range: correlated beyond the lattice
+    return { length: Infinity, error: null, points: n - 1 };
+  }
+
+  let error: number | null = null;
+  if (n >= 3) {
+    let residuals = 0;
+    for (let i = 0; i < n; i++) {
+      const fit = meanY + slope * (xs[i] - meanX);
+      residuals += (ys[i] - fit) * (ys[i] - fit);
+    }
+    const slopeError = Math.sqrt(residuals / (n - 2) / sxx);
+    error = slopeError / (slope * slope);
+  }
+
+  return { length: -1 / slope, error, points: n - 1 };
+}
+
+/**
+ * Reduce the summed fields to shell averages and fit the correlation length
+ */
+function summarize(
+  correlation: Float64Array,
+  structureFactor: Float64Array,
+  shells: Shells,
+  cutoff: number
+): FieldCorrelation {
+  const cr = new Array<number>(shells.rCounts.length).fill(0);
+  const sq = new Array<number>(shells.qCounts.length).fill(0);
+  for (let i = 0; i < correlation.length; i++) {
+    cr[shells.rIndex[i]] += correlation[i];
+    sq[shells.qIndex[i]] += structureFactor[i];
+  }
+
+  // Round-off leaves a uniform field with a tiny nonzero variance
+  const variance = correlation[0] > 1e-12 ? correlation[0] : 0;
+  for (let r = 0; r < cr.length; r++) {
+    cr[r] = shells.rCounts[r] > 0 && variance > 0 ? cr[r] / shells.rCounts[r] / variance : 0;
+  }
+  for (let q = 0; q < sq.length; q++) {
+    sq[q] = shells.qCounts[q] > 0 ? sq[q] / shells.qCounts[q] : 0;
+  }
+
+  const r = shells.rSums.map((sum, shell) => (shells.rCounts[shell] > 0 ? sum / shells.rCounts[shell] : shell));
+  const fitShells = shells.fitRange + 1;
+
+  return {
+    r,
+    correlation: cr,
+    q: sq.map((_, q) => q * shells.dq),
+    structureFactor: sq,
+    variance,
+    correlationLength: variance > 0
+      ? fitCorrelationLength(r.slice(0, fitShells), cr.slice(0, fitShells), cutoff)
+      : { length: 0, error: null, points: 0 }
+  };
+}
+
+/**
+ * Compute the spin-spin and state-state correlation functions of the lattice
+ * @param lattice - Lattice to analyze
+ * @param options - Fit cutoff
+ */
+export function analyzeCorrelation(lattice: Lattice, options: CorrelationOptions = {}): CorrelationAnalysis {
+  const { width, height, depth } = lattice;
+  const { spins, states } = lattice.storage;
+  const n = spins.length;
+  const cutoff = options.cutoff ?? 0.05;
+  const shells = buildShells(width, height, depth);
+
+  const field = new Float64Array(n);
+  const spinCorrelation = new Float64Array(n);
+  const spinStructure = new Float64Array(n);
+  for (let i = 0; i < n; i++) field[i] = spins[i];
+  accumulateField(field, width, height, depth, spinCorrelation, spinStructure);
+
+  const stateCorrelation = new Float64Array(n);
+  const stateStructure = new Float64Array(n);
+  for (const code of Object.values(STATE_CODES)) {
+    let present = false;
+    for (let i = 0; i < n; i++) {
+      field[i] = states[i] === code ? 1 : 0;
+      present = present || field[i] > 0;
+    }
+    if (present) {
+      accumulateField(field, width, height, depth, stateCorrelation, stateStructure);
+    }
+  }
+
+  return {
+    spin: summarize(spinCorrelation, spinStructure, shells, cutoff),
+    state: summarize(stateCorrelation, stateStructure, shells, cutoff)
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * DomainAnalyzer - Domain walls and topology of the ±1 spin field
+ *
+ * Domains are connected regions of equal spin (nearest neighbours along
+ * the lattice bonds, so periodic edges join them). Measured per sample:
+ * - wall area: anti-aligned bonds (s_i·s_j·sign < 0, so a twisted edge of
+ *   a uniform lattice carries a wall), and its density per bond
+ * - domain count and size distribution (log2 bins), for each spin
+ * - Euler characteristic χ = V - E + F - C of each phase's site complex
+ *   (sites, bonds, plaquettes and cubes whose corners all carry that spin)
+ * - bubbles: domains of the minority spin, enclosed by the majority
+ * A coarsening exponent is fitted to the wall density history, L ~ t^n
+ * with L = 1 / wall density.
+ */
+
+import type { Lattice } from '../core/Lattice.js';
+
+export interface DomainSample {
+  step: number;
+  wallArea: number;         // Anti-aligned bonds
+  wallDensity: number;      // Wall area per bond
+  domainCount: number;
+  upDomains: number;
+  downDomains: number;
+  largestDomain: number;    // Sites
+  meanDomainSize: number;
+  eulerUp: number;          // χ of the +1 phase
+  eulerDown: number;        // χ of the -1 phase
+  bubbles: number;          // Domains of the minority spin
+  magnetization: number;    // Mean spin
+  sizeHistogram: number[];  // Domains with size in [2^k, 2^(k+1))
+}
+
+interface BondTables {
+  forward: [Int32Array, Int32Array, Int32Array]; // Forward neighbour per axis (-1: none)
+  sign: [Int8Array, Int8Array, Int8Array];       // Sign picked up across a twisted edge
+}
+
+/**
+ * Forward neighbour of every site along each axis (no self-bonds)
+ */
+function buildBondTables(lattice: Lattice): BondTables {
+  const { width: W, height: H, depth: D } = lattice;
+  const n = W * H * D;
+  const forward: BondTables['forward'] = [new Int32Array(n), new Int32Array(n), new Int32Array(n)];
+  const sign: BondTables['sign'] = [new Int8Array(n), new Int8Array(n), new Int8Array(n)];
+  const tables = [lattice.getForwardNeighbors('x'), lattice.getForwardNeighbors('y'), lattice.getForwardNeighbors('z')];
+
+  let i = 0;
+  for (let z = 0; z < D; z++) {
+    for (let y = 0; y < H; y++) {
+      for (let x = 0; x < W; x++, i++) {
+        const coords = [x, y, z];
+        for (let axis = 0; axis < 3; axis++) {
+          const next = tables[axis].next[coords[axis]];
+          const c = [x, y, z];
+          c[axis] = next;
+          const j = next < 0 ? -1 : lattice.getIndex(c[0], c[1], c[2]);
+          forward[axis][i] = j === i ? -1 : j;
+          sign[axis][i] = tables[axis].sign[coords[axis]];
+        }
+      }
+    }
+  }
+
+  return { forward, sign };
+}
+
+/**
+ * Euler characteristic of the sites whose spin equals `spin`
+ */
+function eulerCharacteristic(spins: Int8Array, { forward }: BondTables, spin: number): number {
+  const [fx, fy, fz] = forward;
+  const inSet = (i: number): boolean => i >= 0 && spins[i] === spin;
+  let V = 0, E = 0, F = 0, C = 0;
+
+  for (let i = 0; i < spins.length; i++) {
+    if (spins[i] !== spin) continue;
+    V++;
+
+    const x = fx[i], y = fy[i], z = fz[i];
+    if (inSet(x)) E++;
+    if (inSet(y)) E++;
+    if (inSet(z)) E++;
+
+    const xy = x >= 0 ? fy[x] : -1;
+    const xz = x >= 0 ? fz[x] : -1;
+    const yz = y >= 0 ? fz[y] : -1;
+    if (inSet(x) && inSet(y) && inSet(xy)) F++;
+    if (inSet(x) && inSet(z) && inSet(xz)) F++;
+    if (inSet(y) && inSet(z) && inSet(yz)) F++;
+
+    const xyz = xy >= 0 ? fz[xy] : -1;
+    if (inSet(x) && inSet(y) && inSet(z) && inSet(xy) && inSet(xz) && inSet(yz) && inSet(xyz)) C++;
+  }
+
+  return V - E + F - C;
+}
+
+/**
+ * Analyze the domains of the lattice spin field
+ * @param lattice - Lattice to analyze
+ * @param step - Step count recorded in the sample
+ */
+export function analyzeDomains(lattice: Lattice, step: number = 0): DomainSample {
+  const spins = lattice.storage.spins;
+  const n = spins.length;
+  const tables = buildBondTables(lattice);
+
+  // Union-find over aligned bonds and wall count (both signed: a twisted edge flips alignment)
+  const parent = new Int32Array(n);
+  for (let i = 0; i < n; i++) parent[i] = i;
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  let wallArea = 0;
+  let bonds = 0;
+  let magnetization = 0;
+  for (let i = 0; i < n; i++) {
+    magnetization += spins[i];
+    for (let axis = 0; axis < 3; axis++) {
+      const j = tables.forward[axis][i];
+      if (j < 0) continue;
+      bonds++;
+      if (spins[i] * spins[j] * tables.sign[axis][i] < 0) {
+        wallArea++;
+      } else {
+        const a = find(i), b = find(j);
+        if (a !== b) parent[a] = b;
+      }
+    }
+  }
+
+  const sizes = new Map<number, number>();
+  for (let i = 0; i < n; i++) {
+    const root = find(i);
+    sizes.set(root, (sizes.get(root) ?? 0) + 1);
+  }
+
+  let upDomains = 0, downDomains = 0, largestDomain = 0;
+  const sizeHistogram: number[] = [];
+  for (const [root, size] of sizes) {
+    if (spins[root] > 0) upDomains++; else downDomains++;
+    largestDomain = Math.max(largestDomain, size);
+    const bin = Math.floor(Math.log2(size));
+    while (sizeHistogram.length <= bin) sizeHistogram.push(0);
+    sizeHistogram[bin]++;
+  }
+
+  return {
+    step,
+    wallArea,
+    wallDensity: bonds > 0 ? wallArea / bonds : 0,
+    domainCount: sizes.size,
+    upDomains,
+    downDomains,
+    largestDomain,
+    meanDomainSize: sizes.size > 0 ? n / sizes.size : 0,
+    eulerUp: eulerCharacteristic(spins, tables, 1),
+    eulerDown: eulerCharacteristic(spins, tables, -1),
+    bubbles: magnetization >= 0 ? downDomains : upDomains,
+    magnetization: n > 0 ? magnetization / n : 0,
+    sizeHistogram
+  };
+}
+
+export class DomainAnalyzer {
+  private readonly maxSamples: number;
+  private samples: DomainSample[] = [];
+
+  /**
+   * @param maxSamples - Samples kept for the evolution history
+   */
+  constructor(maxSamples: number = 1000) {
+    this.maxSamples = Math.max(1, Math.floor(maxSamples));
+  }
+
+  /**
+   * Analyze the lattice and record the sample
+   * @param lattice - Current lattice
+   * @param step - Step count of this state
+   */
+  update(lattice: Lattice, step: number): DomainSample {
+    const sample = analyzeDomains(lattice, step);
+    this.samples.push(sample);
+    if (this.samples.length > this.maxSamples) {
+      this.samples.shift();
+    }
+    return sample;
+  }
+
+  /**
+   * Most recent sample (null before the first update)
+   */
+  getLatest(): DomainSample | null {
+    return this.samples[this.samples.length - 1] ?? null;
+  }
+
+  /**
+   * Recorded samples, oldest first
+   */
+  getHistory(): DomainSample[] {
+    return [...this.samples];
+  }
+
+  /**
+   * Fit L ~ t^n to the recorded samples, with L = 1 / wall density
+   * @returns The exponent n, or null with fewer than 3 usable samples
+   */
+  getCoarseningExponent(): number | null {
+    const points = this.samples
+      .filter(s => s.step > 0 && s.wallDensity > 0)
+      .map(s => ({ x: Math.log(s.step), y: -Math.log(s.wallDensity) }));
+    if (points.length < 3) return null;
+
+    const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    let covariance = 0, variance = 0;
+    for (const p of points) {
+      covariance += (p.x - meanX) * (p.y - meanY);
+      variance += (p.x - meanX) * (p.x - meanX);
+    }
+    return variance > 0 ? covariance / variance : null;
+  }
+
+  /**
+   * Clear the history
+   */
+  reset(): void {
+    this.samples = [];
+  }
+}
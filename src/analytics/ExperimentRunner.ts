@@ -0,0 +1,327 @@
+/**
+ * ExperimentRunner - Scripted experiment protocols
+ *
+ * A protocol is a JSON description of one run: lattice, engine, initial
+ * condition and a list of events (parameter changes, engine switches,
+ * perturbations, reversals, measurements, Photon Window tests, bookmarks)
+ * at given protocol steps. Event times count steps taken by the protocol,
+ * so "reverse at 700" means after 700 steps regardless of direction.
+ *
+ * Every step is sampled by a MetricsCollector. Like BatchRunner it has no
+ * DOM dependencies (see scripts/run-experiment.ts).
+ */
+
+import { Lattice, LatticeDimensions, resolveDimensions } from '../core/Lattice.js';
+import { Simulation, SimulationParams, StepStatistics } from '../core/Simulation.js';
+import { AuthorPhysics, EnergyMetrics, FourierMode } from '../core/AuthorPhysics.js';
+import { PhysicsEngine, PHYSICS_ENGINE_NAMES } from '../core/PhysicsEngine.js';
+import { SeededRandom } from '../core/Random.js';
+import { BoundaryOption } from '../core/Boundary.js';
+import { InitialConditionSpec } from '../core/InitialConditions.js';
+import { PerturbationSpec, getPerturbation, resolvePerturbation } from '../core/Perturbations.js';
+import { REVERSIBLE_RULES, createReversibleRule } from '../core/ReversibleRules.js';
+import { MonteCarlo, MonteCarloAlgorithm } from '../core/MonteCarlo.js';
+import { PhotonWindowTest, PhotonWindowResult } from './PhotonWindowTest.js';
+import { MetricsCollector } from './MetricsCollector.js';
+import { BatchEngine, createBatchEngine } from './BatchRunner.js';
+
+export type ExperimentAction =
+  | { type: 'setParams'; params?: Partial<SimulationParams>; k_x?: number; temperature?: number }
+  | { type: 'setEngine'; engine: BatchEngine; reinitialize?: boolean }
+  | { type: 'perturb'; perturbation: PerturbationSpec; duration?: number } // duration: continuous perturbations (default: until the end)
+  | { type: 'reverse' }
+  | { type: 'forward' }
+  | { type: 'measure'; label?: string }
+  | { type: 'photonTest'; steps?: number; label?: string }
+  | { type: 'bookmark'; label?: string };
+
+/** Action at a protocol step (0 = before the first step, `steps` = after the last) */
+export type ExperimentEvent = ExperimentAction & { at: number };
+
+export interface ExperimentProtocol {
+  name?: string;
+  description?: string;
+  latticeSize: number | LatticeDimensions; // N (cube) or Nx×Ny×Nz, depth 1 for 2D
+  steps: number; // Protocol steps (forward and backward)
+  engine?: BatchEngine; // Default 'author'
+  boundary?: BoundaryOption; // Default periodic on every axis
+  params?: Partial<SimulationParams>;
+  k_x?: number; // Default 6
+  initialCondition?: InitialConditionSpec; // Author engine only; default cosine at k_x
+  rule?: string; // Author/swap engine reversible rule id (default 'margolus-swap')
+  temperature?: number; // Thermal engine temperature (default 2.0)
+  algorithm?: MonteCarloAlgorithm;
+  seed?: number;
+  sampleInterval?: number; // MetricsCollector sampling interval in steps (default 1)
+  events?: ExperimentEvent[]; // Default none
+}
+
+export interface ExperimentMeasurement {
+  label: string;
+  at: number;
+  stepCount: number;
+  time: number;
+  engine: BatchEngine;
+  statistics: StepStatistics;
+  energy: EnergyMetrics;
+  fourier: FourierMode;
+}
+
+export interface ExperimentPhotonTest {
+  label: string;
+  at: number;
+  stepCount: number;
+  result: PhotonWindowResult;
+}
+
+export interface ExperimentPerturbation {
+  at: number;
+  stepCount: number;
+  spec: PerturbationSpec; // With defaults filled in
+  duration: number | null; // Steps a continuous perturbation stays active
+}
+
+export interface ExperimentResult {
+  name: string;
+  seed: number;
+  steps: number;
+  stalledSteps: number; // Backward steps with no history left
+  measurements: ExperimentMeasurement[];
+  photonTests: ExperimentPhotonTest[];
+  perturbations: ExperimentPerturbation[]; // Applied by the protocol (history forks may drop them from the active branch)
+  metrics: ReturnType<MetricsCollector['export']>;
+  final: ExperimentMeasurement;
+  protocol: ExperimentProtocol;
+  durationMs: number;
+}
+
+const ACTION_TYPES: ExperimentAction['type'][] = [
+  'setParams', 'setEngine', 'perturb', 'reverse', 'forward', 'measure', 'photonTest', 'bookmark'
+];
+
+export class ExperimentRunner {
+  private readonly protocol: ExperimentProtocol;
+  private readonly seed: number;
+  private readonly events: ExperimentEvent[];
+
+  /**
+   * Create a new ExperimentRunner
+   * @param protocol - Experiment protocol (validated here)
+   */
+  constructor(protocol: ExperimentProtocol) {
+    const { width, height, depth } = resolveDimensions(protocol.latticeSize);
+    if (width < 2 || height < 2 || depth < 1) {
+      throw new Error(`Invalid lattice size: ${width}×${height}×${depth}`);
+    }
+    if (!(protocol.steps >= 0)) {
+      throw new Error(`Invalid step count: ${protocol.steps}`);
+    }
+    if (protocol.rule !== undefined && !(protocol.rule in REVERSIBLE_RULES)) {
+      throw new Error(`Unknown reversible rule: ${protocol.rule}`);
+    }
+    if (protocol.engine !== undefined && !(protocol.engine in PHYSICS_ENGINE_NAMES)) {
+      throw new Error(`Unknown engine: ${protocol.engine}`);
+    }
+
+    for (const event of protocol.events ?? []) {
+      ExperimentRunner.validateEvent(event, protocol.steps);
+    }
+
+    this.protocol = protocol;
+    this.seed = protocol.seed ?? SeededRandom.generateSeed();
+    // Stable sort keeps the written order of events at the same step
+    this.events = [...(protocol.events ?? [])].sort((a, b) => a.at - b.at);
+  }
+
+  /**
+   * Parse and validate a protocol from JSON
+   */
+  static fromJSON(json: string): ExperimentRunner {
+    return new ExperimentRunner(JSON.parse(json) as ExperimentProtocol);
+  }
+
+  private static validateEvent(event: ExperimentEvent, steps: number): void {
+    if (!Number.isInteger(event.at) || event.at < 0 || event.at > steps) {
+      throw new Error(`Event at ${event.at} is outside the protocol (0..${steps})`);
+    }
+    if (!ACTION_TYPES.includes(event.type)) {
+      throw new Error(`Unknown experiment event: ${event.type}`);
+    }
+    if (event.type === 'perturb') {
+      resolvePerturbation(event.perturbation);
+    }
+    if (event.type === 'setEngine' && !(event.engine in PHYSICS_ENGINE_NAMES)) {
+      throw new Error(`Unknown engine: ${event.engine}`);
+    }
+  }
+
+  /**
+   * Run the protocol on a fresh simulation
+   * @param onProgress - Called every progressInterval steps
+   * @param progressInterval - Steps between progress callbacks; the run
+   *   yields to the event loop there (with or without a callback), so a page
+   *   or worker stays responsive to other messages
+   */
+  async run(
+    onProgress?: (completed: number, total: number) => void,
+    progressInterval: number = 50
+  ): Promise<ExperimentResult> {
+    const startTime = Date.now();
+    const protocol = this.protocol;
+    const { width, height, depth } = resolveDimensions(protocol.latticeSize);
+
+    const lattice = new Lattice(width, height, depth, undefined, protocol.boundary ?? 'periodic');
+    const simulation = new Simulation(lattice, { ...protocol.params, seed: this.seed });
+    const authorPhysics = new AuthorPhysics(lattice, protocol.k_x ?? 6, createReversibleRule(protocol.rule ?? 'margolus-swap'));
+    authorPhysics.setInitialCondition(protocol.initialCondition ?? null);
+    authorPhysics.setHamiltonian(lattice.getHamiltonian());
+    const collector = new MetricsCollector(simulation, {
+      maxDataPoints: Math.max(1000, protocol.steps + 1),
+      samplingInterval: protocol.sampleInterval ?? 1
+    });
+
+    // One instance per engine, so switching back keeps its phase
+    const engines = new Map<BatchEngine, PhysicsEngine>();
+    let engineId = protocol.engine ?? 'author';
+    const getEngine = (id: BatchEngine): PhysicsEngine => {
+      if (!engines.has(id)) {
+        engines.set(id, createBatchEngine(id, simulation, authorPhysics, {
+          rule: protocol.rule,
+          temperature: protocol.temperature,
+          algorithm: protocol.algorithm
+        }));
+      }
+      return engines.get(id)!;
+    };
+
+    simulation.setEngine(getEngine(engineId));
+    simulation.initializeEngine();
+    collector.collect();
+
+    const measurements: ExperimentMeasurement[] = [];
+    const photonTests: ExperimentPhotonTest[] = [];
+    const perturbations: ExperimentPerturbation[] = [];
+    let stalledSteps = 0;
+    let next = 0;
+
+    const measure = (label: string, at: number): ExperimentMeasurement => ({
+      label,
+      at,
+      stepCount: simulation.stepCount,
+      time: simulation.time,
+      engine: engineId,
+      statistics: simulation.getStepStatistics(),
+      energy: simulation.getEngine().calculateEnergy(lattice),
+      fourier: authorPhysics.calculateFourierMode(lattice)
+    });
+
+    for (let at = 0; at <= protocol.steps; at++) {
+      for (; next < this.events.length && this.events[next].at === at; next++) {
+        const event = this.events[next];
+
+        switch (event.type) {
+          case 'setParams':
+            if (event.params) simulation.updateParameters(event.params);
+            if (event.k_x !== undefined) authorPhysics.setKx(event.k_x);
+            if (event.temperature !== undefined) {
+              (getEngine('thermal') as MonteCarlo).configure({ temperature: event.temperature });
+            }
+            authorPhysics.setHamiltonian(lattice.getHamiltonian());
+            break;
+          case 'setEngine':
+            engineId = event.engine;
+            simulation.setEngine(getEngine(engineId));
+            if (event.reinitialize) simulation.initializeEngine();
+            break;
+          case 'perturb': {
+            const stepCount = simulation.stepCount;
+            if (getPerturbation(event.perturbation.id)?.continuous) {
+              const duration = event.duration ?? protocol.steps - at;
+              const scheduled = simulation.schedulePerturbation(event.perturbation, stepCount, duration);
+              perturbations.push({ at, stepCount, spec: scheduled.spec, duration });
+            } else {
+              const spec = simulation.applyPerturbation(event.perturbation);
+              perturbations.push({ at, stepCount, spec, duration: null });
+            }
+            break;
+          }
+          case 'reverse':
+            simulation.setDirection(-1);
+            break;
+          case 'forward':
+            simulation.setDirection(1);
+            break;
+          case 'measure':
+            measurements.push(measure(event.label ?? `step ${at}`, at));
+            break;
+          case 'photonTest': {
+            // The test runs forward then back; keep the protocol's direction
+            const direction = simulation.direction;
+            simulation.setDirection(1);
+            const result = await new PhotonWindowTest().run(simulation, event.steps ?? 100);
+            simulation.setDirection(direction);
+            photonTests.push({ label: event.label ?? `step ${at}`, at, stepCount: simulation.stepCount, result });
+            break;
+          }
+          case 'bookmark':
+            simulation.addBookmark(event.label ?? `step ${at}`, { experiment: protocol.name ?? null, at });
+            break;
+        }
+      }
+
+      if (at === protocol.steps) break;
+
+      const stats = simulation.step();
+      if ('success' in stats && !stats.success) stalledSteps++;
+      collector.collect();
+
+      if ((at + 1) % progressInterval === 0) {
+        onProgress?.(at + 1, protocol.steps);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    return {
+      name: protocol.name ?? 'experiment',
+      seed: this.seed,
+      steps: protocol.steps,
+      stalledSteps,
+      measurements,
+      photonTests,
+      perturbations,
+      metrics: collector.export(),
+      final: measure('final', protocol.steps),
+      protocol,
+      durationMs: Date.now() - startTime
+    };
+  }
+
+  /**
+   * One-line-per-item text summary of a result (for alerts and logs)
+   */
+  static summarize(result: ExperimentResult): string {
+    const lines = [`${result.name}: ${result.steps} steps, seed ${result.seed}, ${result.durationMs} ms`];
+
+    for (const m of [...result.measurements, result.final]) {
+      lines.push(
+        `  ${m.label} (step ${m.stepCount}): E_asym ${m.energy.E_asym.toFixed(3)}, ` +
+        `A_kx ${m.fourier.normalized.toFixed(4)}, broken ${m.statistics.broken}`
+      );
+    }
+    for (const test of result.photonTests) {
+      lines.push(`  Photon test ${test.label}: ${test.result.message}`);
+    }
+    if (result.stalledSteps > 0) {
+      lines.push(`  ${result.stalledSteps} backward steps had no history left`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Convert a result to pretty-printed JSON
+   */
+  static toJSON(result: ExperimentResult): string {
+    return JSON.stringify(result, null, 2);
+  }
+}
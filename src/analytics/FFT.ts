@@ -0,0 +1,159 @@
+/**
+ * FFT - Discrete Fourier transforms for lattice fields
+ *
+ * In-place complex transforms on split real/imaginary arrays. Power-of-two
+ * lengths use iterative radix-2 Cooley-Tukey; other lengths (e.g. N = 12)
+ * fall back to a direct DFT, which is fine for lattice line lengths.
+ *
+ * Convention: X[k] = Σ_n x[n] e^{-2πi k n / N} (forward, unnormalized).
+ */
+
+/**
+ * Transform a complex sequence in place
+ * @param re - Real parts
+ * @param im - Imaginary parts
+ * @param inverse - Compute the inverse transform (normalized by 1/N)
+ */
+export function fft1D(re: Float64Array, im: Float64Array, inverse: boolean = false): void {
+  const n = re.length;
+  if (n <= 1) return;
+
+  if ((n & (n - 1)) === 0) {
+    radix2(re, im, inverse);
+  } else {
+    directDFT(re, im, inverse);
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
+
+/**
+ * Transform a 3D field in place along every axis of extent > 1
+ * Data is laid out like LatticeStorage: index = (z * height + y) * width + x.
+ */
+export function fft3D(
+  re: Float64Array,
+  im: Float64Array,
+  width: number,
+  height: number,
+  depth: number,
+  inverse: boolean = false
+): void {
+  const strides = [1, width, width * height];
+  const extents = [width, height, depth];
+
+  for (let axis = 0; axis < 3; axis++) {
+    const n = extents[axis];
+    if (n <= 1) continue;
+
+    const stride = strides[axis];
+    const lineRe = new Float64Array(n);
+    const lineIm = new Float64Array(n);
+
+    // Visit the start of every line along this axis
+    for (let z = 0; z < (axis === 2 ? 1 : depth); z++) {
+      for (let y = 0; y < (axis === 1 ? 1 : height); y++) {
+        for (let x = 0; x < (axis === 0 ? 1 : width); x++) {
+          const start = (z * height + y) * width + x;
+
+          for (let i = 0; i < n; i++) {
+            lineRe[i] = re[start + i * stride];
+            lineIm[i] = im[start + i * stride];
+          }
+
+          fft1D(lineRe, lineIm, inverse);
+
+          for (let i = 0; i < n; i++) {
+            re[start + i * stride] = lineRe[i];
+            im[start + i * stride] = lineIm[i];
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Iterative radix-2 Cooley-Tukey (n must be a power of two)
+ */
+function radix2(re: Float64Array, im: Float64Array, inverse: boolean): void {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+
+  const sign = inverse ? 1 : -1;
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const angle = (sign * 2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Direct O(n²) DFT for lengths that are not powers of two
+ */
+function directDFT(re: Float64Array, im: Float64Array, inverse: boolean): void {
+  const n = re.length;
+  const sign = inverse ? 1 : -1;
+  const outRe = new Float64Array(n);
+  const outIm = new Float64Array(n);
+
+  for (let k = 0; k < n; k++) {
+    let sumRe = 0;
+    let sumIm = 0;
+
+    for (let t = 0; t < n; t++) {
+      const angle = (sign * 2 * Math.PI * ((k * t) % n)) / n;
+      const c = Math.cos(angle);
+      const s = Math.sin(angle);
+      sumRe += re[t] * c - im[t] * s;
+      sumIm += re[t] * s + im[t] * c;
+    }
+
+    outRe[k] = sumRe;
+    outIm[k] = sumIm;
+  }
+
+  re.set(outRe);
+  im.set(outIm);
+}
@@ -1,5 +1,6 @@
 import { Physics } from '../core/Physics.js';
 import { Simulation } from '../core/Simulation.js';
+import { analyzeCorrelation, CorrelationAnalysis } from './CorrelationAnalyzer.js';
 
  
 type AnyRecord = any;
@@ -40,7 +41,9 @@ interface TimeSeriesData {
     anomalies: number[];
   };
   entropy: number[];
-  correlationLength: number[];
+  correlationLength: (number | null)[];      // Fitted spin correlation length ξ (null: beyond the lattice)
+  correlationLengthError: (number | null)[]; // Its standard error
+  stateCorrelationLength: (number | null)[];
   phaseCoherence: number[];
   anomalyDensity: number[];
 }
@@ -76,6 +79,8 @@ interface CollectedData {
   symmetry: SymmetryMetrics;
   entropy: number;
   correlationLength: number;
+  correlationLengthError: number | null;
+  stateCorrelationLength: number;
   phaseCoherence: number;
   anomalyDensity: number;
 }
@@ -91,6 +96,13 @@ interface MetricsCallbacks {
   onDataCollected: ((data: CollectedData) => void) | null;
 }
 
+/**
+ * Time series store null for an unbounded fit (ξ = ∞ has no JSON form)
+ */
+function finiteOrNull(value: number): number | null {
+  return Number.isFinite(value) ? value : null;
+}
+
 /**
  * MetricsCollector class for real-time analytics and data collection
  * Collects, analyzes, and tracks simulation metrics over time
@@ -104,6 +116,7 @@ export class MetricsCollector {
   private eventThresholds: Record<string, number>;
   private lastValues: Record<string, number>;
   private sampleCount: number = 0;
+  private correlation: CorrelationAnalysis | null = null;
   private callbacks: MetricsCallbacks;
 
   constructor(simulation: Simulation, options: CollectorOptions = {}) {
@@ -132,6 +145,8 @@ export class MetricsCollector {
       },
       entropy: [],
       correlationLength: [],
+      correlationLengthError: [],
+      stateCorrelationLength: [],
       phaseCoherence: [],
       anomalyDensity: []
     };
@@ -200,7 +215,9 @@ export class MetricsCollector {
     };
     
     const entropy = Physics.calculateEntropy(lattice);
-    const correlationLength = Physics.calculateCorrelationLength(lattice);
+    this.correlation = analyzeCorrelation(lattice);
+    const { length: correlationLength, error: correlationLengthError } = this.correlation.spin.correlationLength;
+    const stateCorrelationLength = this.correlation.state.correlationLength.length;
     const phaseCoherence = Physics.calculatePhaseCoherence(lattice.nodes);
     const anomalyDensity = stats.anomalous / stats.total;
     
@@ -214,7 +231,9 @@ export class MetricsCollector {
     this.timeSeries.symmetry.asymmetric.push(symmetryMetrics.asymmetric);
     this.timeSeries.symmetry.anomalies.push(symmetryMetrics.anomalies);
     this.timeSeries.entropy.push(entropy);
-    this.timeSeries.correlationLength.push(correlationLength);
+    this.timeSeries.correlationLength.push(finiteOrNull(correlationLength));
+    this.timeSeries.correlationLengthError.push(correlationLengthError);
+    this.timeSeries.stateCorrelationLength.push(finiteOrNull(stateCorrelationLength));
     this.timeSeries.phaseCoherence.push(phaseCoherence);
     this.timeSeries.anomalyDensity.push(anomalyDensity);
     
@@ -238,6 +257,8 @@ export class MetricsCollector {
       symmetry: symmetryMetrics,
       entropy,
       correlationLength,
+      correlationLengthError,
+      stateCorrelationLength,
       phaseCoherence,
       anomalyDensity
     };
@@ -266,6 +287,8 @@ export class MetricsCollector {
       this.timeSeries.symmetry.anomalies.splice(0, removeCount);
       this.timeSeries.entropy.splice(0, removeCount);
       this.timeSeries.correlationLength.splice(0, removeCount);
+      this.timeSeries.correlationLengthError.splice(0, removeCount);
+      this.timeSeries.stateCorrelationLength.splice(0, removeCount);
       this.timeSeries.phaseCoherence.splice(0, removeCount);
       this.timeSeries.anomalyDensity.splice(0, removeCount);
     }
@@ -410,6 +433,14 @@ export class MetricsCollector {
     }
   }
 
+  /**
+   * Correlation functions and structure factors of the last sample
+   * (null before the first sample)
+   */
+  getCorrelation(): CorrelationAnalysis | null {
+    return this.correlation;
+  }
+
   getEvents(type: DetectedEvent['type'] | null = null): DetectedEvent[] {
     if (type) {
       return this.events.filter(e => e.type === type);
@@ -559,6 +590,7 @@ export class MetricsCollector {
     
     this.events = [];
     this.sampleCount = 0;
+    this.correlation = null;
     
     this.lastValues = {
       energy: 0,
@@ -5,7 +5,8 @@
  * its RMS value over time.
  */
 
-import { Lattice } from '../core/Lattice.js';
+import { Lattice, LatticeDimensions, resolveDimensions } from '../core/Lattice.js';
+import { BoundaryCondition, buildModeBasis } from '../core/Boundary.js';
 
 export interface AmplitudeMetrics {
   currentAmplitude: number;
@@ -16,8 +17,9 @@ export interface AmplitudeMetrics {
 
 export class ModeAmplitudeTracker {
   private kx: number;
-  private N: number;
+  private readonly dimensions: LatticeDimensions;
   private cosLUT: Float32Array;
+  private boundary: BoundaryCondition = 'periodic';
   private akSumSq = 0;
   private n = 0;
   private lastAmplitude = 0;
@@ -25,22 +27,19 @@ export class ModeAmplitudeTracker {
   /**
    * Create a new ModeAmplitudeTracker
    * @param kx - Wave number (mode index)
-   * @param N - Lattice size
+   * @param size - Lattice size N (cube) or the lattice dimensions
    */
-  constructor(kx: number, N: number) {
+  constructor(kx: number, size: number | LatticeDimensions) {
     this.kx = kx;
-    this.N = N;
-    this.cosLUT = new Float32Array(N);
-    this.rebuildLUT();
+    this.dimensions = resolveDimensions(size);
+    this.cosLUT = buildModeBasis(kx, this.dimensions.width, this.boundary);
   }
 
   /**
-   * Rebuild cosine lookup table when kx changes
+   * Rebuild the mode lookup table when kx or the x boundary changes
    */
   private rebuildLUT(): void {
-    for (let x = 0; x < this.N; x++) {
-      this.cosLUT[x] = Math.cos(2 * Math.PI * (this.kx * x) / this.N);
-    }
+    this.cosLUT = buildModeBasis(this.kx, this.dimensions.width, this.boundary);
   }
 
   /**
@@ -58,15 +57,22 @@ export class ModeAmplitudeTracker {
    * @returns Current amplitude
    */
   calculateAmplitude(lattice: Lattice): number {
+    const spins = lattice.storage.spins;
     let proj = 0;
     
-    // Project spins onto cosine basis
-    for (const node of lattice.nodes) {
-      proj += node.spin * this.cosLUT[node.position.x];
+    if (lattice.boundary.x !== this.boundary) {
+      this.boundary = lattice.boundary.x;
+      this.rebuildLUT();
+    }
+    
+    // Project spins onto the mode basis (x is the fastest-varying index)
+    for (let i = 0; i < spins.length; i++) {
+      proj += spins[i] * this.cosLUT[i % this.dimensions.width];
     }
     
     // Normalize by total number of nodes
-    const amplitude = Math.abs(proj) / (this.N * this.N * this.N);
+    const { width, height, depth } = this.dimensions;
+    const amplitude = Math.abs(proj) / (width * height * depth);
     
     // Update RMS accumulator
     this.akSumSq += amplitude * amplitude;
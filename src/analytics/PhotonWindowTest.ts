@@ -9,11 +9,16 @@
 
 import { Simulation } from '../core/Simulation.js';
 import { Lattice } from '../core/Lattice.js';
+import { AuthorPhysics } from '../core/AuthorPhysics.js';
+import { ReversibleRule, REVERSIBLE_RULES } from '../core/ReversibleRules.js';
+import { StateHasher, checkRoundTrip } from '../core/StateHasher.js';
 
 export interface PhotonWindowResult {
   hammingDistance: number;
   reversibilityRatio: number;
   passed: boolean;
+  exact: boolean;                // Bit-exact return (state hashes and spins match)
+  divergenceStep: number | null; // First step where backward and forward trajectories differed
   message: string;
   steps: number;
   timestamp: number;
@@ -23,7 +28,10 @@ export class PhotonWindowTest {
   private readonly PASS_THRESHOLD = 0.001; // 0.1% tolerance
 
   /**
-   * Run Photon Window test
+   * Run Photon Window test through the simulation's active engine
+   * (reversible engines run their inverse dynamics, irreversible ones
+   * step back through the saved history). The history is put back as it
+   * was, so the test leaves no entries or branches behind.
    * @param simulation - The simulation to test
    * @param steps - Number of forward/backward steps (default 300)
    * @returns Test result with Hamming distance and pass/fail status
@@ -40,16 +48,18 @@ export class PhotonWindowTest {
       simulation.pause();
     }
     
-    // Forward evolution
-    for (let i = 0; i < steps; i++) {
-      simulation.step();
-    }
-    
-    // Backward evolution
-    simulation.setDirection(-1);
-    for (let i = 0; i < steps; i++) {
-      simulation.step();
-    }
+    // Forward evolution, then backward evolution
+    const mark = simulation.getHistoryMark();
+    const hasher = new StateHasher(initialSpins.length);
+    const roundTrip = checkRoundTrip(
+      () => hasher.hashLattice(simulation.lattice, simulation.getEngine().getPhaseState().phaseStep),
+      () => simulation.step(),
+      () => {
+        simulation.setDirection(-1);
+        simulation.step();
+      },
+      steps
+    );
     simulation.setDirection(1);
     
     // Calculate Hamming distance
@@ -57,6 +67,7 @@ export class PhotonWindowTest {
     const hammingDistance = this.calculateHammingDistance(initialSpins, finalSpins);
     const ratio = hammingDistance / initialSpins.length;
     const passed = ratio < this.PASS_THRESHOLD;
+    simulation.restoreHistoryMark(mark);
     
     // Restore running state
     if (wasRunning) {
@@ -67,21 +78,103 @@ export class PhotonWindowTest {
       hammingDistance,
       reversibilityRatio: ratio,
       passed,
+      exact: roundTrip.exact && hammingDistance === 0,
+      divergenceStep: roundTrip.divergenceStep,
+      message: passed ? `OK ${ratio.toFixed(6)}` : `LOST ${ratio.toFixed(6)}`,
+      steps,
+      timestamp: Date.now() - startTime
+    };
+  }
+
+  /**
+   * Run Photon Window test with the author's swap dynamics
+   * @param authorPhysics - Author physics engine driving the lattice
+   * @param lattice - The lattice to test
+   * @param steps - Number of forward/backward steps (default 300)
+   * @returns Test result in the same shape as run()
+   */
+  async runAuthorPhysics(
+    authorPhysics: AuthorPhysics,
+    lattice: Lattice,
+    steps: number = 300
+  ): Promise<PhotonWindowResult> {
+    const startTime = Date.now();
+    const result = await authorPhysics.photonWindowTest(lattice, steps);
+
+    return {
+      hammingDistance: result.hammingDistance,
+      reversibilityRatio: result.ratio,
+      passed: result.passed,
+      exact: result.exact,
+      divergenceStep: result.divergenceStep,
+      message: result.message,
+      steps,
+      timestamp: Date.now() - startTime
+    };
+  }
+
+  /**
+   * Verify that a reversible rule undoes itself on the given lattice
+   * Runs the rule forward from phase 0 and back through its inverse phases;
+   * the lattice spins are restored afterwards.
+   * @param rule - Rule to verify
+   * @param lattice - Lattice providing the starting spins and boundaries
+   * @param steps - Number of forward/backward phases (default 300)
+   */
+  async verifyRule(rule: ReversibleRule, lattice: Lattice, steps: number = 300): Promise<PhotonWindowResult> {
+    const startTime = Date.now();
+    const initialSpins = this.captureSpins(lattice);
+    const cycle = rule.getCycleLength(lattice);
+    const hasher = new StateHasher(initialSpins.length);
+    let phase = 0;
+
+    const roundTrip = checkRoundTrip(
+      () => hasher.hashLattice(lattice, phase),
+      () => {
+        rule.applyPhase(lattice, phase);
+        phase = (phase + 1) % cycle;
+      },
+      () => {
+        phase = (phase + cycle - 1) % cycle;
+        rule.applyInversePhase(lattice, phase);
+      },
+      steps
+    );
+
+    const hammingDistance = this.calculateHammingDistance(initialSpins, this.captureSpins(lattice));
+    const ratio = hammingDistance / initialSpins.length;
+    const passed = ratio < this.PASS_THRESHOLD;
+    lattice.storage.spins.set(initialSpins);
+
+    return {
+      hammingDistance,
+      reversibilityRatio: ratio,
+      passed,
+      exact: roundTrip.exact && hammingDistance === 0,
+      divergenceStep: roundTrip.divergenceStep,
       message: passed ? `OK ${ratio.toFixed(6)}` : `LOST ${ratio.toFixed(6)}`,
       steps,
       timestamp: Date.now() - startTime
     };
   }
 
+  /**
+   * Verify every built-in reversible rule on the given lattice
+   * @returns Results keyed by rule id
+   */
+  async verifyRules(lattice: Lattice, steps: number = 300): Promise<Record<string, PhotonWindowResult>> {
+    const results: Record<string, PhotonWindowResult> = {};
+    for (const [id, createRule] of Object.entries(REVERSIBLE_RULES)) {
+      results[id] = await this.verifyRule(createRule(), lattice, steps);
+    }
+    return results;
+  }
+
   /**
    * Capture spin states from lattice
    */
   private captureSpins(lattice: Lattice): Int8Array {
-    const spins = new Int8Array(lattice.nodes.length);
-    for (let i = 0; i < lattice.nodes.length; i++) {
-      spins[i] = lattice.nodes[i].spin;
-    }
-    return spins;
+    return lattice.storage.spins.slice();
   }
 
   /**
@@ -102,7 +195,10 @@ export class PhotonWindowTest {
    */
   formatResult(result: PhotonWindowResult): string {
     const status = result.passed ? '✓' : '✗';
-    return `${status} Reversibility: ${result.message} (${result.hammingDistance}/${result.hammingDistance + (result.steps * 2)} nodes changed)`;
+    const exactness = result.exact
+      ? 'bit-exact'
+      : result.divergenceStep !== null ? `diverged at step ${result.divergenceStep}` : 'not exact';
+    return `${status} Reversibility: ${result.message} (${result.hammingDistance}/${result.hammingDistance + (result.steps * 2)} nodes changed, ${exactness})`;
   }
   
   /**
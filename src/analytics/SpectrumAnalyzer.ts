@@ -0,0 +1,265 @@
+/**
+ * SpectrumAnalyzer - Multi-mode Fourier analysis of the spin field
+ *
+ * Computes the full 1D/2D/3D discrete Fourier transform of the spins
+ * (axes of extent 1 are skipped, so a 2D slab gives the 2D spectrum),
+ * derives per-axis and radial power spectra, and tracks the complex
+ * amplitude (cosine and sine parts, phase) of chosen modes over time.
+ *
+ * The transform uses the periodic DFT basis; for other boundary conditions
+ * the spectrum still shows how power is distributed over wavelengths.
+ */
+
+import { Lattice, LatticeDimensions } from '../core/Lattice.js';
+import { fft3D } from './FFT.js';
+
+export interface WaveVector {
+  kx: number;
+  ky: number;
+  kz: number;
+}
+
+export interface ModeComponent {
+  k: WaveVector;
+  re: number;        // Σ s cos(k·r) / N_total
+  im: number;        // -Σ s sin(k·r) / N_total
+  amplitude: number; // |S(k)| / N_total
+  phase: number;     // arg S(k) in radians
+  power: number;     // |S(k)|² / N_total² (sums to 1 over all k)
+}
+
+export interface PowerSpectrum {
+  dimensions: LatticeDimensions;
+  power: Float64Array; // Full spectrum, indexed like LatticeStorage
+  axisPower: { x: Float64Array; y: Float64Array; z: Float64Array }; // Marginals over the other axes
+  radialPower: Float64Array; // Summed over shells of integer |k|
+  totalPower: number;
+}
+
+export interface ModeSample {
+  time: number;
+  modes: ModeComponent[];
+}
+
+/** Compact spectrum for charts and worker frames */
+export interface SpectrumSummary {
+  sequence: number;
+  time: number;
+  k: number[];     // 0 … floor(Nx / 2)
+  power: number[]; // P(k_x) with ±k folded together
+  modes: ModeComponent[];
+}
+
+export interface SpectrumAnalyzerConfig {
+  trackedModes?: WaveVector[];
+  maxHistory?: number;
+}
+
+export class SpectrumAnalyzer {
+  private trackedModes: WaveVector[];
+  private readonly maxHistory: number;
+  private history: ModeSample[] = [];
+  private re: Float64Array = new Float64Array(0);
+  private im: Float64Array = new Float64Array(0);
+  private dimensions: LatticeDimensions | null = null;
+  private lastSpectrum: PowerSpectrum | null = null;
+  private sequence = 0;
+
+  /**
+   * Create a new SpectrumAnalyzer
+   * @param config - Modes to track (default k = (1, 0, 0)) and history length
+   */
+  constructor(config: SpectrumAnalyzerConfig = {}) {
+    this.trackedModes = config.trackedModes ?? [{ kx: 1, ky: 0, kz: 0 }];
+    this.maxHistory = config.maxHistory ?? 1000;
+  }
+
+  /**
+   * Compute the power spectrum of the lattice spins
+   * @param lattice - The lattice to analyze
+   * @returns Full, per-axis and radial power spectra
+   */
+  analyze(lattice: Lattice): PowerSpectrum {
+    const { width, height, depth } = lattice;
+    const spins = lattice.storage.spins;
+    const size = spins.length;
+
+    if (this.re.length !== size) {
+      this.re = new Float64Array(size);
+      this.im = new Float64Array(size);
+    }
+    for (let i = 0; i < size; i++) {
+      this.re[i] = spins[i];
+    }
+    this.im.fill(0);
+    this.dimensions = { width, height, depth };
+
+    fft3D(this.re, this.im, width, height, depth);
+
+    const norm = 1 / (size * size);
+    const power = new Float64Array(size);
+    const axisPower = {
+      x: new Float64Array(width),
+      y: new Float64Array(height),
+      z: new Float64Array(depth)
+    };
+    const halfX = Math.floor(width / 2), halfY = Math.floor(height / 2), halfZ = Math.floor(depth / 2);
+    const radialPower = new Float64Array(Math.floor(Math.sqrt(halfX * halfX + halfY * halfY + halfZ * halfZ)) + 1);
+    let totalPower = 0;
+    let i = 0;
+
+    for (let kz = 0; kz < depth; kz++) {
+      const wz = kz > halfZ ? kz - depth : kz;
+      for (let ky = 0; ky < height; ky++) {
+        const wy = ky > halfY ? ky - height : ky;
+        for (let kx = 0; kx < width; kx++) {
+          const wx = kx > halfX ? kx - width : kx;
+          const p = (this.re[i] * this.re[i] + this.im[i] * this.im[i]) * norm;
+
+          power[i] = p;
+          axisPower.x[kx] += p;
+          axisPower.y[ky] += p;
+          axisPower.z[kz] += p;
+          radialPower[Math.min(radialPower.length - 1, Math.round(Math.sqrt(wx * wx + wy * wy + wz * wz)))] += p;
+          totalPower += p;
+          i++;
+        }
+      }
+    }
+
+    this.lastSpectrum = {
+      dimensions: { width, height, depth },
+      power,
+      axisPower,
+      radialPower,
+      totalPower
+    };
+
+    return this.lastSpectrum;
+  }
+
+  /**
+   * Get the complex amplitude of a mode from the last analysis
+   * Negative or out-of-range wave numbers wrap around (k ≡ k + N).
+   */
+  getMode(k: WaveVector): ModeComponent {
+    if (!this.dimensions) {
+      throw new Error('SpectrumAnalyzer.getMode called before analyze()');
+    }
+
+    const { width, height, depth } = this.dimensions;
+    const wrap = (value: number, n: number): number => ((value % n) + n) % n;
+    const index = (wrap(k.kz, depth) * height + wrap(k.ky, height)) * width + wrap(k.kx, width);
+    const size = width * height * depth;
+    const re = this.re[index] / size;
+    const im = this.im[index] / size;
+    const amplitude = Math.sqrt(re * re + im * im);
+
+    return {
+      k: { ...k },
+      re,
+      im,
+      amplitude,
+      phase: Math.atan2(im, re),
+      power: amplitude * amplitude
+    };
+  }
+
+  /**
+   * Analyze the lattice, record tracked modes and return a chart summary
+   * @param lattice - The lattice to analyze
+   * @param time - Simulation time of the sample
+   */
+  update(lattice: Lattice, time: number): SpectrumSummary {
+    const spectrum = this.analyze(lattice);
+    const modes = this.trackedModes.map(k => this.getMode(k));
+
+    this.history.push({ time, modes });
+    if (this.history.length > this.maxHistory) {
+      this.history.shift();
+    }
+
+    const folded = SpectrumAnalyzer.foldSpectrum(spectrum.axisPower.x);
+    this.sequence++;
+
+    return {
+      sequence: this.sequence,
+      time,
+      k: Array.from(folded, (_, index) => index),
+      power: Array.from(folded),
+      modes
+    };
+  }
+
+  /**
+   * Fold a 1D power spectrum of a real field so P(k) includes P(-k)
+   * @returns Power for k = 0 … floor(N / 2)
+   */
+  static foldSpectrum(power: Float64Array): Float64Array {
+    const n = power.length;
+    const half = Math.floor(n / 2);
+    const folded = new Float64Array(half + 1);
+
+    for (let k = 0; k <= half; k++) {
+      const mirror = (n - k) % n;
+      folded[k] = mirror === k ? power[k] : power[k] + power[mirror];
+    }
+
+    return folded;
+  }
+
+  /**
+   * Set the modes recorded by update()
+   */
+  setTrackedModes(modes: WaveVector[]): void {
+    this.trackedModes = modes.map(k => ({ ...k }));
+    this.history = [];
+  }
+
+  /**
+   * Get the modes recorded by update()
+   */
+  getTrackedModes(): WaveVector[] {
+    return this.trackedModes.map(k => ({ ...k }));
+  }
+
+  /**
+   * Get recorded tracked-mode samples
+   */
+  getHistory(): ModeSample[] {
+    return [...this.history];
+  }
+
+  /**
+   * Get the most recent power spectrum
+   */
+  getLastSpectrum(): PowerSpectrum | null {
+    return this.lastSpectrum;
+  }
+
+  /**
+   * Export tracked-mode history to CSV (amplitude and phase per mode)
+   */
+  exportHistoryToCSV(): string {
+    const labels = this.trackedModes.map(k => `k(${k.kx},${k.ky},${k.kz})`);
+    const header = ['t', ...labels.flatMap(label => [`${label}_amp`, `${label}_phase`])];
+    const lines = [header.join(',')];
+
+    for (const sample of this.history) {
+      const values = sample.modes.flatMap(mode => [mode.amplitude, mode.phase]);
+      lines.push([sample.time, ...values].join(','));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Clear history and the last spectrum
+   */
+  reset(): void {
+    this.history = [];
+    this.lastSpectrum = null;
+    this.dimensions = null;
+    this.sequence = 0;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * ThermodynamicsTracker - Magnetization, susceptibility and specific heat
+ *
+ * Keeps a rolling window of per-site energy and magnetization samples and
+ * estimates the fluctuation observables of a thermal run at temperature T:
+ *   χ = N (⟨m²⟩ - ⟨|m|⟩²) / T
+ *   C = N (⟨e²⟩ - ⟨e⟩²) / T²
+ * Without a temperature (reversible engines) only the averages are reported.
+ */
+
+import type { ThermodynamicSample } from '../core/MonteCarlo.js';
+
+export interface ThermodynamicsSummary {
+  temperature: number | null;
+  samples: number;
+  energy: number;                 // ⟨e⟩ per site
+  magnetization: number;          // ⟨m⟩
+  absMagnetization: number;       // ⟨|m|⟩
+  susceptibility: number | null;  // null without a positive temperature
+  specificHeat: number | null;    // null without a positive temperature
+}
+
+export class ThermodynamicsTracker {
+  private readonly energies: Float64Array;
+  private readonly magnetizations: Float64Array;
+  private count = 0;
+  private head = 0;
+  private sites = 1;
+  private temperature: number | null = null;
+
+  /**
+   * @param maxSamples - Size of the rolling sample window
+   */
+  constructor(maxSamples: number = 500) {
+    const size = Math.max(1, Math.floor(maxSamples));
+    this.energies = new Float64Array(size);
+    this.magnetizations = new Float64Array(size);
+  }
+
+  /**
+   * Set the ensemble temperature (null for non-thermal dynamics);
+   * clears the window, since samples from another ensemble do not mix
+   */
+  setTemperature(temperature: number | null): void {
+    if (temperature === this.temperature) return;
+    this.temperature = temperature;
+    this.reset();
+  }
+
+  /**
+   * Get the ensemble temperature
+   */
+  getTemperature(): number | null {
+    return this.temperature;
+  }
+
+  /**
+   * Record one sample
+   * @param sample - Per-site energy and magnetization
+   * @param sites - Number of lattice sites N
+   */
+  update(sample: ThermodynamicSample, sites: number): void {
+    this.sites = sites;
+    this.energies[this.head] = sample.energy;
+    this.magnetizations[this.head] = sample.magnetization;
+    this.head = (this.head + 1) % this.energies.length;
+    this.count = Math.min(this.count + 1, this.energies.length);
+  }
+
+  /**
+   * Get averages and fluctuation observables over the window
+   */
+  getSummary(): ThermodynamicsSummary {
+    const n = this.count;
+    let e = 0, e2 = 0, m = 0, absM = 0, m2 = 0;
+
+    for (let i = 0; i < n; i++) {
+      const energy = this.energies[i];
+      const magnetization = this.magnetizations[i];
+      e += energy;
+      e2 += energy * energy;
+      m += magnetization;
+      absM += Math.abs(magnetization);
+      m2 += magnetization * magnetization;
+    }
+
+    if (n > 0) {
+      e /= n; e2 /= n; m /= n; absM /= n; m2 /= n;
+    }
+
+    const T = this.temperature;
+    const thermal = T !== null && T > 0 && n > 1;
+
+    return {
+      temperature: T,
+      samples: n,
+      energy: e,
+      magnetization: m,
+      absMagnetization: absM,
+      susceptibility: thermal ? (this.sites * (m2 - absM * absM)) / T : null,
+      specificHeat: thermal ? (this.sites * (e2 - e * e)) / (T * T) : null
+    };
+  }
+
+  /**
+   * Clear all samples
+   */
+  reset(): void {
+    this.count = 0;
+    this.head = 0;
+  }
+}
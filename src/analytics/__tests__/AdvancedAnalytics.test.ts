@@ -66,6 +66,27 @@ describe('AdvancedAnalytics', () => {
       const metrics = analytics.getMetrics();
       expect(metrics.logEntryCount).toBe(10);
     });
+
+    test('should start cluster tracks over after a history seek', () => {
+      simulation.params.seed = 3;
+      simulation.reset();
+      for (let i = 0; i < 6; i++) {
+        simulation.step();
+        analytics.update(simulation);
+      }
+      const tracked = analytics.getClusters()!.clusters;
+      expect(tracked.length).toBeGreaterThan(0);
+      expect(Math.max(...tracked.map(cluster => cluster.lifetime))).toBeGreaterThan(0);
+
+      simulation.seekToStep(2);
+      analytics.update(simulation);
+
+      const clusters = analytics.getClusters()!.clusters;
+      expect(clusters.length).toBeGreaterThan(0);
+      for (const cluster of clusters) {
+        expect(cluster).toMatchObject({ birthStep: 2, lifetime: 0 });
+      }
+    });
   });
 
   describe('Stats Panel Data', () => {
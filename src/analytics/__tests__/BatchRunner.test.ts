@@ -0,0 +1,68 @@
+/**
+ * Tests for BatchRunner
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { BatchRunner } from '../BatchRunner.js';
+
+describe('BatchRunner', () => {
+  test('should expand axes into their cartesian product', () => {
+    const points = BatchRunner.expandSweep({
+      symmetryStrength: [0.3, 0.5, 0.7],
+      k_x: [2, 4]
+    });
+
+    expect(points).toHaveLength(6);
+    expect(points[0].values).toEqual({ symmetryStrength: 0.3, k_x: 2 });
+    expect(points[5].values).toEqual({ symmetryStrength: 0.7, k_x: 4 });
+  });
+
+  test('should run a single point when no axes are given', () => {
+    expect(BatchRunner.expandSweep({})).toHaveLength(1);
+  });
+
+  test('should run a simulation sweep headlessly', async () => {
+    const runner = new BatchRunner({
+      latticeSize: 4,
+      steps: 3,
+      seed: 7,
+      photonWindowSteps: 2,
+      axes: { anomalyProbability: [0.1, 0.4] }
+    });
+
+    const rows = await runner.run();
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].seed).toBe(7);
+    expect(rows[0].statistics.total).toBe(64);
+    expect(rows[0].photonWindow).not.toBeNull();
+  });
+
+  test('should be reproducible for the same seed', async () => {
+    const spec = { latticeSize: 4, steps: 5, seed: 11, photonWindowSteps: 0, axes: {} };
+
+    const [a] = await new BatchRunner(spec).run();
+    const [b] = await new BatchRunner(spec).run();
+
+    expect(a.statistics.totalE_asym).toBe(b.statistics.totalE_asym);
+    expect(a.energy).toEqual(b.energy);
+  });
+
+  test('should pass the Photon Window test for author dynamics', async () => {
+    const runner = new BatchRunner({
+      latticeSize: 4,
+      steps: 12,
+      engine: 'author',
+      photonWindowSteps: 20,
+      axes: { k_x: [1, 2] }
+    });
+
+    const rows = await runner.run();
+    const csv = BatchRunner.toCSV(rows);
+
+    expect(rows.every(row => row.photonWindow?.passed)).toBe(true);
+    expect(rows.every(row => row.energy.E_0_norm === 1)).toBe(true);
+    expect(csv.split('\n')).toHaveLength(3);
+    expect(csv.split('\n')[0]).toContain('k_x');
+  });
+});
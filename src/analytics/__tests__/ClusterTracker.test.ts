@@ -0,0 +1,70 @@
+/**
+ * Tests for ClusterTracker
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ClusterTracker, labelClusters } from '../ClusterTracker.js';
+import { Lattice } from '../../core/Lattice.js';
+import { STATE_CODES } from '../../core/LatticeStorage.js';
+
+function setBroken(lattice: Lattice, sites: [number, number][]): void {
+  lattice.storage.states.fill(STATE_CODES.vacuum);
+  for (const [x, y] of sites) {
+    lattice.storage.states[lattice.getIndex(x, y)] = STATE_CODES.broken;
+  }
+}
+
+const row = (y: number, from: number, to: number): [number, number][] =>
+  Array.from({ length: to - from + 1 }, (_, i) => [from + i, y]);
+
+describe('ClusterTracker', () => {
+  test('should label clusters across periodic edges only', () => {
+    const lattice = new Lattice(10, 10, 1, undefined, 'periodic');
+    setBroken(lattice, [[9, 5], [0, 5], [4, 4], [5, 5]]);
+
+    const { clusters } = labelClusters(lattice);
+    expect(clusters.map(c => c.size)).toEqual([1, 2, 1]);
+    expect(clusters[1].centroid).toEqual({ x: 9.5, y: 5, z: 0 });
+
+    lattice.setBoundary('open');
+    expect(labelClusters(lattice).clusters).toHaveLength(4);
+    expect(labelClusters(lattice, { minSize: 2 }).clusters).toHaveLength(0);
+  });
+
+  test('should track motion, births, deaths, merges and splits', () => {
+    const lattice = new Lattice(10, 10, 1, undefined, 'periodic');
+    const tracker = new ClusterTracker();
+
+    setBroken(lattice, [...row(1, 1, 2), [7, 7]]);
+    tracker.update(lattice, 0);
+    const [a, b] = [1, 2];
+
+    // A moves right, B vanishes
+    setBroken(lattice, row(1, 2, 3));
+    let snapshot = tracker.update(lattice, 1);
+    expect(snapshot.clusters).toEqual([expect.objectContaining({ id: a, size: 2, velocity: { x: 1, y: 0, z: 0 }, lifetime: 1 })]);
+    expect(snapshot.events).toEqual([{ type: 'death', step: 1, id: b, related: [] }]);
+
+    // C appears, then a bridge merges A into the larger C
+    setBroken(lattice, [...row(1, 2, 3), ...row(1, 5, 7)]);
+    const c = tracker.update(lattice, 2).events[0].id;
+    setBroken(lattice, row(1, 2, 7));
+    snapshot = tracker.update(lattice, 3);
+    expect(snapshot.clusters.map(cluster => cluster.id)).toEqual([c]);
+    expect(snapshot.events).toEqual([
+      { type: 'merge', step: 3, id: c, related: [a, c] },
+      { type: 'death', step: 3, id: a, related: [c] }
+    ]);
+
+    // Removing the bridge splits C again
+    setBroken(lattice, [...row(1, 2, 3), ...row(1, 5, 7)]);
+    snapshot = tracker.update(lattice, 4);
+    const piece = snapshot.clusters.find(cluster => cluster.id !== c)!;
+    expect(snapshot.events).toEqual([
+      { type: 'birth', step: 4, id: piece.id, related: [c] },
+      { type: 'split', step: 4, id: c, related: [piece.id, c] }
+    ]);
+    expect(tracker.getTrails(1)[0]).toEqual({ id: c, points: [{ x: 6, y: 1, z: 0 }, { x: 4.5, y: 1, z: 0 }, { x: 6, y: 1, z: 0 }] });
+    expect(tracker.getStatistics()).toMatchObject({ count: 2, births: 4, deaths: 2, merges: 1, splits: 1, meanLifetime: 1 });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for CorrelationAnalyzer
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { analyzeCorrelation, fitCorrelationLength } from '../CorrelationAnalyzer.js';
+import { MetricsCollector } from '../MetricsCollector.js';
+import { Lattice } from '../../core/Lattice.js';
+import { Simulation } from '../../core/Simulation.js';
+import { STATE_CODES } from '../../core/LatticeStorage.js';
+
+function fill(lattice: Lattice, spin: (x: number, y: number) => number): Lattice {
+  for (let y = 0; y < lattice.height; y++) {
+    for (let x = 0; x < lattice.width; x++) {
+      lattice.storage.spins[lattice.getIndex(x, y, 0)] = spin(x, y);
+    }
+  }
+  return lattice;
+}
+
+describe('CorrelationAnalyzer', () => {
+  test('should compute exact correlations and structure factor of a checkerboard', () => {
+    const lattice = fill(new Lattice(8, 8, 1), (x, y) => ((x + y) % 2 === 0 ? 1 : -1));
+    lattice.storage.states.fill(STATE_CODES.vacuum);
+    lattice.storage.states[0] = STATE_CODES.anomalous;
+    const { spin, state } = analyzeCorrelation(lattice);
+
+    // Shell 1 mixes nearest (C = -1) and diagonal (C = +1) neighbours
+    expect(spin.variance).toBeCloseTo(1);
+    expect(spin.correlation[0]).toBeCloseTo(1);
+    expect(spin.r[1]).toBeCloseTo((1 + Math.SQRT2) / 2);
+    expect(spin.correlation[1]).toBeCloseTo(0);
+    expect(spin.correlationLength).toEqual({ length: 0, error: null, points: 0 });
+
+    // All power sits at q = (π, π), |q| = π√2
+    const peak = spin.structureFactor.indexOf(Math.max(...spin.structureFactor));
+    expect(spin.q[peak]).toBeCloseTo(Math.PI * Math.SQRT2, 0);
+    expect(spin.structureFactor[peak]).toBeCloseTo(64);
+
+    // One anomalous site: correlated with itself only
+    expect(state.variance).toBeCloseTo(2 * (1 / 64) * (63 / 64));
+    expect(state.correlation[1]).toBeLessThan(0);
+  });
+
+  test('should fit an exponential correlation length with an error bar', () => {
+    const exact = fitCorrelationLength([0, 1, 2, 3, 4], [1, Math.exp(-0.5), Math.exp(-1), Math.exp(-1.5), 0.01]);
+    expect(exact.length).toBeCloseTo(2);
+    expect(exact.error).toBeCloseTo(0);
+    expect(exact.points).toBe(3);
+
+    const noisy = fitCorrelationLength([0, 1, 2, 3], [1, 0.6, 0.3, 0.2]);
+    expect(noisy.error).toBeGreaterThan(0);
+
+    // A uniform field has no fluctuations to correlate
+    expect(analyzeCorrelation(fill(new Lattice(6, 6, 1), () => 1)).spin.correlationLength.length).toBe(0);
+  });
+
+  test('should feed the fitted length into MetricsCollector', () => {
+    const lattice = new Lattice(8, 8, 1);
+    const simulation = new Simulation(lattice);
+    fill(lattice, x => (x < 4 ? 1 : -1));
+    const collector = new MetricsCollector(simulation);
+    const data = collector.collect()!;
+    const correlation = collector.getCorrelation()!;
+
+    expect(data.correlationLength).toBe(correlation.spin.correlationLength.length);
+    expect(data.correlationLength).toBeGreaterThan(1);
+    expect(collector.export().timeSeries.correlationLengthError).toEqual([correlation.spin.correlationLength.error]);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for DomainAnalyzer
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { DomainAnalyzer, analyzeDomains } from '../DomainAnalyzer.js';
+import { Lattice } from '../../core/Lattice.js';
+
+function fill(lattice: Lattice, spin: (x: number, y: number, z: number) => number): Lattice {
+  for (let z = 0; z < lattice.depth; z++) {
+    for (let y = 0; y < lattice.height; y++) {
+      for (let x = 0; x < lattice.width; x++) {
+        lattice.storage.spins[lattice.getIndex(x, y, z)] = spin(x, y, z);
+      }
+    }
+  }
+  return lattice;
+}
+
+describe('DomainAnalyzer', () => {
+  test('should measure walls, domains and Euler characteristics in 2D', () => {
+    // Uniform torus: no walls, χ = 0
+    expect(analyzeDomains(fill(new Lattice(8, 8, 1, undefined, 'periodic'), () => 1))).toMatchObject({
+      wallArea: 0, domainCount: 1, eulerUp: 0, eulerDown: 0, bubbles: 0
+    });
+
+    // A 2×2 bubble of -1 straddling the periodic edge
+    const bubble = analyzeDomains(fill(new Lattice(8, 8, 1, undefined, 'periodic'), (x, y) => ((x === 7 || x === 0) && y < 2 ? -1 : 1)));
+    expect(bubble).toMatchObject({
+      wallArea: 8,
+      wallDensity: 8 / 128,
+      domainCount: 2,
+      upDomains: 1,
+      largestDomain: 60,
+      eulerUp: -1, // Torus with a hole
+      eulerDown: 1,
+      bubbles: 1,
+      sizeHistogram: [0, 0, 1, 0, 0, 1]
+    });
+
+    // Stripes wrap into cylinders (χ = 0); on an open lattice they are disks
+    expect(analyzeDomains(fill(new Lattice(8, 8, 1, undefined, 'periodic'), x => (x < 4 ? 1 : -1)))).toMatchObject({ wallArea: 16, domainCount: 2, eulerUp: 0 });
+    expect(analyzeDomains(fill(new Lattice(8, 8, 1, undefined, 'open'), x => (x < 4 ? 1 : -1)))).toMatchObject({ wallArea: 8, eulerUp: 1, eulerDown: 1 });
+
+    // Across a twisted seam opposite spins are aligned: one wall, one domain
+    const twisted = new Lattice(8, 8, 1, undefined, { x: 'antiperiodic', y: 'periodic', z: 'periodic' });
+    expect(analyzeDomains(fill(twisted, x => (x < 4 ? 1 : -1)))).toMatchObject({ wallArea: 8, domainCount: 1 });
+  });
+
+  test('should count cubes in 3D', () => {
+    const sample = analyzeDomains(fill(new Lattice(6, 6, 6, undefined, 'periodic'), (x, y, z) => (x < 2 && y < 2 && z < 2 ? -1 : 1)));
+    expect(sample).toMatchObject({ wallArea: 24, domainCount: 2, eulerDown: 1, bubbles: 1 });
+  });
+
+  test('should fit the coarsening exponent of the wall density', () => {
+    const analyzer = new DomainAnalyzer();
+    // Stripes of width t^(1/2) at step t
+    for (const step of [1, 4, 16, 64]) {
+      const width = Math.sqrt(step);
+      analyzer.update(fill(new Lattice(64, 4, 1, undefined, 'periodic'), x => (Math.floor(x / width) % 2 === 0 ? 1 : -1)), step);
+    }
+    expect(analyzer.getHistory()).toHaveLength(4);
+    expect(analyzer.getCoarseningExponent()).toBeCloseTo(0.5, 5);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Tests for ExperimentRunner
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ExperimentRunner, ExperimentProtocol } from '../ExperimentRunner.js';
+
+const protocol: ExperimentProtocol = {
+  name: 'anomaly round trip',
+  latticeSize: { width: 6, height: 6, depth: 2 },
+  steps: 24,
+  seed: 5,
+  events: [
+    { at: 0, type: 'measure', label: 'start' },
+    { at: 6, type: 'perturb', perturbation: { id: 'spinFlip', params: { x: 3, y: 3, radius: 1 } } },
+    { at: 6, type: 'measure', label: 'perturbed' },
+    { at: 12, type: 'reverse' },
+    { at: 18, type: 'measure', label: 'reversed' },
+    { at: 18, type: 'forward' },
+    { at: 24, type: 'photonTest', steps: 4 }
+  ]
+};
+
+describe('ExperimentRunner', () => {
+  test('should run events at their protocol steps', async () => {
+    const result = await new ExperimentRunner(protocol).run();
+
+    expect(result.measurements.map(m => [m.label, m.stepCount])).toEqual([
+      ['start', 0],
+      ['perturbed', 6],
+      ['reversed', 6]
+    ]);
+    // Reversing to the perturbation returns to its state
+    expect(result.measurements[1].energy).not.toEqual(result.measurements[0].energy);
+    expect(result.measurements[2].energy).toEqual(result.measurements[1].energy);
+    expect(result.measurements[2].fourier).toEqual(result.measurements[1].fourier);
+    expect(result.final.stepCount).toBe(12);
+    expect(result.perturbations).toEqual([
+      { at: 6, stepCount: 6, spec: { id: 'spinFlip', params: { x: 3, y: 3, z: 0, radius: 1 } }, duration: null }
+    ]);
+    expect(result.photonTests[0].result.exact).toBe(true);
+    expect(result.metrics.timeSeries.time).toHaveLength(25);
+  });
+
+  test('should be reproducible for the same seed', async () => {
+    const [a, b] = [await new ExperimentRunner(protocol).run(), await new ExperimentRunner(protocol).run()];
+
+    expect(a.final.energy).toEqual(b.final.energy);
+    expect(a.metrics.timeSeries).toEqual(b.metrics.timeSeries);
+  });
+
+  test('should reject invalid events', () => {
+    expect(() => new ExperimentRunner({ ...protocol, events: [{ at: 30, type: 'measure' }] })).toThrow('outside');
+    expect(() => new ExperimentRunner({
+      ...protocol,
+      events: [{ at: 1, type: 'perturb', perturbation: { id: 'missing', params: {} } }]
+    })).toThrow('Unknown perturbation');
+  });
+});
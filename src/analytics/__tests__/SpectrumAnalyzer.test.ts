@@ -0,0 +1,51 @@
+/**
+ * Tests for SpectrumAnalyzer and FFT
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { SpectrumAnalyzer } from '../SpectrumAnalyzer.js';
+import { fft1D } from '../FFT.js';
+import { Lattice } from '../../core/Lattice.js';
+import { SeededRandom } from '../../core/Random.js';
+
+describe('SpectrumAnalyzer', () => {
+  test.each([8, 12])('should round-trip the FFT for length %i', n => {
+    const input = Array.from({ length: n }, (_, i) => Math.sin(i) + i / n);
+    const re = Float64Array.from(input);
+    const im = new Float64Array(n);
+
+    fft1D(re, im);
+    fft1D(re, im, true);
+
+    re.forEach((value, i) => expect(value).toBeCloseTo(input[i], 10));
+  });
+
+  test('should find a shifted square wave mode with its phase', () => {
+    const lattice = new Lattice(12, 4, 1);
+    const k = 3;
+    for (let x = 0; x < 12; x++) {
+      for (let y = 0; y < 4; y++) {
+        // Half-site shift: S(k) picks up a phase of π k / N
+        lattice.getNode(x, y, 0)!.spin = Math.cos(2 * Math.PI * k * (x + 0.5) / 12) > 0 ? 1 : -1;
+      }
+    }
+
+    const analyzer = new SpectrumAnalyzer({ trackedModes: [{ kx: k, ky: 0, kz: 0 }] });
+    const summary = analyzer.update(lattice, 0);
+    const peak = summary.power.indexOf(Math.max(...summary.power));
+
+    expect(peak).toBe(k);
+    expect(summary.modes[0].phase).toBeCloseTo(Math.PI / 4, 10);
+    expect(summary.modes[0].amplitude).toBeGreaterThan(0.5);
+  });
+
+  test('should conserve total power (Parseval)', () => {
+    const lattice = new Lattice(8, 6, 4, new SeededRandom(5));
+    const spectrum = new SpectrumAnalyzer().analyze(lattice);
+    const radialTotal = spectrum.radialPower.reduce((sum, p) => sum + p, 0);
+
+    // Unit spins: Σ|s|² / N_total = 1
+    expect(spectrum.totalPower).toBeCloseTo(1, 10);
+    expect(radialTotal).toBeCloseTo(1, 10);
+  });
+});
@@ -19,5 +19,66 @@ export type { AmplitudeMetrics } from './ModeAmplitudeTracker.js';
 export { SimulationLogger } from './SimulationLogger.js';
 export type { LogEntry } from './SimulationLogger.js';
 
+export { SpectrumAnalyzer } from './SpectrumAnalyzer.js';
+export type {
+  WaveVector,
+  ModeComponent,
+  PowerSpectrum,
+  ModeSample,
+  SpectrumSummary,
+  SpectrumAnalyzerConfig
+} from './SpectrumAnalyzer.js';
+export { fft1D, fft3D } from './FFT.js';
+
+export { ThermodynamicsTracker } from './ThermodynamicsTracker.js';
+export type { ThermodynamicsSummary } from './ThermodynamicsTracker.js';
+
+export { ClusterTracker, labelClusters } from './ClusterTracker.js';
+export type {
+  ClusterPoint,
+  ClusterComponent,
+  ClusterLabelling,
+  ClusterLabellingOptions,
+  TrackedCluster,
+  ClusterEvent,
+  ClusterEventType,
+  ClusterTrail,
+  ClusterSnapshot,
+  ClusterStatistics,
+  ClusterTrackerConfig
+} from './ClusterTracker.js';
+
+export { DomainAnalyzer, analyzeDomains } from './DomainAnalyzer.js';
+export type { DomainSample } from './DomainAnalyzer.js';
+
+export { analyzeCorrelation, fitCorrelationLength } from './CorrelationAnalyzer.js';
+export type {
+  CorrelationLength,
+  FieldCorrelation,
+  CorrelationAnalysis,
+  CorrelationOptions
+} from './CorrelationAnalyzer.js';
+
 export { AdvancedAnalytics } from './AdvancedAnalytics.js';
 export type { AdvancedMetrics, AdvancedAnalyticsConfig } from './AdvancedAnalytics.js';
+
+export { BatchRunner, createBatchEngine } from './BatchRunner.js';
+export type {
+  SweepSpec,
+  SweepPoint,
+  SweepParameter,
+  BatchEngine,
+  BatchEngineOptions,
+  BatchResultRow
+} from './BatchRunner.js';
+
+export { ExperimentRunner } from './ExperimentRunner.js';
+export type {
+  ExperimentProtocol,
+  ExperimentAction,
+  ExperimentEvent,
+  ExperimentMeasurement,
+  ExperimentPerturbation,
+  ExperimentPhotonTest,
+  ExperimentResult
+} from './ExperimentRunner.js';
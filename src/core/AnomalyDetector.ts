@@ -78,7 +78,7 @@ export class AnomalyDetector {
         
         // Auto-mark if enabled
         if (this.autoMark && node.state !== 'anomalous') {
-          node.setState('anomalous');
+          node.setState('anomalous', lattice.random);
           node.omega = anomaly.omega;
         }
       }
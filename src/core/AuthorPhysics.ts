@@ -10,62 +10,108 @@
  * 3. Photon Window Test is the primary validation method
  */
 
-import { Lattice } from './Lattice.js';
+import { Lattice, LatticeDimensions, resolveDimensions } from './Lattice.js';
+import { BoundaryCondition, buildModeBasis } from './Boundary.js';
+import { InitialConditionSpec, applyInitialCondition } from './InitialConditions.js';
+import { ReversibleRule, createReversibleRule } from './ReversibleRules.js';
+import { StateHasher, RecurrenceResult, checkRoundTrip, findRecurrence } from './StateHasher.js';
+import { Hamiltonian, EnergyMetrics } from './Hamiltonian.js';
+import type { PhysicsEngine, EnginePhaseState } from './PhysicsEngine.js';
 
-export interface SwapPhase {
-  axis: 'x' | 'y' | 'z';
-  parity: 0 | 1;
-}
-
-export interface EnergyMetrics {
-  E_sym: number;      // Symmetric energy (aligned spins)
-  E_asym: number;     // Asymmetric energy (misaligned spins)
-  E_0: number;        // Total energy (should be constant)
-  E_sym_norm: number; // Normalized E_sym
-  E_asym_norm: number;// Normalized E_asym
-  E_0_norm: number;   // Normalized E_0 (should ≈ 1)
-}
+export type { SwapPhase } from './ReversibleRules.js';
+export type { EnergyMetrics } from './Hamiltonian.js';
 
 export interface FourierMode {
   k_x: number;        // Wave number
-  amplitude: number;  // |Σ s_i × cos(2π k_x x / N)|
-  normalized: number; // amplitude / (N³)
+  amplitude: number;  // |Σ s_i × φ_k(x)|, φ_k = cos(2π k_x x / N) for periodic x
+  normalized: number; // amplitude / (Nx × Ny × Nz)
 }
 
 /**
  * AuthorPhysics implements the exact algorithm from the reference
  */
-export class AuthorPhysics {
-  private readonly phases: SwapPhase[] = [
-    { axis: 'x', parity: 0 },
-    { axis: 'y', parity: 1 },
-    { axis: 'z', parity: 0 },
-    { axis: 'x', parity: 1 },
-    { axis: 'y', parity: 0 },
-    { axis: 'z', parity: 1 }
-  ];
-
+export class AuthorPhysics implements PhysicsEngine {
+  readonly id = 'author' as const;
+  readonly name = 'Author physics';
+  readonly reversible = true;
+  readonly spinsOnly = true;
+
+  // Reversible update rule (default: Margolus 6-phase swap, 4 phases on a 2D slab)
+  private rule: ReversibleRule;
   private phaseStep: number = 0;
-  private cosLUT: Float32Array;
+  private modeLUT: Float32Array;
+  private modeBoundary: BoundaryCondition = 'periodic';
   private k_x: number;
-  private N: number;
-  private E_0_REF: number;
+  private readonly Nx: number;
+  private readonly Ny: number;
+  private readonly Nz: number;
+  private initialCondition: InitialConditionSpec | null = null; // null = cosine at k_x
+  private hasher: StateHasher | null = null;
+  private hamiltonian: Hamiltonian = new Hamiltonian();
 
-  constructor(latticeSize: number, k_x: number = 6) {
-    this.N = latticeSize;
+  /**
+   * @param latticeSize - N for an N×N×N cube, or the lattice dimensions (e.g. the Lattice itself)
+   * @param k_x - Wave number along x
+   * @param rule - Reversible rule driving step()/reverseStep()
+   */
+  constructor(
+    latticeSize: number | LatticeDimensions,
+    k_x: number = 6,
+    rule: ReversibleRule = createReversibleRule('margolus-swap')
+  ) {
+    const { width, height, depth } = resolveDimensions(latticeSize);
+    this.Nx = width;
+    this.Ny = height;
+    this.Nz = depth;
     this.k_x = k_x;
-    this.E_0_REF = 3 * this.N * this.N * this.N;
-    this.cosLUT = new Float32Array(this.N);
-    this.rebuildCosLUT();
+    this.modeLUT = buildModeBasis(this.k_x, this.Nx, this.modeBoundary);
+    this.rule = rule;
+  }
+
+  /**
+   * Replace the reversible rule (restarts the phase cycle)
+   */
+  setRule(rule: ReversibleRule): void {
+    this.rule = rule;
+    this.phaseStep = 0;
+  }
+
+  /**
+   * Get the reversible rule driving the dynamics
+   */
+  getRule(): ReversibleRule {
+    return this.rule;
+  }
+
+  /**
+   * Set the coupling constants used by calculateEnergy
+   * (the swap dynamics themselves do not depend on them)
+   */
+  setHamiltonian(hamiltonian: Hamiltonian): void {
+    this.hamiltonian = hamiltonian;
+  }
+
+  /**
+   * Get the coupling constants used by calculateEnergy
+   */
+  getHamiltonian(): Hamiltonian {
+    return this.hamiltonian;
+  }
+
+  private getDimensions(): LatticeDimensions {
+    return { width: this.Nx, height: this.Ny, depth: this.Nz };
   }
 
   /**
-   * Rebuild cosine lookup table for Fourier calculation
+   * Get the Fourier basis along x for the lattice's x boundary
+   * (rebuilt when k_x or the boundary changes)
    */
-  private rebuildCosLUT(): void {
-    for (let x = 0; x < this.N; x++) {
-      this.cosLUT[x] = Math.cos(2 * Math.PI * (this.k_x * x) / this.N);
+  private getModeLUT(lattice: Lattice): Float32Array {
+    if (lattice.boundary.x !== this.modeBoundary) {
+      this.modeBoundary = lattice.boundary.x;
+      this.modeLUT = buildModeBasis(this.k_x, this.Nx, this.modeBoundary);
     }
+    return this.modeLUT;
   }
 
   /**
@@ -73,144 +119,88 @@ export class AuthorPhysics {
    */
   setKx(k_x: number): void {
     this.k_x = k_x;
-    this.rebuildCosLUT();
+    this.modeLUT = buildModeBasis(this.k_x, this.Nx, this.modeBoundary);
   }
 
   /**
-   * Initialize lattice with cosine wave pattern
+   * Choose the initial condition used by initializeLattice
+   * @param condition - Registered condition, or null for the cosine pattern at the current k_x
    */
-  initializeLattice(lattice: Lattice): void {
-    for (let z = 0; z < this.N; z++) {
-      for (let y = 0; y < this.N; y++) {
-        for (let x = 0; x < this.N; x++) {
-          const node = lattice.getNode(x, y, z);
-          if (!node) continue;
-
-          const u = Math.cos(2 * Math.PI * (this.k_x * x) / this.N);
-          node.spin = u >= 0 ? 1 : -1;
-        }
-      }
-    }
-    this.phaseStep = 0;
+  setInitialCondition(condition: InitialConditionSpec | null): void {
+    this.initialCondition = condition ? { id: condition.id, params: { ...condition.params } } : null;
   }
 
   /**
-   * Execute one swap phase (core dynamics)
+   * Get the initial condition used by initializeLattice (for exports)
    */
-  private doSwapPhase(lattice: Lattice, phase: SwapPhase): void {
-    const { axis, parity } = phase;
-    
-    // Create temporary array to store new spins
-    const newSpins = new Map<string, number>();
-
-    for (let z = 0; z < this.N; z++) {
-      for (let y = 0; y < this.N; y++) {
-        for (let x = 0; x < this.N; x++) {
-          // Only process nodes matching parity
-          if (((x + y + z) & 1) !== parity) continue;
-
-          const node = lattice.getNode(x, y, z);
-          if (!node) continue;
-
-          // Find neighbor based on axis
-          let xn = x, yn = y, zn = z;
-          if (axis === 'x') xn = (x + 1) % this.N;
-          else if (axis === 'y') yn = (y + 1) % this.N;
-          else zn = (z + 1) % this.N;
-
-          const neighbor = lattice.getNode(xn, yn, zn);
-          if (!neighbor) continue;
-
-          // Swap spins
-          const key1 = `${x},${y},${z}`;
-          const key2 = `${xn},${yn},${zn}`;
-          newSpins.set(key1, neighbor.spin);
-          newSpins.set(key2, node.spin);
-        }
-      }
-    }
+  getInitialCondition(): InitialConditionSpec {
+    return this.initialCondition
+      ? { id: this.initialCondition.id, params: { ...this.initialCondition.params } }
+      : { id: 'cosine', params: { kx: this.k_x } };
+  }
+
+  /**
+   * Initialize lattice spins from the selected initial condition
+   * (default: cosine wave pattern, the boundary's mode k_x)
+   * @returns The applied condition with defaults filled in
+   */
+  initializeLattice(lattice: Lattice): InitialConditionSpec {
+    const applied = applyInitialCondition(lattice, this.getInitialCondition());
+    this.phaseStep = 0;
+    return applied;
+  }
 
-    // Apply swaps
-    newSpins.forEach((spin, key) => {
-      const [x, y, z] = key.split(',').map(Number);
-      const node = lattice.getNode(x, y, z);
-      if (node) node.spin = spin;
-    });
+  /**
+   * PhysicsEngine initialization: apply the selected initial condition
+   */
+  initialize(lattice: Lattice): InitialConditionSpec {
+    return this.initializeLattice(lattice);
   }
 
   /**
    * Step forward one time step
    */
   step(lattice: Lattice): void {
-    this.doSwapPhase(lattice, this.phases[this.phaseStep]);
-    this.phaseStep = (this.phaseStep + 1) % 6;
+    this.rule.applyPhase(lattice, this.phaseStep);
+    this.phaseStep = (this.phaseStep + 1) % this.getCycleLength();
   }
 
   /**
    * Step backward one time step (for reversibility)
    */
   reverseStep(lattice: Lattice): void {
-    this.phaseStep = (this.phaseStep + 5) % 6;
-    this.doSwapPhase(lattice, this.phases[this.phaseStep]);
+    const cycle = this.getCycleLength();
+    this.phaseStep = (this.phaseStep + cycle - 1) % cycle;
+    this.rule.applyInversePhase(lattice, this.phaseStep);
   }
 
   /**
-   * Calculate energy metrics (EXACT author's formula)
+   * Calculate energy metrics (author's formula, weighted by the Hamiltonian)
    */
   calculateEnergy(lattice: Lattice): EnergyMetrics {
-    let sym = 0;
-    let asym = 0;
-
-    for (let z = 0; z < this.N; z++) {
-      for (let y = 0; y < this.N; y++) {
-        for (let x = 0; x < this.N; x++) {
-          const node = lattice.getNode(x, y, z);
-          if (!node) continue;
-
-          const sx = node.spin;
-
-          // Get neighbors (periodic boundary)
-          const nx = lattice.getNode((x + 1) % this.N, y, z)?.spin ?? 0;
-          const ny = lattice.getNode(x, (y + 1) % this.N, z)?.spin ?? 0;
-          const nz = lattice.getNode(x, y, (z + 1) % this.N)?.spin ?? 0;
-
-          // Count aligned and misaligned
-          if (sx === nx) sym++; else asym++;
-          if (sx === ny) sym++; else asym++;
-          if (sx === nz) sym++; else asym++;
-        }
-      }
-    }
-
-    return {
-      E_sym: sym,
-      E_asym: asym,
-      E_0: sym + asym,
-      E_sym_norm: sym / this.E_0_REF,
-      E_asym_norm: asym / this.E_0_REF,
-      E_0_norm: (sym + asym) / this.E_0_REF
-    };
+    return this.hamiltonian.calculateEnergy(lattice);
   }
 
   /**
    * Calculate Fourier mode amplitude (EXACT author's formula)
    */
   calculateFourierMode(lattice: Lattice): FourierMode {
+    const { Nx, Ny, Nz } = this;
+    const spins = lattice.storage.spins;
+    const basis = this.getModeLUT(lattice);
     let proj = 0;
+    let i = 0;
 
-    for (let z = 0; z < this.N; z++) {
-      for (let y = 0; y < this.N; y++) {
-        for (let x = 0; x < this.N; x++) {
-          const node = lattice.getNode(x, y, z);
-          if (!node) continue;
-
-          proj += node.spin * this.cosLUT[x];
+    for (let z = 0; z < Nz; z++) {
+      for (let y = 0; y < Ny; y++) {
+        for (let x = 0; x < Nx; x++) {
+          proj += spins[i++] * basis[x];
         }
       }
     }
 
     const amplitude = Math.abs(proj);
-    const totalNodes = this.N * this.N * this.N;
+    const totalNodes = Nx * Ny * Nz;
 
     return {
       k_x: this.k_x,
@@ -222,7 +212,9 @@ export class AuthorPhysics {
   /**
    * Photon Window Test (EXACT author's implementation)
    * 
-   * This is THE validation method for TDS physics
+   * This is THE validation method for TDS physics. Besides the author's
+   * Hamming ratio, the forward and backward trajectories are compared by
+   * state hash to check bit-exact return and locate any divergence.
    */
   async photonWindowTest(
     lattice: Lattice,
@@ -231,52 +223,33 @@ export class AuthorPhysics {
     hammingDistance: number;
     ratio: number;
     passed: boolean;
+    exact: boolean;
+    divergenceStep: number | null;
     message: string;
   }> {
     // Save initial state
-    const initialSpins = new Map<string, number>();
+    const spins = lattice.storage.spins;
+    const initialSpins = spins.slice();
     const initialPhase = this.phaseStep;
+    const hasher = this.getHasher(lattice);
 
-    for (let z = 0; z < this.N; z++) {
-      for (let y = 0; y < this.N; y++) {
-        for (let x = 0; x < this.N; x++) {
-          const node = lattice.getNode(x, y, z);
-          if (node) {
-            initialSpins.set(`${x},${y},${z}`, node.spin);
-          }
-        }
-      }
-    }
-
-    // Forward steps
-    for (let i = 0; i < steps; i++) {
-      this.step(lattice);
-    }
-
-    // Reverse steps
-    for (let i = 0; i < steps; i++) {
-      this.reverseStep(lattice);
-    }
+    // Forward steps, then reverse steps
+    const roundTrip = checkRoundTrip(
+      () => hasher.hashLattice(lattice, this.phaseStep),
+      () => this.step(lattice),
+      () => this.reverseStep(lattice),
+      steps
+    );
 
     // Calculate Hamming distance
     let hammingDistance = 0;
-    const totalNodes = this.N * this.N * this.N;
-
-    for (let z = 0; z < this.N; z++) {
-      for (let y = 0; y < this.N; y++) {
-        for (let x = 0; x < this.N; x++) {
-          const node = lattice.getNode(x, y, z);
-          const key = `${x},${y},${z}`;
-          const initialSpin = initialSpins.get(key) ?? 0;
-          
-          if (node && node.spin !== initialSpin) {
-            hammingDistance++;
-          }
-        }
+    for (let i = 0; i < spins.length; i++) {
+      if (spins[i] !== initialSpins[i]) {
+        hammingDistance++;
       }
     }
 
-    const ratio = hammingDistance / totalNodes;
+    const ratio = hammingDistance / spins.length;
     const passed = ratio < 0.001; // Author's threshold
 
     // Restore phase
@@ -286,12 +259,45 @@ export class AuthorPhysics {
       hammingDistance,
       ratio,
       passed,
+      exact: roundTrip.exact && hammingDistance === 0,
+      divergenceStep: roundTrip.divergenceStep,
       message: passed 
         ? `OK ${ratio.toFixed(6)}` 
         : `LOST ${ratio.toFixed(6)}`
     };
   }
 
+  /**
+   * Measure the recurrence period of the dynamics from the current state
+   * (spins and phase are restored afterwards)
+   * @param maxSteps - Give up after this many steps
+   */
+  measureRecurrence(lattice: Lattice, maxSteps: number = 10000): RecurrenceResult {
+    const initialSpins = lattice.storage.spins.slice();
+    const initialPhase = this.phaseStep;
+    const hasher = this.getHasher(lattice);
+
+    const result = findRecurrence(
+      () => hasher.hashLattice(lattice, this.phaseStep),
+      () => this.step(lattice),
+      maxSteps
+    );
+
+    lattice.storage.spins.set(initialSpins);
+    this.phaseStep = initialPhase;
+    return result;
+  }
+
+  /**
+   * Get a state hasher sized for the lattice
+   */
+  private getHasher(lattice: Lattice): StateHasher {
+    if (!this.hasher || this.hasher.getSize() !== lattice.storage.spins.length) {
+      this.hasher = new StateHasher(lattice.storage.spins.length);
+    }
+    return this.hasher;
+  }
+
   /**
    * Get current phase step
    */
@@ -299,6 +305,27 @@ export class AuthorPhysics {
     return this.phaseStep;
   }
 
+  /**
+   * Get the phase state for history and exports
+   */
+  getPhaseState(): EnginePhaseState {
+    return { phaseStep: this.phaseStep };
+  }
+
+  /**
+   * Restore a phase state saved by getPhaseState
+   */
+  setPhaseState(state: EnginePhaseState): void {
+    this.phaseStep = state.phaseStep % this.getCycleLength();
+  }
+
+  /**
+   * Get number of phases in a complete rule cycle
+   */
+  getCycleLength(): number {
+    return this.rule.getCycleLength(this.getDimensions());
+  }
+
   /**
    * Reset phase step
    */
@@ -0,0 +1,161 @@
+/**
+ * Boundary - Lattice boundary conditions
+ *
+ * Maps coordinates that fall outside the lattice back onto it, per axis:
+ * - periodic:     wrap around (torus)
+ * - open:         no neighbor beyond the edge (fixed/clipped)
+ * - reflecting:   mirror at the edge, so the ghost beyond an edge node is the node itself
+ * - antiperiodic: wrap around with the spin sign flipped (twisted)
+ *
+ * All lattice dynamics (neighbors, regions, swap phases, energy bonds and
+ * Fourier modes) resolve their edges through these helpers.
+ */
+
+export type BoundaryCondition = 'periodic' | 'open' | 'reflecting' | 'antiperiodic';
+
+export type LatticeAxis = 'x' | 'y' | 'z';
+
+export interface BoundaryConditions {
+  x: BoundaryCondition;
+  y: BoundaryCondition;
+  z: BoundaryCondition;
+}
+
+/** One condition for all axes, or per-axis conditions (missing axes are open) */
+export type BoundaryOption = BoundaryCondition | Partial<BoundaryConditions>;
+
+/** A coordinate resolved onto the lattice, with the sign picked up at a twisted edge */
+export interface ResolvedCoordinate {
+  coord: number;
+  sign: number;
+}
+
+/**
+ * Forward (+1) neighbor of every coordinate along one axis
+ * next[c] is -1 when there is no neighbor (open edge)
+ */
+export interface ForwardNeighborTable {
+  next: Int32Array;
+  sign: Int8Array;
+}
+
+/** Open edges, as Lattice.getNeighbors has always clipped them */
+export const DEFAULT_BOUNDARY: BoundaryCondition = 'open';
+
+/**
+ * Expand a boundary option into per-axis conditions
+ */
+export function resolveBoundary(option: BoundaryOption = DEFAULT_BOUNDARY): BoundaryConditions {
+  if (typeof option === 'string') {
+    return { x: option, y: option, z: option };
+  }
+  return {
+    x: option.x ?? DEFAULT_BOUNDARY,
+    y: option.y ?? DEFAULT_BOUNDARY,
+    z: option.z ?? DEFAULT_BOUNDARY
+  };
+}
+
+/**
+ * Resolve a coordinate along an axis of the given size
+ * @returns Coordinate inside [0, size) and sign, or null if it leaves an open lattice
+ */
+export function resolveCoordinate(
+  coord: number,
+  size: number,
+  condition: BoundaryCondition
+): ResolvedCoordinate | null {
+  if (coord >= 0 && coord < size) {
+    return { coord, sign: 1 };
+  }
+
+  switch (condition) {
+    case 'open':
+      return null;
+    case 'periodic':
+      return { coord: ((coord % size) + size) % size, sign: 1 };
+    case 'antiperiodic': {
+      // Each crossing of the seam flips the sign
+      const wraps = Math.floor(coord / size);
+      return { coord: coord - wraps * size, sign: wraps % 2 === 0 ? 1 : -1 };
+    }
+    case 'reflecting': {
+      // Half-sample mirror: -1 → 0, size → size - 1; the pattern repeats every 2 * size
+      const period = 2 * size;
+      const folded = ((coord % period) + period) % period;
+      return { coord: folded < size ? folded : period - 1 - folded, sign: 1 };
+    }
+  }
+}
+
+/**
+ * Build the forward neighbor table used by swap phases and bond sums
+ */
+export function buildForwardNeighborTable(
+  size: number,
+  condition: BoundaryCondition
+): ForwardNeighborTable {
+  const next = new Int32Array(size);
+  const sign = new Int8Array(size);
+
+  for (let c = 0; c < size; c++) {
+    const resolved = resolveCoordinate(c + 1, size, condition);
+    next[c] = resolved ? resolved.coord : -1;
+    sign[c] = resolved ? resolved.sign : 0;
+  }
+
+  return { next, sign };
+}
+
+/**
+ * Number of nearest-neighbor bonds along one axis line
+ * (an open line of n sites has n - 1 bonds, every other condition has n;
+ * a single site has no bonds along that axis)
+ */
+export function countAxisBonds(size: number, condition: BoundaryCondition): number {
+  if (size <= 1) return 0;
+  return condition === 'open' ? size - 1 : size;
+}
+
+/**
+ * Shortest signed offset from a to b along an axis
+ * (minimum image for wrapping boundaries, plain difference otherwise)
+ */
+export function axisOffset(a: number, b: number, size: number, condition: BoundaryCondition): number {
+  const delta = b - a;
+  if (condition !== 'periodic' && condition !== 'antiperiodic') {
+    return delta;
+  }
+  const wrapped = ((delta % size) + size) % size;
+  return wrapped > size / 2 ? wrapped - size : wrapped;
+}
+
+/**
+ * Fourier basis along x matching the boundary condition, with k wavelengths across the lattice
+ * - periodic:     cos(2π k x / N)
+ * - antiperiodic: cos(2π (k + ½) x / N)   (twisted modes carry a half-integer wave number)
+ * - reflecting:   cos(2π k (x + ½) / N)   (zero slope at both mirrors)
+ * - open:         sin(2π k (x + 1) / (N + 1)) (vanishes on the fixed ends)
+ */
+export function buildModeBasis(k: number, size: number, condition: BoundaryCondition): Float32Array {
+  const basis = new Float32Array(size);
+
+  for (let x = 0; x < size; x++) {
+    switch (condition) {
+      case 'periodic':
+        basis[x] = Math.cos(2 * Math.PI * (k * x) / size);
+        break;
+      case 'antiperiodic':
+        basis[x] = Math.cos(2 * Math.PI * ((k + 0.5) * x) / size);
+        break;
+      case 'reflecting':
+        basis[x] = Math.cos(2 * Math.PI * k * (x + 0.5) / size);
+        break;
+      case 'open':
+        basis[x] = Math.sin(2 * Math.PI * k * (x + 1) / (size + 1));
+        break;
+    }
+  }
+
+  return basis;
+}
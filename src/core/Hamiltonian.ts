@@ -0,0 +1,171 @@
+/**
+ * Hamiltonian - Coupling constants shared by the stochastic and author models
+ *
+ * H = -Σ_<ij> J_axis s_i s_j - h Σ_i s_i
+ *
+ * J sets the coupling on every axis unless Jx/Jy/Jz override it
+ * (anisotropic coupling), h is an external field along +1 and E_0 is the
+ * energy carried by one unit-coupling bond (author model) or one node
+ * (Node model, E_sym + E_asym = E_0).
+ */
+
+import type { LatticeAxis } from './Boundary.js';
+import type { Lattice } from './Lattice.js';
+
+export interface CouplingParams {
+  J?: number;   // Isotropic coupling strength (default 1)
+  Jx?: number;  // Coupling along x (default J)
+  Jy?: number;  // Coupling along y (default J)
+  Jz?: number;  // Coupling along z (default J)
+  h?: number;   // External field (default 0)
+  E_0?: number; // Energy unit (default 1)
+}
+
+/** Fully resolved coupling constants */
+export interface CouplingConstants {
+  J: number;
+  Jx: number;
+  Jy: number;
+  Jz: number;
+  h: number;
+  E_0: number;
+}
+
+/** Bond energies of one spin configuration (author's E_sym / E_asym split) */
+export interface EnergyMetrics {
+  E_sym: number;      // Symmetric energy (satisfied bonds, J_axis × s_i × s_j > 0)
+  E_asym: number;     // Asymmetric energy (frustrated bonds)
+  E_0: number;        // Total energy (should be constant)
+  E_0_ref: number;    // Reference for normalization: E_0 × Σ |J_axis| over all bonds
+  E_sym_norm: number; // Normalized E_sym
+  E_asym_norm: number;// Normalized E_asym
+  E_0_norm: number;   // Normalized E_0 (should ≈ 1)
+  H: number;          // Hamiltonian E_0 × (-Σ J_axis s_i s_j - h Σ s_i)
+}
+
+export class Hamiltonian {
+  readonly J: number;
+  readonly Jx: number;
+  readonly Jy: number;
+  readonly Jz: number;
+  readonly h: number;
+  readonly E_0: number;
+
+  constructor(params: CouplingParams = {}) {
+    this.J = params.J ?? 1.0;
+    this.Jx = params.Jx ?? this.J;
+    this.Jy = params.Jy ?? this.J;
+    this.Jz = params.Jz ?? this.J;
+    this.h = params.h ?? 0;
+    this.E_0 = params.E_0 ?? 1.0;
+  }
+
+  /**
+   * Coupling along one lattice axis
+   */
+  getCoupling(axis: LatticeAxis): number {
+    return axis === 'x' ? this.Jx : axis === 'y' ? this.Jy : this.Jz;
+  }
+
+  /**
+   * Coupling to the neighbor at offset (dx, dy, dz): the mean coupling of the
+   * axes the offset moves along (diagonal neighbors of the Node model)
+   */
+  getNeighborCoupling(dx: number, dy: number, dz: number): number {
+    let sum = 0;
+    let axes = 0;
+    if (dx !== 0) { sum += this.Jx; axes++; }
+    if (dy !== 0) { sum += this.Jy; axes++; }
+    if (dz !== 0) { sum += this.Jz; axes++; }
+    return axes > 0 ? sum / axes : 0;
+  }
+
+  /**
+   * Whether all axes share the same coupling
+   */
+  isIsotropic(): boolean {
+    return this.Jx === this.Jy && this.Jy === this.Jz;
+  }
+
+  /**
+   * Energy of one bond, -J_axis s_i s_j
+   */
+  bondEnergy(axis: LatticeAxis, si: number, sj: number): number {
+    return -this.getCoupling(axis) * si * sj;
+  }
+
+  /**
+   * Bond energy metrics of the lattice spins (author's formula, weighted by J and E_0)
+   *
+   * Each bond carries E_0 × |J_axis|; with the default J = 1, E_0 = 1 this is
+   * the author's count of aligned (E_sym) and misaligned (E_asym) bonds.
+   */
+  calculateEnergy(lattice: Lattice): EnergyMetrics {
+    const { width: Nx, height: Ny, depth: Nz } = lattice;
+    const spins = lattice.storage.spins;
+    const tx = lattice.getForwardNeighbors('x');
+    const ty = lattice.getForwardNeighbors('y');
+    const tz = lattice.getForwardNeighbors('z');
+    const { Jx, Jy, Jz, h, E_0 } = this;
+    const wx = Math.abs(Jx), wy = Math.abs(Jy), wz = Math.abs(Jz);
+    // Antiferromagnetic couplings (J < 0) are satisfied by anti-aligned spins
+    const px = Math.sign(Jx), py = Math.sign(Jy), pz = Math.sign(Jz);
+    let sym = 0;
+    let asym = 0;
+    let bondEnergy = 0;
+    let magnetization = 0;
+
+    // Axes of extent 1 (z of a 2D slab) carry no bonds
+    const bondsX = Nx > 1, bondsY = Ny > 1, bondsZ = Nz > 1;
+
+    for (let z = 0; z < Nz; z++) {
+      for (let y = 0; y < Ny; y++) {
+        for (let x = 0; x < Nx; x++) {
+          const sx = spins[(z * Ny + y) * Nx + x];
+          magnetization += sx;
+
+          // Forward bonds per the lattice boundary (open edges have none,
+          // antiperiodic seams flip the neighbor's sign)
+          if (bondsX && tx.next[x] >= 0) {
+            const product = sx * tx.sign[x] * spins[(z * Ny + y) * Nx + tx.next[x]];
+            if (px * product > 0) sym += wx; else asym += wx;
+            bondEnergy -= Jx * product;
+          }
+          if (bondsY && ty.next[y] >= 0) {
+            const product = sx * ty.sign[y] * spins[(z * Ny + ty.next[y]) * Nx + x];
+            if (py * product > 0) sym += wy; else asym += wy;
+            bondEnergy -= Jy * product;
+          }
+          if (bondsZ && tz.next[z] >= 0) {
+            const product = sx * tz.sign[z] * spins[(tz.next[z] * Ny + y) * Nx + x];
+            if (pz * product > 0) sym += wz; else asym += wz;
+            bondEnergy -= Jz * product;
+          }
+        }
+      }
+    }
+
+    sym *= E_0;
+    asym *= E_0;
+    // Every bond is either satisfied or frustrated, so the total is spin-independent
+    const E_0_ref = sym + asym || 1;
+
+    return {
+      E_sym: sym,
+      E_asym: asym,
+      E_0: sym + asym,
+      E_0_ref,
+      E_sym_norm: sym / E_0_ref,
+      E_asym_norm: asym / E_0_ref,
+      E_0_norm: (sym + asym) / E_0_ref,
+      H: E_0 * (bondEnergy - h * magnetization)
+    };
+  }
+
+  /**
+   * Resolved constants (for exports and worker messages)
+   */
+  getConstants(): CouplingConstants {
+    return { J: this.J, Jx: this.Jx, Jy: this.Jy, Jz: this.Jz, h: this.h, E_0: this.E_0 };
+  }
+}
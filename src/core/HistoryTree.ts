@@ -0,0 +1,246 @@
+/**
+ * HistoryTree - Branching simulation history
+ *
+ * Each branch is its own SimulationHistory. Stepping forward from a past
+ * entry forks a new branch that starts with the state at the fork point,
+ * so the original future stays available on its parent branch.
+ *
+ * The capacity applies to each branch and to the tree as a whole: once all
+ * branches together exceed it, prune() drops the oldest branches that
+ * nothing depends on (leaves other than the active branch).
+ */
+
+import type { Lattice } from './Lattice.js';
+import {
+  SimulationHistory,
+  SimulationHistoryConfig,
+  DEFAULT_HISTORY_BYTES,
+  DEFAULT_HISTORY_ENTRIES
+} from './SimulationHistory.js';
+
+/** Branch metadata (for timelines and comparisons) */
+export interface HistoryBranchInfo {
+  id: number;
+  name: string;
+  parentId: number | null; // Branch this one was forked from (null for the root)
+  forkIndex: number;       // Parent entry the branch starts at (-1 once evicted from the parent)
+  length: number;          // Recorded entries
+  currentIndex: number;    // Entry the branch was last at
+  createdAt: number;
+}
+
+interface HistoryBranch {
+  id: number;
+  name: string;
+  parentId: number | null;
+  forkIndex: number;
+  history: SimulationHistory;
+  createdAt: number;
+}
+
+export class HistoryTree {
+  private readonly lattice: Lattice;
+  private readonly config: SimulationHistoryConfig;
+  private branches: Map<number, HistoryBranch> = new Map();
+  private activeId: number = 1;
+  private nextBranchId: number = 1;
+
+  /**
+   * @param lattice - Lattice whose storage is recorded and restored
+   * @param config - Capacity and keyframe spacing of every branch
+   */
+  constructor(lattice: Lattice, config: SimulationHistoryConfig = {}) {
+    this.lattice = lattice;
+    this.config = config;
+    this.clear();
+  }
+
+  /**
+   * History of the active branch
+   */
+  get active(): SimulationHistory {
+    return this.branches.get(this.activeId)!.history;
+  }
+
+  /**
+   * Id of the active branch
+   */
+  getActiveId(): number {
+    return this.activeId;
+  }
+
+  /**
+   * Number of branches
+   */
+  get size(): number {
+    return this.branches.size;
+  }
+
+  /**
+   * Metadata of a branch (null if unknown)
+   */
+  getBranch(id: number): HistoryBranchInfo | null {
+    const branch = this.branches.get(id);
+    return branch ? this.toInfo(branch) : null;
+  }
+
+  /**
+   * Metadata of every branch, in creation order
+   */
+  getBranches(): HistoryBranchInfo[] {
+    return [...this.branches.values()].map(branch => this.toInfo(branch));
+  }
+
+  /**
+   * Approximate memory held by all branches (bytes)
+   */
+  getMemoryUsage(): number {
+    let bytes = 0;
+    for (const branch of this.branches.values()) bytes += branch.history.getMemoryUsage();
+    return bytes;
+  }
+
+  /**
+   * Drop every branch and start over with an empty root branch
+   */
+  clear(): void {
+    this.branches.clear();
+    this.nextBranchId = 1;
+    this.activeId = this.addBranch('Main', null, -1).id;
+  }
+
+  /**
+   * Start a new, empty branch at the active branch's current entry and make it active
+   * @param name - Branch name (default "Branch <id>")
+   */
+  fork(name?: string): HistoryBranchInfo {
+    const parent = this.branches.get(this.activeId)!;
+    parent.history.detach();
+
+    const branch = this.addBranch(name, parent.id, parent.history.getIndex());
+    this.activeId = branch.id;
+    return this.toInfo(branch);
+  }
+
+  /**
+   * Make a branch active; the caller restores one of its entries
+   * @returns The branch history, or null if the id is unknown
+   */
+  switchTo(id: number): SimulationHistory | null {
+    const branch = this.branches.get(id);
+    if (!branch) return null;
+
+    if (id !== this.activeId) {
+      this.active.detach();
+      this.activeId = id;
+    }
+    return branch.history;
+  }
+
+  /**
+   * Rename a branch
+   */
+  rename(id: number, name: string): boolean {
+    const branch = this.branches.get(id);
+    if (!branch) return false;
+
+    branch.name = name;
+    return true;
+  }
+
+  /**
+   * Delete a branch and every branch forked from it
+   * (the root and branches the active one descends from are kept)
+   * @returns Ids of the deleted branches (empty if nothing was deleted)
+   */
+  delete(id: number): number[] {
+    const branch = this.branches.get(id);
+    if (!branch || branch.parentId === null || this.isAncestorOfActive(id)) return [];
+
+    const removed = [id];
+    for (let i = 0; i < removed.length; i++) {
+      for (const child of this.branches.values()) {
+        if (child.parentId === removed[i]) removed.push(child.id);
+      }
+    }
+    removed.forEach(removedId => this.branches.delete(removedId));
+    return removed;
+  }
+
+  /**
+   * Delete the oldest leaf branches (other than the active one) while all
+   * branches together exceed the memory or entry budget
+   * @returns Ids of the deleted branches
+   */
+  prune(): number[] {
+    const maxBytes = this.config.maxBytes ?? DEFAULT_HISTORY_BYTES;
+    const maxEntries = this.config.maxEntries ?? DEFAULT_HISTORY_ENTRIES;
+    const removed: number[] = [];
+
+    while (this.getMemoryUsage() > maxBytes || this.getEntryCount() > maxEntries) {
+      const leaf = [...this.branches.values()].find(branch =>
+        branch.parentId !== null &&
+        branch.id !== this.activeId &&
+        ![...this.branches.values()].some(child => child.parentId === branch.id)
+      );
+      if (!leaf) break;
+
+      this.branches.delete(leaf.id);
+      removed.push(leaf.id);
+    }
+    return removed;
+  }
+
+  /**
+   * Shift fork points of the active branch's children after it evicted entries
+   */
+  shiftForks(removed: number): void {
+    for (const branch of this.branches.values()) {
+      if (branch.parentId === this.activeId && branch.forkIndex >= 0) {
+        branch.forkIndex = Math.max(-1, branch.forkIndex - removed);
+      }
+    }
+  }
+
+  private getEntryCount(): number {
+    let count = 0;
+    for (const branch of this.branches.values()) count += branch.history.length;
+    return count;
+  }
+
+  /**
+   * Whether the active branch is the given branch or descends from it
+   */
+  private isAncestorOfActive(id: number): boolean {
+    for (let branch = this.branches.get(this.activeId); branch; branch = this.branches.get(branch.parentId ?? -1)) {
+      if (branch.id === id) return true;
+    }
+    return false;
+  }
+
+  private addBranch(name: string | undefined, parentId: number | null, forkIndex: number): HistoryBranch {
+    const id = this.nextBranchId++;
+    const branch: HistoryBranch = {
+      id,
+      name: name || `Branch ${id}`,
+      parentId,
+      forkIndex,
+      history: new SimulationHistory(this.lattice, this.config),
+      createdAt: Date.now()
+    };
+    this.branches.set(id, branch);
+    return branch;
+  }
+
+  private toInfo(branch: HistoryBranch): HistoryBranchInfo {
+    return {
+      id: branch.id,
+      name: branch.name,
+      parentId: branch.parentId,
+      forkIndex: branch.forkIndex,
+      length: branch.history.length,
+      currentIndex: branch.history.getIndex(),
+      createdAt: branch.createdAt
+    };
+  }
+}
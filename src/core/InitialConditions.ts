@@ -0,0 +1,354 @@
+/**
+ * InitialConditions - Registry of named spin initial conditions
+ *
+ * Each initial condition declares typed parameters (with defaults and ranges
+ * for the UI) and fills the lattice spins with ±1. A run's condition is
+ * recorded as an InitialConditionSpec ({ id, params }), so exports carry
+ * everything needed to rebuild the starting lattice.
+ */
+
+import { Lattice } from './Lattice.js';
+import { buildModeBasis, LatticeAxis } from './Boundary.js';
+import { SeededRandom } from './Random.js';
+
+/** Grayscale bitmap for image import (values in [0, 1], row-major, y down) */
+export interface BitmapData {
+  width: number;
+  height: number;
+  data: number[];
+}
+
+/** One wave in a superposition: s ∝ amplitude · cos(2π k·r / N + phase) */
+export interface WaveComponent {
+  kx: number;
+  ky: number;
+  kz: number;
+  amplitude: number;
+  phase: number;
+}
+
+export type InitialConditionParamValue = number | boolean | string | WaveComponent[] | BitmapData | null;
+
+export type InitialConditionParams = Record<string, InitialConditionParamValue>;
+
+export type InitialConditionParamType = 'number' | 'integer' | 'boolean' | 'choice' | 'waves' | 'bitmap';
+
+export interface InitialConditionParamSpec<K extends string = string> {
+  key: K;
+  label: string;
+  type: InitialConditionParamType;
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: string[]; // For 'choice'
+  description?: string;
+}
+
+/** Definition as the registry holds it (parameters untyped) */
+export interface InitialConditionDefinitionBase {
+  id: string;
+  label: string;
+  description: string;
+  params: InitialConditionParamSpec[];
+  defaults: InitialConditionParams;
+  /** Write ±1 spins into the lattice */
+  apply(lattice: Lattice, params: InitialConditionParams): void;
+}
+
+export interface InitialConditionDefinition<P extends InitialConditionParams = InitialConditionParams>
+  extends InitialConditionDefinitionBase {
+  params: InitialConditionParamSpec<Extract<keyof P, string>>[];
+  defaults: P;
+  apply(lattice: Lattice, params: P): void;
+}
+
+/** Serializable choice of initial condition (recorded in exports) */
+export interface InitialConditionSpec {
+  id: string;
+  params: InitialConditionParams;
+}
+
+export interface CosineParams extends InitialConditionParams {
+  kx: number;
+}
+
+export interface RandomParams extends InitialConditionParams {
+  magnetization: number;
+  seed: number;
+}
+
+export interface WavePacketParams extends InitialConditionParams {
+  centerX: number;
+  centerY: number;
+  centerZ: number;
+  width: number;
+  kx: number;
+  ky: number;
+  kz: number;
+}
+
+export interface SuperpositionParams extends InitialConditionParams {
+  waves: WaveComponent[];
+}
+
+export interface DomainWallParams extends InitialConditionParams {
+  axis: LatticeAxis;
+  position: number;
+}
+
+export interface CheckerboardParams extends InitialConditionParams {
+  blockSize: number;
+}
+
+export interface BubbleParams extends InitialConditionParams {
+  centerX: number;
+  centerY: number;
+  centerZ: number;
+  radius: number;
+}
+
+export interface BitmapParams extends InitialConditionParams {
+  image: BitmapData | null;
+  threshold: number;
+  slice: number;
+  extrude: boolean;
+}
+
+const registry = new Map<string, InitialConditionDefinitionBase>();
+
+/**
+ * Register an initial condition (replaces one with the same id)
+ */
+export function registerInitialCondition<P extends InitialConditionParams>(
+  definition: InitialConditionDefinition<P>
+): void {
+  registry.set(definition.id, definition);
+}
+
+/**
+ * Get a registered initial condition
+ */
+export function getInitialCondition(id: string): InitialConditionDefinitionBase | undefined {
+  return registry.get(id);
+}
+
+/**
+ * List registered initial conditions in registration order
+ */
+export function listInitialConditions(): InitialConditionDefinitionBase[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Fill in missing parameters from the definition's defaults
+ */
+export function resolveInitialCondition(spec: InitialConditionSpec): InitialConditionSpec {
+  const definition = registry.get(spec.id);
+  if (!definition) {
+    throw new Error(`Unknown initial condition: ${spec.id}`);
+  }
+  return { id: spec.id, params: { ...definition.defaults, ...spec.params } };
+}
+
+/**
+ * Apply an initial condition to the lattice spins
+ * @returns The spec with defaults filled in (for recording)
+ */
+export function applyInitialCondition(lattice: Lattice, spec: InitialConditionSpec): InitialConditionSpec {
+  const resolved = resolveInitialCondition(spec);
+  registry.get(spec.id)!.apply(lattice, resolved.params);
+  return resolved;
+}
+
+/**
+ * Set every spin from a field value (≥ 0 → +1, < 0 → -1)
+ */
+function fillFromField(lattice: Lattice, field: (x: number, y: number, z: number) => number): void {
+  const spins = lattice.storage.spins;
+  let i = 0;
+
+  for (let z = 0; z < lattice.depth; z++) {
+    for (let y = 0; y < lattice.height; y++) {
+      for (let x = 0; x < lattice.width; x++) {
+        spins[i++] = field(x, y, z) >= 0 ? 1 : -1;
+      }
+    }
+  }
+}
+
+registerInitialCondition<CosineParams>({
+  id: 'cosine',
+  label: 'Cosine stripes',
+  description: 'Sign of the boundary mode k_x along x (reference pattern)',
+  params: [{ key: 'kx', label: 'k_x', type: 'integer', min: 0, max: 32, step: 1 }],
+  defaults: { kx: 6 },
+  apply(lattice, params) {
+    const basis = buildModeBasis(params.kx, lattice.width, lattice.boundary.x);
+    fillFromField(lattice, x => basis[x]);
+  }
+});
+
+registerInitialCondition<RandomParams>({
+  id: 'random',
+  label: 'Random',
+  description: 'Shuffled spins with an exact net magnetisation',
+  params: [
+    { key: 'magnetization', label: 'm', type: 'number', min: -1, max: 1, step: 0.05 },
+    { key: 'seed', label: 'Seed', type: 'integer', min: 0, max: 0xffffffff, step: 1 }
+  ],
+  defaults: { magnetization: 0, seed: 1 },
+  apply(lattice, params) {
+    const spins = lattice.storage.spins;
+    const size = spins.length;
+    const up = Math.round(((1 + Math.max(-1, Math.min(1, params.magnetization))) / 2) * size);
+    const random = new SeededRandom(params.seed);
+
+    for (let i = 0; i < size; i++) {
+      spins[i] = i < up ? 1 : -1;
+    }
+    // Fisher-Yates shuffle keeps the up count exact
+    for (let i = size - 1; i > 0; i--) {
+      const j = random.nextInt(i + 1);
+      const t = spins[i];
+      spins[i] = spins[j];
+      spins[j] = t;
+    }
+  }
+});
+
+registerInitialCondition<WavePacketParams>({
+  id: 'wavePacket',
+  label: 'Gaussian wave packet',
+  description: 'Plane wave under a Gaussian envelope on a +1 background',
+  params: [
+    { key: 'centerX', label: 'Center x', type: 'number', min: 0, max: 1, step: 0.05, description: 'Fraction of width' },
+    { key: 'centerY', label: 'Center y', type: 'number', min: 0, max: 1, step: 0.05, description: 'Fraction of height' },
+    { key: 'centerZ', label: 'Center z', type: 'number', min: 0, max: 1, step: 0.05, description: 'Fraction of depth' },
+    { key: 'width', label: 'σ', type: 'number', min: 0.5, max: 32, step: 0.5, description: 'Envelope width in sites' },
+    { key: 'kx', label: 'k_x', type: 'integer', min: 0, max: 32, step: 1 },
+    { key: 'ky', label: 'k_y', type: 'integer', min: 0, max: 32, step: 1 },
+    { key: 'kz', label: 'k_z', type: 'integer', min: 0, max: 32, step: 1 }
+  ],
+  defaults: { centerX: 0.5, centerY: 0.5, centerZ: 0.5, width: 3, kx: 6, ky: 0, kz: 0 },
+  apply(lattice, params) {
+    const { width: Nx, height: Ny, depth: Nz } = lattice;
+    const cx = params.centerX * (Nx - 1);
+    const cy = params.centerY * (Ny - 1);
+    const cz = params.centerZ * (Nz - 1);
+    const twoSigma2 = 2 * params.width * params.width;
+
+    fillFromField(lattice, (x, y, z) => {
+      const dx = x - cx, dy = y - cy, dz = z - cz;
+      const envelope = Math.exp(-(dx * dx + dy * dy + dz * dz) / twoSigma2);
+      const carrier = Math.cos(2 * Math.PI * (params.kx * dx / Nx + params.ky * dy / Ny + params.kz * dz / Nz));
+      // Blend from the +1 background into the carrier near the center
+      return (1 - envelope) + envelope * carrier * 2;
+    });
+  }
+});
+
+registerInitialCondition<SuperpositionParams>({
+  id: 'superposition',
+  label: 'Superposition of waves',
+  description: 'Sign of Σ a·cos(2π k·r / N + φ) over several k-vectors',
+  params: [{ key: 'waves', label: 'Waves', type: 'waves', description: 'kx, ky, kz, amplitude, phase per line' }],
+  defaults: {
+    waves: [
+      { kx: 6, ky: 0, kz: 0, amplitude: 1, phase: 0 },
+      { kx: 0, ky: 3, kz: 0, amplitude: 0.5, phase: 0 }
+    ]
+  },
+  apply(lattice, params) {
+    const { width: Nx, height: Ny, depth: Nz } = lattice;
+
+    fillFromField(lattice, (x, y, z) => {
+      let sum = 0;
+      for (const w of params.waves) {
+        sum += w.amplitude * Math.cos(2 * Math.PI * (w.kx * x / Nx + w.ky * y / Ny + w.kz * z / Nz) + w.phase);
+      }
+      return sum;
+    });
+  }
+});
+
+registerInitialCondition<DomainWallParams>({
+  id: 'domainWall',
+  label: 'Domain wall',
+  description: 'Two uniform domains (+1 | -1) split by a plane normal to an axis',
+  params: [
+    { key: 'axis', label: 'Axis', type: 'choice', options: ['x', 'y', 'z'] },
+    { key: 'position', label: 'Position', type: 'number', min: 0, max: 1, step: 0.05, description: 'Fraction along the axis' }
+  ],
+  defaults: { axis: 'x', position: 0.5 },
+  apply(lattice, params) {
+    const extent = params.axis === 'x' ? lattice.width : params.axis === 'y' ? lattice.height : lattice.depth;
+    const wall = params.position * extent;
+
+    fillFromField(lattice, (x, y, z) => {
+      const c = params.axis === 'x' ? x : params.axis === 'y' ? y : z;
+      return c < wall ? 1 : -1;
+    });
+  }
+});
+
+registerInitialCondition<CheckerboardParams>({
+  id: 'checkerboard',
+  label: 'Checkerboard',
+  description: 'Alternating blocks (Néel state for block size 1)',
+  params: [{ key: 'blockSize', label: 'Block size', type: 'integer', min: 1, max: 16, step: 1 }],
+  defaults: { blockSize: 1 },
+  apply(lattice, params) {
+    const b = Math.max(1, Math.floor(params.blockSize));
+    fillFromField(lattice, (x, y, z) =>
+      ((Math.floor(x / b) + Math.floor(y / b) + Math.floor(z / b)) & 1) === 0 ? 1 : -1
+    );
+  }
+});
+
+registerInitialCondition<BubbleParams>({
+  id: 'bubble',
+  label: 'Spherical bubble',
+  description: 'Ball of -1 spins in a +1 background',
+  params: [
+    { key: 'centerX', label: 'Center x', type: 'number', min: 0, max: 1, step: 0.05, description: 'Fraction of width' },
+    { key: 'centerY', label: 'Center y', type: 'number', min: 0, max: 1, step: 0.05, description: 'Fraction of height' },
+    { key: 'centerZ', label: 'Center z', type: 'number', min: 0, max: 1, step: 0.05, description: 'Fraction of depth' },
+    { key: 'radius', label: 'Radius', type: 'number', min: 0.5, max: 32, step: 0.5, description: 'In sites' }
+  ],
+  defaults: { centerX: 0.5, centerY: 0.5, centerZ: 0.5, radius: 3 },
+  apply(lattice, params) {
+    const cx = params.centerX * (lattice.width - 1);
+    const cy = params.centerY * (lattice.height - 1);
+    const cz = params.centerZ * (lattice.depth - 1);
+    const r2 = params.radius * params.radius;
+
+    fillFromField(lattice, (x, y, z) => {
+      const dx = x - cx, dy = y - cy, dz = z - cz;
+      return dx * dx + dy * dy + dz * dz <= r2 ? -1 : 1;
+    });
+  }
+});
+
+registerInitialCondition<BitmapParams>({
+  id: 'bitmap',
+  label: 'Bitmap image',
+  description: 'Thresholded grayscale image on one z slice (nearest-neighbour scaled)',
+  params: [
+    { key: 'image', label: 'Image', type: 'bitmap' },
+    { key: 'threshold', label: 'Threshold', type: 'number', min: 0, max: 1, step: 0.05, description: 'Brighter pixels become +1' },
+    { key: 'slice', label: 'Slice z', type: 'integer', min: 0, max: 255, step: 1 },
+    { key: 'extrude', label: 'All slices', type: 'boolean', description: 'Copy the image to every slice' }
+  ],
+  defaults: { image: null, threshold: 0.5, slice: 0, extrude: false },
+  apply(lattice, params) {
+    const image = params.image;
+    const slice = Math.min(lattice.depth - 1, Math.max(0, Math.floor(params.slice)));
+
+    fillFromField(lattice, (x, y, z) => {
+      if (!image || (!params.extrude && z !== slice)) return 1;
+      const px = Math.min(image.width - 1, Math.floor((x * image.width) / lattice.width));
+      const py = Math.min(image.height - 1, Math.floor((y * image.height) / lattice.height));
+      return image.data[py * image.width + px] >= params.threshold ? 1 : -1;
+    });
+  }
+});
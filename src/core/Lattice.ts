@@ -1,4 +1,19 @@
 import { Node, NodeState, PhysicsParams, NodeData } from './Node.js';
+import { RandomSource, defaultRandom } from './Random.js';
+import { LatticeStorage, STATE_CODES, StorageBuffers } from './LatticeStorage.js';
+import {
+  BoundaryConditions,
+  DEFAULT_BOUNDARY,
+  BoundaryOption,
+  ForwardNeighborTable,
+  LatticeAxis,
+  resolveBoundary,
+  resolveCoordinate,
+  buildForwardNeighborTable,
+  countAxisBonds,
+  axisOffset
+} from './Boundary.js';
+import { Hamiltonian } from './Hamiltonian.js';
 
 export interface LatticeStatistics {
   total: number;
@@ -39,57 +54,213 @@ export interface LatticeData {
   width: number;
   height: number;
   depth: number;
+  boundary?: BoundaryConditions;
   nodes: NodeData[];
 }
 
+/** Lattice extent along each axis (depth = 1 for a 2D slab) */
+export interface LatticeDimensions {
+  width: number;
+  height: number;
+  depth: number;
+}
+
+/**
+ * Normalize a lattice size: a single N means an N×N×N cube.
+ * A Lattice is itself a LatticeDimensions, so it can be passed directly.
+ */
+export function resolveDimensions(size: number | LatticeDimensions): LatticeDimensions {
+  if (typeof size === 'number') {
+    return { width: size, height: size, depth: size };
+  }
+  return { width: size.width, height: size.height, depth: size.depth };
+}
+
+/** A lattice site reached through the boundary, with the sign picked up on the way */
+export interface ResolvedSite {
+  index: number;
+  sign: number;
+}
+
 /**
  * Lattice class representing the TDS lattice structure
  * Manages a grid of nodes and their interactions
+ *
+ * Node data is stored structure-of-arrays in `storage`; Node objects are
+ * created lazily as views (getNode, forEachNode, nodes) for compatibility.
+ *
+ * Edges follow `boundary` (open by default) in neighbor lookups, regions
+ * and the swap/energy tables returned by getForwardNeighbors().
  */
 export class Lattice {
   readonly width: number;
   readonly height: number;
   readonly depth: number;
   readonly is3D: boolean;
-  nodes: Node[];
+  readonly storage: LatticeStorage;
+  random: RandomSource;
+  boundary: BoundaryConditions;
   
+  private forwardNeighbors: Record<LatticeAxis, ForwardNeighborTable>;
+  private views: (Node | undefined)[] = [];
+  private allViews: Node[] | null = null;
   private miniMapData: MiniMapData | null = null;
   private miniMapDirty: boolean = true;
+  private hamiltonian: Hamiltonian = new Hamiltonian();
 
   /**
    * Create a new Lattice
    * @param width - Width of the lattice
    * @param height - Height of the lattice
    * @param depth - Depth of the lattice (default 1 for 2D)
+   * @param random - Random source for initial spins and stochastic updates
+   * @param boundary - Boundary conditions, for all axes or per axis (default open)
    */
-  constructor(width: number, height: number, depth: number = 1) {
+  constructor(
+    width: number,
+    height: number,
+    depth: number = 1,
+    random: RandomSource = defaultRandom,
+    boundary: BoundaryOption = DEFAULT_BOUNDARY
+  ) {
     this.width = width;
     this.height = height;
     this.depth = depth;
     this.is3D = depth > 1;
-    this.nodes = [];
+    this.storage = new LatticeStorage(width * height * depth);
+    this.random = random;
+    this.boundary = resolveBoundary(boundary);
+    this.forwardNeighbors = this.buildForwardNeighbors();
     
     this.initialize();
   }
 
   /**
-   * Initialize the lattice with nodes
+   * Set the boundary conditions
+   * @param boundary - One condition for all axes or per-axis conditions
    */
-  initialize(): void {
-    this.nodes = [];
+  setBoundary(boundary: BoundaryOption): void {
+    this.boundary = resolveBoundary(boundary);
+    this.forwardNeighbors = this.buildForwardNeighbors();
+  }
+
+  private buildForwardNeighbors(): Record<LatticeAxis, ForwardNeighborTable> {
+    return {
+      x: buildForwardNeighborTable(this.width, this.boundary.x),
+      y: buildForwardNeighborTable(this.height, this.boundary.y),
+      z: buildForwardNeighborTable(this.depth, this.boundary.z)
+    };
+  }
+
+  /**
+   * Get the +1 neighbor of every coordinate along an axis (used by swap phases and bond sums)
+   * @param axis - Lattice axis
+   */
+  getForwardNeighbors(axis: LatticeAxis): ForwardNeighborTable {
+    return this.forwardNeighbors[axis];
+  }
+
+  /**
+   * Resolve possibly out-of-range coordinates through the boundary conditions
+   * @returns Site index and sign, or null if the position lies beyond an open edge
+   */
+  resolveSite(x: number, y: number, z: number = 0): ResolvedSite | null {
+    const rx = resolveCoordinate(x, this.width, this.boundary.x);
+    if (!rx) return null;
+    const ry = resolveCoordinate(y, this.height, this.boundary.y);
+    if (!ry) return null;
+    const rz = resolveCoordinate(z, this.depth, this.boundary.z);
+    if (!rz) return null;
     
-    for (let z = 0; z < this.depth; z++) {
-      for (let y = 0; y < this.height; y++) {
-        for (let x = 0; x < this.width; x++) {
-          const node = new Node(x, y, z);
-          this.nodes.push(node);
-        }
-      }
+    return {
+      index: this.getIndex(rx.coord, ry.coord, rz.coord),
+      sign: rx.sign * ry.sign * rz.sign
+    };
+  }
+
+  /**
+   * Number of nearest-neighbor bonds (E_0 of the swap dynamics)
+   * Axes of extent 1 (e.g. z of a 2D slab) carry no bonds.
+   */
+  getBondCount(): number {
+    const { width, height, depth } = this;
+    return (
+      countAxisBonds(width, this.boundary.x) * height * depth +
+      countAxisBonds(height, this.boundary.y) * width * depth +
+      countAxisBonds(depth, this.boundary.z) * width * height
+    );
+  }
+
+  /**
+   * Euclidean distance between two nodes (minimum image across wrapping edges)
+   */
+  getDistance(a: Node, b: Node): number {
+    const dx = axisOffset(a.position.x, b.position.x, this.width, this.boundary.x);
+    const dy = axisOffset(a.position.y, b.position.y, this.height, this.boundary.y);
+    const dz = axisOffset(a.position.z, b.position.z, this.depth, this.boundary.z);
+    return Math.sqrt(dx * dx + dy * dy + dz * dz);
+  }
+
+  /**
+   * Initialize all nodes to vacuum with random spins
+   */
+  initialize(): void {
+    for (let i = 0; i < this.storage.size; i++) {
+      this.storage.initializeSlot(i, this.random.next() < 0.5 ? -1 : 1, this.hamiltonian.E_0);
     }
     
+    this.views = new Array(this.storage.size);
+    this.allViews = null;
     this.miniMapDirty = true;
   }
 
+  /**
+   * All nodes as Node views (compatibility; materializes every view)
+   * Prefer `storage` in hot loops.
+   */
+  get nodes(): Node[] {
+    if (!this.allViews) {
+      const all: Node[] = new Array(this.storage.size);
+      for (let i = 0; i < this.storage.size; i++) {
+        all[i] = this.getNodeAt(i);
+      }
+      this.allViews = all;
+    }
+    return this.allViews;
+  }
+
+  /**
+   * Get flat storage index for coordinates (no bounds check)
+   */
+  getIndex(x: number, y: number, z: number = 0): number {
+    return z * (this.width * this.height) + y * this.width + x;
+  }
+
+  /**
+   * Get the Node view for a storage index, creating it on first access
+   * @param index - Flat storage index
+   */
+  getNodeAt(index: number): Node {
+    let node = this.views[index];
+    if (!node) {
+      const plane = this.width * this.height;
+      const z = Math.floor(index / plane);
+      const y = Math.floor((index - z * plane) / this.width);
+      const x = index - z * plane - y * this.width;
+      node = new Node(x, y, z, 1.0, this.random, { storage: this.storage, index });
+      this.views[index] = node;
+    }
+    return node;
+  }
+
+  /**
+   * Set the random source used by all stochastic lattice updates
+   * @param random - Random source (usually the simulation's SeededRandom)
+   */
+  setRandom(random: RandomSource): void {
+    this.random = random;
+  }
+
   /**
    * Get a node at specific coordinates
    * @param x - X coordinate
@@ -104,8 +275,7 @@ export class Lattice {
       return null;
     }
     
-    const index = z * (this.width * this.height) + y * this.width + x;
-    return this.nodes[index] || null;
+    return this.getNodeAt(this.getIndex(x, y, z));
   }
 
   /**
@@ -115,7 +285,24 @@ export class Lattice {
    * @returns Array of neighboring nodes
    */
   getNeighbors(node: Node, range: number = 1): Node[] {
+    return this.getNeighborsWithSigns(node, range).neighbors;
+  }
+
+  /**
+   * Get neighboring nodes together with the sign each one picks up at
+   * antiperiodic edges (s_j as seen from the node is sign × neighbor.spin)
+   * and the coupling J_ij of the lattice's Hamiltonian
+   * @param node - The node to find neighbors for
+   * @param range - Neighborhood range (default 1 for immediate neighbors)
+   */
+  getNeighborsWithSigns(
+    node: Node,
+    range: number = 1
+  ): { neighbors: Node[]; signs: number[]; couplings: number[] } {
     const neighbors: Node[] = [];
+    const signs: number[] = [];
+    const couplings: number[] = [];
+    const hamiltonian = this.hamiltonian;
     const { x, y, z } = node.position;
     
     for (let dz = -range; dz <= range; dz++) {
@@ -124,15 +311,25 @@ export class Lattice {
           if (dx === 0 && dy === 0 && dz === 0) continue;
           if (!this.is3D && dz !== 0) continue;
           
-          const neighbor = this.getNode(x + dx, y + dy, z + dz);
-          if (neighbor) {
-            neighbors.push(neighbor);
+          const nx = x + dx, ny = y + dy, nz = z + dz;
+          if (nx >= 0 && nx < this.width && ny >= 0 && ny < this.height && nz >= 0 && nz < this.depth) {
+            neighbors.push(this.getNodeAt(this.getIndex(nx, ny, nz)));
+            signs.push(1);
+            couplings.push(hamiltonian.getNeighborCoupling(dx, dy, dz));
+            continue;
+          }
+          
+          const site = this.resolveSite(nx, ny, nz);
+          if (site) {
+            neighbors.push(this.getNodeAt(site.index));
+            signs.push(site.sign);
+            couplings.push(hamiltonian.getNeighborCoupling(dx, dy, dz));
           }
         }
       }
     }
     
-    return neighbors;
+    return { neighbors, signs, couplings };
   }
 
   /**
@@ -147,20 +344,16 @@ export class Lattice {
    */
   getRegion(x1: number, y1: number, x2: number, y2: number, z1: number = 0, z2: number = 0): Node[] {
     const region: Node[] = [];
-    
-    const minX = Math.max(0, Math.min(x1, x2));
-    const maxX = Math.min(this.width - 1, Math.max(x1, x2));
-    const minY = Math.max(0, Math.min(y1, y2));
-    const maxY = Math.min(this.height - 1, Math.max(y1, y2));
-    const minZ = Math.max(0, Math.min(z1, z2));
-    const maxZ = Math.min(this.depth - 1, Math.max(z1, z2));
-    
-    for (let z = minZ; z <= maxZ; z++) {
-      for (let y = minY; y <= maxY; y++) {
-        for (let x = minX; x <= maxX; x++) {
-          const node = this.getNode(x, y, z);
-          if (node) {
-            region.push(node);
+    const seen = new Set<number>();
+    
+    // Parts of the region beyond an edge map through the boundary; each node is returned once
+    for (let z = Math.min(z1, z2); z <= Math.max(z1, z2); z++) {
+      for (let y = Math.min(y1, y2); y <= Math.max(y1, y2); y++) {
+        for (let x = Math.min(x1, x2); x <= Math.max(x1, x2); x++) {
+          const site = this.resolveSite(x, y, z);
+          if (site && !seen.has(site.index)) {
+            seen.add(site.index);
+            region.push(this.getNodeAt(site.index));
           }
         }
       }
@@ -169,20 +362,38 @@ export class Lattice {
     return region;
   }
 
+  /**
+   * Coupling constants used by update(), T_info and conservation checks
+   */
+  getHamiltonian(): Hamiltonian {
+    return this.hamiltonian;
+  }
+
+  /**
+   * Replace the coupling constants (update() replaces them from its params)
+   */
+  setHamiltonian(hamiltonian: Hamiltonian): void {
+    this.hamiltonian = hamiltonian;
+  }
+
   /**
    * Update all nodes in the lattice
-   * @param params - Physics parameters for state updates
+   * @param params - Physics parameters (and coupling constants) for state updates
    * @param deltaTime - Time step for the update
    */
   update(params: PhysicsParams, _deltaTime: number = 1): void {
+    this.hamiltonian = new Hamiltonian(params);
+    const { J, E_0, h } = this.hamiltonian;
+    const isotropic = this.hamiltonian.isIsotropic();
+    
     for (const node of this.nodes) {
-      const neighbors = this.getNeighbors(node);
-      node.calculateEnergy(neighbors);
+      const { neighbors, signs, couplings } = this.getNeighborsWithSigns(node);
+      node.calculateEnergy(neighbors, isotropic ? J : couplings, E_0, signs, h);
     }
     
     for (const node of this.nodes) {
       const neighbors = this.getNeighbors(node);
-      node.updateState(neighbors, params);
+      node.updateState(neighbors, params, this.random);
     }
     
     this.miniMapDirty = true;
@@ -235,8 +446,9 @@ export class Lattice {
    * @returns Statistics object with E_sym, E_asym, T_info
    */
   getStatistics(): LatticeStatistics {
+    const { states, E_sym, E_asym, size } = this.storage;
     const stats: LatticeStatistics = {
-      total: this.nodes.length,
+      total: size,
       vacuum: 0,
       broken: 0,
       anomalous: 0,
@@ -249,30 +461,36 @@ export class Lattice {
       phaseCoherence: 0
     };
     
+    let maxEnergy = -Infinity;
+    let minEnergy = Infinity;
+    
     // Count states and sum energies
-    for (const node of this.nodes) {
-      switch (node.state) {
-        case 'vacuum':
+    for (let i = 0; i < size; i++) {
+      switch (states[i]) {
+        case STATE_CODES.vacuum:
           stats.vacuum++;
           break;
-        case 'broken':
+        case STATE_CODES.broken:
           stats.broken++;
           break;
-        case 'anomalous':
+        case STATE_CODES.anomalous:
           stats.anomalous++;
           break;
       }
       
-      stats.totalE_sym += node.E_sym;
-      stats.totalE_asym += node.E_asym;
-      stats.totalE_0 += node.getTotalEnergy();
+      const energy = E_sym[i] + E_asym[i];
+      stats.totalE_sym += E_sym[i];
+      stats.totalE_asym += E_asym[i];
+      stats.totalE_0 += energy;
+      if (energy > maxEnergy) maxEnergy = energy;
+      if (energy < minEnergy) minEnergy = energy;
     }
     
     stats.avgE_sym = stats.totalE_sym / stats.total;
     stats.avgE_asym = stats.totalE_asym / stats.total;
     
     // Calculate T_info (informational tension)
-    stats.T_info = this.calculateT_info(1.0);
+    stats.T_info = this.calculateT_info(this.hamiltonian);
     
     // Calculate phase coherence
     stats.phaseCoherence = this.calculatePhaseCoherence();
@@ -283,8 +501,8 @@ export class Lattice {
     stats.anomalies = stats.anomalous;
     stats.totalEnergy = stats.totalE_0;
     stats.avgEnergy = stats.totalE_0 / stats.total;
-    stats.maxEnergy = Math.max(...this.nodes.map(n => n.getTotalEnergy()));
-    stats.minEnergy = Math.min(...this.nodes.map(n => n.getTotalEnergy()));
+    stats.maxEnergy = maxEnergy;
+    stats.minEnergy = minEnergy;
     
     return stats;
   }
@@ -293,9 +511,19 @@ export class Lattice {
    * Reset all nodes to vacuum state (E_asym = 0, E_sym = E_0)
    */
   reset(): void {
-    for (const node of this.nodes) {
-      node.setState('vacuum');
-      node.phase = 0;
+    const { E_sym, E_asym, phases, omegas, states, size } = this.storage;
+    
+    for (let i = 0; i < size; i++) {
+      E_sym[i] = E_sym[i] + E_asym[i];
+      E_asym[i] = 0;
+      omegas[i] = 0;
+      phases[i] = 0;
+      states[i] = STATE_CODES.vacuum;
+      
+      const view = this.views[i];
+      if (view) {
+        view.setState('vacuum');
+      }
     }
     this.miniMapDirty = true;
   }
@@ -311,7 +539,7 @@ export class Lattice {
     const centerNode = this.getNode(x, y, z);
     if (!centerNode) return;
     
-    centerNode.setState('anomalous');
+    centerNode.setState('anomalous', this.random);
     
     if (radius > 1) {
       const region = this.getRegion(
@@ -321,14 +549,11 @@ export class Lattice {
       );
       
       for (const node of region) {
-        const dx = node.position.x - x;
-        const dy = node.position.y - y;
-        const dz = node.position.z - z;
-        const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        const distance = this.getDistance(centerNode, node);
         
         if (distance <= radius && distance > 0) {
           const probability = 1 - (distance / radius);
-          if (Math.random() < probability) {
+          if (this.random.next() < probability) {
             node.setState('broken');
           }
         }
@@ -356,35 +581,58 @@ export class Lattice {
       width: this.width,
       height: this.height,
       depth: this.depth,
+      boundary: { ...this.boundary },
       nodes: this.nodes.map(node => node.toJSON())
     };
   }
 
   /**
    * Restore lattice from JSON data
+   * Writes into the existing storage, so Node views stay valid.
    * @param data - Serialized lattice data
    */
   fromJSON(data: LatticeData): void {
-    this.nodes = [];
+    if (data.boundary) {
+      this.setBoundary(data.boundary);
+    }
+    
+    const { spins, E_sym, E_asym, phases, omegas, states } = this.storage;
+    
     for (const nodeData of data.nodes) {
-      const node = new Node(
-        nodeData.position.x,
-        nodeData.position.y,
-        nodeData.position.z
-      );
-      node.fromJSON(nodeData);
-      this.nodes.push(node);
+      const { x, y, z } = nodeData.position;
+      const index = this.getIndex(x, y, z);
+      
+      spins[index] = nodeData.spin;
+      E_sym[index] = nodeData.E_sym;
+      E_asym[index] = nodeData.E_asym;
+      phases[index] = nodeData.phase;
+      omegas[index] = nodeData.omega;
+      states[index] = STATE_CODES[nodeData.state];
+      
+      const view = this.views[index];
+      if (view) {
+        view.visual = { ...nodeData.visual };
+      }
     }
     
     this.miniMapDirty = true;
   }
 
+  /**
+   * Load node data computed elsewhere (e.g. by the simulation worker)
+   * @param buffers - Buffers from LatticeStorage.exportBuffers()
+   */
+  loadBuffers(buffers: StorageBuffers): void {
+    this.storage.importBuffers(buffers);
+    this.miniMapDirty = true;
+  }
+
   /**
    * Get the total number of nodes
    * @returns Total node count
    */
   getNodeCount(): number {
-    return this.nodes.length;
+    return this.storage.size;
   }
 
   /**
@@ -392,7 +640,9 @@ export class Lattice {
    * @param callback - Function to call for each node
    */
   forEachNode(callback: (node: Node, index: number) => void): void {
-    this.nodes.forEach(callback);
+    for (let i = 0; i < this.storage.size; i++) {
+      callback(this.getNodeAt(i), i);
+    }
   }
   
   /**
@@ -403,9 +653,9 @@ export class Lattice {
     let E_sym = 0;
     let E_asym = 0;
     
-    for (const node of this.nodes) {
-      E_sym += node.E_sym;
-      E_asym += node.E_asym;
+    for (let i = 0; i < this.storage.size; i++) {
+      E_sym += this.storage.E_sym[i];
+      E_asym += this.storage.E_asym[i];
     }
     
     return {
@@ -416,39 +666,71 @@ export class Lattice {
   }
   
   /**
-   * Calculate informational tension T_info = J × Σ(1 - s_i × s_j)
+   * Calculate informational tension T_info = Σ J_ij × (1 - s_i × s_j)
    * Measures the "cost" of spin misalignment across the lattice
-   * @param J - Coupling strength
+   * @param J - Coupling strength, or a Hamiltonian for anisotropic couplings
    * @returns Informational tension value
    */
-  calculateT_info(J: number = 1.0): number {
-    let tension = 0;
-    const counted = new Set<string>();
+  calculateT_info(J: number | Hamiltonian = 1.0): number {
+    const { spins } = this.storage;
+    const { width, height, depth } = this;
+    const plane = width * height;
+    const offsets = this.getForwardNeighborOffsets();
+    const count = offsets.length;
+    const dxs = offsets.map(o => o[0]);
+    const dys = offsets.map(o => o[1]);
+    const dzs = offsets.map(o => o[2]);
+    const deltas = offsets.map(([dx, dy, dz]) => dz * plane + dy * width + dx);
+    const couplings = offsets.map(([dx, dy, dz]) =>
+      typeof J === 'number' ? J : J.getNeighborCoupling(dx, dy, dz)
+    );
+    let misaligned = 0;
+    
+    // Each unordered neighbor pair is visited once via the forward half-neighborhood
+    for (let z = 0; z < depth; z++) {
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const i = z * plane + y * width + x;
+          const s = spins[i];
+          
+          for (let k = 0; k < count; k++) {
+            const nx = x + dxs[k], ny = y + dys[k], nz = z + dzs[k];
+            
+            // T_info contribution: J_ij × (1 - s_i × s_j)
+            if (nx >= 0 && nx < width && ny >= 0 && ny < height && nz >= 0 && nz < depth) {
+              misaligned += couplings[k] * (1 - s * spins[i + deltas[k]]);
+            } else {
+              const site = this.resolveSite(nx, ny, nz);
+              if (site) {
+                misaligned += couplings[k] * (1 - s * site.sign * spins[site.index]);
+              }
+            }
+          }
+        }
+      }
+    }
     
-    for (const node of this.nodes) {
-      const neighbors = this.getNeighbors(node, 1);
-      
-      for (const neighbor of neighbors) {
-        // Create unique pair identifier to avoid double-counting
-        const pairKey = [
-          Math.min(node.position.x, neighbor.position.x),
-          Math.min(node.position.y, neighbor.position.y),
-          Math.min(node.position.z, neighbor.position.z),
-          Math.max(node.position.x, neighbor.position.x),
-          Math.max(node.position.y, neighbor.position.y),
-          Math.max(node.position.z, neighbor.position.z)
-        ].join(',');
-        
-        if (!counted.has(pairKey)) {
-          counted.add(pairKey);
-          // T_info contribution: J × (1 - s_i × s_j)
-          const spinProduct = node.spin * neighbor.spin;
-          tension += J * (1 - spinProduct);
+    return misaligned;
+  }
+
+  /**
+   * Offsets of the "forward" half of the unit neighborhood (one per unordered pair)
+   */
+  private getForwardNeighborOffsets(): [number, number, number][] {
+    const offsets: [number, number, number][] = [];
+    const zRange = this.is3D ? 1 : 0;
+    
+    for (let dz = -zRange; dz <= zRange; dz++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dz > 0 || (dz === 0 && (dy > 0 || (dy === 0 && dx > 0)))) {
+            offsets.push([dx, dy, dz]);
+          }
         }
       }
     }
     
-    return tension;
+    return offsets;
   }
   
   /**
@@ -456,25 +738,26 @@ export class Lattice {
    * @returns Coherence value (0-1, where 1 is perfect coherence)
    */
   calculatePhaseCoherence(): number {
-    if (this.nodes.length === 0) return 0;
+    const { phases, size } = this.storage;
+    if (size === 0) return 0;
     
     let sumCos = 0;
     let sumSin = 0;
     
-    for (const node of this.nodes) {
-      sumCos += Math.cos(node.phase);
-      sumSin += Math.sin(node.phase);
+    for (let i = 0; i < size; i++) {
+      sumCos += Math.cos(phases[i]);
+      sumSin += Math.sin(phases[i]);
     }
     
-    const avgCos = sumCos / this.nodes.length;
-    const avgSin = sumSin / this.nodes.length;
+    const avgCos = sumCos / size;
+    const avgSin = sumSin / size;
     
     // Coherence is the magnitude of the average phase vector
     return Math.sqrt(avgCos * avgCos + avgSin * avgSin);
   }
   
   /**
-   * Check energy conservation: E_sym + E_asym = E_0 for all nodes
+   * Check energy conservation: E_sym + E_asym = E_0 (the Hamiltonian's) for all nodes
    * @param tolerance - Allowed deviation (default 1e-6)
    * @returns Object with conservation status and violations
    */
@@ -488,9 +771,11 @@ export class Lattice {
     let maxDeviation = 0;
     let totalDeviation = 0;
     
-    for (const node of this.nodes) {
-      const E_0_expected = 1.0; // Default E_0 per node
-      const E_0_actual = node.E_sym + node.E_asym;
+    const { E_sym, E_asym, size } = this.storage;
+    const E_0_expected = this.hamiltonian.E_0;
+    
+    for (let i = 0; i < size; i++) {
+      const E_0_actual = E_sym[i] + E_asym[i];
       const deviation = Math.abs(E_0_actual - E_0_expected);
       
       if (deviation > tolerance) {
@@ -505,7 +790,7 @@ export class Lattice {
       isConserved: violations === 0,
       violations,
       maxDeviation,
-      avgDeviation: totalDeviation / this.nodes.length
+      avgDeviation: totalDeviation / size
     };
   }
 }
@@ -0,0 +1,107 @@
+/**
+ * LatticeStorage - Structure-of-arrays storage for lattice node data
+ *
+ * Node fields live in flat typed arrays indexed by
+ * index = z * (width * height) + y * width + x, so hot loops (swap
+ * dynamics, energy sums, Fourier projections) run on contiguous memory.
+ * Node objects are thin views onto one slot of this storage.
+ */
+
+import type { NodeState } from './Node.js';
+
+/** State codes stored in LatticeStorage.states */
+export const STATE_CODES: Record<NodeState, number> = {
+  vacuum: 0,
+  broken: 1,
+  anomalous: 2
+};
+
+/** State names indexed by state code */
+export const STATE_NAMES: readonly NodeState[] = ['vacuum', 'broken', 'anomalous'];
+
+/**
+ * Copies of the per-node arrays as transferable ArrayBuffers
+ * (omegas only drive the stochastic dynamics and stay on the owning side)
+ */
+export interface StorageBuffers {
+  spins: ArrayBuffer;
+  states: ArrayBuffer;
+  E_sym: ArrayBuffer;
+  E_asym: ArrayBuffer;
+  phases: ArrayBuffer;
+}
+
+export class LatticeStorage {
+  readonly size: number;
+  readonly spins: Int8Array;
+  readonly E_sym: Float32Array;
+  readonly E_asym: Float32Array;
+  readonly phases: Float32Array;
+  readonly omegas: Float32Array;
+  readonly states: Uint8Array;
+
+  /**
+   * Allocate storage for a number of nodes
+   * @param size - Number of nodes
+   */
+  constructor(size: number) {
+    this.size = size;
+    this.spins = new Int8Array(size);
+    this.E_sym = new Float32Array(size);
+    this.E_asym = new Float32Array(size);
+    this.phases = new Float32Array(size);
+    this.omegas = new Float32Array(size);
+    this.states = new Uint8Array(size);
+  }
+
+  /**
+   * Put a slot into the vacuum ground state (E_sym = E_0, E_asym = 0)
+   * @param index - Node index
+   * @param spin - Spin value s_i ∈ {-1, +1}
+   * @param E_0 - Total conserved energy
+   */
+  initializeSlot(index: number, spin: number, E_0: number = 1.0): void {
+    this.spins[index] = spin;
+    this.E_sym[index] = E_0;
+    this.E_asym[index] = 0;
+    this.phases[index] = 0;
+    this.omegas[index] = 0;
+    this.states[index] = STATE_CODES.vacuum;
+  }
+
+  /**
+   * Copy all arrays from another storage of the same size
+   */
+  copyFrom(other: LatticeStorage): void {
+    this.spins.set(other.spins);
+    this.E_sym.set(other.E_sym);
+    this.E_asym.set(other.E_asym);
+    this.phases.set(other.phases);
+    this.omegas.set(other.omegas);
+    this.states.set(other.states);
+  }
+
+  /**
+   * Copy the arrays into fresh buffers that can be transferred to another thread
+   */
+  exportBuffers(): StorageBuffers {
+    return {
+      spins: this.spins.slice().buffer,
+      states: this.states.slice().buffer,
+      E_sym: this.E_sym.slice().buffer,
+      E_asym: this.E_asym.slice().buffer,
+      phases: this.phases.slice().buffer
+    };
+  }
+
+  /**
+   * Overwrite the arrays from buffers produced by exportBuffers()
+   */
+  importBuffers(buffers: StorageBuffers): void {
+    this.spins.set(new Int8Array(buffers.spins));
+    this.states.set(new Uint8Array(buffers.states));
+    this.E_sym.set(new Float32Array(buffers.E_sym));
+    this.E_asym.set(new Float32Array(buffers.E_asym));
+    this.phases.set(new Float32Array(buffers.phases));
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * MonteCarlo - Thermal (irreversible) spin updates at temperature T
+ *
+ * Samples the Boltzmann distribution of the lattice Hamiltonian
+ * H = E_0 × (-Σ J_axis s_i s_j - h Σ s_i) with single-spin updates:
+ * - metropolis: flip with probability min(1, exp(-ΔE / T))
+ * - heat-bath:  draw s_i = +1 with probability 1 / (1 + exp(-2 E_0 h_i / T))
+ *
+ * One sweep visits every site once in checkerboard order (all even sites,
+ * then all odd sites), so each half-sweep only reads the other sublattice
+ * on lattices with even extents. Bonds follow the lattice boundary exactly
+ * like AuthorPhysics.calculateEnergy (open edges have none, antiperiodic
+ * seams flip the sign, reflecting self-bonds are constant and ignored).
+ */
+
+import { Lattice } from './Lattice.js';
+import { LatticeAxis } from './Boundary.js';
+import { Hamiltonian, EnergyMetrics } from './Hamiltonian.js';
+import { RandomSource, defaultRandom } from './Random.js';
+import type { PhysicsEngine, EnginePhaseState } from './PhysicsEngine.js';
+
+export type MonteCarloAlgorithm = 'metropolis' | 'heat-bath';
+
+export interface MonteCarloConfig {
+  temperature?: number;           // k_B T in units of E_0 × J (default 2.0)
+  algorithm?: MonteCarloAlgorithm; // Default 'metropolis'
+}
+
+/** Per-site energy and magnetization of one spin configuration */
+export interface ThermodynamicSample {
+  energy: number;        // H / N
+  magnetization: number; // Σ s_i / N
+}
+
+/** Up to two bonds per axis (forward and backward) */
+const SLOTS_PER_SITE = 6;
+const AXES: LatticeAxis[] = ['x', 'y', 'z'];
+
+/**
+ * Nearest-neighbor bonds of every site, flattened for the update loop
+ */
+interface BondTopology {
+  neighbor: Int32Array; // Site index per slot, -1 = no bond
+  sign: Int8Array;      // Antiperiodic sign per slot
+  axis: Uint8Array;     // 0 = x, 1 = y, 2 = z
+  order: Int32Array;    // Even sublattice first, then odd
+}
+
+export class MonteCarlo implements PhysicsEngine {
+  readonly id = 'thermal' as const;
+  readonly name = 'Thermal Monte Carlo';
+  readonly reversible = false;
+  readonly spinsOnly = true;
+  private temperature: number;
+  private algorithm: MonteCarloAlgorithm;
+  private random: RandomSource;
+  private topology: BondTopology | null = null;
+  private topologyLattice: Lattice | null = null;
+  private topologyBoundary: Lattice['boundary'] | null = null;
+  private acceptedFlips: number = 0;
+  private attemptedFlips: number = 0;
+
+  /**
+   * @param config - Temperature and update algorithm
+   * @param random - Random source (pass the simulation's seeded stream for reproducible runs)
+   */
+  constructor(config: MonteCarloConfig = {}, random: RandomSource = defaultRandom) {
+    this.temperature = MonteCarlo.validateTemperature(config.temperature ?? 2.0);
+    this.algorithm = config.algorithm ?? 'metropolis';
+    this.random = random;
+  }
+
+  private static validateTemperature(temperature: number): number {
+    if (!(temperature >= 0)) {
+      throw new Error(`Temperature must be non-negative, got ${temperature}`);
+    }
+    return temperature;
+  }
+
+  /**
+   * Update temperature and/or algorithm
+   */
+  configure(config: MonteCarloConfig): void {
+    if (config.temperature !== undefined) {
+      this.temperature = MonteCarlo.validateTemperature(config.temperature);
+    }
+    if (config.algorithm !== undefined) {
+      this.algorithm = config.algorithm;
+    }
+  }
+
+  /**
+   * Get the current temperature and algorithm
+   */
+  getConfig(): Required<MonteCarloConfig> {
+    return { temperature: this.temperature, algorithm: this.algorithm };
+  }
+
+  /**
+   * Replace the random source
+   */
+  setRandom(random: RandomSource): void {
+    this.random = random;
+  }
+
+  /**
+   * Fraction of accepted flips since the last reset (Metropolis) or
+   * fraction of updates that changed the spin (heat-bath)
+   */
+  getAcceptanceRate(): number {
+    return this.attemptedFlips > 0 ? this.acceptedFlips / this.attemptedFlips : 0;
+  }
+
+  /**
+   * Reset the acceptance counters
+   */
+  resetCounters(): void {
+    this.acceptedFlips = 0;
+    this.attemptedFlips = 0;
+  }
+
+  /**
+   * PhysicsEngine initialization: sweeps start from the current spins
+   */
+  initialize(_lattice: Lattice): null {
+    this.resetCounters();
+    return null;
+  }
+
+  /**
+   * PhysicsEngine step: one sweep under the lattice's Hamiltonian
+   */
+  step(lattice: Lattice): void {
+    this.sweep(lattice);
+  }
+
+  reverseStep(): void {
+    throw new Error('Thermal sweeps have no inverse; step back through history');
+  }
+
+  /**
+   * Bond energy metrics under the lattice's Hamiltonian
+   */
+  calculateEnergy(lattice: Lattice): EnergyMetrics {
+    return lattice.getHamiltonian().calculateEnergy(lattice);
+  }
+
+  getPhaseState(): EnginePhaseState {
+    return { phaseStep: 0 };
+  }
+
+  setPhaseState(_state: EnginePhaseState): void {
+    // Sweeps have no phases
+  }
+
+  /**
+   * Perform one checkerboard sweep (every site updated once)
+   * @param lattice - Lattice to update
+   * @param hamiltonian - Coupling constants (default: the lattice's)
+   */
+  sweep(lattice: Lattice, hamiltonian: Hamiltonian = lattice.getHamiltonian()): void {
+    const { neighbor, sign, axis, order } = this.getTopology(lattice);
+    const spins = lattice.storage.spins;
+    const couplings = [hamiltonian.Jx, hamiltonian.Jy, hamiltonian.Jz];
+    const { h, E_0 } = hamiltonian;
+    const beta = this.temperature > 0 ? 1 / this.temperature : Infinity;
+    const heatBath = this.algorithm === 'heat-bath';
+    let accepted = 0;
+
+    for (let n = 0; n < order.length; n++) {
+      const i = order[n];
+      const base = i * SLOTS_PER_SITE;
+
+      // Local field h_i = Σ J_axis σ s_j + h
+      let field = h;
+      for (let k = base; k < base + SLOTS_PER_SITE; k++) {
+        const j = neighbor[k];
+        if (j >= 0) field += couplings[axis[k]] * sign[k] * spins[j];
+      }
+
+      const s = spins[i];
+      let next: number;
+
+      if (heatBath) {
+        const x = 2 * beta * E_0 * field;
+        const pUp = x === Infinity ? 1 : x === -Infinity ? 0 : Number.isNaN(x) ? 0.5 : 1 / (1 + Math.exp(-x));
+        next = this.random.next() < pUp ? 1 : -1;
+      } else {
+        // Flipping s_i changes the energy by ΔE = 2 E_0 s_i h_i
+        const dE = 2 * E_0 * s * field;
+        next = dE <= 0 || this.random.next() < Math.exp(-beta * dE) ? -s : s;
+      }
+
+      if (next !== s) {
+        spins[i] = next;
+        accepted++;
+      }
+    }
+
+    this.acceptedFlips += accepted;
+    this.attemptedFlips += order.length;
+  }
+
+  /**
+   * Measure per-site energy and magnetization
+   * @param lattice - Lattice to measure
+   * @param hamiltonian - Coupling constants (default: the lattice's)
+   */
+  static measure(lattice: Lattice, hamiltonian: Hamiltonian = lattice.getHamiltonian()): ThermodynamicSample {
+    const { width, height, depth } = lattice;
+    const spins = lattice.storage.spins;
+    const couplings = [hamiltonian.Jx, hamiltonian.Jy, hamiltonian.Jz];
+    const extents = [width, height, depth];
+    let bondEnergy = 0;
+    let magnetization = 0;
+
+    for (let i = 0; i < spins.length; i++) {
+      magnetization += spins[i];
+    }
+
+    // Forward bonds only, so every bond is counted once
+    for (let a = 0; a < 3; a++) {
+      if (extents[a] < 2) continue;
+      const { next, sign } = lattice.getForwardNeighbors(AXES[a]);
+
+      for (let z = 0; z < depth; z++) {
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            const c = a === 0 ? x : a === 1 ? y : z;
+            const t = next[c];
+            if (t < 0) continue;
+            const j = a === 0
+              ? (z * height + y) * width + t
+              : a === 1
+                ? (z * height + t) * width + x
+                : (t * height + y) * width + x;
+            bondEnergy -= couplings[a] * spins[(z * height + y) * width + x] * sign[c] * spins[j];
+          }
+        }
+      }
+    }
+
+    const N = spins.length;
+    return {
+      energy: (hamiltonian.E_0 * (bondEnergy - hamiltonian.h * magnetization)) / N,
+      magnetization: magnetization / N
+    };
+  }
+
+  /**
+   * Get the bond topology for a lattice (rebuilt when the lattice or its boundary changes)
+   */
+  private getTopology(lattice: Lattice): BondTopology {
+    if (this.topology && this.topologyLattice === lattice && this.topologyBoundary === lattice.boundary) {
+      return this.topology;
+    }
+
+    const { width, height, depth } = lattice;
+    const size = width * height * depth;
+    const neighbor = new Int32Array(size * SLOTS_PER_SITE).fill(-1);
+    const sign = new Int8Array(size * SLOTS_PER_SITE);
+    const axis = new Uint8Array(size * SLOTS_PER_SITE);
+    const strides = [1, width, width * height];
+    const extents = [width, height, depth];
+
+    for (let a = 0; a < 3; a++) {
+      if (extents[a] < 2) continue;
+      const { next, sign: seam } = lattice.getForwardNeighbors(AXES[a]);
+
+      for (let i = 0; i < size; i++) {
+        const c = Math.floor(i / strides[a]) % extents[a];
+        const t = next[c];
+        // Open edges have no bond; reflecting self-bonds do not depend on s_i
+        if (t < 0 || t === c) continue;
+
+        const j = i + (t - c) * strides[a];
+        // Forward slot of i, backward slot of j
+        neighbor[i * SLOTS_PER_SITE + 2 * a] = j;
+        sign[i * SLOTS_PER_SITE + 2 * a] = seam[c];
+        axis[i * SLOTS_PER_SITE + 2 * a] = a;
+        neighbor[j * SLOTS_PER_SITE + 2 * a + 1] = i;
+        sign[j * SLOTS_PER_SITE + 2 * a + 1] = seam[c];
+        axis[j * SLOTS_PER_SITE + 2 * a + 1] = a;
+      }
+    }
+
+    const order = new Int32Array(size);
+    let n = 0;
+    for (let parity = 0; parity < 2; parity++) {
+      for (let i = 0; i < size; i++) {
+        const x = i % width;
+        const y = Math.floor(i / width) % height;
+        const z = Math.floor(i / (width * height));
+        if (((x + y + z) & 1) === parity) order[n++] = i;
+      }
+    }
+
+    this.topology = { neighbor, sign, axis, order };
+    this.topologyLattice = lattice;
+    this.topologyBoundary = lattice.boundary;
+    return this.topology;
+  }
+}
@@ -8,6 +8,10 @@
  * - anomalous: E_asym persistent, topological defect with mass M = ℏω₀
  */
 
+import { RandomSource, defaultRandom } from './Random.js';
+import { LatticeStorage, STATE_CODES, STATE_NAMES } from './LatticeStorage.js';
+import type { CouplingParams } from './Hamiltonian.js';
+
 export type NodeState = 'vacuum' | 'broken' | 'anomalous';
 
 export interface Position {
@@ -24,14 +28,14 @@ export interface VisualProperties {
   opacity: number;
 }
 
-export interface PhysicsParams {
+/** Stochastic model parameters plus the coupling constants (J, Jx/Jy/Jz, h, E_0) */
+export interface PhysicsParams extends CouplingParams {
   symmetryStrength: number;
   anomalyProbability: number;
   energyThreshold: number;
   interactionRange?: number;
   waveSpeed?: number;
   timeStep?: number;
-  E_0?: number; // Total conserved energy per node
 }
 
 export interface NodeData {
@@ -45,16 +49,20 @@ export interface NodeData {
   visual: VisualProperties;
 }
 
+/**
+ * Storage slot a Node views (see LatticeStorage)
+ */
+export interface NodeSlot {
+  storage: LatticeStorage;
+  index: number;
+}
+
 export class Node {
   readonly position: Position;
-  state: NodeState;
-  spin: number; // s_i ∈ {-1, +1}
-  E_sym: number; // Symmetric energy component
-  E_asym: number; // Asymmetric energy component
-  phase: number; // Phase φ
-  omega: number; // Internal oscillation frequency ω₀
+  readonly index: number; // Slot index in the backing storage
   visual: VisualProperties;
   
+  private readonly storage: LatticeStorage;
   private previousState: NodeState | null = null;
   private previousSpin: number = 1;
   private previousE_sym: number = 0;
@@ -66,20 +74,30 @@ export class Node {
   private static readonly HBAR = 1.0; // ℏ in simulation units
 
   /**
-   * Create a new Node in vacuum state
+   * Create a new Node in vacuum state, or a view onto an existing storage slot
    * @param x - X coordinate in lattice
    * @param y - Y coordinate in lattice
    * @param z - Z coordinate in lattice (default 0 for 2D)
    * @param E_0 - Total conserved energy (default 1.0)
+   * @param random - Random source for the initial spin
+   * @param slot - Existing storage slot to view (its data is left untouched)
    */
-  constructor(x: number, y: number, z: number = 0, E_0: number = 1.0) {
+  constructor(
+    x: number,
+    y: number,
+    z: number = 0,
+    E_0: number = 1.0,
+    random: RandomSource = defaultRandom,
+    slot?: NodeSlot
+  ) {
     this.position = { x, y, z };
-    this.state = 'vacuum';
-    this.spin = Math.random() < 0.5 ? -1 : 1; // Random initial spin
-    this.E_sym = E_0; // Vacuum state: all energy is symmetric
-    this.E_asym = 0; // No asymmetric energy in vacuum
-    this.phase = 0;
-    this.omega = 0; // No oscillation in vacuum
+    this.storage = slot?.storage ?? new LatticeStorage(1);
+    this.index = slot?.index ?? 0;
+    
+    if (!slot) {
+      // Vacuum state: all energy is symmetric, random initial spin
+      this.storage.initializeSlot(this.index, random.next() < 0.5 ? -1 : 1, E_0);
+    }
     
     this.visual = {
       color: '#4CAF50',
@@ -88,6 +106,64 @@ export class Node {
       pulseSpeed: 0.05,
       opacity: 1.0
     };
+    
+    if (this.state !== 'vacuum') {
+      this._updateVisualForState();
+    }
+  }
+
+  /** Current TDS state */
+  get state(): NodeState {
+    return STATE_NAMES[this.storage.states[this.index]];
+  }
+
+  set state(value: NodeState) {
+    this.storage.states[this.index] = STATE_CODES[value];
+  }
+
+  /** Spin s_i ∈ {-1, +1} */
+  get spin(): number {
+    return this.storage.spins[this.index];
+  }
+
+  set spin(value: number) {
+    this.storage.spins[this.index] = value;
+  }
+
+  /** Symmetric energy component */
+  get E_sym(): number {
+    return this.storage.E_sym[this.index];
+  }
+
+  set E_sym(value: number) {
+    this.storage.E_sym[this.index] = value;
+  }
+
+  /** Asymmetric energy component */
+  get E_asym(): number {
+    return this.storage.E_asym[this.index];
+  }
+
+  set E_asym(value: number) {
+    this.storage.E_asym[this.index] = value;
+  }
+
+  /** Phase φ */
+  get phase(): number {
+    return this.storage.phases[this.index];
+  }
+
+  set phase(value: number) {
+    this.storage.phases[this.index] = value;
+  }
+
+  /** Internal oscillation frequency ω₀ */
+  get omega(): number {
+    return this.storage.omegas[this.index];
+  }
+
+  set omega(value: number) {
+    this.storage.omegas[this.index] = value;
   }
 
   /**
@@ -95,8 +171,9 @@ export class Node {
    * Implements TDS dynamics with E_sym ↔ E_asym energy exchange
    * @param neighbors - Array of neighboring nodes
    * @param params - Physics parameters
+   * @param random - Random source for stochastic transitions
    */
-  updateState(neighbors: Node[], params: PhysicsParams): void {
+  updateState(neighbors: Node[], params: PhysicsParams, random: RandomSource = defaultRandom): void {
     // Save previous state for reversibility
     this.previousState = this.state;
     this.previousSpin = this.spin;
@@ -115,10 +192,10 @@ export class Node {
     // State transitions based on TDS physics
     if (this.state === 'vacuum') {
       // Vacuum can break symmetry if conditions are right
-      if (Math.random() > transitionProbability) {
+      if (random.next() > transitionProbability) {
         if (energyGradient > params.energyThreshold) {
           this.state = 'anomalous';
-          this._transitionToAnomalous();
+          this._transitionToAnomalous(random);
         } else {
           this.state = 'broken';
           this._transitionToBroken();
@@ -131,11 +208,11 @@ export class Node {
         this._transitionToVacuum();
       } else if (energyGradient > params.energyThreshold * 1.5) {
         this.state = 'anomalous';
-        this._transitionToAnomalous();
+        this._transitionToAnomalous(random);
       }
     } else if (this.state === 'anomalous') {
       // Anomalous state is persistent but can decay
-      if (Math.random() < 0.1 && localSymmetry > 0.5) {
+      if (random.next() < 0.1 && localSymmetry > 0.5) {
         this.state = 'broken';
         this._transitionToBroken();
       }
@@ -148,21 +225,35 @@ export class Node {
   /**
    * Calculate E_sym and E_asym based on neighbors and spin alignment
    * Implements TDS energy dynamics with conservation E_sym + E_asym = E_0
+   *
+   * Alignment is the coupling-weighted mean of s_i × s_j plus the field term
+   * h × s_i, clamped to [-1, 1]; J = 1, h = 0 gives the plain mean alignment.
    * @param neighbors - Array of neighboring nodes
-   * @param _J - Coupling strength (reserved for future use)
+   * @param J - Coupling strength, or one coupling per neighbor (anisotropic)
    * @param E_0 - Total conserved energy
+   * @param signs - Per-neighbor sign from antiperiodic boundaries (default all +1)
+   * @param h - External field
    */
-  calculateEnergy(neighbors: Node[] = [], _J: number = 1.0, E_0: number = 1.0): void {
+  calculateEnergy(
+    neighbors: Node[] = [],
+    J: number | ArrayLike<number> = 1.0,
+    E_0: number = 1.0,
+    signs?: ArrayLike<number>,
+    h: number = 0
+  ): void {
     // Calculate E_sym based on spin alignment with neighbors
     let spinAlignment = 0;
     if (neighbors.length > 0) {
-      for (const neighbor of neighbors) {
-        spinAlignment += this.spin * neighbor.spin; // s_i × s_j
+      for (let k = 0; k < neighbors.length; k++) {
+        const sign = signs ? signs[k] : 1;
+        const coupling = typeof J === 'number' ? J : J[k];
+        spinAlignment += coupling * this.spin * sign * neighbors[k].spin; // J_ij × s_i × s_j
       }
       spinAlignment /= neighbors.length;
     } else {
       spinAlignment = 1.0; // Isolated node is aligned with itself
     }
+    spinAlignment = Math.max(-1, Math.min(1, spinAlignment + h * this.spin));
     
     // E_sym increases with spin alignment
     // Perfect alignment (spinAlignment = 1) → E_sym = E_0, E_asym = 0
@@ -257,11 +348,11 @@ export class Node {
   /**
    * Transition to anomalous state: persistent E_asym, high ω₀
    */
-  private _transitionToAnomalous(): void {
+  private _transitionToAnomalous(random: RandomSource): void {
     const E_0 = this.E_sym + this.E_asym;
     this.E_asym = E_0 * 0.7; // 70% asymmetric energy
     this.E_sym = E_0 * 0.3;
-    this.omega = 2.0 + Math.random() * 3.0; // High frequency oscillation
+    this.omega = 2.0 + random.next() * 3.0; // High frequency oscillation
     this._updateVisualForAnomalous();
   }
 
@@ -317,26 +408,33 @@ export class Node {
       this.E_asym = this.previousE_asym;
       this.phase = this.previousPhase;
       this.omega = this.previousOmega;
-      
-      switch (this.state) {
-        case 'vacuum':
-          this._updateVisualForVacuum();
-          break;
-        case 'broken':
-          this._updateVisualForBroken();
-          break;
-        case 'anomalous':
-          this._updateVisualForAnomalous();
-          break;
-      }
+      this._updateVisualForState();
+    }
+  }
+
+  /**
+   * Update visual properties to match the current state
+   */
+  private _updateVisualForState(): void {
+    switch (this.state) {
+      case 'vacuum':
+        this._updateVisualForVacuum();
+        break;
+      case 'broken':
+        this._updateVisualForBroken();
+        break;
+      case 'anomalous':
+        this._updateVisualForAnomalous();
+        break;
     }
   }
 
   /**
    * Force set the state of the node (for manual state creation)
    * @param newState - New state
+   * @param random - Random source for the anomalous frequency ω₀
    */
-  setState(newState: NodeState): void {
+  setState(newState: NodeState, random: RandomSource = defaultRandom): void {
     this.previousState = this.state;
     this.previousSpin = this.spin;
     this.previousE_sym = this.E_sym;
@@ -353,7 +451,7 @@ export class Node {
         this._transitionToBroken();
         break;
       case 'anomalous':
-        this._transitionToAnomalous();
+        this._transitionToAnomalous(random);
         break;
     }
   }
@@ -0,0 +1,319 @@
+/**
+ * Perturbations - Registry of typed interventions on a running lattice
+ *
+ * Each perturbation declares typed parameters (with defaults and ranges for
+ * the UI) and changes the lattice in place. Positions and radii are in
+ * sites. A perturbation is recorded as a PerturbationSpec ({ id, params }),
+ * so history entries and exports carry everything needed to replay it.
+ * Continuous perturbations (sources/sinks) are applied once per step for
+ * as long as they are scheduled. History of spinsOnly engines keeps only
+ * the spin part of a perturbation (node energies are not their state).
+ */
+
+import { Lattice } from './Lattice.js';
+import { Physics } from './Physics.js';
+import { axisOffset } from './Boundary.js';
+import type { Node } from './Node.js';
+import type { InitialConditionParamSpec } from './InitialConditions.js';
+
+export type PerturbationParamValue = number | string;
+
+export type PerturbationParams = Record<string, PerturbationParamValue>;
+
+/** UI description of one parameter (same shape as initial condition parameters) */
+export type PerturbationParamSpec<K extends string = string> = InitialConditionParamSpec<K>;
+
+/** Definition as the registry holds it (parameters untyped) */
+export interface PerturbationDefinitionBase {
+  id: string;
+  label: string;
+  description: string;
+  params: PerturbationParamSpec[];
+  defaults: PerturbationParams;
+  continuous: boolean; // Applied every step while active (sources/sinks)
+  /** Change the lattice in place (dt: step length, for continuous perturbations) */
+  apply(lattice: Lattice, params: PerturbationParams, dt: number): void;
+}
+
+export interface PerturbationDefinition<P extends PerturbationParams = PerturbationParams>
+  extends PerturbationDefinitionBase {
+  params: PerturbationParamSpec<Extract<keyof P, string>>[];
+  defaults: P;
+  apply(lattice: Lattice, params: P, dt: number): void;
+}
+
+/** Serializable perturbation (recorded in history and exports) */
+export interface PerturbationSpec {
+  id: string;
+  params: PerturbationParams;
+}
+
+/** Perturbation as recorded in history */
+export interface RecordedPerturbation {
+  spec: PerturbationSpec;
+  step: number; // Step count it was applied at (before the engine advanced from it)
+}
+
+export interface SpinFlipParams extends PerturbationParams {
+  x: number;
+  y: number;
+  z: number;
+  radius: number;
+}
+
+export interface PlaneWaveParams extends PerturbationParams {
+  kx: number;
+  ky: number;
+  kz: number;
+  amplitude: number;
+  phase: number;
+}
+
+export interface GaussianPulseParams extends PerturbationParams {
+  x: number;
+  y: number;
+  z: number;
+  width: number;
+  amplitude: number;
+}
+
+export interface ExternalFieldParams extends PerturbationParams {
+  x: number;
+  y: number;
+  z: number;
+  radius: number;
+  type: 'energy' | 'phase' | 'symmetry';
+  strength: number;
+}
+
+export interface SourceParams extends PerturbationParams {
+  x: number;
+  y: number;
+  z: number;
+  radius: number;
+  rate: number;
+}
+
+export interface AnomalyParams extends PerturbationParams {
+  x: number;
+  y: number;
+  z: number;
+  radius: number;
+  energyBoost: number;
+}
+
+const registry = new Map<string, PerturbationDefinitionBase>();
+
+/**
+ * Register a perturbation (replaces one with the same id)
+ */
+export function registerPerturbation<P extends PerturbationParams>(definition: PerturbationDefinition<P>): void {
+  registry.set(definition.id, definition);
+}
+
+/**
+ * Get a registered perturbation
+ */
+export function getPerturbation(id: string): PerturbationDefinitionBase | undefined {
+  return registry.get(id);
+}
+
+/**
+ * List registered perturbations in registration order
+ */
+export function listPerturbations(): PerturbationDefinitionBase[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Fill in missing parameters from the definition's defaults
+ */
+export function resolvePerturbation(spec: PerturbationSpec): PerturbationSpec {
+  const definition = registry.get(spec.id);
+  if (!definition) {
+    throw new Error(`Unknown perturbation: ${spec.id}`);
+  }
+  return { id: spec.id, params: { ...definition.defaults, ...spec.params } };
+}
+
+/**
+ * Apply a perturbation to the lattice
+ * @param dt - Step length (scales continuous perturbations)
+ * @returns The spec with defaults filled in (for recording)
+ */
+export function applyPerturbation(lattice: Lattice, spec: PerturbationSpec, dt: number = 1): PerturbationSpec {
+  const resolved = resolvePerturbation(spec);
+  registry.get(spec.id)!.apply(lattice, resolved.params, dt);
+  return resolved;
+}
+
+/**
+ * Visit every site with its squared distance from a center
+ * (minimum image along periodic and antiperiodic axes)
+ */
+function forEachSite(
+  lattice: Lattice,
+  cx: number, cy: number, cz: number,
+  visit: (index: number, r2: number, x: number, y: number, z: number) => void
+): void {
+  const { width, height, depth, boundary } = lattice;
+  let i = 0;
+  for (let z = 0; z < depth; z++) {
+    const dz = axisOffset(cz, z, depth, boundary.z);
+    for (let y = 0; y < height; y++) {
+      const dy = axisOffset(cy, y, height, boundary.y);
+      for (let x = 0; x < width; x++) {
+        const dx = axisOffset(cx, x, width, boundary.x);
+        visit(i++, dx * dx + dy * dy + dz * dz, x, y, z);
+      }
+    }
+  }
+}
+
+const POSITION_PARAMS: PerturbationParamSpec<'x' | 'y' | 'z'>[] = [
+  { key: 'x', label: 'x', type: 'integer', min: 0, step: 1 },
+  { key: 'y', label: 'y', type: 'integer', min: 0, step: 1 },
+  { key: 'z', label: 'z', type: 'integer', min: 0, step: 1 }
+];
+
+registerPerturbation<SpinFlipParams>({
+  id: 'spinFlip',
+  label: 'Spin flip',
+  description: 'Flip every spin within a radius',
+  params: [...POSITION_PARAMS, { key: 'radius', label: 'Radius', type: 'number', min: 0, max: 32, step: 0.5 }],
+  defaults: { x: 0, y: 0, z: 0, radius: 2 },
+  continuous: false,
+  apply(lattice, params) {
+    const spins = lattice.storage.spins;
+    const r2 = params.radius * params.radius;
+    forEachSite(lattice, params.x, params.y, params.z, (i, d2) => {
+      if (d2 <= r2) spins[i] = -spins[i];
+    });
+  }
+});
+
+registerPerturbation<PlaneWaveParams>({
+  id: 'planeWave',
+  label: 'Plane wave',
+  description: 'Imprint cos(2π k·r / N + φ): flips spins where cos < -(1 - amplitude) and shifts node phases',
+  params: [
+    { key: 'kx', label: 'k_x', type: 'integer', min: 0, max: 32, step: 1 },
+    { key: 'ky', label: 'k_y', type: 'integer', min: 0, max: 32, step: 1 },
+    { key: 'kz', label: 'k_z', type: 'integer', min: 0, max: 32, step: 1 },
+    { key: 'amplitude', label: 'Amplitude', type: 'number', min: 0, max: 1, step: 0.05 },
+    { key: 'phase', label: 'φ', type: 'number', min: 0, max: 6.28, step: 0.1 }
+  ],
+  defaults: { kx: 4, ky: 0, kz: 0, amplitude: 1, phase: 0 },
+  continuous: false,
+  apply(lattice, params) {
+    const { width: Nx, height: Ny, depth: Nz } = lattice;
+    const { spins, phases } = lattice.storage;
+    const threshold = -(1 - params.amplitude);
+
+    forEachSite(lattice, 0, 0, 0, (i, _r2, x, y, z) => {
+      const wave = Math.cos(2 * Math.PI * (params.kx * x / Nx + params.ky * y / Ny + params.kz * z / Nz) + params.phase);
+      if (wave < threshold) spins[i] = -spins[i];
+      const phase = (phases[i] + params.amplitude * Math.PI * wave) % (2 * Math.PI);
+      phases[i] = phase < 0 ? phase + 2 * Math.PI : phase;
+    });
+  }
+});
+
+registerPerturbation<GaussianPulseParams>({
+  id: 'gaussianPulse',
+  label: 'Gaussian pulse',
+  description: 'Energy bump A·exp(-r²/2σ²) into E_asym; flips spins where it exceeds 0.5',
+  params: [
+    ...POSITION_PARAMS,
+    { key: 'width', label: 'σ', type: 'number', min: 0.5, max: 32, step: 0.5, description: 'In sites' },
+    { key: 'amplitude', label: 'Amplitude', type: 'number', min: 0, max: 10, step: 0.1 }
+  ],
+  defaults: { x: 0, y: 0, z: 0, width: 2, amplitude: 1 },
+  continuous: false,
+  apply(lattice, params) {
+    const { spins, E_sym, E_asym } = lattice.storage;
+    const twoSigma2 = 2 * params.width * params.width;
+
+    forEachSite(lattice, params.x, params.y, params.z, (i, r2) => {
+      const pulse = params.amplitude * Math.exp(-r2 / twoSigma2);
+      if (pulse < 1e-6) return;
+
+      // Shift energy from E_sym to E_asym, keeping E_0 per node
+      const E_0 = E_sym[i] + E_asym[i];
+      E_asym[i] = Math.min(E_0, E_asym[i] + pulse);
+      E_sym[i] = E_0 - E_asym[i];
+      if (pulse >= 0.5) spins[i] = -spins[i];
+    });
+  }
+});
+
+registerPerturbation<ExternalFieldParams>({
+  id: 'externalField',
+  label: 'Local external field',
+  description: 'Physics.applyExternalField on the sites within a radius',
+  params: [
+    ...POSITION_PARAMS,
+    { key: 'radius', label: 'Radius', type: 'number', min: 0, max: 32, step: 0.5 },
+    { key: 'type', label: 'Field', type: 'choice', options: ['energy', 'phase', 'symmetry'] },
+    { key: 'strength', label: 'Strength', type: 'number', min: -5, max: 5, step: 0.1 }
+  ],
+  defaults: { x: 0, y: 0, z: 0, radius: 3, type: 'energy', strength: 0.5 },
+  continuous: false,
+  apply(lattice, params) {
+    const nodes: Node[] = [];
+    const r2 = params.radius * params.radius;
+    forEachSite(lattice, params.x, params.y, params.z, (i, d2) => {
+      if (d2 <= r2) nodes.push(lattice.getNodeAt(i));
+    });
+
+    Physics.applyExternalField(nodes, { type: params.type, strength: params.strength });
+  }
+});
+
+registerPerturbation<SourceParams>({
+  id: 'source',
+  label: 'Source / sink',
+  description: 'Every step: moves rate·dt of energy into E_asym (sink: rate < 0) and pins spins to sign(rate)',
+  params: [
+    ...POSITION_PARAMS,
+    { key: 'radius', label: 'Radius', type: 'number', min: 0, max: 32, step: 0.5 },
+    { key: 'rate', label: 'Rate', type: 'number', min: -2, max: 2, step: 0.05, description: 'Energy per step (negative: sink)' }
+  ],
+  defaults: { x: 0, y: 0, z: 0, radius: 1, rate: 0.1 },
+  continuous: true,
+  apply(lattice, params, dt) {
+    const { spins, E_sym, E_asym } = lattice.storage;
+    const r2 = params.radius * params.radius;
+    const amount = params.rate * dt;
+    const spin = params.rate < 0 ? -1 : 1;
+
+    forEachSite(lattice, params.x, params.y, params.z, (i, d2) => {
+      if (d2 > r2) return;
+      const E_0 = E_sym[i] + E_asym[i];
+      E_asym[i] = Math.max(0, Math.min(E_0, E_asym[i] + amount));
+      E_sym[i] = E_0 - E_asym[i];
+      spins[i] = spin;
+    });
+  }
+});
+
+registerPerturbation<AnomalyParams>({
+  id: 'anomaly',
+  label: 'Anomaly',
+  description: 'Lattice.createAnomaly (random broken ring from the seeded stream) plus an energy boost nearby',
+  params: [
+    ...POSITION_PARAMS,
+    { key: 'radius', label: 'Radius', type: 'number', min: 1, max: 16, step: 1 },
+    { key: 'energyBoost', label: 'Energy boost', type: 'number', min: 0, max: 10, step: 0.5 }
+  ],
+  defaults: { x: 0, y: 0, z: 0, radius: 2, energyBoost: 2 },
+  continuous: false,
+  apply(lattice, params) {
+    const { x, y, z, radius } = params;
+    lattice.createAnomaly(x, y, z, radius);
+
+    for (const node of lattice.getRegion(x - radius, y - radius, x + radius, y + radius, z - radius, z + radius)) {
+      node.energy += params.energyBoost;
+    }
+  }
+});
@@ -2,6 +2,7 @@ import { Node, NodeState, PhysicsParams } from './Node.js';
 import { Lattice } from './Lattice.js';
 import { ConservationEnforcer, ConservationReport } from './ConservationEnforcer.js';
 import { AnomalyDetector, AnomalyReport } from './AnomalyDetector.js';
+import { RandomSource, SeededRandom } from './Random.js';
 
 interface ReversibilityMetrics {
   energyConservation: number;
@@ -42,6 +43,7 @@ interface ExternalField {
 export class Physics {
   private static conservationEnforcer: ConservationEnforcer | null = null;
   private static anomalyDetector: AnomalyDetector | null = null;
+  private static readonly CORRELATION_SAMPLE_SEED = 0x5eed;
 
   /**
    * Initialize conservation enforcer
@@ -163,15 +165,15 @@ export class Physics {
     for (const node of region) {
       if (node === anomalyNode) continue;
       
-      const distance = this.calculateDistance(anomalyNode, node);
+      const distance = lattice.getDistance(anomalyNode, node);
       const waveAmplitude = Math.exp(-distance / (params.interactionRange || 3));
       const wavePhase = distance * (params.waveSpeed || 0.5);
       const waveEffect = waveAmplitude * (0.5 + 0.5 * Math.cos(wavePhase));
       const influenceProbability = params.anomalyProbability * waveEffect;
       
-      if (Math.random() < influenceProbability) {
+      if (lattice.random.next() < influenceProbability) {
         if (distance < (params.interactionRange || 3) * 0.3) {
-          node.setState('anomalous');
+          node.setState('anomalous', lattice.random);
         } else if (distance < (params.interactionRange || 3) * 0.7) {
           if (node.state === 'vacuum') {
             node.setState('broken');
@@ -328,13 +330,21 @@ export class Physics {
 
   /**
    * Calculate correlation length in the lattice
+   * A coarse sampled estimate (first integer distance where neighbours share
+   * the state less than half the time); analytics/CorrelationAnalyzer
+   * computes the exact C(r), S(k) and the fitted length that analytics and
+   * batch results report. Sampling uses its own fixed-seed stream by default
+   * so that measuring never advances the random stream driving the dynamics.
    */
-  static calculateCorrelationLength(lattice: Lattice): number {
+  static calculateCorrelationLength(
+    lattice: Lattice,
+    random: RandomSource = new SeededRandom(this.CORRELATION_SAMPLE_SEED)
+  ): number {
     const sampleSize = Math.min(100, lattice.getNodeCount());
     const correlations: number[][] = [];
     
     for (let i = 0; i < sampleSize; i++) {
-      const randomIndex = Math.floor(Math.random() * lattice.nodes.length);
+      const randomIndex = Math.floor(random.next() * lattice.nodes.length);
       const node = lattice.nodes[randomIndex];
       
       for (let distance = 1; distance <= 5; distance++) {
@@ -0,0 +1,72 @@
+/**
+ * PhysicsEngine - Common interface of the lattice dynamics
+ *
+ * Simulation drives whichever engine is active through this interface, so
+ * history, bookmarks, the Photon Window test and exports behave the same
+ * for every model:
+ * - stochastic: the Node model (Lattice.update), irreversible
+ * - author:     AuthorPhysics, reversible rule with the author's initial conditions
+ * - swap:       SwapDynamics, reversible rule on the current spins
+ * - thermal:    MonteCarlo sweeps at temperature T, irreversible
+ *
+ * Reversible engines step backward with reverseStep(); irreversible ones
+ * throw there and Simulation steps back through its saved history instead.
+ */
+
+import type { Lattice } from './Lattice.js';
+import type { SimulationParams } from './Simulation.js';
+import type { EnergyMetrics } from './Hamiltonian.js';
+import type { InitialConditionSpec } from './InitialConditions.js';
+
+export type PhysicsEngineId = 'stochastic' | 'author' | 'swap' | 'thermal';
+
+/** Internal state an engine needs besides the lattice to continue a run */
+export interface EnginePhaseState {
+  phaseStep: number; // Position in the rule cycle (0 for engines without phases)
+}
+
+export interface PhysicsEngine {
+  readonly id: PhysicsEngineId;
+  readonly name: string;
+  readonly reversible: boolean;
+  readonly spinsOnly: boolean; // Only spins change (history stores spins instead of node data)
+
+  /**
+   * Prepare the lattice for a new run
+   * @returns The applied initial condition, or null if the lattice was left as is
+   */
+  initialize(lattice: Lattice): InitialConditionSpec | null;
+
+  /**
+   * Advance the lattice by one step
+   */
+  step(lattice: Lattice, params: SimulationParams, dt: number): void;
+
+  /**
+   * Undo one step (irreversible engines throw)
+   */
+  reverseStep(lattice: Lattice, params: SimulationParams, dt: number): void;
+
+  /**
+   * Energy metrics of the current lattice state
+   */
+  calculateEnergy(lattice: Lattice): EnergyMetrics;
+
+  /**
+   * Get the internal state for history and exports
+   */
+  getPhaseState(): EnginePhaseState;
+
+  /**
+   * Restore internal state saved by getPhaseState
+   */
+  setPhaseState(state: EnginePhaseState): void;
+}
+
+/** Display names of the engines (UI pickers) */
+export const PHYSICS_ENGINE_NAMES: Record<PhysicsEngineId, string> = {
+  stochastic: 'Stochastic node model',
+  author: 'Author physics',
+  swap: 'Swap dynamics',
+  thermal: 'Thermal Monte Carlo'
+};
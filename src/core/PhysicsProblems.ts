@@ -328,7 +328,7 @@ export class PhysicsProblems {
 
   private _setupUniformLowSymmetry(lattice: Lattice): void {
     lattice.forEachNode(node => {
-      if (Math.random() < 0.6) {
+      if (lattice.random.next() < 0.6) {
         node.setState('broken');
       }
     });
@@ -344,7 +344,7 @@ export class PhysicsProblems {
   private _setupSuperpositionState(lattice: Lattice): void {
     lattice.forEachNode(node => {
       node.setState('vacuum');
-      node.phase = Math.random() * 2 * Math.PI;
+      node.phase = lattice.random.next() * 2 * Math.PI;
     });
   }
 
@@ -358,7 +358,7 @@ export class PhysicsProblems {
       const distance = Math.sqrt(dx * dx + dy * dy);
       
       if (distance < 5) {
-        node.setState('anomalous');
+        node.setState('anomalous', lattice.random);
         // Set high E_asym for anomalous nodes
         node.E_asym = 8.0;
         node.E_sym = 2.0;
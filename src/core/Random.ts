@@ -0,0 +1,87 @@
+/**
+ * Random - Seeded pseudo-random number generation for reproducible runs
+ *
+ * All stochastic dynamics draw from a RandomSource instead of Math.random,
+ * so a seed plus a parameter set reproduces a run step-for-step.
+ * SeededRandom implements the mulberry32 generator (32-bit state).
+ */
+
+export interface RandomSource {
+  /** Next uniform number in [0, 1) */
+  next(): number;
+}
+
+export class SeededRandom implements RandomSource {
+  private seed: number;
+  private state: number;
+
+  /**
+   * Create a new seeded generator
+   * @param seed - 32-bit integer seed (random if omitted)
+   */
+  constructor(seed: number = SeededRandom.generateSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Generate a fresh seed from Math.random (used only when no seed is given)
+   */
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * Next uniform number in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Next integer in [0, max)
+   */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Get the seed this generator was created with
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Restart the sequence, optionally with a new seed
+   */
+  reseed(seed: number = this.seed): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Get internal state (for export/restore mid-run)
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Restore internal state saved with getState()
+   */
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+/**
+ * Fallback source for code paths used outside a seeded simulation
+ */
+export const defaultRandom: RandomSource = {
+  next: () => Math.random()
+};
@@ -0,0 +1,408 @@
+/**
+ * ReversibleRules - Pluggable reversible cellular-automaton rules
+ *
+ * A rule is a cycle of phases; each phase is a bijection on the spin
+ * configuration with a known inverse, so stepping forward through the
+ * phases and then backward through their inverses restores the lattice
+ * exactly. Two families are provided:
+ *
+ * - SwapScheduleRule: nearest-neighbor swaps along an axis for one parity
+ *   (each phase is its own inverse). The default Margolus 6-phase x/y/z
+ *   schedule is MARGOLUS_SWAP_SCHEDULE; any other schedule can be passed.
+ * - BlockRule: Margolus partitioning into 2×2(×2) blocks whose offset
+ *   alternates between phases, with a bijective lookup table on block
+ *   states (custom cell permutations, Critters, billiard-ball model).
+ *
+ * All rules resolve edges through the lattice boundary conditions.
+ */
+
+import { Lattice, LatticeDimensions } from './Lattice.js';
+import { LatticeAxis } from './Boundary.js';
+
+export interface SwapPhase {
+  axis: LatticeAxis;
+  parity: 0 | 1;
+}
+
+export interface ReversibleRule {
+  readonly id: string;
+  readonly name: string;
+  /** Number of phases in one full cycle on a lattice of these dimensions */
+  getCycleLength(dimensions: LatticeDimensions): number;
+  /** Apply phase `phase` (0 ≤ phase < cycle length) */
+  applyPhase(lattice: Lattice, phase: number): void;
+  /** Undo phase `phase` */
+  applyInversePhase(lattice: Lattice, phase: number): void;
+  /** Short label for display */
+  getPhaseName(phase: number, dimensions: LatticeDimensions): string;
+}
+
+/** Reference schedule: x even, y odd, z even, x odd, y even, z odd */
+export const MARGOLUS_SWAP_SCHEDULE: readonly SwapPhase[] = [
+  { axis: 'x', parity: 0 },
+  { axis: 'y', parity: 1 },
+  { axis: 'z', parity: 0 },
+  { axis: 'x', parity: 1 },
+  { axis: 'y', parity: 0 },
+  { axis: 'z', parity: 1 }
+];
+
+/**
+ * Swap spins with the +1 neighbor along an axis for sites of one parity
+ */
+export class SwapScheduleRule implements ReversibleRule {
+  readonly id: string;
+  readonly name: string;
+  private readonly schedule: readonly SwapPhase[];
+  private readonly skipFlatAxes: boolean;
+  private scratch: Int8Array = new Int8Array(0);
+
+  /**
+   * @param schedule - Phases in order (user-defined schedules allowed)
+   * @param options - skipFlatAxes drops phases along axes of extent 1 (default true)
+   */
+  constructor(
+    schedule: readonly SwapPhase[] = MARGOLUS_SWAP_SCHEDULE,
+    options: { id?: string; name?: string; skipFlatAxes?: boolean } = {}
+  ) {
+    if (schedule.length === 0) {
+      throw new Error('Swap schedule must have at least one phase');
+    }
+    this.schedule = schedule.map(phase => ({ ...phase }));
+    this.id = options.id ?? 'swap-schedule';
+    this.name = options.name ?? 'Swap schedule';
+    this.skipFlatAxes = options.skipFlatAxes ?? true;
+  }
+
+  /**
+   * Get the phases that act on a lattice of these dimensions
+   */
+  getActivePhases(dimensions: LatticeDimensions): SwapPhase[] {
+    if (!this.skipFlatAxes) return [...this.schedule];
+
+    const extents = { x: dimensions.width, y: dimensions.height, z: dimensions.depth };
+    const active = this.schedule.filter(phase => extents[phase.axis] > 1);
+    // A fully flat lattice keeps the schedule (every phase is then a no-op)
+    return active.length > 0 ? active : [...this.schedule];
+  }
+
+  getCycleLength(dimensions: LatticeDimensions): number {
+    return this.getActivePhases(dimensions).length;
+  }
+
+  applyPhase(lattice: Lattice, phase: number): void {
+    this.swap(lattice, this.getActivePhases(lattice)[phase]);
+  }
+
+  applyInversePhase(lattice: Lattice, phase: number): void {
+    // A swap phase is an involution
+    this.swap(lattice, this.getActivePhases(lattice)[phase]);
+  }
+
+  getPhaseName(phase: number, dimensions: LatticeDimensions): string {
+    const { axis, parity } = this.getActivePhases(dimensions)[phase];
+    return `${axis.toUpperCase()}_${parity === 0 ? 'EVEN' : 'ODD'}`;
+  }
+
+  /**
+   * Swap every site of the phase parity with its forward neighbor
+   * Reads from a snapshot of the spins so the result matches a simultaneous update.
+   */
+  private swap(lattice: Lattice, phase: SwapPhase): void {
+    const { axis, parity } = phase;
+    const { width: Nx, height: Ny, depth: Nz } = lattice;
+    const spins = lattice.storage.spins;
+    const { next, sign } = lattice.getForwardNeighbors(axis);
+    const extent = axis === 'x' ? Nx : axis === 'y' ? Ny : Nz;
+
+    if (this.scratch.length !== spins.length) {
+      this.scratch = new Int8Array(spins.length);
+    }
+    const source = this.scratch;
+    source.set(spins);
+
+    for (let z = 0; z < Nz; z++) {
+      for (let y = 0; y < Ny; y++) {
+        for (let x = 0; x < Nx; x++) {
+          if (((x + y + z) & 1) !== parity) continue;
+
+          // Forward neighbor per the lattice boundary (-1 means open edge)
+          const c = axis === 'x' ? x : axis === 'y' ? y : z;
+          const partner = next[c];
+          if (partner < 0) continue;
+          // On an odd wrapping axis the seam pair shares a site with the first pair;
+          // skip it so the phase stays a bijection
+          if (partner < c && (extent & 1)) continue;
+
+          let xn = x, yn = y, zn = z;
+          if (axis === 'x') xn = partner;
+          else if (axis === 'y') yn = partner;
+          else zn = partner;
+
+          const i = (z * Ny + y) * Nx + x;
+          const j = (zn * Ny + yn) * Nx + xn;
+
+          // Spins crossing an antiperiodic seam flip sign (the swap stays an involution)
+          spins[i] = sign[c] * source[j];
+          spins[j] = sign[c] * source[i];
+        }
+      }
+    }
+  }
+}
+
+/** Block extent along each axis (2 = partitioned axis, 1 = not partitioned) */
+export interface BlockShape {
+  x: 1 | 2;
+  y: 1 | 2;
+  z: 1 | 2;
+}
+
+/** Blocks of one partition: cell site indices and boundary signs, `cells` entries per block */
+interface BlockPartition {
+  indices: Int32Array;
+  signs: Int8Array;
+}
+
+/**
+ * Margolus block rule with a bijective table on block states
+ *
+ * Cells of a block are numbered c = dx + sx·(dy + sy·dz); bit c of a block
+ * state is set when that cell's spin is +1. Even phases use blocks starting
+ * at even coordinates, odd phases shift the partition by one site.
+ */
+export class BlockRule implements ReversibleRule {
+  readonly id: string;
+  readonly name: string;
+  readonly shape: BlockShape;
+  private readonly cells: number;
+  private readonly forward: Uint8Array;
+  private readonly inverse: Uint8Array;
+  private partitions = new Map<string, BlockPartition>();
+
+  /**
+   * @param shape - Block extent per axis
+   * @param table - New state for every block state (must be a bijection)
+   */
+  constructor(id: string, name: string, shape: BlockShape, table: ArrayLike<number>) {
+    const cells = shape.x * shape.y * shape.z;
+    const states = 1 << cells;
+
+    if (table.length !== states) {
+      throw new Error(`Block rule ${id}: table needs ${states} entries, got ${table.length}`);
+    }
+
+    const forward = new Uint8Array(states);
+    const inverse = new Uint8Array(states);
+    const seen = new Uint8Array(states);
+
+    for (let s = 0; s < states; s++) {
+      const t = table[s];
+      if (!Number.isInteger(t) || t < 0 || t >= states || seen[t]) {
+        throw new Error(`Block rule ${id} is not reversible: state ${s} maps to ${t}`);
+      }
+      seen[t] = 1;
+      forward[s] = t;
+      inverse[t] = s;
+    }
+
+    this.id = id;
+    this.name = name;
+    this.shape = { ...shape };
+    this.cells = cells;
+    this.forward = forward;
+    this.inverse = inverse;
+  }
+
+  /**
+   * Build a rule that moves the spin of cell c to cell permutation[c]
+   */
+  static fromPermutation(
+    id: string,
+    name: string,
+    shape: BlockShape,
+    permutation: number[]
+  ): BlockRule {
+    const cells = shape.x * shape.y * shape.z;
+    if (permutation.length !== cells) {
+      throw new Error(`Block rule ${id}: permutation needs ${cells} entries`);
+    }
+
+    const table = new Array<number>(1 << cells);
+    for (let s = 0; s < table.length; s++) {
+      let t = 0;
+      for (let c = 0; c < cells; c++) {
+        if (s & (1 << c)) t |= 1 << permutation[c];
+      }
+      table[s] = t;
+    }
+
+    return new BlockRule(id, name, shape, table);
+  }
+
+  /**
+   * Critters (2×2 blocks in each xy plane): blocks with exactly two +1 cells
+   * are unchanged; others are complemented, and rotated 180° if they had three
+   */
+  static critters(): BlockRule {
+    const table = new Array<number>(16);
+    for (let s = 0; s < 16; s++) {
+      const count = popcount(s);
+      if (count === 2) {
+        table[s] = s;
+        continue;
+      }
+      const complement = ~s & 0xf;
+      table[s] = count === 3 ? rotate2x2(complement) : complement;
+    }
+    return new BlockRule('critters', 'Critters', { x: 2, y: 2, z: 1 }, table);
+  }
+
+  /**
+   * Billiard-ball model (2×2 blocks in each xy plane): a lone +1 cell moves to the
+   * opposite corner, a diagonal pair scatters onto the other diagonal
+   */
+  static billiardBall(): BlockRule {
+    const table = new Array<number>(16);
+    for (let s = 0; s < 16; s++) {
+      if (popcount(s) === 1) {
+        table[s] = rotate2x2(s);
+      } else if (s === 0b1001) {
+        table[s] = 0b0110;
+      } else if (s === 0b0110) {
+        table[s] = 0b1001;
+      } else {
+        table[s] = s;
+      }
+    }
+    return new BlockRule('billiard-ball', 'Billiard-ball model', { x: 2, y: 2, z: 1 }, table);
+  }
+
+  getCycleLength(): number {
+    return 2;
+  }
+
+  applyPhase(lattice: Lattice, phase: number): void {
+    this.applyTable(lattice, phase, this.forward);
+  }
+
+  applyInversePhase(lattice: Lattice, phase: number): void {
+    this.applyTable(lattice, phase, this.inverse);
+  }
+
+  getPhaseName(phase: number): string {
+    return `${this.name} ${phase % 2 === 0 ? 'EVEN' : 'ODD'}`;
+  }
+
+  /**
+   * Map every block of the phase partition through a state table
+   */
+  private applyTable(lattice: Lattice, phase: number, table: Uint8Array): void {
+    const { indices, signs } = this.getPartition(lattice, phase % 2);
+    const spins = lattice.storage.spins;
+    const cells = this.cells;
+
+    for (let b = 0; b < indices.length; b += cells) {
+      let state = 0;
+      for (let c = 0; c < cells; c++) {
+        if (spins[indices[b + c]] * signs[b + c] > 0) state |= 1 << c;
+      }
+
+      const next = table[state];
+      if (next === state) continue;
+
+      for (let c = 0; c < cells; c++) {
+        spins[indices[b + c]] = ((next >> c) & 1 ? 1 : -1) * signs[b + c];
+      }
+    }
+  }
+
+  /**
+   * Get (and cache) the blocks of one partition offset
+   * Blocks leaving an open edge, or overlapping an earlier block (odd extents,
+   * reflecting edges), are left out, so each phase stays a bijection.
+   */
+  private getPartition(lattice: Lattice, offset: number): BlockPartition {
+    const { width, height, depth, boundary } = lattice;
+    const key = `${width}x${height}x${depth}:${boundary.x},${boundary.y},${boundary.z}:${offset}`;
+    const cached = this.partitions.get(key);
+    if (cached) return cached;
+
+    const { x: sx, y: sy, z: sz } = this.shape;
+    const used = new Uint8Array(width * height * depth);
+    const indices: number[] = [];
+    const signs: number[] = [];
+    const block = new Array<number>(this.cells);
+    const blockSigns = new Array<number>(this.cells);
+    const start = (size: number): number => (size === 2 ? offset : 0);
+
+    for (let z = start(sz); z < depth; z += sz) {
+      for (let y = start(sy); y < height; y += sy) {
+        for (let x = start(sx); x < width; x += sx) {
+          let valid = true;
+
+          for (let c = 0; c < this.cells && valid; c++) {
+            const dx = c % sx;
+            const dy = Math.floor(c / sx) % sy;
+            const dz = Math.floor(c / (sx * sy));
+            const site = lattice.resolveSite(x + dx, y + dy, z + dz);
+
+            if (!site || used[site.index] || block.slice(0, c).includes(site.index)) {
+              valid = false;
+            } else {
+              block[c] = site.index;
+              blockSigns[c] = site.sign;
+            }
+          }
+
+          if (!valid) continue;
+          for (let c = 0; c < this.cells; c++) {
+            used[block[c]] = 1;
+            indices.push(block[c]);
+            signs.push(blockSigns[c]);
+          }
+        }
+      }
+    }
+
+    const partition = { indices: Int32Array.from(indices), signs: Int8Array.from(signs) };
+    this.partitions.set(key, partition);
+    return partition;
+  }
+}
+
+function popcount(value: number): number {
+  let count = 0;
+  for (let v = value; v; v &= v - 1) count++;
+  return count;
+}
+
+/** Rotate a 2×2 block state by 180° (cell c ↔ cell 3 - c) */
+function rotate2x2(state: number): number {
+  let rotated = 0;
+  for (let c = 0; c < 4; c++) {
+    if (state & (1 << c)) rotated |= 1 << (3 - c);
+  }
+  return rotated;
+}
+
+/** Built-in rules by id */
+export const REVERSIBLE_RULES: Record<string, () => ReversibleRule> = {
+  'margolus-swap': () => new SwapScheduleRule(MARGOLUS_SWAP_SCHEDULE, { id: 'margolus-swap', name: 'Margolus swap' }),
+  'block-rotate': () =>
+    // Rotate each 2×2×2 block a quarter turn about z (cells 0→1→3→2 in both layers)
+    BlockRule.fromPermutation('block-rotate', 'Block rotation', { x: 2, y: 2, z: 2 }, [1, 3, 0, 2, 5, 7, 4, 6]),
+  critters: () => BlockRule.critters(),
+  'billiard-ball': () => BlockRule.billiardBall()
+};
+
+/**
+ * Create a built-in rule by id
+ */
+export function createReversibleRule(id: string): ReversibleRule {
+  const factory = REVERSIBLE_RULES[id];
+  if (!factory) {
+    throw new Error(`Unknown reversible rule: ${id}`);
+  }
+  return factory();
+}
@@ -1,40 +1,59 @@
 import { Physics } from './Physics.js';
+import { StochasticEngine } from './StochasticEngine.js';
+import type { PhysicsEngine, PhysicsEngineId, EnginePhaseState } from './PhysicsEngine.js';
 import { Lattice, LatticeStatistics, LatticeData } from './Lattice.js';
+import type { HistoryEntry } from './SimulationHistory.js';
+import { HistoryTree, HistoryBranchInfo } from './HistoryTree.js';
 import { PhysicsParams } from './Node.js';
 import { ConservationReport } from './ConservationEnforcer.js';
 import { ReversibilityValidator, CycleTestResult } from './ReversibilityValidator.js';
+import { SeededRandom } from './Random.js';
+import { Hamiltonian } from './Hamiltonian.js';
+import type { InitialConditionSpec } from './InitialConditions.js';
+import { applyPerturbation, getPerturbation, resolvePerturbation, PerturbationSpec, RecordedPerturbation } from './Perturbations.js';
 
 export interface SimulationParams extends PhysicsParams {
-  maxHistoryDepth?: number;
+  seed?: number; // PRNG seed; same seed + params reproduces a run step-for-step
+  maxHistoryDepth?: number;         // Most recorded steps (default 100000)
+  maxHistoryBytes?: number;         // History memory budget (default 256 MB)
+  historyKeyframeInterval?: number; // Steps between full history keyframes (default 100)
   enforceConservation?: boolean;
   conservationTolerance?: number;
   validateReversibility?: boolean;
 }
 
-interface SimulationState {
-  time: number;
-  stepCount: number;
-  latticeData: LatticeData;
-  statistics: LatticeStatistics;
-}
-
 interface Bookmark {
   id: number;
   time: number;
   stepCount: number;
-  historyIndex: number;
+  branchId: number;     // History branch the bookmark belongs to
+  historyIndex: number; // Entry within that branch
   description: string;
   metadata: Record<string, unknown>;
   statistics: LatticeStatistics;
   timestamp: number;
 }
 
-interface StepStatistics extends LatticeStatistics {
+/** Perturbation applied by step() at a given step count */
+export interface ScheduledPerturbation {
+  id: number;
+  spec: PerturbationSpec;
+  step: number;         // Applied before the engine advances from this step count
+  until: number | null; // Continuous perturbations: last step count (exclusive), null until cancelled
+}
+
+/** Perturbations recorded in one history entry */
+export interface PerturbationEvent {
+  historyIndex: number;
+  stepCount: number;
+  perturbations: RecordedPerturbation[];
+}
+
+export interface StepStatistics extends LatticeStatistics {
   time: number;
   stepCount: number;
   direction: number;
   entropy: number;
-  correlationLength: number;
   symmetryRatio: number;
   anomalyDensity: number;
   conservationReport?: ConservationReport;
@@ -51,6 +70,8 @@ interface SimulationStateInfo {
   isRunning: boolean;
   isPaused: boolean;
   direction: number;
+  engine: PhysicsEngineId;
+  branchId: number;
   historyLength: number;
   historyIndex: number;
   bookmarkCount: number;
@@ -58,8 +79,36 @@ interface SimulationStateInfo {
 }
 
 interface HistoryChangeEvent {
+  branchId: number;    // Active branch (lengths and indices refer to it)
+  branchCount: number;
   historyLength: number;
   currentIndex: number;
+  memoryBytes: number; // Approximate memory held by all branches
+}
+
+/** Final state of one branch in a comparison */
+export interface BranchSummary {
+  branchId: number;
+  name: string;
+  time: number;
+  stepCount: number;
+  statistics: LatticeStatistics;
+}
+
+/** History position to return to after a trial run (see getHistoryMark) */
+export interface HistoryMark {
+  branchId: number;
+  index: number;
+  length: number;      // Length of the branch at the mark
+  evicted: number;     // Entries the branch had evicted at the mark
+  branchIds: number[]; // Branches that existed at the mark
+}
+
+/** Final statistics of two branches and their difference (b - a) */
+export interface BranchComparison {
+  a: BranchSummary;
+  b: BranchSummary;
+  diff: Record<string, number>;
 }
 
 interface SimulationCallbacks {
@@ -69,13 +118,18 @@ interface SimulationCallbacks {
   onHistoryChange: ((event: HistoryChangeEvent) => void) | null;
 }
 
-interface ExportData {
+export interface ExportData {
   params: SimulationParams;
   time: number;
   stepCount: number;
   lattice: LatticeData;
   bookmarks: Bookmark[];
   statistics: LatticeStatistics;
+  randomState?: number;
+  initialCondition?: InitialConditionSpec; // Condition the spins were initialized from
+  engine?: { id: PhysicsEngineId; phaseState: EnginePhaseState }; // Active engine and its phase
+  perturbations?: ScheduledPerturbation[];   // Pending and continuous perturbations
+  perturbationLog?: PerturbationEvent[];     // Perturbations applied on the active branch
   // TDS-specific data
   tdsMetrics?: {
     E_sym_total: number;
@@ -99,7 +153,8 @@ interface ExportData {
 
 /**
  * Simulation class managing the TDS simulation engine
- * Handles simulation lifecycle, history tracking, and bookmarking
+ * Handles simulation lifecycle, history tracking, and bookmarking;
+ * the dynamics come from the active PhysicsEngine (default: stochastic node model)
  */
 export class Simulation {
   readonly lattice: Lattice;
@@ -109,17 +164,28 @@ export class Simulation {
   isRunning: boolean = false;
   isPaused: boolean = false;
   direction: number = 1;
+  readonly random: SeededRandom;
+  initialCondition: InitialConditionSpec | null = null;
   
-  private history: SimulationState[] = [];
-  private historyIndex: number = -1;
+  private engine: PhysicsEngine;
+  private readonly history: HistoryTree; // Current state is the active branch's entry at its history index
   private bookmarks: Bookmark[] = [];
   private nextBookmarkId: number = 1;
+  private scheduledPerturbations: ScheduledPerturbation[] = [];
+  private nextPerturbationId: number = 1;
   private animationFrameId: number | null = null;
+  private epoch = 0; // Bumped whenever the state stops following on from the last step (see getEpoch)
   private callbacks: SimulationCallbacks;
   private reversibilityValidator: ReversibilityValidator;
 
-  constructor(lattice: Lattice, params: Partial<SimulationParams> = {}) {
+  /**
+   * @param lattice - Lattice to evolve
+   * @param params - Simulation parameters
+   * @param engine - Dynamics driving step() (default: stochastic node model)
+   */
+  constructor(lattice: Lattice, params: Partial<SimulationParams> = {}, engine: PhysicsEngine = new StochasticEngine()) {
     this.lattice = lattice;
+    this.engine = engine;
     
     this.params = {
       symmetryStrength: params.symmetryStrength ?? 0.7,
@@ -128,9 +194,34 @@ export class Simulation {
       interactionRange: params.interactionRange ?? 3,
       waveSpeed: params.waveSpeed ?? 0.5,
       timeStep: params.timeStep ?? 1.0,
-      maxHistoryDepth: params.maxHistoryDepth ?? 1000
+      J: params.J ?? 1.0,
+      Jx: params.Jx,
+      Jy: params.Jy,
+      Jz: params.Jz,
+      h: params.h ?? 0,
+      E_0: params.E_0 ?? 1.0,
+      seed: params.seed ?? SeededRandom.generateSeed(),
+      maxHistoryDepth: params.maxHistoryDepth ?? 100000,
+      maxHistoryBytes: params.maxHistoryBytes,
+      historyKeyframeInterval: params.historyKeyframeInterval
     };
     
+    // History capacity (per branch and for all branches together) is fixed
+    // for the lifetime of the simulation
+    this.history = new HistoryTree(lattice, {
+      maxEntries: this.params.maxHistoryDepth,
+      maxBytes: this.params.maxHistoryBytes,
+      keyframeInterval: this.params.historyKeyframeInterval
+    });
+    
+    // All stochastic lattice dynamics draw from the simulation's seeded stream;
+    // re-initialize so the initial spins come from the seed as well
+    this.random = new SeededRandom(this.params.seed);
+    this.lattice.setRandom(this.random);
+    this.lattice.setHamiltonian(new Hamiltonian(this.params));
+    this.lattice.initialize();
+    this.initialCondition = this.engine.initialize(this.lattice);
+    
     this.callbacks = {
       onStep: null,
       onStateChange: null,
@@ -205,19 +296,16 @@ export class Simulation {
       return this._stepBackward();
     }
     
-    this.saveState();
-    this.lattice.update(this.params, dt);
-    
-    // Enforce conservation if enabled
-    if (this.params.enforceConservation) {
-      const report = Physics.enforceConservation(this.lattice);
-      if (!report.isConserved && report.violations.length > 0) {
-        console.warn(`Conservation violations detected: ${report.violations.length} nodes`);
-      }
+    // Stepping on from a past entry keeps the old future on its own branch
+    if (this._isBehind()) {
+      this.createBranch();
     }
     
-    this.time += dt * this.direction;
+    const perturbations = this._applyScheduledPerturbations(dt);
+    this.engine.step(this.lattice, this.params, dt);
+    this.time += dt;
     this.stepCount++;
+    this.saveState(perturbations);
     
     const stats = this._collectStepStatistics();
     
@@ -228,17 +316,31 @@ export class Simulation {
     return stats;
   }
 
+  /**
+   * Step back one state: reversible engines run their inverse dynamics
+   * (the history cursor follows along), irreversible ones restore history.
+   * From the first entry of a branch, continue on its parent before the fork.
+   */
   private _stepBackward(): StepStatistics | { success: boolean; reason: string } {
-    if (this.historyIndex <= 0) {
-      return { success: false, reason: 'No more history' };
-    }
+    const history = this.history.active;
+    const index = history.getIndex();
     
-    this.historyIndex--;
-    const previousState = this.history[this.historyIndex];
+    let previousState: HistoryEntry | null = null;
+    if (index <= 0) {
+      const branch = this.history.getBranch(this.history.getActiveId())!;
+      if (branch.parentId === null || branch.forkIndex <= 0 || !this.switchBranch(branch.parentId, branch.forkIndex - 1)) {
+        return { success: false, reason: 'No more history' };
+      }
+      previousState = this.getHistoryEntry(branch.forkIndex - 1);
+    } else if (this.engine.reversible && history.canStepBack(index, index - 1)) {
+      this.engine.reverseStep(this.lattice, this.params, this.params.timeStep!);
+      previousState = history.moveCursor(index - 1);
+    } else {
+      previousState = history.restore(index - 1, this.engine, this.params);
+    }
     
     if (previousState) {
-      this._restoreState(previousState);
-      this.time -= this.params.timeStep!;
+      this._applyEntry(previousState);
       
       const stats = this._collectStepStatistics();
       
@@ -252,10 +354,16 @@ export class Simulation {
     return { success: false, reason: 'Invalid history state' };
   }
 
+  /**
+   * Get step statistics for the current lattice state
+   */
+  getStepStatistics(): StepStatistics {
+    return this._collectStepStatistics();
+  }
+
   private _collectStepStatistics(): StepStatistics {
     const latticeStats = this.lattice.getStatistics();
     const entropy = Physics.calculateEntropy(this.lattice);
-    const correlationLength = Physics.calculateCorrelationLength(this.lattice);
     
     // Check conservation if enabled
     let conservationReport: ConservationReport | undefined;
@@ -269,55 +377,379 @@ export class Simulation {
       direction: this.direction,
       ...latticeStats,
       entropy,
-      correlationLength,
       symmetryRatio: latticeStats.vacuum / latticeStats.total,
       anomalyDensity: latticeStats.anomalous / latticeStats.total,
       conservationReport
     };
   }
 
-  saveState(): SimulationState {
-    const state: SimulationState = {
+  /**
+   * Record the current state as the newest history entry of the active branch
+   * (from a past entry, a new branch is forked instead of discarding later entries)
+   * @param perturbations - Perturbations applied since the previous entry
+   */
+  saveState(perturbations: RecordedPerturbation[] = []): HistoryEntry {
+    if (this._isBehind()) {
+      this.history.fork();
+    }
+    
+    const state: HistoryEntry = {
       time: this.time,
       stepCount: this.stepCount,
-      latticeData: this.lattice.toJSON(),
-      statistics: this.lattice.getStatistics()
+      phaseState: this.engine.getPhaseState(),
+      randomState: this.random.getState(),
+      ...(perturbations.length > 0 ? { perturbations } : {})
     };
     
-    if (this.historyIndex < this.history.length - 1) {
-      this.history = this.history.slice(0, this.historyIndex + 1);
-    }
-    
-    this.history.push(state);
-    this.historyIndex = this.history.length - 1;
+    const removeCount = this.history.active.record(state, this.engine, this.params);
     
-    if (this.history.length > this.params.maxHistoryDepth!) {
-      const removeCount = this.history.length - this.params.maxHistoryDepth!;
-      this.history.splice(0, removeCount);
-      this.historyIndex -= removeCount;
-      
+    if (removeCount > 0) {
+      const branchId = this.history.getActiveId();
       this.bookmarks = this.bookmarks
-        .map(bookmark => ({
+        .map(bookmark => bookmark.branchId !== branchId ? bookmark : {
           ...bookmark,
           historyIndex: bookmark.historyIndex - removeCount
-        }))
+        })
         .filter(bookmark => bookmark.historyIndex >= 0);
+      this.history.shiftForks(removeCount);
     }
+    this._dropBookmarks(this.history.prune());
     
-    if (this.callbacks.onHistoryChange) {
-      this.callbacks.onHistoryChange({
-        historyLength: this.history.length,
-        currentIndex: this.historyIndex
-      });
-    }
+    this._notifyHistoryChange();
     
     return state;
   }
 
-  private _restoreState(state: SimulationState): void {
+  /**
+   * Move the lattice, engine phase and PRNG to a history entry
+   */
+  private _restoreIndex(index: number): boolean {
+    const state = this.history.active.restore(index, this.engine, this.params);
+    if (!state) return false;
+    
+    this._applyEntry(state);
+    this.epoch++;
+    this._notifyHistoryChange();
+    return true;
+  }
+
+  /**
+   * Apply the scheduled perturbations due at the current step count
+   * @returns The applied perturbations (recorded with the step)
+   */
+  private _applyScheduledPerturbations(dt: number): RecordedPerturbation[] {
+    const applied: RecordedPerturbation[] = [];
+    
+    for (const scheduled of this.scheduledPerturbations) {
+      const continuous = getPerturbation(scheduled.spec.id)?.continuous ?? false;
+      const due = continuous
+        ? this.stepCount >= scheduled.step && (scheduled.until === null || this.stepCount < scheduled.until)
+        : this.stepCount === scheduled.step;
+      
+      if (due) {
+        applied.push({ spec: applyPerturbation(this.lattice, scheduled.spec, dt), step: this.stepCount });
+      }
+    }
+    return applied;
+  }
+
+  /**
+   * Apply a perturbation now and record the result as a history entry
+   * (from a past entry, a new branch is forked first)
+   * @returns The spec with defaults filled in
+   */
+  applyPerturbation(spec: PerturbationSpec): PerturbationSpec {
+    if (this._isBehind()) {
+      this.createBranch();
+    }
+    
+    const applied = applyPerturbation(this.lattice, spec, this.params.timeStep!);
+    this.saveState([{ spec: applied, step: this.stepCount }]);
+    this._notifyStateChange('perturbationApplied');
+    
+    return applied;
+  }
+
+  /**
+   * Let step() apply a perturbation when the step count is reached
+   * @param spec - Perturbation to apply
+   * @param step - Step count to apply it at (default: the next step)
+   * @param duration - Continuous perturbations: number of steps (default: until cancelled)
+   */
+  schedulePerturbation(spec: PerturbationSpec, step: number = this.stepCount, duration?: number): ScheduledPerturbation {
+    const scheduled: ScheduledPerturbation = {
+      id: this.nextPerturbationId++,
+      spec: resolvePerturbation(spec),
+      step,
+      until: duration === undefined ? null : step + duration
+    };
+    
+    this.scheduledPerturbations.push(scheduled);
+    this._notifyStateChange('perturbationScheduled');
+    
+    return scheduled;
+  }
+
+  cancelPerturbation(id: number): boolean {
+    const index = this.scheduledPerturbations.findIndex(p => p.id === id);
+    if (index === -1) return false;
+    
+    this.scheduledPerturbations.splice(index, 1);
+    this._notifyStateChange('perturbationCancelled');
+    return true;
+  }
+
+  getScheduledPerturbations(): ScheduledPerturbation[] {
+    return this.scheduledPerturbations.map(p => ({ ...p }));
+  }
+
+  /**
+   * Schedule recorded perturbations again (e.g. a log from another run with
+   * the same seed); continuous ones for the single step they were recorded at
+   */
+  replayPerturbations(log: PerturbationEvent[]): void {
+    for (const event of log) {
+      for (const { spec, step } of event.perturbations) {
+        const continuous = getPerturbation(spec.id)?.continuous ?? false;
+        this.schedulePerturbation(spec, step, continuous ? 1 : undefined);
+      }
+    }
+  }
+
+  /**
+   * Get the perturbations recorded on the active branch
+   */
+  getPerturbationLog(): PerturbationEvent[] {
+    const history = this.history.active;
+    const log: PerturbationEvent[] = [];
+    
+    for (let i = 0; i < history.length; i++) {
+      const entry = history.getEntry(i)!;
+      if (entry.perturbations) {
+        log.push({ historyIndex: i, stepCount: entry.stepCount, perturbations: entry.perturbations });
+      }
+    }
+    return log;
+  }
+
+  /**
+   * Whether the active branch has entries after the current one
+   */
+  private _isBehind(): boolean {
+    const history = this.history.active;
+    return history.getIndex() < history.length - 1;
+  }
+
+  private _applyEntry(state: HistoryEntry): void {
     this.time = state.time;
     this.stepCount = state.stepCount;
-    this.lattice.fromJSON(state.latticeData);
+    this.random.setState(state.randomState);
+  }
+
+  private _notifyHistoryChange(): void {
+    if (this.callbacks.onHistoryChange) {
+      this.callbacks.onHistoryChange(this.getHistoryInfo());
+    }
+  }
+
+  /**
+   * Get the active branch, its length and current index, and memory use (for timelines)
+   */
+  getHistoryInfo(): HistoryChangeEvent {
+    const history = this.history.active;
+    return {
+      branchId: this.history.getActiveId(),
+      branchCount: this.history.size,
+      historyLength: history.length,
+      currentIndex: history.getIndex(),
+      memoryBytes: this.history.getMemoryUsage()
+    };
+  }
+
+  /**
+   * Get time, step count and phase of an entry of the active branch
+   */
+  getHistoryEntry(index: number): HistoryEntry | null {
+    return this.history.active.getEntry(index);
+  }
+
+  /**
+   * Get every history branch, in creation order
+   */
+  getBranches(): HistoryBranchInfo[] {
+    return this.history.getBranches();
+  }
+
+  /**
+   * Get the branch the simulation is on
+   */
+  getActiveBranch(): HistoryBranchInfo {
+    return this.history.getBranch(this.history.getActiveId())!;
+  }
+
+  /**
+   * Fork a branch at the current state and continue on it
+   * @param name - Branch name (default "Branch <id>")
+   */
+  createBranch(name?: string): HistoryBranchInfo {
+    this.history.fork(name);
+    this.saveState();
+    this._notifyStateChange('branchCreated');
+    
+    return this.getActiveBranch();
+  }
+
+  /**
+   * Delete a branch and the branches forked from it, with their bookmarks
+   * (the root branch and the active branch's ancestors cannot be deleted)
+   */
+  deleteBranch(branchId: number): boolean {
+    const removed = this.history.delete(branchId);
+    if (removed.length === 0) return false;
+    
+    this._dropBookmarks(removed);
+    this._notifyStateChange('branchDeleted');
+    this._notifyHistoryChange();
+    return true;
+  }
+
+  /**
+   * Current history position, to undo a trial run (forward then back, as in
+   * the Photon Window test) with restoreHistoryMark
+   */
+  getHistoryMark(): HistoryMark {
+    const history = this.history.active;
+    return {
+      branchId: this.history.getActiveId(),
+      index: history.getIndex(),
+      length: history.length,
+      evicted: history.getEvictedCount(),
+      branchIds: this.history.getBranches().map(branch => branch.id)
+    };
+  }
+
+  /**
+   * Return to a history mark: branches forked since are deleted, entries
+   * recorded after the mark's end are discarded and the marked entry is restored
+   * @returns False if the marked entry was evicted or its branch deleted
+   */
+  restoreHistoryMark(mark: HistoryMark): boolean {
+    const history = this.history.switchTo(mark.branchId);
+    if (!history) return false;
+    
+    const forked = this.history.getBranches().filter(branch => !mark.branchIds.includes(branch.id));
+    for (const branch of forked) {
+      this._dropBookmarks(this.history.delete(branch.id));
+    }
+    
+    const shift = history.getEvictedCount() - mark.evicted;
+    if (shift < 0 || mark.index - shift < 0) return false;
+    
+    history.discardFrom(mark.length - shift);
+    return this._restoreIndex(mark.index - shift);
+  }
+
+  private _dropBookmarks(branchIds: number[]): void {
+    if (branchIds.length === 0) return;
+    this.bookmarks = this.bookmarks.filter(bookmark => !branchIds.includes(bookmark.branchId));
+  }
+
+  renameBranch(branchId: number, name: string): boolean {
+    return this.history.rename(branchId, name);
+  }
+
+  /**
+   * Continue on another branch
+   * @param branchId - Branch to switch to
+   * @param index - Entry to restore (default: the branch's last entry)
+   */
+  switchBranch(branchId: number, index?: number): boolean {
+    const branch = this.history.getBranch(branchId);
+    if (!branch) return false;
+    
+    const target = index ?? branch.length - 1;
+    if (target < 0 || target >= branch.length) return false;
+    
+    const changed = branchId !== this.history.getActiveId();
+    this.history.switchTo(branchId);
+    this._restoreIndex(target);
+    
+    if (changed) {
+      this._notifyStateChange('branchChanged');
+    }
+    return true;
+  }
+
+  /**
+   * Compare the final states of two branches. Both ends are restored in
+   * turn, then the simulation returns to its current branch entry.
+   * @returns Final statistics of each branch and b - a, or null if a branch is unknown
+   */
+  compareBranches(branchA: number, branchB: number): BranchComparison | null {
+    if (!this.history.getBranch(branchA) || !this.history.getBranch(branchB)) return null;
+    
+    const returnTo = this.getActiveBranch();
+    const a = this._summarizeBranch(branchA);
+    const b = this._summarizeBranch(branchB);
+    this.switchBranch(returnTo.id, returnTo.currentIndex);
+    
+    const diff: Record<string, number> = {};
+    for (const [key, value] of Object.entries(b.statistics)) {
+      const other = a.statistics[key as keyof LatticeStatistics];
+      if (typeof value === 'number' && typeof other === 'number') {
+        diff[key] = value - other;
+      }
+    }
+    
+    return { a, b, diff };
+  }
+
+  private _summarizeBranch(branchId: number): BranchSummary {
+    this.switchBranch(branchId);
+    
+    return {
+      branchId,
+      name: this.getActiveBranch().name,
+      time: this.time,
+      stepCount: this.stepCount,
+      statistics: this.lattice.getStatistics()
+    };
+  }
+
+  /**
+   * Get the engine driving step()
+   */
+  getEngine(): PhysicsEngine {
+    return this.engine;
+  }
+
+  /**
+   * Switch the dynamics; history restarts at the current state, since
+   * saved states and phases of different engines do not mix
+   * @param engine - New engine (the lattice is not re-initialized, see initializeEngine)
+   */
+  setEngine(engine: PhysicsEngine): this {
+    if (engine === this.engine) return this;
+    
+    this.engine = engine;
+    this.clearHistory(false);
+    this.saveState();
+    this._notifyStateChange('engineChanged');
+    
+    return this;
+  }
+
+  /**
+   * Let the active engine prepare the lattice (e.g. apply its initial condition)
+   * and restart history from the result
+   * @returns The applied initial condition, or null if the engine kept the lattice as is
+   */
+  initializeEngine(): InitialConditionSpec | null {
+    this.initialCondition = this.engine.initialize(this.lattice);
+    this.clearHistory(false);
+    this.saveState();
+    
+    return this.initialCondition;
   }
 
   setDirection(direction: number): this {
@@ -347,7 +779,8 @@ export class Simulation {
       id: this.nextBookmarkId++,
       time: this.time,
       stepCount: this.stepCount,
-      historyIndex: this.historyIndex,
+      branchId: this.history.getActiveId(),
+      historyIndex: this.history.active.getIndex(),
       description,
       metadata,
       statistics: this.lattice.getStatistics(),
@@ -376,99 +809,50 @@ export class Simulation {
     const bookmark = this.bookmarks.find(b => b.id === bookmarkId);
     if (!bookmark) return false;
     
-    if (bookmark.historyIndex >= 0 && bookmark.historyIndex < this.history.length) {
-      this.historyIndex = bookmark.historyIndex;
-      const state = this.history[this.historyIndex];
-      this._restoreState(state);
-      
-      if (this.callbacks.onHistoryChange) {
-        this.callbacks.onHistoryChange({
-          historyLength: this.history.length,
-          currentIndex: this.historyIndex
-        });
-      }
-      
-      return true;
-    }
-    
-    return false;
+    return this.switchBranch(bookmark.branchId, bookmark.historyIndex);
   }
 
   getBookmarks(): Bookmark[] {
     return [...this.bookmarks];
   }
 
+  /**
+   * Changes on history seeks, branch switches and restarts (engine changes,
+   * resets, imports), but not on steps in either direction. Analytics that
+   * match each state to the previous one start over when it changes.
+   */
+  getEpoch(): number {
+    return this.epoch;
+  }
+
   seekToTime(targetTime: number): boolean {
-    let closestIndex = 0;
-    let closestDiff = Math.abs(this.history[0]?.time - targetTime);
-    
-    for (let i = 1; i < this.history.length; i++) {
-      const diff = Math.abs(this.history[i].time - targetTime);
-      if (diff < closestDiff) {
-        closestDiff = diff;
-        closestIndex = i;
-      }
-    }
-    
-    if (closestIndex >= 0 && closestIndex < this.history.length) {
-      this.historyIndex = closestIndex;
-      const state = this.history[this.historyIndex];
-      this._restoreState(state);
-      
-      if (this.callbacks.onHistoryChange) {
-        this.callbacks.onHistoryChange({
-          historyLength: this.history.length,
-          currentIndex: this.historyIndex
-        });
-      }
-      
-      return true;
-    }
-    
-    return false;
+    return this._restoreIndex(this.history.active.findClosestTime(targetTime));
   }
 
   seekToStep(stepIndex: number): boolean {
-    if (stepIndex >= 0 && stepIndex < this.history.length) {
-      this.historyIndex = stepIndex;
-      const state = this.history[this.historyIndex];
-      this._restoreState(state);
-      
-      if (this.callbacks.onHistoryChange) {
-        this.callbacks.onHistoryChange({
-          historyLength: this.history.length,
-          currentIndex: this.historyIndex
-        });
-      }
-      
-      return true;
-    }
-    
-    return false;
+    return this._restoreIndex(stepIndex);
   }
 
+  /**
+   * Drop all branches and bookmarks
+   * @param keepCurrent - Start the new history with the current state
+   */
   clearHistory(keepCurrent: boolean = true): void {
-    if (keepCurrent && this.history.length > 0) {
-      const currentState = this.history[this.historyIndex];
-      this.history = [currentState];
-      this.historyIndex = 0;
-    } else {
-      this.history = [];
-      this.historyIndex = -1;
-    }
-    
+    const keep = keepCurrent && this.history.active.length > 0;
+    this.history.clear();
     this.bookmarks = [];
     
-    if (this.callbacks.onHistoryChange) {
-      this.callbacks.onHistoryChange({
-        historyLength: this.history.length,
-        currentIndex: this.historyIndex
-      });
+    if (keep) {
+      this.saveState();
+    } else {
+      this.epoch++;
+      this._notifyHistoryChange();
     }
   }
 
   updateParameters(newParams: Partial<SimulationParams>): this {
     this.params = { ...this.params, ...newParams };
+    this.lattice.setHamiltonian(new Hamiltonian(this.params));
     return this;
   }
 
@@ -476,12 +860,31 @@ export class Simulation {
     return { ...this.params };
   }
 
+  /**
+   * Get the PRNG seed of this run
+   */
+  getSeed(): number {
+    return this.random.getSeed();
+  }
+
+  /**
+   * Change the seed and restart from the seeded initial state
+   * @param seed - New 32-bit seed
+   */
+  setSeed(seed: number): this {
+    this.params.seed = seed >>> 0;
+    return this.reset();
+  }
+
   reset(): this {
     this.stop();
     this.time = 0;
     this.stepCount = 0;
     this.direction = 1;
+    this.random.reseed(this.params.seed);
+    this.lattice.initialize();
     this.lattice.reset();
+    this.initialCondition = this.engine.initialize(this.lattice);
     this.clearHistory(false);
     this.saveState();
     
@@ -497,8 +900,10 @@ export class Simulation {
       isRunning: this.isRunning,
       isPaused: this.isPaused,
       direction: this.direction,
-      historyLength: this.history.length,
-      historyIndex: this.historyIndex,
+      engine: this.engine.id,
+      branchId: this.history.getActiveId(),
+      historyLength: this.history.active.length,
+      historyIndex: this.history.active.getIndex(),
       bookmarkCount: this.bookmarks.length,
       statistics: this.lattice.getStatistics()
     };
@@ -548,7 +953,7 @@ export class Simulation {
 
   export(): ExportData {
     const stats = this.lattice.getStatistics();
-    const energies = this.lattice.calculateTotalEnergy();
+    const energies = this.engine.calculateEnergy(this.lattice);
     
     // Get conservation metrics if enforcer is available
     let conservationMetrics;
@@ -578,6 +983,11 @@ export class Simulation {
       lattice: this.lattice.toJSON(),
       bookmarks: this.bookmarks,
       statistics: stats,
+      randomState: this.random.getState(),
+      initialCondition: this.initialCondition ?? undefined,
+      engine: { id: this.engine.id, phaseState: this.engine.getPhaseState() },
+      perturbations: this.getScheduledPerturbations(),
+      perturbationLog: this.getPerturbationLog(),
       tdsMetrics: {
         E_sym_total: energies.E_sym,
         E_asym_total: energies.E_asym,
@@ -595,20 +1005,37 @@ export class Simulation {
     
     if (data.params) {
       this.params = { ...this.params, ...data.params };
+      this.random.reseed(this.params.seed);
+      this.lattice.setHamiltonian(new Hamiltonian(this.params));
+    }
+    
+    if (data.randomState !== undefined) {
+      this.random.setState(data.randomState);
     }
     
     if (data.lattice) {
       this.lattice.fromJSON(data.lattice);
     }
     
+    // Phases only carry over to the engine that saved them
+    if (data.engine && data.engine.id === this.engine.id) {
+      this.engine.setPhaseState(data.engine.phaseState);
+    }
+    
     this.time = data.time ?? 0;
     this.stepCount = data.stepCount ?? 0;
+    this.initialCondition = data.initialCondition ?? null;
     
     if (data.bookmarks) {
       this.bookmarks = data.bookmarks;
       this.nextBookmarkId = Math.max(...this.bookmarks.map(b => b.id), 0) + 1;
     }
     
+    if (data.perturbations) {
+      this.scheduledPerturbations = data.perturbations.map(p => ({ ...p }));
+      this.nextPerturbationId = Math.max(...this.scheduledPerturbations.map(p => p.id), 0) + 1;
+    }
+    
     this.clearHistory(false);
     this.saveState();
     
@@ -0,0 +1,464 @@
+/**
+ * SimulationHistory - Keyframe + delta storage of past simulation states
+ *
+ * Every recorded step keeps only its time, step count, engine phase and
+ * PRNG state. Lattice data is stored as:
+ * - keyframes: full copies of the arrays the engine changes, every
+ *   keyframeInterval steps (spins only for spinsOnly engines)
+ * - deltas (irreversible engines): the nodes that changed since the
+ *   previous step and their new values
+ * Reversible engines need no deltas: a state is rebuilt by stepping
+ * forward from the nearest earlier keyframe or backward from the nearest
+ * later one (or the current state). Entries whose lattice was also changed
+ * by perturbations are keyframes, and are never stepped across backward.
+ *
+ * Oldest entries are evicted once maxEntries or maxBytes is exceeded; the
+ * oldest remaining entry always holds a keyframe.
+ */
+
+import type { Lattice } from './Lattice.js';
+import type { LatticeStorage } from './LatticeStorage.js';
+import type { PhysicsEngine, EnginePhaseState } from './PhysicsEngine.js';
+import type { SimulationParams } from './Simulation.js';
+import type { RecordedPerturbation } from './Perturbations.js';
+
+/** Scalar state of one recorded step */
+export interface HistoryEntry {
+  time: number;
+  stepCount: number;
+  phaseState: EnginePhaseState;
+  randomState: number;
+  perturbations?: RecordedPerturbation[]; // Applied to the lattice besides (or instead of) the engine step
+}
+
+export interface SimulationHistoryConfig {
+  maxEntries?: number;       // Default 100000
+  maxBytes?: number;         // Approximate memory budget (default 256 MB)
+  keyframeInterval?: number; // Steps between keyframes (default 100)
+}
+
+type StorageField = 'spins' | 'states' | 'E_sym' | 'E_asym' | 'phases' | 'omegas';
+type FieldArray = LatticeStorage[StorageField];
+
+const SPIN_FIELDS: readonly StorageField[] = ['spins'];
+const NODE_FIELDS: readonly StorageField[] = ['spins', 'states', 'E_sym', 'E_asym', 'phases', 'omegas'];
+
+export const DEFAULT_HISTORY_ENTRIES = 100000;
+export const DEFAULT_HISTORY_BYTES = 256 * 1024 * 1024;
+
+/** Rough per-entry overhead of the scalar fields (bytes) */
+const ENTRY_OVERHEAD = 64;
+
+/** Changed nodes between consecutive steps */
+interface StorageDelta {
+  indices: Int32Array;
+  values: FieldArray[]; // New values per tracked field
+}
+
+interface StoredEntry extends HistoryEntry {
+  keyframe: FieldArray[] | null; // Full copies per tracked field
+  delta: StorageDelta | null;    // Changes from the previous entry (irreversible engines)
+}
+
+export class SimulationHistory {
+  private readonly lattice: Lattice;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly keyframeInterval: number;
+  private entries: StoredEntry[] = [];
+  private cursor: number = -1;
+  private synced: boolean = false; // Whether the lattice still shows the cursor entry
+  private evicted: number = 0;   // Entries dropped from the front (keeps keyframe spacing)
+  private bytes: number = 0;
+  private fields: readonly StorageField[] = NODE_FIELDS;
+  private useDeltas: boolean = true;
+  private base: FieldArray[] | null = null; // Tracked arrays at the cursor (delta reference)
+  private scratch: FieldArray[] | null = null;
+  private scratchIndices: Int32Array | null = null;
+
+  /**
+   * @param lattice - Lattice whose storage is recorded and restored
+   * @param config - Capacity and keyframe spacing
+   */
+  constructor(lattice: Lattice, config: SimulationHistoryConfig = {}) {
+    this.lattice = lattice;
+    this.maxEntries = Math.max(1, config.maxEntries ?? DEFAULT_HISTORY_ENTRIES);
+    this.maxBytes = config.maxBytes ?? DEFAULT_HISTORY_BYTES;
+    this.keyframeInterval = Math.max(1, Math.floor(config.keyframeInterval ?? 100));
+  }
+
+  /**
+   * Number of recorded entries
+   */
+  get length(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Index of the entry the lattice currently shows (-1 when empty)
+   */
+  getIndex(): number {
+    return this.cursor;
+  }
+
+  /**
+   * Scalar state of an entry
+   */
+  getEntry(index: number): HistoryEntry | null {
+    const entry = this.entries[index];
+    return entry ? this.toHistoryEntry(entry) : null;
+  }
+
+  /**
+   * Index of the entry whose time is closest to the target (-1 when empty)
+   */
+  findClosestTime(time: number): number {
+    let closest = -1;
+    let closestDiff = Infinity;
+
+    for (let i = 0; i < this.entries.length; i++) {
+      const diff = Math.abs(this.entries[i].time - time);
+      if (diff < closestDiff) {
+        closestDiff = diff;
+        closest = i;
+      }
+    }
+    return closest;
+  }
+
+  /**
+   * Number of entries evicted from the front since the history was cleared
+   * (indices taken earlier shift down by the growth of this count)
+   */
+  getEvictedCount(): number {
+    return this.evicted;
+  }
+
+  /**
+   * Approximate memory held by the history (bytes)
+   */
+  getMemoryUsage(): number {
+    return this.bytes;
+  }
+
+  /**
+   * Drop the entries from `length` on (the cursor moves to the last kept entry)
+   */
+  discardFrom(length: number): void {
+    this.truncate(Math.max(1, length));
+    if (this.cursor >= this.entries.length) {
+      this.cursor = this.entries.length - 1;
+      this.synced = false;
+    }
+  }
+
+  /**
+   * Drop every entry
+   */
+  clear(): void {
+    this.entries = [];
+    this.cursor = -1;
+    this.synced = false;
+    this.evicted = 0;
+    this.bytes = 0;
+    this.base = null;
+  }
+
+  /**
+   * Record the current lattice state after the cursor (later entries are discarded)
+   * @param state - Scalar state of the step
+   * @param engine - Engine that produced it (decides what is stored)
+   * @param params - Parameters for re-stepping reversible engines on eviction
+   * @returns Number of entries evicted from the front
+   */
+  record(state: HistoryEntry, engine: PhysicsEngine, params: SimulationParams): number {
+    if (this.entries.length === 0) {
+      this.fields = engine.spinsOnly ? SPIN_FIELDS : NODE_FIELDS;
+      this.useDeltas = !engine.reversible;
+      this.evicted = 0;
+    }
+
+    this.truncate(this.cursor + 1);
+
+    const position = this.evicted + this.entries.length;
+    const first = this.entries.length === 0;
+    const perturbed = !!state.perturbations?.length;
+    const entry: StoredEntry = {
+      time: state.time,
+      stepCount: state.stepCount,
+      phaseState: { ...state.phaseState },
+      randomState: state.randomState,
+      perturbations: perturbed ? state.perturbations!.map(p => ({ ...p })) : undefined,
+      keyframe: first || position % this.keyframeInterval === 0 || (perturbed && !this.useDeltas)
+        ? this.captureKeyframe()
+        : null,
+      delta: !first && this.useDeltas ? this.captureDelta() : null
+    };
+
+    if (first && this.useDeltas) {
+      this.base = this.captureKeyframe();
+    }
+
+    this.entries.push(entry);
+    this.bytes += this.entryBytes(entry);
+    this.cursor = this.entries.length - 1;
+    this.synced = true;
+
+    return this.evict(engine, params);
+  }
+
+  /**
+   * Move the lattice (and engine phase) to an entry
+   * @param index - Entry to restore
+   * @param engine - Engine that recorded the entries
+   * @param params - Parameters for re-stepping reversible engines
+   * @returns The restored entry, or null if the index is out of range or
+   *   no keyframe leads to it
+   */
+  restore(index: number, engine: PhysicsEngine, params: SimulationParams): HistoryEntry | null {
+    const target = this.entries[index];
+    if (!target) return null;
+
+    if (this.useDeltas) {
+      this.restoreFromDeltas(index);
+    } else if (!this.restoreByStepping(index, engine, params)) {
+      return null;
+    }
+
+    engine.setPhaseState(target.phaseState);
+    this.cursor = index;
+    this.synced = true;
+    return this.toHistoryEntry(target);
+  }
+
+  /**
+   * Move the cursor without touching the lattice, after the caller put the
+   * lattice into that entry's state itself (a reversible engine's reverseStep)
+   */
+  moveCursor(index: number): HistoryEntry | null {
+    const entry = this.entries[index];
+    if (!entry) return null;
+
+    this.cursor = index;
+    this.synced = true;
+    return this.toHistoryEntry(entry);
+  }
+
+  /**
+   * Note that the lattice left the cursor entry (another branch took over);
+   * the next restore starts from a keyframe
+   */
+  detach(): void {
+    this.synced = false;
+  }
+
+  /**
+   * Irreversible engines: nearest keyframe at or before the target (or the
+   * cursor, if it is closer), then the deltas up to the target
+   */
+  private restoreFromDeltas(index: number): void {
+    let start = index;
+    while (start > 0 && !this.entries[start].keyframe) start--;
+
+    if (this.synced && this.cursor >= start && this.cursor <= index) {
+      start = this.cursor;
+    } else {
+      this.loadKeyframe(this.entries[start].keyframe!);
+    }
+
+    for (let i = start + 1; i <= index; i++) {
+      this.applyDelta(this.entries[i].delta!);
+    }
+
+    this.copyInto(this.base!);
+  }
+
+  /**
+   * Reversible engines: step from the closest keyframe or the cursor
+   * (backward only while no perturbed entry lies in between)
+   * @returns Whether a starting point was found (the lattice is untouched otherwise)
+   */
+  private restoreByStepping(index: number, engine: PhysicsEngine, params: SimulationParams): boolean {
+    let start = this.synced ? this.cursor : -1;
+    if (start > index && !this.canStepBack(start, index)) start = -1;
+    let distance = start >= 0 ? Math.abs(index - start) : Infinity;
+
+    for (let i = index; i >= 0 && index - i < distance; i--) {
+      if (this.entries[i].keyframe) { start = i; distance = index - i; break; }
+    }
+    for (let i = index + 1; i < this.entries.length && i - index < distance; i++) {
+      if (this.entries[i].perturbations) break;
+      if (this.entries[i].keyframe) { start = i; distance = i - index; break; }
+    }
+    if (start < 0) return false;
+
+    if (start !== this.cursor || !this.synced) {
+      this.loadKeyframe(this.entries[start].keyframe!);
+    }
+    engine.setPhaseState(this.entries[start].phaseState);
+
+    const dt = params.timeStep ?? 1;
+    for (let i = start; i < index; i++) engine.step(this.lattice, params, dt);
+    for (let i = start; i > index; i--) engine.reverseStep(this.lattice, params, dt);
+    return true;
+  }
+
+  /**
+   * Whether the engine can step back from one entry to an earlier one
+   * (no entry in between was reached through a perturbation)
+   */
+  canStepBack(from: number, to: number): boolean {
+    for (let i = to + 1; i <= from; i++) {
+      if (this.entries[i]?.perturbations) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Drop entries after the given index
+   */
+  private truncate(length: number): void {
+    while (this.entries.length > length) {
+      this.bytes -= this.entryBytes(this.entries.pop()!);
+    }
+  }
+
+  /**
+   * Evict the oldest entries beyond the capacity; the new first entry
+   * becomes a keyframe (the old keyframe with its delta applied, or stepped
+   * once by a reversible engine)
+   */
+  private evict(engine: PhysicsEngine, params: SimulationParams): number {
+    let removed = 0;
+
+    while (
+      this.entries.length > 1 &&
+      (this.entries.length > this.maxEntries || this.bytes > this.maxBytes)
+    ) {
+      const oldest = this.entries[0];
+      const next = this.entries[1];
+
+      if (!next.keyframe && oldest.keyframe) {
+        this.bytes -= this.entryBytes(next);
+        if (this.useDeltas) {
+          const keyframe = oldest.keyframe;
+          const { indices, values } = next.delta!;
+          keyframe.forEach((array, f) => {
+            for (let k = 0; k < indices.length; k++) array[indices[k]] = values[f][k];
+          });
+          next.keyframe = keyframe;
+          next.delta = null;
+        } else {
+          next.keyframe = this.stepKeyframe(oldest, engine, params);
+        }
+        oldest.keyframe = null;
+        this.bytes += this.entryBytes(next);
+      }
+
+      this.bytes -= this.entryBytes(oldest);
+      this.entries.shift();
+      removed++;
+    }
+
+    this.evicted += removed;
+    this.cursor -= removed;
+    return removed;
+  }
+
+  /**
+   * Keyframe of the step after an entry (a reversible engine step from its
+   * keyframe); the lattice and engine phase are put back afterwards
+   */
+  private stepKeyframe(entry: StoredEntry, engine: PhysicsEngine, params: SimulationParams): FieldArray[] {
+    const current = this.captureKeyframe();
+    const phaseState = engine.getPhaseState();
+
+    this.loadKeyframe(entry.keyframe!);
+    engine.setPhaseState(entry.phaseState);
+    engine.step(this.lattice, params, params.timeStep ?? 1);
+    const keyframe = this.captureKeyframe();
+
+    this.loadKeyframe(current);
+    engine.setPhaseState(phaseState);
+    return keyframe;
+  }
+
+  private captureKeyframe(): FieldArray[] {
+    return this.fields.map(field => this.lattice.storage[field].slice());
+  }
+
+  private loadKeyframe(keyframe: FieldArray[]): void {
+    this.fields.forEach((field, f) => this.lattice.storage[field].set(keyframe[f]));
+  }
+
+  private copyInto(target: FieldArray[]): void {
+    this.fields.forEach((field, f) => target[f].set(this.lattice.storage[field]));
+  }
+
+  /**
+   * Collect the nodes whose tracked fields differ from the base and advance the base
+   */
+  private captureDelta(): StorageDelta {
+    const storage = this.lattice.storage;
+    const arrays = this.fields.map(field => storage[field]);
+    const base = this.base!;
+    const size = storage.size;
+
+    if (!this.scratch || this.scratch.length !== arrays.length || this.scratchIndices?.length !== size) {
+      this.scratch = arrays.map(array => array.slice());
+      this.scratchIndices = new Int32Array(size);
+    }
+    const scratch = this.scratch;
+    const indices = this.scratchIndices!;
+    let count = 0;
+
+    for (let i = 0; i < size; i++) {
+      let changed = false;
+      for (let f = 0; f < arrays.length; f++) {
+        if (arrays[f][i] !== base[f][i]) { changed = true; break; }
+      }
+      if (!changed) continue;
+
+      for (let f = 0; f < arrays.length; f++) {
+        scratch[f][count] = arrays[f][i];
+        base[f][i] = arrays[f][i];
+      }
+      indices[count++] = i;
+    }
+
+    return {
+      indices: indices.slice(0, count),
+      values: scratch.map(array => array.slice(0, count))
+    };
+  }
+
+  private applyDelta(delta: StorageDelta): void {
+    const { indices, values } = delta;
+    this.fields.forEach((field, f) => {
+      const array = this.lattice.storage[field];
+      for (let k = 0; k < indices.length; k++) array[indices[k]] = values[f][k];
+    });
+  }
+
+  private entryBytes(entry: StoredEntry): number {
+    let bytes = ENTRY_OVERHEAD;
+    if (entry.keyframe) {
+      for (const array of entry.keyframe) bytes += array.byteLength;
+    }
+    if (entry.delta) {
+      bytes += entry.delta.indices.byteLength;
+      for (const array of entry.delta.values) bytes += array.byteLength;
+    }
+    return bytes;
+  }
+
+  private toHistoryEntry(entry: StoredEntry): HistoryEntry {
+    return {
+      time: entry.time,
+      stepCount: entry.stepCount,
+      phaseState: { ...entry.phaseState },
+      randomState: entry.randomState,
+      ...(entry.perturbations ? { perturbations: entry.perturbations.map(p => ({ ...p })) } : {})
+    };
+  }
+}
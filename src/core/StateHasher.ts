@@ -0,0 +1,192 @@
+/**
+ * StateHasher - Zobrist hashing of the spin field and phase step
+ *
+ * Every site gets a random 64-bit key (two 32-bit lanes) that is XORed in
+ * when its spin is +1, and every phase step gets a key of its own. Hashes
+ * are cheap to store and compare, so long trajectories can be recorded
+ * without copying the lattice.
+ *
+ * checkRoundTrip() and findRecurrence() build on the hashes to verify
+ * bit-exact reversibility and to measure recurrence periods.
+ */
+
+import { Lattice } from './Lattice.js';
+import { SeededRandom } from './Random.js';
+
+export interface StateHash {
+  hi: number;
+  lo: number;
+}
+
+export interface RoundTripResult {
+  exact: boolean;                // Backward trajectory ended bit-exactly on the initial state
+  initialHash: string;
+  finalHash: string;
+  divergenceStep: number | null; // First step t (met while reversing) where backward ≠ forward state at t
+}
+
+export interface RecurrenceResult {
+  period: number | null;    // Steps between repeats of a state (null if none within maxSteps)
+  firstSeen: number | null; // Step of the first visit to the repeated state (0 for reversible dynamics)
+  stepsSearched: number;
+}
+
+/** Default key seed, fixed so hashes are comparable across runs */
+const DEFAULT_HASH_SEED = 0x5eed1234;
+
+export class StateHasher {
+  private readonly siteHi: Int32Array;
+  private readonly siteLo: Int32Array;
+  private phaseHi: Int32Array = new Int32Array(0);
+  private phaseLo: Int32Array = new Int32Array(0);
+  private readonly random: SeededRandom;
+
+  /**
+   * @param size - Number of lattice sites
+   * @param seed - Seed for the random keys
+   */
+  constructor(size: number, seed: number = DEFAULT_HASH_SEED) {
+    this.random = new SeededRandom(seed);
+    this.siteHi = new Int32Array(size);
+    this.siteLo = new Int32Array(size);
+
+    for (let i = 0; i < size; i++) {
+      this.siteHi[i] = this.nextKey();
+      this.siteLo[i] = this.nextKey();
+    }
+  }
+
+  /**
+   * Number of sites this hasher covers
+   */
+  getSize(): number {
+    return this.siteHi.length;
+  }
+
+  /**
+   * Hash a spin array and phase step
+   */
+  hashSpins(spins: ArrayLike<number>, phaseStep: number = 0): StateHash {
+    if (spins.length !== this.siteHi.length) {
+      throw new Error(`StateHasher covers ${this.siteHi.length} sites, got ${spins.length}`);
+    }
+
+    this.ensurePhase(phaseStep);
+    let hi = this.phaseHi[phaseStep];
+    let lo = this.phaseLo[phaseStep];
+
+    for (let i = 0; i < spins.length; i++) {
+      if (spins[i] > 0) {
+        hi ^= this.siteHi[i];
+        lo ^= this.siteLo[i];
+      }
+    }
+
+    return { hi: hi >>> 0, lo: lo >>> 0 };
+  }
+
+  /**
+   * Hash the lattice spins and phase step as a map key
+   */
+  hashLattice(lattice: Lattice, phaseStep: number = 0): string {
+    return StateHasher.toKey(this.hashSpins(lattice.storage.spins, phaseStep));
+  }
+
+  /**
+   * Format a hash as a 16-digit hex key
+   */
+  static toKey(hash: StateHash): string {
+    return hash.hi.toString(16).padStart(8, '0') + hash.lo.toString(16).padStart(8, '0');
+  }
+
+  /**
+   * Generate phase keys up to the given phase step
+   */
+  private ensurePhase(phaseStep: number): void {
+    if (phaseStep < this.phaseHi.length) return;
+
+    const count = Math.max(phaseStep + 1, this.phaseHi.length * 2, 8);
+    const hi = new Int32Array(count);
+    const lo = new Int32Array(count);
+    hi.set(this.phaseHi);
+    lo.set(this.phaseLo);
+
+    for (let p = this.phaseHi.length; p < count; p++) {
+      // Phase 0 keeps a zero key, so spin-only hashes equal phase-0 hashes
+      hi[p] = p === 0 ? 0 : this.nextKey();
+      lo[p] = p === 0 ? 0 : this.nextKey();
+    }
+
+    this.phaseHi = hi;
+    this.phaseLo = lo;
+  }
+
+  private nextKey(): number {
+    return (this.random.next() * 0x100000000) | 0;
+  }
+}
+
+/**
+ * Run `steps` forward and `steps` backward, comparing each backward state
+ * with the forward state at the same time
+ * @param hashState - Key of the current state
+ * @param forward - Advance one step
+ * @param backward - Undo one step
+ */
+export function checkRoundTrip(
+  hashState: () => string,
+  forward: () => void,
+  backward: () => void,
+  steps: number
+): RoundTripResult {
+  const trajectory: string[] = [hashState()];
+
+  for (let t = 1; t <= steps; t++) {
+    forward();
+    trajectory.push(hashState());
+  }
+
+  let divergenceStep: number | null = null;
+  for (let t = steps - 1; t >= 0; t--) {
+    backward();
+    if (divergenceStep === null && hashState() !== trajectory[t]) {
+      divergenceStep = t;
+    }
+  }
+
+  const finalHash = hashState();
+
+  return {
+    exact: finalHash === trajectory[0],
+    initialHash: trajectory[0],
+    finalHash,
+    divergenceStep
+  };
+}
+
+/**
+ * Step forward until a state repeats
+ * @param hashState - Key of the current state
+ * @param forward - Advance one step
+ * @param maxSteps - Give up after this many steps
+ */
+export function findRecurrence(
+  hashState: () => string,
+  forward: () => void,
+  maxSteps: number
+): RecurrenceResult {
+  const seen = new Map<string, number>([[hashState(), 0]]);
+
+  for (let t = 1; t <= maxSteps; t++) {
+    forward();
+    const key = hashState();
+    const first = seen.get(key);
+
+    if (first !== undefined) {
+      return { period: t - first, firstSeen: first, stepsSearched: t };
+    }
+    seen.set(key, t);
+  }
+
+  return { period: null, firstSeen: null, stepsSearched: maxSteps };
+}
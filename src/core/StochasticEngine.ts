@@ -0,0 +1,71 @@
+/**
+ * StochasticEngine - The Node model as a PhysicsEngine
+ *
+ * Wraps Lattice.update (symmetry breaking, anomalies and energy exchange
+ * drawn from the lattice's seeded stream) and optional conservation
+ * enforcement. The dynamics are irreversible, so Simulation steps back
+ * through its saved history.
+ */
+
+import { Lattice } from './Lattice.js';
+import { Physics } from './Physics.js';
+import type { SimulationParams } from './Simulation.js';
+import type { EnergyMetrics } from './Hamiltonian.js';
+import type { PhysicsEngine, EnginePhaseState } from './PhysicsEngine.js';
+
+export class StochasticEngine implements PhysicsEngine {
+  readonly id = 'stochastic' as const;
+  readonly name = 'Stochastic node model';
+  readonly reversible = false;
+  readonly spinsOnly = false;
+
+  /**
+   * The seeded Lattice.initialize already prepared the nodes
+   */
+  initialize(_lattice: Lattice): null {
+    return null;
+  }
+
+  step(lattice: Lattice, params: SimulationParams, dt: number): void {
+    lattice.update(params, dt);
+
+    if (params.enforceConservation) {
+      const report = Physics.enforceConservation(lattice);
+      if (!report.isConserved && report.violations.length > 0) {
+        console.warn(`Conservation violations detected: ${report.violations.length} nodes`);
+      }
+    }
+  }
+
+  reverseStep(): void {
+    throw new Error('The stochastic node model is irreversible; step back through history');
+  }
+
+  /**
+   * Node energies (E_sym + E_asym = E_0 per node) with the bond Hamiltonian H
+   */
+  calculateEnergy(lattice: Lattice): EnergyMetrics {
+    const { E_sym, E_asym, E_0 } = lattice.calculateTotalEnergy();
+    const hamiltonian = lattice.getHamiltonian();
+    const E_0_ref = lattice.getNodeCount() * hamiltonian.E_0 || 1;
+
+    return {
+      E_sym,
+      E_asym,
+      E_0,
+      E_0_ref,
+      E_sym_norm: E_sym / E_0_ref,
+      E_asym_norm: E_asym / E_0_ref,
+      E_0_norm: E_0 / E_0_ref,
+      H: hamiltonian.calculateEnergy(lattice).H
+    };
+  }
+
+  getPhaseState(): EnginePhaseState {
+    return { phaseStep: 0 };
+  }
+
+  setPhaseState(_state: EnginePhaseState): void {
+    // No phases
+  }
+}
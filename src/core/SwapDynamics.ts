@@ -3,12 +3,21 @@
  * 
  * Implements deterministic, perfectly reversible dynamics using
  * 6-phase swap algorithm. Each phase swaps spins with neighbors
- * based on axis and parity.
+ * based on axis and parity. Any other ReversibleRule can be plugged in.
+ * Unlike AuthorPhysics it evolves whatever spins the lattice holds.
  * 
  * Based on the author's reference implementation.
  */
 
-import { Lattice } from './Lattice.js';
+import { Lattice, LatticeDimensions } from './Lattice.js';
+import {
+  ReversibleRule,
+  SwapScheduleRule,
+  SwapPhase as SwapPhaseConfig,
+  MARGOLUS_SWAP_SCHEDULE
+} from './ReversibleRules.js';
+import type { EnergyMetrics } from './Hamiltonian.js';
+import type { PhysicsEngine, EnginePhaseState } from './PhysicsEngine.js';
 
 export enum SwapPhase {
   X_EVEN = 0,  // x-axis, even parity
@@ -19,30 +28,46 @@ export enum SwapPhase {
   Z_ODD = 5    // z-axis, odd parity
 }
 
-interface PhaseConfig {
-  axis: 'x' | 'y' | 'z';
-  parity: 0 | 1;
-}
-
-export class SwapDynamics {
+export class SwapDynamics implements PhysicsEngine {
+  readonly id = 'swap' as const;
+  readonly name = 'Swap dynamics';
+  readonly reversible = true;
+  readonly spinsOnly = true;
   private phaseStep = 0;
-  private readonly phases: PhaseConfig[] = [
-    { axis: 'x', parity: 0 },
-    { axis: 'y', parity: 1 },
-    { axis: 'z', parity: 0 },
-    { axis: 'x', parity: 1 },
-    { axis: 'y', parity: 0 },
-    { axis: 'z', parity: 1 }
-  ];
+  private readonly rule: ReversibleRule;
+  // Last lattice stepped (a 3D lattice until then); sets the cycle length
+  private dimensions: LatticeDimensions = { width: 2, height: 2, depth: 2 };
+
+  /**
+   * @param rule - Reversible rule (default: the fixed 6-phase Margolus swap schedule)
+   */
+  constructor(
+    rule: ReversibleRule = new SwapScheduleRule(MARGOLUS_SWAP_SCHEDULE, {
+      id: 'margolus-swap',
+      name: 'Margolus swap',
+      skipFlatAxes: false
+    })
+  ) {
+    this.rule = rule;
+  }
+
+  /**
+   * PhysicsEngine initialization: restart the phase cycle on the current spins
+   */
+  initialize(lattice: Lattice): null {
+    this.dimensions = lattice;
+    this.phaseStep = 0;
+    return null;
+  }
 
   /**
    * Perform one forward step
    * @param lattice - Lattice to evolve
    */
   step(lattice: Lattice): void {
-    const phase = this.phases[this.phaseStep];
-    this.doSwap(lattice, phase);
-    this.phaseStep = (this.phaseStep + 1) % 6;
+    this.dimensions = lattice;
+    this.rule.applyPhase(lattice, this.phaseStep);
+    this.phaseStep = (this.phaseStep + 1) % this.getCycleLength();
   }
 
   /**
@@ -50,65 +75,24 @@ export class SwapDynamics {
    * @param lattice - Lattice to evolve backward
    */
   reverseStep(lattice: Lattice): void {
-    this.phaseStep = (this.phaseStep + 5) % 6;  // -1 mod 6
-    const phase = this.phases[this.phaseStep];
-    this.doSwap(lattice, phase);
+    this.dimensions = lattice;
+    const cycle = this.getCycleLength();
+    this.phaseStep = (this.phaseStep + cycle - 1) % cycle;  // -1 mod cycle
+    this.rule.applyInversePhase(lattice, this.phaseStep);
   }
 
   /**
-   * Perform swap operation for a given phase
+   * Bond energy metrics under the lattice's Hamiltonian
    */
-  private doSwap(lattice: Lattice, phase: PhaseConfig): void {
-    const { axis, parity } = phase;
-    const { width, height, depth } = lattice;
-    
-    // Create temporary array for new spins
-    const newSpins = new Int8Array(lattice.nodes.length);
-    
-    // Copy current spins
-    for (let i = 0; i < lattice.nodes.length; i++) {
-      newSpins[i] = lattice.nodes[i].spin;
-    }
-    
-    // Perform swaps
-    for (let z = 0; z < depth; z++) {
-      for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-          // Check parity
-          if (((x + y + z) & 1) !== parity) continue;
-          
-          // Get neighbor position based on axis
-          let nx = x, ny = y, nz = z;
-          if (axis === 'x') {
-            nx = (x + 1) % width;
-          } else if (axis === 'y') {
-            ny = (y + 1) % height;
-          } else {
-            nz = (z + 1) % depth;
-          }
-          
-          // Get nodes
-          const node = lattice.getNode(x, y, z);
-          const neighbor = lattice.getNode(nx, ny, nz);
-          
-          if (!node || !neighbor) continue;
-          
-          // Get indices
-          const nodeIdx = lattice.nodes.indexOf(node);
-          const neighborIdx = lattice.nodes.indexOf(neighbor);
-          
-          // Swap spins in temporary array
-          const temp = newSpins[nodeIdx];
-          newSpins[nodeIdx] = newSpins[neighborIdx];
-          newSpins[neighborIdx] = temp;
-        }
-      }
-    }
-    
-    // Apply new spins to lattice
-    for (let i = 0; i < lattice.nodes.length; i++) {
-      lattice.nodes[i].spin = newSpins[i];
-    }
+  calculateEnergy(lattice: Lattice): EnergyMetrics {
+    return lattice.getHamiltonian().calculateEnergy(lattice);
+  }
+
+  /**
+   * Get the rule driving the dynamics
+   */
+  getRule(): ReversibleRule {
+    return this.rule;
   }
 
   /**
@@ -122,14 +106,29 @@ export class SwapDynamics {
    * Set phase step (for state restoration)
    */
   setPhaseStep(step: number): void {
-    this.phaseStep = step % 6;
+    this.phaseStep = step % this.getCycleLength();
+  }
+
+  /**
+   * Get the phase state for history and exports
+   */
+  getPhaseState(): EnginePhaseState {
+    return { phaseStep: this.phaseStep };
+  }
+
+  /**
+   * Restore a phase state saved by getPhaseState
+   */
+  setPhaseState(state: EnginePhaseState): void {
+    this.setPhaseStep(state.phaseStep);
   }
 
   /**
-   * Get current phase configuration
+   * Get current phase configuration (null for rules that are not swap schedules)
    */
-  getCurrentPhase(): PhaseConfig {
-    return this.phases[this.phaseStep];
+  getCurrentPhase(): SwapPhaseConfig | null {
+    if (!(this.rule instanceof SwapScheduleRule)) return null;
+    return this.rule.getActivePhases(this.dimensions)[this.phaseStep];
   }
 
   /**
@@ -143,9 +142,7 @@ export class SwapDynamics {
    * Get phase name for display
    */
   getPhaseName(): string {
-    const phase = this.phases[this.phaseStep];
-    const parityName = phase.parity === 0 ? 'even' : 'odd';
-    return `${phase.axis.toUpperCase()}_${parityName.toUpperCase()}`;
+    return this.rule.getPhaseName(this.phaseStep, this.dimensions);
   }
 
   /**
@@ -159,6 +156,6 @@ export class SwapDynamics {
    * Get number of steps in a complete cycle
    */
   getCycleLength(): number {
-    return 6;
+    return this.rule.getCycleLength(this.dimensions);
   }
 }
@@ -13,7 +13,7 @@ describe('AuthorPhysics', () => {
 
   beforeEach(() => {
     physics = new AuthorPhysics(N, 6);
-    lattice = new Lattice(N, N, N);
+    lattice = new Lattice(N, N, N, undefined, 'periodic');
     physics.initializeLattice(lattice);
   });
 
@@ -183,4 +183,29 @@ describe('AuthorPhysics', () => {
       }
     });
   });
+
+  describe('Non-cubic Lattices', () => {
+    test('should normalize energy by the actual bond count', () => {
+      const slab = new Lattice(12, 6, 4, undefined, 'periodic');
+      const slabPhysics = new AuthorPhysics(slab, 3);
+      slabPhysics.initializeLattice(slab);
+
+      const energy = slabPhysics.calculateEnergy(slab);
+      expect(energy.E_0).toBe(3 * 12 * 6 * 4);
+      expect(energy.E_0_norm).toBe(1);
+    });
+
+    test('should run a 4-phase cycle on a 2D lattice and stay reversible', async () => {
+      const plane = new Lattice(10, 8, 1, undefined, 'periodic');
+      const planePhysics = new AuthorPhysics(plane, 2);
+      planePhysics.initializeLattice(plane);
+
+      expect(planePhysics.getCycleLength()).toBe(4);
+      expect(planePhysics.calculateEnergy(plane).E_0).toBe(2 * 10 * 8);
+
+      const result = await planePhysics.photonWindowTest(plane, 25);
+      expect(result.hammingDistance).toBe(0);
+      expect(planePhysics.calculateFourierMode(plane).normalized).toBeGreaterThan(0.3);
+    });
+  });
 });
@@ -0,0 +1,65 @@
+/**
+ * Tests for lattice boundary conditions
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { resolveCoordinate, resolveBoundary, BoundaryCondition } from '../Boundary.js';
+import { Lattice } from '../Lattice.js';
+import { AuthorPhysics } from '../AuthorPhysics.js';
+import { SwapDynamics } from '../SwapDynamics.js';
+import { SeededRandom } from '../Random.js';
+
+const conditions: BoundaryCondition[] = ['periodic', 'open', 'reflecting', 'antiperiodic'];
+
+describe('Boundary', () => {
+  test('should resolve coordinates beyond the edges', () => {
+    expect(resolveCoordinate(-1, 4, 'periodic')).toEqual({ coord: 3, sign: 1 });
+    expect(resolveCoordinate(4, 4, 'open')).toBeNull();
+    expect(resolveCoordinate(-1, 4, 'reflecting')).toEqual({ coord: 0, sign: 1 });
+    expect(resolveCoordinate(5, 4, 'reflecting')).toEqual({ coord: 2, sign: 1 });
+    expect(resolveCoordinate(4, 4, 'antiperiodic')).toEqual({ coord: 0, sign: -1 });
+  });
+
+  test('should default missing axes to open', () => {
+    expect(resolveBoundary({ x: 'periodic' })).toEqual({ x: 'periodic', y: 'open', z: 'open' });
+    expect(new Lattice(2, 2, 1).boundary).toEqual({ x: 'open', y: 'open', z: 'open' });
+  });
+
+  test('should honour the boundary in neighbor lookups and regions', () => {
+    const periodic = new Lattice(4, 4, 4, undefined, 'periodic');
+    const open = new Lattice(4, 4, 4, undefined, 'open');
+
+    expect(periodic.getNeighbors(periodic.getNode(0, 0, 0)!)).toHaveLength(26);
+    expect(open.getNeighbors(open.getNode(0, 0, 0)!)).toHaveLength(7);
+    expect(periodic.getRegion(-1, -1, 0, 0)).toHaveLength(4);
+    expect(open.getRegion(-1, -1, 0, 0)).toHaveLength(1);
+  });
+
+  test.each(conditions)('should keep author dynamics reversible with %s boundaries', async condition => {
+    const lattice = new Lattice(6, 6, 6, new SeededRandom(3), condition);
+    const physics = new AuthorPhysics(6, 1);
+    physics.initializeLattice(lattice);
+
+    const result = await physics.photonWindowTest(lattice, 30);
+    const energy = physics.calculateEnergy(lattice);
+
+    expect(result.hammingDistance).toBe(0);
+    expect(energy.E_0).toBe(lattice.getBondCount());
+  });
+
+  test('should agree between SwapDynamics and AuthorPhysics at the edges', () => {
+    for (const condition of conditions) {
+      const a = new Lattice(4, 4, 4, new SeededRandom(9), condition);
+      const b = new Lattice(4, 4, 4, new SeededRandom(9), condition);
+      const physics = new AuthorPhysics(4, 1);
+      const swaps = new SwapDynamics();
+
+      for (let i = 0; i < 12; i++) {
+        physics.step(a);
+        swaps.step(b);
+      }
+
+      expect(Array.from(a.storage.spins)).toEqual(Array.from(b.storage.spins));
+    }
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for coupling constants in the author and Node models
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { Hamiltonian } from '../Hamiltonian.js';
+import { AuthorPhysics } from '../AuthorPhysics.js';
+import { Lattice } from '../Lattice.js';
+import { Simulation } from '../Simulation.js';
+
+describe('Hamiltonian', () => {
+  test('should weight author bond energies by J_axis and E_0', () => {
+    const lattice = new Lattice(4, 4, 4, undefined, 'periodic');
+    lattice.storage.spins.fill(1);
+    const physics = new AuthorPhysics(lattice, 1);
+    const bonds = lattice.getBondCount();
+
+    expect(physics.calculateEnergy(lattice).E_sym).toBe(bonds);
+
+    physics.setHamiltonian(new Hamiltonian({ J: 1, Jz: 2, h: 0.5, E_0: 3 }));
+    const energy = physics.calculateEnergy(lattice);
+
+    // 64 bonds per axis: x and y weigh 1, z weighs 2
+    expect(energy.E_sym).toBe(3 * (64 + 64 + 128));
+    expect(energy.E_asym).toBe(0);
+    expect(energy.E_0_norm).toBe(1);
+    expect(energy.H).toBe(3 * (-(64 + 64 + 128) - 0.5 * 64));
+  });
+
+  test('should treat anti-aligned spins as satisfied for J < 0', () => {
+    const lattice = new Lattice(4, 1, 1, undefined, 'periodic');
+    lattice.storage.spins.set([1, -1, 1, -1]);
+    const physics = new AuthorPhysics(lattice, 1);
+
+    physics.setHamiltonian(new Hamiltonian({ J: -1 }));
+    const energy = physics.calculateEnergy(lattice);
+
+    expect(energy.E_sym).toBe(4);
+    expect(energy.H).toBe(-4);
+  });
+
+  test('should drive Node energies and T_info from simulation parameters', () => {
+    const run = (J: number, E_0: number) => {
+      const simulation = new Simulation(new Lattice(6, 6, 1, undefined, 'periodic'), { seed: 7, J, E_0 });
+      simulation.step();
+      return simulation.getStepStatistics();
+    };
+
+    const base = run(1, 1);
+    const weak = run(0.5, 1);
+    const scaled = run(1, 2);
+
+    expect(weak.T_info).not.toBe(base.T_info);
+    expect(weak.totalE_sym).not.toBeCloseTo(base.totalE_sym, 3);
+    expect(scaled.totalE_0).toBeCloseTo(2 * base.totalE_0, 6);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for the initial condition registry
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  applyInitialCondition,
+  listInitialConditions,
+  resolveInitialCondition
+} from '../InitialConditions.js';
+import { Lattice } from '../Lattice.js';
+import { AuthorPhysics } from '../AuthorPhysics.js';
+
+const sum = (spins: ArrayLike<number>): number => Array.from(spins).reduce((a, b) => a + b, 0);
+
+describe('InitialConditions', () => {
+  test('should produce ±1 spins for every registered condition', () => {
+    for (const definition of listInitialConditions()) {
+      const lattice = new Lattice(6, 5, 4);
+      applyInitialCondition(lattice, { id: definition.id, params: {} });
+
+      expect(Array.from(lattice.storage.spins).every(s => s === 1 || s === -1)).toBe(true);
+    }
+  });
+
+  test('should reproduce random spins with an exact magnetisation', () => {
+    const a = new Lattice(8, 8, 8);
+    const b = new Lattice(8, 8, 8);
+    const spec = { id: 'random', params: { magnetization: 0.25, seed: 42 } };
+
+    applyInitialCondition(a, spec);
+    applyInitialCondition(b, spec);
+
+    expect(sum(a.storage.spins) / 512).toBe(0.25);
+    expect(Array.from(a.storage.spins)).toEqual(Array.from(b.storage.spins));
+  });
+
+  test('should fill defaults and keep the cosine pattern as the author default', () => {
+    const lattice = new Lattice(12, 12, 12);
+    const physics = new AuthorPhysics(lattice, 3);
+    const applied = physics.initializeLattice(lattice);
+
+    expect(applied).toEqual({ id: 'cosine', params: { kx: 3 } });
+    expect(resolveInitialCondition({ id: 'domainWall', params: { axis: 'y' } }).params)
+      .toEqual({ axis: 'y', position: 0.5 });
+
+    // cos(2π · 3x / 12): + at x = 0, - at x = 2
+    expect(lattice.getNode(0, 0, 0)!.spin).toBe(1);
+    expect(lattice.getNode(2, 0, 0)!.spin).toBe(-1);
+  });
+
+  test('should threshold a bitmap onto a single slice', () => {
+    const lattice = new Lattice(4, 4, 2);
+    applyInitialCondition(lattice, {
+      id: 'bitmap',
+      params: { image: { width: 2, height: 1, data: [0, 1] }, slice: 1 }
+    });
+
+    expect(lattice.getNode(0, 0, 1)!.spin).toBe(-1);
+    expect(lattice.getNode(3, 0, 1)!.spin).toBe(1);
+    expect(lattice.getNode(0, 0, 0)!.spin).toBe(1);
+  });
+});
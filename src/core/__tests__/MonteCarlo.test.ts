@@ -0,0 +1,62 @@
+/**
+ * Tests for thermal Monte Carlo sweeps and thermodynamic observables
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { MonteCarlo } from '../MonteCarlo.js';
+import { Hamiltonian } from '../Hamiltonian.js';
+import { AuthorPhysics } from '../AuthorPhysics.js';
+import { Lattice } from '../Lattice.js';
+import { SeededRandom } from '../Random.js';
+import { ThermodynamicsTracker } from '../../analytics/ThermodynamicsTracker.js';
+
+describe('MonteCarlo', () => {
+  test('should measure the same energy as AuthorPhysics', () => {
+    const lattice = new Lattice(5, 4, 3, new SeededRandom(3), { x: 'antiperiodic', y: 'open', z: 'reflecting' });
+    const hamiltonian = new Hamiltonian({ J: 1, Jy: -0.5, h: 0.3, E_0: 2 });
+    const physics = new AuthorPhysics(lattice, 1);
+    physics.setHamiltonian(hamiltonian);
+
+    const sample = MonteCarlo.measure(lattice, hamiltonian);
+
+    expect(sample.energy).toBeCloseTo(physics.calculateEnergy(lattice).H / 60, 10);
+  });
+
+  test('should never raise the energy at zero temperature', () => {
+    const lattice = new Lattice(8, 8, 1, new SeededRandom(5));
+    const monteCarlo = new MonteCarlo({ temperature: 0 }, new SeededRandom(6));
+    let energy = MonteCarlo.measure(lattice).energy;
+
+    for (let i = 0; i < 20; i++) {
+      monteCarlo.sweep(lattice);
+      const next = MonteCarlo.measure(lattice).energy;
+      expect(next).toBeLessThanOrEqual(energy);
+      energy = next;
+    }
+  });
+
+  test.each(['metropolis', 'heat-bath'] as const)('should order below and disorder above T_c (%s)', algorithm => {
+    const run = (temperature: number) => {
+      const lattice = new Lattice(12, 12, 1, new SeededRandom(9));
+      lattice.storage.spins.fill(1);
+      const monteCarlo = new MonteCarlo({ temperature, algorithm }, new SeededRandom(10));
+      const tracker = new ThermodynamicsTracker(200);
+      tracker.setTemperature(temperature);
+
+      for (let i = 0; i < 300; i++) {
+        monteCarlo.sweep(lattice);
+        if (i >= 100) tracker.update(MonteCarlo.measure(lattice), lattice.getNodeCount());
+      }
+      return tracker.getSummary();
+    };
+
+    // 2D Ising: T_c ≈ 2.269 J
+    const cold = run(1.0);
+    const hot = run(5.0);
+
+    expect(cold.absMagnetization).toBeGreaterThan(0.9);
+    expect(hot.absMagnetization).toBeLessThan(0.3);
+    expect(hot.susceptibility).toBeGreaterThan(0);
+    expect(hot.specificHeat).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for perturbations and their replay through history
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { Simulation } from '../Simulation.js';
+import { Lattice } from '../Lattice.js';
+import { AuthorPhysics } from '../AuthorPhysics.js';
+import { PhysicsEngine } from '../PhysicsEngine.js';
+import { applyPerturbation, resolvePerturbation } from '../Perturbations.js';
+
+function createSimulation(engine?: PhysicsEngine): Simulation {
+  const simulation = new Simulation(new Lattice(6, 6, 2), { seed: 21, historyKeyframeInterval: 5 }, engine);
+  simulation.initializeEngine();
+  return simulation;
+}
+
+function snapshot(simulation: Simulation) {
+  return { stepCount: simulation.stepCount, spins: simulation.lattice.storage.spins.slice() };
+}
+
+describe('Perturbations', () => {
+  test('should flip the spins within the radius and fill in defaults', () => {
+    const lattice = new Lattice(5, 5, 1);
+    lattice.storage.spins.fill(1);
+
+    const spec = applyPerturbation(lattice, { id: 'spinFlip', params: { x: 2, y: 2, radius: 1 } });
+
+    expect(spec.params).toEqual({ x: 2, y: 2, z: 0, radius: 1 });
+    expect(Array.from(lattice.storage.spins).filter(s => s === -1)).toHaveLength(5);
+    expect(lattice.storage.spins[lattice.getIndex(2, 1)]).toBe(-1);
+    expect(() => resolvePerturbation({ id: 'missing', params: {} })).toThrow('Unknown perturbation');
+  });
+
+  test('should reach across periodic edges and keep phases in [0, 2π)', () => {
+    const lattice = new Lattice(5, 5, 1, undefined, 'periodic');
+    lattice.storage.spins.fill(1);
+
+    applyPerturbation(lattice, { id: 'spinFlip', params: { x: 0, y: 0, radius: 1 } });
+
+    expect(Array.from(lattice.storage.spins).filter(s => s === -1)).toHaveLength(5);
+    expect(lattice.storage.spins[lattice.getIndex(4, 0)]).toBe(-1);
+    expect(lattice.storage.spins[lattice.getIndex(0, 4)]).toBe(-1);
+
+    lattice.storage.phases.fill(0);
+    applyPerturbation(lattice, { id: 'planeWave', params: { kx: 1, phase: Math.PI } });
+    for (const phase of lattice.storage.phases) {
+      expect(phase).toBeGreaterThanOrEqual(0);
+      expect(phase).toBeLessThan(2 * Math.PI);
+    }
+  });
+
+  test.each([
+    ['stochastic', () => undefined],
+    ['author', () => new AuthorPhysics(6, 1)]
+  ])('should record perturbations so history seeks and replays reproduce them (%s)', (_id, createEngine) => {
+    const simulation = createSimulation(createEngine());
+    simulation.schedulePerturbation({ id: 'gaussianPulse', params: { x: 3, y: 3, amplitude: 1 } }, 2);
+    simulation.schedulePerturbation({ id: 'source', params: { x: 5, y: 1, rate: -0.2 } }, 4, 3);
+
+    const states = [snapshot(simulation)];
+    for (let i = 0; i < 9; i++) {
+      simulation.step();
+      states.push(snapshot(simulation));
+      if (i === 5) {
+        simulation.applyPerturbation({ id: 'spinFlip', params: { x: 1, y: 4, radius: 2 } });
+        states.push(snapshot(simulation));
+      }
+    }
+
+    expect(simulation.getPerturbationLog().map(e => [e.stepCount, e.perturbations.map(p => [p.spec.id, p.step])])).toEqual([
+      [3, [['gaussianPulse', 2]]],
+      [5, [['source', 4]]],
+      [6, [['source', 5]]],
+      [6, [['spinFlip', 6]]],
+      [7, [['source', 6]]]
+    ]);
+
+    for (const index of [8, 2, 10, 6, 0, 7]) {
+      simulation.seekToStep(index);
+      expect(snapshot(simulation)).toEqual(states[index]);
+    }
+
+    // Stepping back across the interactive flip restores the state before it
+    simulation.seekToStep(7);
+    simulation.setDirection(-1);
+    simulation.step();
+    expect(snapshot(simulation)).toEqual(states[6]);
+
+    // A fresh run with the same seed and the perturbations scheduled replays the result
+    const replay = createSimulation(createEngine());
+    replay.replayPerturbations(simulation.getPerturbationLog());
+    for (let i = 0; i < 9; i++) replay.step();
+    expect(snapshot(replay).spins).toEqual(states[10].spins);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for driving Simulation through interchangeable physics engines
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { Simulation } from '../Simulation.js';
+import { Lattice } from '../Lattice.js';
+import { AuthorPhysics } from '../AuthorPhysics.js';
+import { SwapDynamics } from '../SwapDynamics.js';
+import { MonteCarlo } from '../MonteCarlo.js';
+import { StochasticEngine } from '../StochasticEngine.js';
+import { PhysicsEngine } from '../PhysicsEngine.js';
+import { PhotonWindowTest } from '../../analytics/PhotonWindowTest.js';
+
+function createSimulation(engine: PhysicsEngine): Simulation {
+  const lattice = new Lattice(4, 4, 4);
+  const simulation = new Simulation(lattice, { seed: 11 }, engine);
+  simulation.initializeEngine();
+  return simulation;
+}
+
+describe('PhysicsEngine', () => {
+  test.each([
+    ['author', () => new AuthorPhysics(4, 1)],
+    ['swap', () => new SwapDynamics()]
+  ])('should reverse the %s engine exactly through Simulation', async (_id, createEngine) => {
+    const simulation = createSimulation(createEngine());
+    const initial = simulation.lattice.storage.spins.slice();
+
+    const result = await new PhotonWindowTest().run(simulation, 9);
+
+    expect(result.exact).toBe(true);
+    expect(simulation.stepCount).toBe(0);
+    expect(simulation.getEngine().getPhaseState().phaseStep).toBe(0);
+    expect(simulation.lattice.storage.spins).toEqual(initial);
+  });
+
+  test.each([
+    ['stochastic', () => new StochasticEngine()],
+    ['author', () => new AuthorPhysics(4, 1)],
+    ['thermal', () => new MonteCarlo({ temperature: 3 })]
+  ])('should restore bookmarks and previous steps with the %s engine', (_id, createEngine) => {
+    const simulation = createSimulation(createEngine());
+    simulation.step();
+    simulation.step();
+    const bookmark = simulation.addBookmark('two');
+    const spins = simulation.lattice.storage.spins.slice();
+    const phase = simulation.getEngine().getPhaseState();
+
+    simulation.step();
+    simulation.setDirection(-1);
+    simulation.step();
+
+    expect(simulation.stepCount).toBe(2);
+    expect(simulation.lattice.storage.spins).toEqual(spins);
+
+    simulation.setDirection(1);
+    simulation.step();
+    simulation.step();
+    expect(simulation.jumpToBookmark(bookmark.id)).toBe(true);
+    expect(simulation.stepCount).toBe(2);
+    expect(simulation.lattice.storage.spins).toEqual(spins);
+    expect(simulation.getEngine().getPhaseState()).toEqual(phase);
+  });
+
+  test('should carry the engine phase through export and import', () => {
+    const source = createSimulation(new AuthorPhysics(4, 1));
+    for (let i = 0; i < 3; i++) source.step();
+    const data = JSON.parse(JSON.stringify(source.export()));
+
+    const target = createSimulation(new AuthorPhysics(4, 1));
+    target.import(data);
+    source.step();
+    target.step();
+
+    expect(data.engine).toEqual({ id: 'author', phaseState: { phaseStep: 3 } });
+    expect(target.lattice.storage.spins).toEqual(source.lattice.storage.spins);
+  });
+});
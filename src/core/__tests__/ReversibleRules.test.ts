@@ -0,0 +1,59 @@
+/**
+ * Tests for pluggable reversible rules
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { BlockRule, SwapScheduleRule, REVERSIBLE_RULES } from '../ReversibleRules.js';
+import { BoundaryCondition } from '../Boundary.js';
+import { Lattice } from '../Lattice.js';
+import { AuthorPhysics } from '../AuthorPhysics.js';
+import { SeededRandom } from '../Random.js';
+import { PhotonWindowTest } from '../../analytics/PhotonWindowTest.js';
+
+const conditions: BoundaryCondition[] = ['periodic', 'open', 'reflecting', 'antiperiodic'];
+
+describe('ReversibleRules', () => {
+  test.each(conditions)('should verify every built-in rule with %s boundaries', async condition => {
+    // Odd extents exercise blocks that would overlap across the seam
+    const lattice = new Lattice(6, 5, 4, new SeededRandom(11), condition);
+    const before = Array.from(lattice.storage.spins);
+    const results = await new PhotonWindowTest().verifyRules(lattice, 40);
+
+    for (const id of Object.keys(REVERSIBLE_RULES)) {
+      expect(results[id].hammingDistance).toBe(0);
+    }
+    expect(Array.from(lattice.storage.spins)).toEqual(before);
+  });
+
+  test('should reject block tables that are not bijections', () => {
+    const table = Array.from({ length: 16 }, (_, s) => s);
+    table[3] = 0;
+
+    expect(() => new BlockRule('bad', 'Bad', { x: 2, y: 2, z: 1 }, table)).toThrow('not reversible');
+  });
+
+  test('should move a lone billiard ball to the opposite corner', () => {
+    const lattice = new Lattice(4, 4, 1);
+    lattice.storage.spins.fill(-1);
+    lattice.getNode(0, 0, 0)!.spin = 1;
+
+    BlockRule.billiardBall().applyPhase(lattice, 0);
+
+    expect(lattice.getNode(0, 0, 0)!.spin).toBe(-1);
+    expect(lattice.getNode(1, 1, 0)!.spin).toBe(1);
+  });
+
+  test('should drive AuthorPhysics with a user-defined schedule', async () => {
+    const lattice = new Lattice(6, 6, 6, new SeededRandom(4));
+    const rule = new SwapScheduleRule([
+      { axis: 'z', parity: 1 },
+      { axis: 'x', parity: 0 },
+      { axis: 'x', parity: 1 }
+    ]);
+    const physics = new AuthorPhysics(lattice, 1, rule);
+
+    expect(physics.getCycleLength()).toBe(3);
+    const result = await physics.photonWindowTest(lattice, 25);
+    expect(result.hammingDistance).toBe(0);
+  });
+});
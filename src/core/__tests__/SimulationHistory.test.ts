@@ -0,0 +1,159 @@
+/**
+ * Tests for keyframe + delta simulation history and its branches
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { Simulation } from '../Simulation.js';
+import { Lattice } from '../Lattice.js';
+import { AuthorPhysics } from '../AuthorPhysics.js';
+import { MonteCarlo } from '../MonteCarlo.js';
+import { PhysicsEngine } from '../PhysicsEngine.js';
+import { PhotonWindowTest } from '../../analytics/PhotonWindowTest.js';
+
+function capture(simulation: Simulation) {
+  const { spins, states, E_sym, phases, omegas } = simulation.lattice.storage;
+  return {
+    stepCount: simulation.stepCount,
+    phase: simulation.getEngine().getPhaseState().phaseStep,
+    spins: spins.slice(),
+    states: states.slice(),
+    E_sym: E_sym.slice(),
+    phases: phases.slice(),
+    omegas: omegas.slice()
+  };
+}
+
+function record(engine: PhysicsEngine | undefined, steps: number, params = {}) {
+  const simulation = new Simulation(new Lattice(6, 6, 2), { seed: 4, historyKeyframeInterval: 4, ...params }, engine);
+  simulation.initializeEngine();
+  const states = [capture(simulation)];
+  for (let i = 0; i < steps; i++) {
+    simulation.step();
+    states.push(capture(simulation));
+  }
+  return { simulation, states };
+}
+
+describe('SimulationHistory', () => {
+  test.each([
+    ['stochastic', () => undefined],
+    ['author', () => new AuthorPhysics(6, 1)],
+    ['thermal', () => new MonteCarlo({ temperature: 2.5 })]
+  ])('should seek to any recorded step (%s)', (_id, createEngine) => {
+    const { simulation, states } = record(createEngine(), 18);
+
+    for (const index of [3, 17, 0, 9, 10, 4, 18, 1]) {
+      expect(simulation.seekToStep(index)).toBe(true);
+      expect(capture(simulation)).toEqual(states[index]);
+    }
+
+    // Continuing from a restored step forks a branch starting at that step
+    simulation.seekToStep(5);
+    simulation.step();
+    expect(simulation.getHistoryInfo()).toMatchObject({ branchId: 2, branchCount: 2, historyLength: 2, currentIndex: 1 });
+    expect(simulation.getActiveBranch()).toMatchObject({ parentId: 1, forkIndex: 5 });
+  });
+
+  test('should evict old steps and keep bookmarks on their states', () => {
+    const { simulation, states } = record(new MonteCarlo({ temperature: 3 }), 12, { maxHistoryDepth: 10 });
+    const bookmark = simulation.addBookmark('step 12');
+    for (let i = 0; i < 5; i++) simulation.step();
+
+    expect(simulation.getHistoryInfo().historyLength).toBe(10);
+    expect(simulation.getHistoryEntry(0)?.stepCount).toBe(8);
+    expect(simulation.getBookmarks()[0].historyIndex).toBe(4);
+    expect(simulation.jumpToBookmark(bookmark.id)).toBe(true);
+    expect(capture(simulation)).toEqual(states[12]);
+  });
+
+  test('should keep a keyframe at the oldest step after eviction across a perturbation', () => {
+    const { simulation, states } = record(new AuthorPhysics(6, 1), 6, { maxHistoryDepth: 10 });
+    simulation.applyPerturbation({ id: 'spinFlip', params: { x: 2, y: 2, z: 0, radius: 1 } });
+    states.push(capture(simulation));
+    for (let i = 0; i < 8; i++) {
+      simulation.step();
+      states.push(capture(simulation));
+    }
+
+    // Entries 0..9 hold states 6..15: step 6, step 6 perturbed, steps 7..14
+    expect(simulation.getHistoryEntry(0)?.stepCount).toBe(6);
+    for (const index of [0, 1, 9, 2, 3, 0]) {
+      expect(simulation.seekToStep(index)).toBe(true);
+      expect(capture(simulation)).toEqual(states[index + 6]);
+    }
+  });
+
+  test.each([
+    ['stochastic', () => undefined],
+    ['author', () => new AuthorPhysics(6, 1)]
+  ])('should keep every branch when stepping from the past (%s)', (_id, createEngine) => {
+    const { simulation, states } = record(createEngine(), 10);
+    simulation.seekToStep(4);
+    const bookmark = simulation.addBookmark('fork point');
+    simulation.lattice.storage.spins[7] *= -1;
+    simulation.step();
+    simulation.step();
+    const branchEnd = capture(simulation);
+    const branch = simulation.getActiveBranch();
+    simulation.renameBranch(branch.id, 'anomaly');
+
+    expect(simulation.getBranches().map(b => b.name)).toEqual(['Main', 'anomaly']);
+    expect(simulation.switchBranch(1)).toBe(true);
+    expect(capture(simulation)).toEqual(states[10]);
+    expect(simulation.jumpToBookmark(bookmark.id)).toBe(true);
+    expect(capture(simulation)).toEqual(states[4]);
+
+    const comparison = simulation.compareBranches(1, branch.id)!;
+    expect(comparison.a.stepCount).toBe(10);
+    expect(comparison.b).toMatchObject({ name: 'anomaly', stepCount: 6 });
+    expect(comparison.diff.total).toBe(0);
+    expect(capture(simulation)).toEqual(states[4]);
+
+    expect(simulation.switchBranch(branch.id)).toBe(true);
+    expect(capture(simulation)).toEqual(branchEnd);
+
+    // Stepping back past the start of a branch continues on its parent
+    simulation.seekToStep(0);
+    simulation.setDirection(-1);
+    simulation.step();
+    expect(simulation.getHistoryInfo().branchId).toBe(1);
+    expect(capture(simulation)).toEqual(states[3]);
+  });
+
+  test('should leave no branch behind after a Photon Window test', async () => {
+    const { simulation, states } = record(new AuthorPhysics(6, 1), 6);
+    const result = await new PhotonWindowTest().run(simulation, 5);
+
+    expect(result.hammingDistance).toBe(0);
+    expect(simulation.getHistoryInfo()).toMatchObject({ branchCount: 1, historyLength: 7, currentIndex: 6 });
+    expect(capture(simulation)).toEqual(states[6]);
+    simulation.step();
+    expect(simulation.getHistoryInfo()).toMatchObject({ branchCount: 1, historyLength: 8 });
+  });
+
+  test('should prune old branches beyond the total budget and delete branches', () => {
+    const { simulation } = record(new AuthorPhysics(6, 1), 4, { maxHistoryDepth: 12 });
+    for (const index of [1, 2, 3]) {
+      simulation.seekToStep(index);
+      simulation.addBookmark(`fork ${index}`);
+      simulation.step();
+      simulation.step();
+      simulation.switchBranch(1);
+    }
+
+    // Main (5) + 3 branches of 3 entries exceed 12 entries: the oldest branch goes
+    expect(simulation.getBranches().map(b => b.id)).toEqual([1, 3, 4]);
+    expect(simulation.getBookmarks()).toHaveLength(3);
+
+    expect(simulation.deleteBranch(1)).toBe(false);
+    expect(simulation.deleteBranch(3)).toBe(true);
+    expect(simulation.getBranches().map(b => b.id)).toEqual([1, 4]);
+  });
+
+  test('should store far less than full lattice copies for reversible engines', () => {
+    const { simulation } = record(new AuthorPhysics(6, 1), 200, { historyKeyframeInterval: 100 });
+
+    // 3 spin keyframes of 72 bytes plus per-step scalars
+    expect(simulation.getHistoryInfo().memoryBytes).toBeLessThan(201 * 64 + 3 * 72 + 1);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for state hashing, exact round trips and recurrence detection
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { StateHasher, checkRoundTrip, findRecurrence } from '../StateHasher.js';
+import { Lattice } from '../Lattice.js';
+import { AuthorPhysics } from '../AuthorPhysics.js';
+import { SeededRandom } from '../Random.js';
+
+describe('StateHasher', () => {
+  test('should tell spin flips and phase steps apart', () => {
+    const lattice = new Lattice(4, 4, 4, new SeededRandom(2));
+    const hasher = new StateHasher(64);
+    const spins = lattice.storage.spins;
+    const before = hasher.hashLattice(lattice, 0);
+    expect(StateHasher.toKey(hasher.hashSpins(spins))).toBe(before);
+
+    spins[5] *= -1;
+    const flipped = hasher.hashLattice(lattice, 0);
+    const advanced = hasher.hashLattice(lattice, 3);
+    spins[5] *= -1;
+
+    expect(new Set([before, flipped, advanced]).size).toBe(3);
+    expect(hasher.hashLattice(lattice, 0)).toBe(before);
+    expect(() => hasher.hashSpins(new Int8Array(8))).toThrow('covers 64 sites');
+  });
+
+  test('should confirm a bit-exact Photon Window round trip', async () => {
+    const lattice = new Lattice(6, 6, 6, new SeededRandom(8));
+    const physics = new AuthorPhysics(lattice, 2);
+    physics.initializeLattice(lattice);
+
+    const result = await physics.photonWindowTest(lattice, 50);
+
+    expect(result.exact).toBe(true);
+    expect(result.divergenceStep).toBeNull();
+  });
+
+  test('should report the step where trajectories diverge', () => {
+    const spins = new Int8Array([1, 1, -1, -1]);
+    const hasher = new StateHasher(4);
+    let t = 0;
+
+    // Backward step that forgets to restore site 0 when undoing step 2 → 1
+    const result = checkRoundTrip(
+      () => StateHasher.toKey(hasher.hashSpins(spins)),
+      () => {
+        spins[t % 4] *= -1;
+        t++;
+      },
+      () => {
+        t--;
+        if (t !== 1) spins[t % 4] *= -1;
+      },
+      4
+    );
+
+    expect(result.exact).toBe(false);
+    expect(result.divergenceStep).toBe(1);
+  });
+
+  test('should find the recurrence period of a reversible orbit', () => {
+    const lattice = new Lattice(4, 1, 1, undefined, 'periodic');
+    lattice.storage.spins.set([1, -1, -1, -1]);
+    const physics = new AuthorPhysics(lattice, 1);
+
+    const recurrence = physics.measureRecurrence(lattice, 100);
+
+    expect(recurrence.firstSeen).toBe(0);
+    expect(recurrence.period).toBeGreaterThan(0);
+    expect(Array.from(lattice.storage.spins)).toEqual([1, -1, -1, -1]);
+    expect(findRecurrence(() => 'fixed', () => undefined, 5).period).toBe(1);
+  });
+});
@@ -5,31 +5,64 @@
 
 import { Lattice } from './core/Lattice.js';
 import { Simulation } from './core/Simulation.js';
-import { Renderer2D } from './rendering/Renderer2D.js';
+import { Renderer2D, VIEW_PLANES, VIEW_MODES } from './rendering/Renderer2D.js';
+import { Renderer3D } from './rendering/Renderer3D.js';
+import { RendererGL2D } from './rendering/RendererGL2D.js';
 import { initI18n, t } from './i18n/i18n.js';
 import { DataExporter } from './utils/DataExporter.js';
 import { AdvancedAnalytics } from './analytics/AdvancedAnalytics.js';
+import { PhotonWindowTest } from './analytics/PhotonWindowTest.js';
+import { ExperimentRunner, ExperimentProtocol, ExperimentResult } from './analytics/ExperimentRunner.js';
 import { SpectrumColorizer } from './rendering/SpectrumColorizer.js';
+import { VOLUME_FIELDS, VOLUME_COLORMAPS, VolumeFieldName, VolumeColormap } from './rendering/VolumeFields.js';
+import { VOLUME_RENDER_MODES, VolumeRenderMode } from './rendering/VolumeRenderer.js';
 import { AuthorPhysics } from './core/AuthorPhysics.js';
+import { SwapDynamics } from './core/SwapDynamics.js';
+import { MonteCarlo, MonteCarloAlgorithm } from './core/MonteCarlo.js';
+import { StochasticEngine } from './core/StochasticEngine.js';
+import { PhysicsEngine, PhysicsEngineId, PHYSICS_ENGINE_NAMES } from './core/PhysicsEngine.js';
+import { listPerturbations, getPerturbation, PerturbationSpec } from './core/Perturbations.js';
 import { TDSCharts } from './ui/TDSCharts.js';
 import { ParameterControls } from './ui/ParameterControls.js';
 import { TheoryPanel } from './ui/TheoryPanel.js';
-import { TDSDataExporter } from './utils/TDSDataExporter.js';
+import { TDSDataExporter, TDSTimeSeriesData } from './utils/TDSDataExporter.js';
+import { URLParams } from './utils/URLParams.js';
+import { SimulationRecorder, RECORDING_FORMATS, RecordingFormat } from './utils/SimulationRecorder.js';
+import { SimulationWorkerClient } from './worker/SimulationWorkerClient.js';
+import { DATA_POINT_INTERVAL } from './worker/WorkerProtocol.js';
+import type { WorkerFrame, WorkerFrameMetrics } from './worker/WorkerProtocol.js';
+
+/** Node colours: state palette, spin (bright/dark) or spin over the k_x spectrum */
+type ColorSource = 'state' | 'spin' | 'spectrum';
+
+type LatticeSite = { x: number; y: number; z: number };
+
+/** Views with more cells than this use the WebGL2 2D renderer when it is available */
+const GL_2D_MIN_CELLS = 100 * 100;
 
 interface AppInstance {
   simulation: Simulation | null;
   renderer: Renderer2D | null;
+  renderer3D: Renderer3D | null; // Created on the first switch to the 3D view
+  rendererGL: RendererGL2D | null; // WebGL2 2D renderer (null: not supported)
+  renderer2DBackend: 'canvas' | 'webgl';
+  viewMode: '2d' | '3d';
   lattice: Lattice | null;
   isRunning: boolean;
   animationId: number | null;
   analytics: AdvancedAnalytics | null;
-  colorizer: SpectrumColorizer | null;
-  useSpectrumColors: boolean;
+  colorizer: SpectrumColorizer | null; // Shared by both renderers (null: state palette)
+  colorSource: ColorSource;
   authorPhysics: AuthorPhysics | null;
-  useAuthorMode: boolean;
+  monteCarlo: MonteCarlo | null;
+  engines: Record<PhysicsEngineId, PhysicsEngine> | null;
+  activeEngine: PhysicsEngineId;
   tdsCharts: TDSCharts | null;
   paramControls: ParameterControls | null;
   dataExporter: TDSDataExporter | null;
+  workerClient: SimulationWorkerClient | null;
+  latestFrame: WorkerFrame | null;
+  recorder: SimulationRecorder | null; // Set while a recording is running
 }
 
 declare global {
@@ -42,17 +75,26 @@ declare global {
 window.app = {
   simulation: null,
   renderer: null,
+  renderer3D: null,
+  rendererGL: null,
+  renderer2DBackend: 'canvas',
+  viewMode: '2d',
   lattice: null,
   isRunning: false,
   animationId: null,
   analytics: null,
   colorizer: null,
-  useSpectrumColors: false,
+  colorSource: 'spin',
   authorPhysics: null,
-  useAuthorMode: false,
+  monteCarlo: null,
+  engines: null,
+  activeEngine: 'author',
   tdsCharts: null,
   paramControls: null,
-  dataExporter: null
+  dataExporter: null,
+  workerClient: null,
+  latestFrame: null,
+  recorder: null
 };
 
 // Initialize application
@@ -70,18 +112,28 @@ function initApp(): void {
   canvas.style.margin = '20px auto';
 
   // Create lattice (32x32x32 for proper 3D dynamics without stack overflow)
-  const lattice = new Lattice(32, 32, 32);
+  // Periodic edges: the author dynamics and its E_0_ref = 3N³ assume a torus
+  const lattice = new Lattice(32, 32, 32, undefined, 'periodic');
   window.app.lattice = lattice;
 
+  // A shared URL carries the parameters and PRNG seed so the run can be reproduced
+  const sharedState = URLParams.loadStateFromURL();
+  const shared = (key: string): number | undefined => {
+    const value = sharedState?.[key];
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+  };
+
   // Create simulation with parameters that show anomaly propagation
+  const stochastic = new StochasticEngine();
   const simulation = new Simulation(lattice, {
-    symmetryStrength: 0.3, // Lower = more transitions
-    anomalyProbability: 0.4, // Higher = anomalies spread more
+    seed: shared('seed'),
+    symmetryStrength: shared('symmetryStrength') ?? 0.3, // Lower = more transitions
+    anomalyProbability: shared('anomalyProbability') ?? 0.4, // Higher = anomalies spread more
     energyThreshold: 1.5, // Lower = easier to create anomalies
-    interactionRange: 3,
+    interactionRange: shared('interactionRange') ?? 3,
     waveSpeed: 0.5,
-    timeStep: 1.0
-  });
+    timeStep: shared('timeStep') ?? 1.0
+  }, stochastic);
   window.app.simulation = simulation;
 
   // Create renderer
@@ -94,29 +146,46 @@ function initApp(): void {
   renderer.initialize(canvas.width, canvas.height);
   window.app.renderer = renderer;
 
+  // GPU renderer for the 2D view of large lattices (on its own canvas;
+  // the Canvas renderer remains the fallback)
+  const glCanvas = document.createElement('canvas');
+  glCanvas.id = 'simulation-canvas-gl';
+  glCanvas.style.cssText = canvas.style.cssText;
+  glCanvas.style.display = 'none';
+  window.app.rendererGL = createGLRenderer(glCanvas, canvas.width, canvas.height);
+  if (window.app.rendererGL && lattice.width * lattice.height > GL_2D_MIN_CELLS) {
+    window.app.renderer2DBackend = 'webgl';
+  }
+
   // Create advanced analytics
-  // E_0_ref = 3 * N^3 (total number of bonds in 3D lattice)
-  const N = lattice.width;
-  const E_0_ref = 3 * N * N * N;
+  // E_0_ref = total number of bonds (3 * N^3 for a periodic 3D lattice)
+  const E_0_ref = lattice.getBondCount();
   const analytics = new AdvancedAnalytics({
     kx: 6,
-    latticeSize: N,
+    latticeSize: lattice,
     E_0_ref: E_0_ref,
     maxLogEntries: 1500
   });
   window.app.analytics = analytics;
 
-  // Create spectrum colorizer (simple mode by default)
-  const colorizer = SpectrumColorizer.createSimple(lattice.width);
-  window.app.colorizer = colorizer;
+  // Create spin colorizer (bright/dark by spin suits author mode)
+  window.app.colorizer = createColorizer(window.app.colorSource, lattice, 6);
 
-  // Create author physics engine and enable by default
-  const authorPhysics = new AuthorPhysics(lattice.width, 6);
+  // Physics engines; author physics drives the simulation by default
+  const authorPhysics = new AuthorPhysics(lattice, 6);
   window.app.authorPhysics = authorPhysics;
   
-  // Enable Author Mode by default and initialize lattice
-  window.app.useAuthorMode = true;
-  authorPhysics.initializeLattice(lattice);
+  // Thermal Monte Carlo runs on the simulation's seeded stream
+  window.app.monteCarlo = new MonteCarlo({ temperature: 2.0 }, simulation.random);
+  
+  window.app.engines = {
+    stochastic,
+    author: authorPhysics,
+    swap: new SwapDynamics(),
+    thermal: window.app.monteCarlo
+  };
+  simulation.setEngine(authorPhysics);
+  simulation.initializeEngine();
 
   // Create TDS Charts
   const tdsCharts = new TDSCharts();
@@ -125,10 +194,11 @@ function initApp(): void {
   // Create Parameter Controls
   const paramControls = new ParameterControls({
     J: 1.0,
+    h: 0,
     E_0: 1.0,
     tolerance: 1e-6,
     k_x: 6,
-    timeStep: 1.0
+    timeStep: simulation.params.timeStep!
   });
   window.app.paramControls = paramControls;
 
@@ -136,6 +206,30 @@ function initApp(): void {
   const dataExporter = new TDSDataExporter();
   window.app.dataExporter = dataExporter;
 
+  // Run stepping and analytics in a worker when available; the UI thread only draws.
+  // The worker gets the same parameters (including the seed), so shared runs match.
+  if (SimulationWorkerClient.isSupported()) {
+    const workerClient = new SimulationWorkerClient({
+      width: lattice.width,
+      height: lattice.height,
+      depth: lattice.depth,
+      boundary: lattice.boundary,
+      params: simulation.getParameters(),
+      k_x: 6,
+      engine: window.app.activeEngine,
+      thermal: window.app.monteCarlo.getConfig()
+    });
+    workerClient.on('frame', frame => {
+      window.app.latestFrame = frame;
+      lattice.loadBuffers(frame.buffers);
+      updateStatsDisplay(frame.time, frame.metrics, frame.dataPoint);
+    });
+    workerClient.on('error', message => {
+      console.error('Simulation worker error:', message);
+    });
+    window.app.workerClient = workerClient;
+  }
+
   // Create UI
   const app = document.getElementById('app');
   if (app) {
@@ -153,7 +247,42 @@ function initApp(): void {
           <div style="display: grid; grid-template-columns: 1fr 380px; gap: 20px; align-items: start;">
             <!-- Left column: Canvas and controls -->
             <div>
-              <div id="canvas-container" style="background: #0f3460; border-radius: 8px; padding: 10px; margin-bottom: 15px;"></div>
+              <div id="canvas-container" style="background: #0f3460; border-radius: 8px; padding: 10px; margin-bottom: 15px;">
+                <div id="renderer3d-container" style="display: none; position: relative; width: 800px; height: 600px; margin: 20px auto;"></div>
+              </div>
+              
+              <div style="padding: 12px; background: #16213e; border-radius: 8px; margin-bottom: 15px;">
+                <div style="font-size: 12px; color: #ccc; margin-bottom: 6px;">🧊 View of the ${lattice.width}×${lattice.height}×${lattice.depth} lattice</div>
+                <div style="display: flex; gap: 6px; align-items: center;">
+                  <select id="renderer-2d-select" title="2D renderer: Canvas (with effects) or WebGL2 (fast, for large lattices)" style="padding: 6px; background: #0f3460; color: #ccc; border: 2px solid #2c5f8d; border-radius: 4px; font-size: 12px;">
+                    <option value="canvas">Canvas</option>
+                    <option value="webgl"${window.app.rendererGL ? '' : ' disabled'}>WebGL2${window.app.rendererGL ? '' : ' (unavailable)'}</option>
+                  </select>
+                  <button id="view-3d-btn" title="Switch between the 2D slice view and the 3D view" style="padding: 6px 10px; cursor: pointer; background: #0f3460; color: #aaa; border: 2px solid #2c5f8d; border-radius: 4px; font-size: 12px;">🧊 3D</button>
+                  <select id="view-plane-select" title="Slice plane" style="padding: 6px; background: #0f3460; color: #ccc; border: 2px solid #2c5f8d; border-radius: 4px; font-size: 12px;">
+                    ${Object.keys(VIEW_PLANES).map(plane => `<option value="${plane}">${plane}</option>`).join('')}
+                  </select>
+                  <select id="view-mode-select" title="Slice or projection along the plane normal" style="padding: 6px; background: #0f3460; color: #ccc; border: 2px solid #2c5f8d; border-radius: 4px; font-size: 12px;">
+                    ${Object.entries(VIEW_MODES).map(([mode, label]) => `<option value="${mode}">${label}</option>`).join('')}
+                  </select>
+                  <input type="range" id="view-slice-slider" min="0" max="${lattice.depth - 1}" step="1" value="0" title="Slice index" style="flex: 1;" />
+                  <span id="view-slice-value" style="font-family: monospace; font-size: 12px; color: #aaa; min-width: 60px; text-align: right;">z = 0</span>
+                </div>
+                <div id="volume-controls" style="display: none; gap: 6px; align-items: center; margin-top: 8px; font-size: 12px; color: #aaa;">
+                  <select id="volume-mode-select" title="Spheres per node, raymarched volume or isosurfaces" style="padding: 6px; background: #0f3460; color: #ccc; border: 2px solid #2c5f8d; border-radius: 4px; font-size: 12px;">
+                    ${Object.entries(VOLUME_RENDER_MODES).map(([mode, label]) => `<option value="${mode}">${label}</option>`).join('')}
+                  </select>
+                  <select id="volume-field-select" title="Field of the volume and isosurfaces" style="padding: 6px; background: #0f3460; color: #ccc; border: 2px solid #2c5f8d; border-radius: 4px; font-size: 12px;">
+                    ${Object.entries(VOLUME_FIELDS).map(([field, label]) => `<option value="${field}"${field === 'magnetization' ? ' selected' : ''}>${label}</option>`).join('')}
+                  </select>
+                  <select id="volume-colormap-select" title="Transfer function colour map" style="padding: 6px; background: #0f3460; color: #ccc; border: 2px solid #2c5f8d; border-radius: 4px; font-size: 12px;">
+                    ${Object.entries(VOLUME_COLORMAPS).map(([colormap, label]) => `<option value="${colormap}">${label}</option>`).join('')}
+                  </select>
+                  <label title="Opacity per site">α <input type="range" id="volume-opacity-slider" min="0.01" max="1" step="0.01" value="0.1" style="width: 60px;" /></label>
+                  <label title="Transfer window (fraction of the field range); the volume is transparent outside it">window <input type="range" id="volume-low-slider" min="0" max="1" step="0.01" value="0" style="width: 60px;" /><input type="range" id="volume-high-slider" min="0" max="1" step="0.01" value="1" style="width: 60px;" /></label>
+                  <label title="Isosurface level (fraction of the field range; 0.5 is zero spin)">iso <input type="range" id="volume-level-slider" min="0.01" max="0.99" step="0.01" value="0.5" style="width: 60px;" /></label>
+                </div>
+              </div>
               
               <div style="text-align: center; margin-bottom: 15px;">
                 <button id="play-pause-btn" style="padding: 12px 24px; margin: 0 5px; cursor: pointer; background: #4CAF50; color: white; border: none; border-radius: 4px; font-size: 16px; font-weight: bold; transition: all 0.2s;">
@@ -173,6 +302,23 @@ function initApp(): void {
                 </button>
               </div>
               
+              <div style="padding: 12px; background: #16213e; border-radius: 8px; margin-bottom: 15px;">
+                <div style="font-size: 12px; color: #ccc; margin-bottom: 6px;">🖱 Perturbation tool (click a lattice site)</div>
+                <div style="display: flex; gap: 6px;">
+                  <select id="perturbation-select" style="flex: 1; padding: 6px; background: #0f3460; color: #ccc; border: 2px solid #2c5f8d; border-radius: 4px; font-size: 12px;">
+                    <option value="">None</option>
+                    ${listPerturbations().map(p => `
+                      <option value="${p.id}" title="${p.description}">${p.label}${p.continuous ? ' (continuous)' : ''}</option>
+                    `).join('')}
+                  </select>
+                  <input type="number" id="perturbation-step" min="0" step="1" placeholder="now" title="Schedule at step (empty: apply now)" style="width: 70px; padding: 6px; background: #0f3460; color: #ccc; border: 2px solid #2c5f8d; border-radius: 4px; font-size: 12px;" />
+                  <button id="clear-perturbations-btn" title="Cancel scheduled perturbations and sources" style="padding: 6px 10px; cursor: pointer; background: #0f3460; color: #aaa; border: 2px solid #2c5f8d; border-radius: 4px; font-size: 12px;">✕</button>
+                </div>
+                <div id="perturbation-status" style="font-size: 11px; color: #888; margin-top: 4px; text-align: center;">
+                  Perturbations are recorded in history and replay with the run
+                </div>
+              </div>
+              
               <div style="padding: 15px; background: #16213e; border-radius: 8px; margin-bottom: 15px;">
                 <h3 style="margin: 0 0 10px 0; color: #4CAF50; font-size: 16px;">${t('legend.title')}</h3>
                 <div style="display: flex; gap: 20px; justify-content: center;">
@@ -205,6 +351,14 @@ function initApp(): void {
                 <canvas id="conservation-chart" style="width: 100%; height: 180px;"></canvas>
               </div>
               
+              <div style="padding: 15px; background: #16213e; border-radius: 8px; margin-bottom: 15px;">
+                <canvas id="spectrum-chart" style="width: 100%; height: 180px;"></canvas>
+              </div>
+              
+              <div style="padding: 15px; background: #16213e; border-radius: 8px; margin-bottom: 15px;">
+                <canvas id="domain-chart" style="width: 100%; height: 180px;"></canvas>
+              </div>
+              
 
               <div style="padding: 15px; background: #16213e; border-radius: 8px; margin-bottom: 15px;">
                 <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 10px;">
@@ -223,21 +377,60 @@ function initApp(): void {
                     <span>Aₖₓ RMS</span>
                     <span id="rms-akx-value" style="font-family: monospace;">--</span>
                   </div>
+                  <div style="display: flex; justify-content: space-between;">
+                    <span>m (mean / |m|)</span>
+                    <span id="magnetization-value" style="font-family: monospace;">--</span>
+                  </div>
+                  <div style="display: flex; justify-content: space-between;">
+                    <span>χ / C</span>
+                    <span id="thermo-value" style="font-family: monospace;">--</span>
+                  </div>
+                  <div style="display: flex; justify-content: space-between;">
+                    <span>Clusters (n / largest)</span>
+                    <span id="clusters-value" style="font-family: monospace;">--</span>
+                  </div>
                 </div>
                 <div style="margin-top: 10px; display: grid; grid-template-columns: 1fr 1fr; gap: 8px;">
                   <button id="run-photon-test-btn" style="padding: 8px; background: #9C27B0; color: white; border: none; border-radius: 4px; cursor: pointer; font-size: 12px;">
                     🔄 Photon Test
                   </button>
-                  <button id="toggle-spectrum-btn" style="padding: 8px; background: #0f3460; color: #aaa; border: 2px solid #2c5f8d; border-radius: 4px; cursor: pointer; font-size: 12px;">
-                    🌈 Spectrum
+                  <select id="color-source-select" title="Node colours (2D and 3D views)" style="padding: 8px; background: #0f3460; color: #ccc; border: 2px solid #2c5f8d; border-radius: 4px; font-size: 12px;">
+                    <option value="state">🎨 State palette</option>
+                    <option value="spin" selected>◐ Spin</option>
+                    <option value="spectrum">🌈 Spectrum (k_x)</option>
+                  </select>
+                </div>
+                <div style="margin-top: 8px;">
+                  <button id="run-experiment-btn" style="width: 100%; padding: 8px; background: #00695C; color: white; border: none; border-radius: 4px; cursor: pointer; font-size: 12px;">
+                    🧪 Run Experiment (JSON)
                   </button>
+                  <input id="experiment-file" type="file" accept=".json,application/json" style="display: none;">
+                  <div id="experiment-status" style="font-size: 11px; color: #888; margin-top: 4px; text-align: center;"></div>
                 </div>
                 <div style="margin-top: 10px; padding-top: 10px; border-top: 1px solid #0f3460;">
-                  <button id="toggle-author-mode-btn" style="padding: 8px; width: 100%; background: #0f3460; color: #aaa; border: 2px solid #2c5f8d; border-radius: 4px; cursor: pointer; font-size: 12px;">
-                    🔬 Author Mode OFF
-                  </button>
+                  <div style="font-size: 12px; color: #ccc; margin-bottom: 4px;">🔬 Physics engine</div>
+                  <select id="engine-select" style="width: 100%; padding: 6px; background: #0f3460; color: #ccc; border: 2px solid #2c5f8d; border-radius: 4px; font-size: 12px;">
+                    ${(Object.keys(PHYSICS_ENGINE_NAMES) as PhysicsEngineId[]).map(id => `
+                      <option value="${id}" ${id === window.app.activeEngine ? 'selected' : ''}>${PHYSICS_ENGINE_NAMES[id]}</option>
+                    `).join('')}
+                  </select>
                   <div style="font-size: 11px; color: #888; margin-top: 4px; text-align: center;">
-                    Exact reference implementation
+                    Author physics is the exact reference implementation
+                  </div>
+                </div>
+                <div style="margin-top: 10px; padding-top: 10px; border-top: 1px solid #0f3460;">
+                  <div style="font-size: 12px; color: #ccc;">🌡 Thermal engine</div>
+                  <div style="display: flex; justify-content: space-between; margin-top: 8px; font-size: 12px; color: #ccc;">
+                    <span>T (Temperature)</span>
+                    <span id="temperature-value" style="font-family: monospace; color: #4CAF50;">2.00</span>
+                  </div>
+                  <input type="range" id="temperature-slider" min="0" max="8" step="0.05" value="2" style="width: 100%; cursor: pointer;" />
+                  <select id="mc-algorithm-select" style="width: 100%; margin-top: 6px; padding: 4px; background: #0f3460; color: #ccc; border: 1px solid #2c5f8d; border-radius: 4px; font-size: 12px;">
+                    <option value="metropolis">Metropolis</option>
+                    <option value="heat-bath">Heat-bath</option>
+                  </select>
+                  <div style="font-size: 11px; color: #888; margin-top: 4px; text-align: center;">
+                    Irreversible thermalisation on the same lattice
                   </div>
                 </div>
               </div>
@@ -278,6 +471,33 @@ function initApp(): void {
                       📑 PDF
                     </button>
                   </div>
+                  <button id="share-btn" style="padding: 10px; margin-top: 8px; width: 100%; background: #0f3460; color: #aaa; border: 2px solid #2c5f8d; border-radius: 4px; cursor: pointer; font-size: 12px; transition: all 0.2s;">
+                    🔗 Share (seed ${simulation.getSeed()})
+                  </button>
+                </div>
+
+                <!-- Recording -->
+                <div style="padding-top: 12px; margin-top: 12px; border-top: 1px solid #0f3460;">
+                  <div style="font-size: 12px; color: #888; margin-bottom: 6px;">🎥 Recording (one frame every N steps):</div>
+                  <div style="display: grid; grid-template-columns: 1fr 70px; gap: 8px;">
+                    <select id="recording-format-select" style="padding: 6px; background: #0f3460; color: #ccc; border: 2px solid #2c5f8d; border-radius: 4px; font-size: 12px;">
+                      ${(Object.entries(RECORDING_FORMATS) as [RecordingFormat, string][]).map(([format, label]) => {
+                        const supported = SimulationRecorder.isFormatSupported(format);
+                        return `<option value="${format}"${supported ? '' : ' disabled'}>${label}${supported ? '' : ' (unavailable)'}</option>`;
+                      }).join('')}
+                    </select>
+                    <input type="number" id="recording-interval" value="10" min="1" step="1" title="Simulation steps between frames" style="padding: 6px; background: #0f3460; color: #ccc; border: 2px solid #2c5f8d; border-radius: 4px; font-size: 12px;">
+                  </div>
+                  <div style="display: flex; gap: 12px; margin-top: 6px; font-size: 12px; color: #ccc;">
+                    <label><input type="checkbox" id="recording-chart-checkbox" checked> Energy chart</label>
+                    <label><input type="checkbox" id="recording-overlay-checkbox" checked> Step/time overlay</label>
+                  </div>
+                  <button id="record-btn" style="padding: 10px; margin-top: 8px; width: 100%; background: #0f3460; color: #aaa; border: 2px solid #2c5f8d; border-radius: 4px; cursor: pointer; font-size: 12px; transition: all 0.2s;">
+                    ⏺ Record
+                  </button>
+                  <div id="recording-status" style="font-size: 11px; color: #888; margin-top: 4px; text-align: center;">
+                    Not recording
+                  </div>
                 </div>
               </div>
             </div>
@@ -289,11 +509,14 @@ function initApp(): void {
     `;
 
     document.getElementById('canvas-container')?.appendChild(canvas);
+    document.getElementById('canvas-container')?.appendChild(glCanvas);
   }
 
   // Initialize TDS Charts
   tdsCharts.initEnergyChart('energy-chart');
   tdsCharts.initConservationChart('conservation-chart');
+  tdsCharts.initSpectrumChart('spectrum-chart');
+  tdsCharts.initDomainChart('domain-chart');
 
   // Initialize Parameter Controls
   const paramContainer = document.getElementById('parameter-controls-container');
@@ -303,6 +526,25 @@ function initApp(): void {
     
     // Handle parameter changes
     paramControls.setOnChange((params) => {
+      // The worker owns the engine and its analytics
+      // Coupling constants drive both the Node model and the author energy metrics
+      const physicsParams = {
+        timeStep: params.timeStep,
+        J: params.J,
+        Jx: params.Jx,
+        Jy: params.Jy,
+        Jz: params.Jz,
+        h: params.h,
+        E_0: params.E_0
+      };
+      
+      if (window.app.workerClient) {
+        window.app.workerClient.setParams({
+          k_x: params.k_x,
+          params: physicsParams
+        });
+      }
+
       // Update analytics k_x
       if (window.app.analytics) {
         window.app.analytics.setKx(params.k_x);
@@ -313,27 +555,39 @@ function initApp(): void {
         window.app.authorPhysics.setKx(params.k_x);
       }
       
-      // Update simulation time step
+      // Spectrum colours follow k_x
+      if (window.app.colorSource === 'spectrum') {
+        window.app.colorizer?.setKx(params.k_x);
+      }
+      
+      // Update simulation time step and couplings
       if (window.app.simulation) {
-        window.app.simulation.params.timeStep = params.timeStep;
+        window.app.simulation.updateParameters(physicsParams);
+        window.app.authorPhysics?.setHamiltonian(window.app.simulation.lattice.getHamiltonian());
       }
       
       // eslint-disable-next-line no-console
       console.log('TDS Parameters updated:', params);
     });
+    
+    // Handle initial condition changes (author dynamics start from the chosen spins)
+    paramControls.setOnInitialConditionChange((condition) => {
+      window.app.authorPhysics?.setInitialCondition(condition);
+      
+      if (window.app.workerClient) {
+        window.app.workerClient.setParams({ initialCondition: condition, reinitialize: true });
+      } else if (window.app.activeEngine === 'author') {
+        simulation.initializeEngine();
+      }
+    });
   }
 
   // Set up controls
   setupControls(simulation, renderer, lattice);
-  
-  // Update Author Mode button to show correct initial state
-  const toggleAuthorModeBtn = document.getElementById('toggle-author-mode-btn');
-  if (toggleAuthorModeBtn && window.app.useAuthorMode) {
-    toggleAuthorModeBtn.innerHTML = '🔬 Author Mode ON';
-    toggleAuthorModeBtn.style.background = '#2E7D32';
-    toggleAuthorModeBtn.style.color = 'white';
-    toggleAuthorModeBtn.style.borderColor = '#4CAF50';
-  }
+  const applyPerturbationAt = setupPerturbationTools(simulation, renderer, lattice);
+  setupViewControls(renderer, canvas, glCanvas, lattice, applyPerturbationAt);
+  setupExperimentLoader();
+  setupRecordingControls(simulation);
 
   // Start animation loop
   startAnimationLoop(simulation, renderer, lattice);
@@ -352,18 +606,18 @@ function setupControls(simulation: Simulation, renderer: Renderer2D, lattice: La
   // Function to create anomaly
   const createAnomaly = () => {
     anomalyCount++;
-    // Random position near center
-    const cx = Math.floor(lattice.width / 2) + Math.floor(Math.random() * 6 - 3);
-    const cy = Math.floor(lattice.height / 2) + Math.floor(Math.random() * 6 - 3);
-    
-    // Create anomaly with radius
-    lattice.createAnomaly(cx, cy, 0, 2);
     
-    // Boost energy of nearby nodes to help propagation
-    const region = lattice.getRegion(cx - 3, cy - 3, cx + 3, cy + 3);
-    region.forEach(node => {
-      node.energy += 2.0;
-    });
+    if (window.app.workerClient) {
+      // The worker picks the position from its own seeded stream
+      window.app.workerClient.createAnomaly(2, 2.0);
+    } else {
+      // Random position near center (seeded, so runs stay reproducible)
+      const x = Math.floor(lattice.width / 2) + Math.floor(lattice.random.next() * 6 - 3);
+      const y = Math.floor(lattice.height / 2) + Math.floor(lattice.random.next() * 6 - 3);
+      
+      // Anomaly with radius 2 plus an energy boost nearby, recorded in history
+      simulation.applyPerturbation({ id: 'anomaly', params: { x, y, z: 0, radius: 2, energyBoost: 2.0 } });
+    }
     
     // Visual feedback
     renderer.getVisualEffects().addRipple(400, 300, '#E74C3C', 100);
@@ -390,8 +644,12 @@ function setupControls(simulation: Simulation, renderer: Renderer2D, lattice: La
   });
 
   resetBtn?.addEventListener('click', () => {
-    simulation.reset();
-    lattice.reset();
+    if (window.app.workerClient) {
+      window.app.workerClient.reset();
+    } else {
+      simulation.reset();
+      lattice.reset();
+    }
     window.app.isRunning = false;
     anomalyCount = 0;
     
@@ -471,8 +729,9 @@ function setupControls(simulation: Simulation, renderer: Renderer2D, lattice: La
       simulationVersion: '1.0.0',
       latticeSize: { width: lattice.width, height: lattice.height, depth: lattice.depth },
       parameters: params,
-      totalSteps: simulation.getState().stepCount,
-      dataPoints: window.app.dataExporter.getDataPointCount()
+      totalSteps: getDisplayedState(simulation).stepCount,
+      dataPoints: window.app.dataExporter.getDataPointCount(),
+      initialCondition: window.app.activeEngine === 'author' ? window.app.authorPhysics?.getInitialCondition() : undefined
     };
     
     window.app.dataExporter.downloadCSV(metadata);
@@ -491,8 +750,9 @@ function setupControls(simulation: Simulation, renderer: Renderer2D, lattice: La
       simulationVersion: '1.0.0',
       latticeSize: { width: lattice.width, height: lattice.height, depth: lattice.depth },
       parameters: params,
-      totalSteps: simulation.getState().stepCount,
-      dataPoints: window.app.dataExporter.getDataPointCount()
+      totalSteps: getDisplayedState(simulation).stepCount,
+      dataPoints: window.app.dataExporter.getDataPointCount(),
+      initialCondition: window.app.activeEngine === 'author' ? window.app.authorPhysics?.getInitialCondition() : undefined
     };
     
     window.app.dataExporter.downloadJSON(metadata);
@@ -511,7 +771,7 @@ function setupControls(simulation: Simulation, renderer: Renderer2D, lattice: La
   // Collect simulation data for export
   const collectExportData = () => {
     const stats = lattice.getStatistics();
-    const state = simulation.getState();
+    const state = getDisplayedState(simulation);
     return {
       time: state.time,
       stepCount: state.stepCount,
@@ -564,30 +824,42 @@ function setupControls(simulation: Simulation, renderer: Renderer2D, lattice: La
     }, 100);
   });
 
+  // Share button: URL encodes the parameters together with the PRNG seed
+  // (the lattice size is fixed, so it is not shared)
+  const shareBtn = document.getElementById('share-btn');
+  shareBtn?.addEventListener('click', () => {
+    const params = simulation.getParameters();
+    URLParams.showShareDialog({
+      symmetryStrength: params.symmetryStrength,
+      anomalyProbability: params.anomalyProbability,
+      interactionRange: params.interactionRange,
+      timeStep: params.timeStep,
+      seed: simulation.getSeed()
+    });
+  });
+
   // Advanced analytics buttons
   const runPhotonTestBtn = document.getElementById('run-photon-test-btn');
-  const toggleSpectrumBtn = document.getElementById('toggle-spectrum-btn');
-  const toggleAuthorModeBtn = document.getElementById('toggle-author-mode-btn');
+  const colorSourceSelect = document.getElementById('color-source-select') as HTMLSelectElement | null;
+  const engineSelect = document.getElementById('engine-select') as HTMLSelectElement | null;
+  const temperatureSlider = document.getElementById('temperature-slider') as HTMLInputElement | null;
+  const algorithmSelect = document.getElementById('mc-algorithm-select') as HTMLSelectElement | null;
 
   runPhotonTestBtn?.addEventListener('click', async () => {
     runPhotonTestBtn.innerHTML = '⏳ Running...';
     runPhotonTestBtn.style.background = '#666';
     
     try {
-      if (window.app.useAuthorMode && window.app.authorPhysics && window.app.lattice) {
-        // Use Author Physics test
-        const result = await window.app.authorPhysics.photonWindowTest(window.app.lattice, 100);
-        const color = result.passed ? '#4CAF50' : '#F44336';
+      if (window.app.workerClient) {
+        // Runs forward/backward in the worker and restores the state there
+        const result = await window.app.workerClient.photonTest(100);
+        const photonTest = new PhotonWindowTest();
         
-        alert(`Photon Window Test (Author Mode)\n\n` +
-              `Hamming Distance: ${result.hammingDistance}\n` +
-              `Ratio: ${result.ratio.toFixed(6)}\n` +
-              `Status: ${result.message}\n\n` +
-              `${result.passed ? '✓ PERFECT REVERSIBILITY' : '✗ REVERSIBILITY LOST'}`);
+        alert(`Photon Window Test Results:\n\n${photonTest.formatResult(result)}`);
         
-        runPhotonTestBtn.style.background = color;
+        runPhotonTestBtn.style.background = photonTest.getResultColor(result);
       } else if (window.app.analytics && window.app.simulation) {
-        // Use standard analytics test
+        // Forward/backward through the active engine
         const result = await window.app.analytics.runPhotonWindowTest(window.app.simulation, 100);
         const photonTest = window.app.analytics.getComponents().photonWindow;
         const color = photonTest.getResultColor(result);
@@ -605,77 +877,476 @@ function setupControls(simulation: Simulation, renderer: Renderer2D, lattice: La
     runPhotonTestBtn.innerHTML = '🔄 Photon Test';
   });
 
-  toggleSpectrumBtn?.addEventListener('click', () => {
-    window.app.useSpectrumColors = !window.app.useSpectrumColors;
+  colorSourceSelect?.addEventListener('change', () => {
+    const source = colorSourceSelect.value as ColorSource;
+    const k_x = window.app.paramControls?.getParameters().k_x ?? 6;
+    window.app.colorSource = source;
+    window.app.colorizer = createColorizer(source, lattice, k_x);
+  });
+
+  engineSelect?.addEventListener('change', () => {
+    selectEngine(engineSelect.value as PhysicsEngineId, simulation);
+  });
+
+  // The thermal engine sweeps the current spins at temperature T
+  const applyThermalConfig = () => {
+    const monteCarlo = window.app.monteCarlo;
+    if (!monteCarlo) return;
+    
+    const config = {
+      temperature: parseFloat(temperatureSlider?.value ?? '2'),
+      algorithm: (algorithmSelect?.value ?? 'metropolis') as MonteCarloAlgorithm
+    };
+    monteCarlo.configure(config);
     
-    if (window.app.useSpectrumColors) {
-      // Enable spectrum mode
-      window.app.colorizer = new SpectrumColorizer(6, lattice.width);
-      toggleSpectrumBtn.innerHTML = '🌈 Spectrum ON';
-      toggleSpectrumBtn.style.background = '#2E7D32';
-      toggleSpectrumBtn.style.color = 'white';
-      toggleSpectrumBtn.style.borderColor = '#4CAF50';
+    const temperatureEl = document.getElementById('temperature-value');
+    if (temperatureEl) temperatureEl.textContent = config.temperature.toFixed(2);
+    
+    if (window.app.workerClient) {
+      window.app.workerClient.setParams({ thermal: config });
     } else {
-      // Disable spectrum mode
-      window.app.colorizer = SpectrumColorizer.createSimple(lattice.width);
-      toggleSpectrumBtn.innerHTML = '🌈 Spectrum';
-      toggleSpectrumBtn.style.background = '#0f3460';
-      toggleSpectrumBtn.style.color = '#aaa';
-      toggleSpectrumBtn.style.borderColor = '#2c5f8d';
+      window.app.analytics?.setTemperature(window.app.activeEngine === 'thermal' ? config.temperature : null);
+    }
+  };
+  
+  temperatureSlider?.addEventListener('input', applyThermalConfig);
+  algorithmSelect?.addEventListener('change', applyThermalConfig);
+}
+
+/**
+ * Node colour source shared by the 2D and 3D renderers
+ * @param source - State palette (no colorizer), spin or spectrum
+ * @param lattice - Lattice the colour tables cover
+ * @param k_x - Wave number of the spectrum colours
+ */
+function createColorizer(source: ColorSource, lattice: Lattice, k_x: number): SpectrumColorizer | null {
+  switch (source) {
+    case 'state':
+      return null;
+    case 'spectrum':
+      return new SpectrumColorizer(k_x, lattice);
+    default:
+      return SpectrumColorizer.createSimple(lattice);
+  }
+}
+
+/**
+ * Create the WebGL2 2D renderer
+ * @returns The renderer, or null where WebGL2 is unavailable
+ */
+function createGLRenderer(glCanvas: HTMLCanvasElement, width: number, height: number): RendererGL2D | null {
+  if (!RendererGL2D.isSupported()) return null;
+  try {
+    const rendererGL = new RendererGL2D(glCanvas);
+    rendererGL.initialize(width, height);
+    return rendererGL;
+  } catch (error) {
+    console.warn('WebGL2 2D renderer unavailable, using Canvas:', error);
+    return null;
+  }
+}
+
+/**
+ * Renderer of the current view (2D until the 3D view has been created;
+ * the WebGL2 or Canvas renderer for the 2D view)
+ */
+function getActiveRenderer(renderer: Renderer2D): Renderer2D | RendererGL2D | Renderer3D {
+  if (window.app.viewMode === '3d' && window.app.renderer3D) {
+    return window.app.renderer3D;
+  }
+  return window.app.renderer2DBackend === 'webgl' && window.app.rendererGL ? window.app.rendererGL : renderer;
+}
+
+/**
+ * Select the slice plane, scrub the slice index and switch to projections
+ * (the slider spans the lattice along the plane normal), and switch between
+ * the 2D and 3D views. Both renderers stay alive while hidden, so the slice
+ * and the 3D camera are kept across switches. The 3D view can draw nodes,
+ * a raymarched volume or isosurfaces (see setupVolumeControls).
+ */
+function setupViewControls(
+  renderer: Renderer2D,
+  canvas: HTMLCanvasElement,
+  glCanvas: HTMLCanvasElement,
+  lattice: Lattice,
+  onSitePicked: (site: LatticeSite) => void
+): void {
+  const view3DBtn = document.getElementById('view-3d-btn');
+  const backendSelect = document.getElementById('renderer-2d-select') as HTMLSelectElement | null;
+  const container3D = document.getElementById('renderer3d-container');
+  const planeSelect = document.getElementById('view-plane-select') as HTMLSelectElement | null;
+  const modeSelect = document.getElementById('view-mode-select') as HTMLSelectElement | null;
+  const slider = document.getElementById('view-slice-slider') as HTMLInputElement | null;
+  const sliceValue = document.getElementById('view-slice-value');
+  const volumeControls = document.getElementById('volume-controls');
+  const applyVolumeSettings = setupVolumeControls();
+  
+  const update = (): void => {
+    const plane = (planeSelect?.value ?? 'xy') as keyof typeof VIEW_PLANES;
+    const mode = modeSelect?.value ?? 'slice';
+    const normal = VIEW_PLANES[plane].normal as 'x' | 'y' | 'z';
+    const extent = { x: lattice.width, y: lattice.height, z: lattice.depth }[normal];
+    
+    if (slider) {
+      slider.max = String(extent - 1);
+      slider.value = String(Math.min(parseInt(slider.value, 10) || 0, extent - 1));
+      // The slice index only picks the clicked site in projections
+      slider.title = mode === 'slice' ? 'Slice index' : 'Slice index (perturbation clicks)';
+    }
+    const slice = slider ? parseInt(slider.value, 10) : 0;
+    renderer.setView({ plane, slice, mode });
+    window.app.rendererGL?.setView({ plane, slice, mode: mode as keyof typeof VIEW_MODES });
+    if (sliceValue) {
+      sliceValue.textContent = `${normal} = ${slice}`;
     }
+  };
+  
+  planeSelect?.addEventListener('change', update);
+  modeSelect?.addEventListener('change', update);
+  slider?.addEventListener('input', update);
+  update();
+  
+  // Only the canvas of the active 2D renderer is shown
+  const show2D = (): void => {
+    const useGL = window.app.renderer2DBackend === 'webgl';
+    const visible = window.app.viewMode === '2d';
+    canvas.style.display = visible && !useGL ? 'block' : 'none';
+    glCanvas.style.display = visible && useGL ? 'block' : 'none';
+  };
+  window.app.rendererGL?.enablePicking(lattice, onSitePicked);
+  if (backendSelect) {
+    backendSelect.value = window.app.renderer2DBackend;
+    backendSelect.addEventListener('change', () => {
+      window.app.renderer2DBackend = backendSelect.value === 'webgl' && window.app.rendererGL ? 'webgl' : 'canvas';
+      show2D();
+    });
+  }
+  show2D();
+  
+  view3DBtn?.addEventListener('click', () => {
+    const to3D = window.app.viewMode === '2d';
+    if (!container3D) return;
+    
+    container3D.style.display = to3D ? 'block' : 'none';
+    if (to3D && !window.app.renderer3D) {
+      try {
+        // Connections and particles are too dense to read for a full 3D lattice
+        const renderer3D = new Renderer3D(container3D, {
+          showGrid: false,
+          showConnections: false,
+          showParticleTrails: false,
+          showMiniMap: false
+        });
+        renderer3D.enablePicking(lattice, onSitePicked);
+        window.app.renderer3D = renderer3D;
+        applyVolumeSettings();
+      } catch (error) {
+        container3D.style.display = 'none';
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        alert(`3D view unavailable: ${errorMessage}`);
+        return;
+      }
+    }
+    
+    window.app.viewMode = to3D ? '3d' : '2d';
+    show2D();
+    view3DBtn.textContent = to3D ? '▦ 2D' : '🧊 3D';
+    // Slices and projections only apply to the 2D view
+    for (const control of [planeSelect, modeSelect, slider, backendSelect]) {
+      if (control) control.disabled = to3D;
+    }
+    if (volumeControls) volumeControls.style.display = to3D ? 'flex' : 'none';
   });
+}
 
-  toggleAuthorModeBtn?.addEventListener('click', () => {
-    window.app.useAuthorMode = !window.app.useAuthorMode;
+/**
+ * Render mode, field and transfer function of the 3D view
+ * (read again whenever a control changes, and when the 3D view is created)
+ * @returns Applies the controls to the 3D renderer
+ */
+function setupVolumeControls(): () => void {
+  const modeSelect = document.getElementById('volume-mode-select') as HTMLSelectElement | null;
+  const fieldSelect = document.getElementById('volume-field-select') as HTMLSelectElement | null;
+  const colormapSelect = document.getElementById('volume-colormap-select') as HTMLSelectElement | null;
+  const sliders = {
+    opacity: document.getElementById('volume-opacity-slider') as HTMLInputElement | null,
+    low: document.getElementById('volume-low-slider') as HTMLInputElement | null,
+    high: document.getElementById('volume-high-slider') as HTMLInputElement | null,
+    level: document.getElementById('volume-level-slider') as HTMLInputElement | null
+  };
+  
+  const apply = (): void => {
+    const renderer3D = window.app.renderer3D;
+    if (!renderer3D) return;
     
-    if (window.app.useAuthorMode && window.app.authorPhysics) {
-      // Enable Author Mode
-      window.app.authorPhysics.initializeLattice(lattice);
-      toggleAuthorModeBtn.innerHTML = '🔬 Author Mode ON';
-      toggleAuthorModeBtn.style.background = '#2E7D32';
-      toggleAuthorModeBtn.style.color = 'white';
-      toggleAuthorModeBtn.style.borderColor = '#4CAF50';
-      
-      alert('Author Mode ENABLED\n\n' +
-            'Using exact reference implementation:\n' +
-            '• Swap-based dynamics (Margolus)\n' +
-            '• E_sym = aligned spins\n' +
-            '• E_asym = misaligned spins\n' +
-            '• Photon Window Test validation\n\n' +
-            'Lattice reinitialized with cosine wave.');
+    const volume = renderer3D.getVolumeRenderer();
+    const transfer = volume.getSettings().transfer;
+    volume.setField((fieldSelect?.value ?? 'magnetization') as VolumeFieldName);
+    volume.setTransferFunction({
+      colormap: (colormapSelect?.value ?? transfer.colormap) as VolumeColormap,
+      opacity: sliders.opacity ? parseFloat(sliders.opacity.value) : transfer.opacity,
+      low: sliders.low ? parseFloat(sliders.low.value) : transfer.low,
+      high: sliders.high ? parseFloat(sliders.high.value) : transfer.high,
+      level: sliders.level ? parseFloat(sliders.level.value) : transfer.level
+    });
+    renderer3D.setRenderMode((modeSelect?.value ?? 'nodes') as VolumeRenderMode);
+  };
+  
+  for (const select of [modeSelect, fieldSelect, colormapSelect]) {
+    select?.addEventListener('change', apply);
+  }
+  for (const slider of Object.values(sliders)) {
+    slider?.addEventListener('input', apply);
+  }
+  return apply;
+}
+
+/**
+ * Start and stop recordings of the view; the file is downloaded on stop
+ */
+function setupRecordingControls(simulation: Simulation): void {
+  const formatSelect = document.getElementById('recording-format-select') as HTMLSelectElement | null;
+  const intervalInput = document.getElementById('recording-interval') as HTMLInputElement | null;
+  const chartCheckbox = document.getElementById('recording-chart-checkbox') as HTMLInputElement | null;
+  const overlayCheckbox = document.getElementById('recording-overlay-checkbox') as HTMLInputElement | null;
+  const recordBtn = document.getElementById('record-btn');
+  const statusEl = document.getElementById('recording-status');
+  if (!recordBtn) return;
+  
+  // Default to the first format this browser can write
+  if (formatSelect && formatSelect.selectedOptions[0]?.disabled) {
+    formatSelect.value = 'gif';
+  }
+  
+  const setRecording = (recording: boolean): void => {
+    recordBtn.textContent = recording ? '⏹ Stop recording' : '⏺ Record';
+    recordBtn.style.background = recording ? '#F44336' : '#0f3460';
+    recordBtn.style.color = recording ? 'white' : '#aaa';
+    for (const control of [formatSelect, intervalInput, chartCheckbox, overlayCheckbox]) {
+      if (control) control.disabled = recording;
+    }
+  };
+  
+  recordBtn.addEventListener('click', async () => {
+    const recorder = window.app.recorder;
+    if (recorder) {
+      // Stop: stay disabled while the frames are encoded
+      window.app.recorder = null;
+      recordBtn.setAttribute('disabled', '');
+      if (statusEl) statusEl.textContent = `Encoding ${recorder.getFrameCount()} frames...`;
+      try {
+        const file = await recorder.stop();
+        if (file) {
+          DataExporter.downloadBlob(file.blob, file.filename);
+        }
+        if (statusEl) statusEl.textContent = file ? `Saved ${file.filename}` : 'No frames recorded';
+      } catch (error) {
+        console.error('Recording failed:', error);
+        if (statusEl) statusEl.textContent = 'Recording failed';
+      }
+      recordBtn.removeAttribute('disabled');
+      setRecording(false);
+      return;
+    }
+    
+    const next = new SimulationRecorder({
+      format: (formatSelect?.value ?? 'gif') as RecordingFormat,
+      stepInterval: intervalInput ? parseInt(intervalInput.value, 10) || 1 : 10,
+      includeChart: chartCheckbox?.checked ?? true,
+      includeOverlay: overlayCheckbox?.checked ?? true
+    });
+    try {
+      next.start(getDisplayedState(simulation).stepCount);
+    } catch (error) {
+      if (statusEl) statusEl.textContent = (error as Error).message;
+      return;
+    }
+    window.app.recorder = next;
+    setRecording(true);
+    updateRecordingStatus(next);
+  });
+}
+
+function updateRecordingStatus(recorder: SimulationRecorder): void {
+  const statusEl = document.getElementById('recording-status');
+  if (!statusEl) return;
+  const { maxFrames, stepInterval } = recorder.getOptions();
+  const frames = recorder.getFrameCount();
+  statusEl.textContent = frames >= maxFrames
+    ? `${frames} frames (limit reached) - stop to save`
+    : `Recording: ${frames} frames, every ${stepInterval} steps`;
+}
+
+/**
+ * Apply the selected perturbation at clicked lattice sites, now or at a
+ * scheduled step (continuous ones stay active until cleared)
+ * @returns The click handler, for other views to pick sites with
+ */
+function setupPerturbationTools(
+  simulation: Simulation,
+  renderer: Renderer2D,
+  lattice: Lattice
+): (site: LatticeSite) => void {
+  const toolSelect = document.getElementById('perturbation-select') as HTMLSelectElement | null;
+  const stepInput = document.getElementById('perturbation-step') as HTMLInputElement | null;
+  const clearBtn = document.getElementById('clear-perturbations-btn');
+  const status = document.getElementById('perturbation-status');
+  
+  const onSitePicked = (site: LatticeSite): void => {
+    const definition = toolSelect?.value ? getPerturbation(toolSelect.value) : undefined;
+    if (!definition) return;
+    
+    // Only position keys the perturbation takes (plane waves are global)
+    const params: PerturbationSpec['params'] = {};
+    for (const key of ['x', 'y', 'z'] as const) {
+      if (key in definition.defaults) params[key] = site[key];
+    }
+    const spec: PerturbationSpec = { id: definition.id, params };
+    const step = stepInput?.value ? Math.max(0, parseInt(stepInput.value, 10)) : undefined;
+    const client = window.app.workerClient;
+    
+    if (step === undefined && !definition.continuous) {
+      if (client) {
+        client.applyPerturbation(spec);
+      } else {
+        simulation.applyPerturbation(spec);
+      }
+    } else if (client) {
+      client.schedulePerturbation(spec, step);
+    } else {
+      simulation.schedulePerturbation(spec, step ?? simulation.stepCount);
+    }
+    
+    if (status) {
+      const when = step === undefined ? (definition.continuous ? 'from now' : 'now') : `at step ${step}`;
+      status.textContent = `${definition.label} at (${site.x}, ${site.y}, ${site.z}) ${when}`;
+    }
+  };
+  renderer.enablePicking(lattice, onSitePicked);
+  
+  clearBtn?.addEventListener('click', () => {
+    if (window.app.workerClient) {
+      window.app.workerClient.cancelPerturbation();
     } else {
-      // Disable Author Mode
-      toggleAuthorModeBtn.innerHTML = '🔬 Author Mode OFF';
-      toggleAuthorModeBtn.style.background = '#0f3460';
-      toggleAuthorModeBtn.style.color = '#aaa';
-      toggleAuthorModeBtn.style.borderColor = '#2c5f8d';
+      for (const scheduled of simulation.getScheduledPerturbations()) {
+        simulation.cancelPerturbation(scheduled.id);
+      }
     }
+    if (status) status.textContent = 'Scheduled perturbations cleared';
   });
+  
+  return onSitePicked;
+}
+
+/**
+ * Load an experiment protocol from a JSON file, run it headlessly (in the
+ * worker when there is one) and download the results
+ */
+function setupExperimentLoader(): void {
+  const runBtn = document.getElementById('run-experiment-btn') as HTMLButtonElement | null;
+  const fileInput = document.getElementById('experiment-file') as HTMLInputElement | null;
+  const status = document.getElementById('experiment-status');
+  
+  runBtn?.addEventListener('click', () => fileInput?.click());
+  
+  fileInput?.addEventListener('change', async () => {
+    const file = fileInput.files?.[0];
+    fileInput.value = '';
+    if (!file || !runBtn) return;
+    
+    runBtn.disabled = true;
+    try {
+      const protocol = JSON.parse(await file.text()) as ExperimentProtocol;
+      const runner = new ExperimentRunner(protocol); // Validates before anything runs
+      if (status) status.textContent = `Running ${protocol.name ?? file.name}...`;
+      
+      let result: ExperimentResult;
+      if (window.app.workerClient) {
+        result = await window.app.workerClient.runExperiment(protocol);
+      } else {
+        result = await runner.run((completed, total) => {
+          if (status) status.textContent = `Running ${protocol.name ?? file.name}: ${completed}/${total}`;
+        });
+      }
+      
+      if (status) status.textContent = `${result.name}: ${result.steps} steps in ${result.durationMs} ms`;
+      
+      const blob = new Blob([ExperimentRunner.toJSON(result)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `tds-experiment-${result.name.replace(/[^a-z0-9]+/gi, '-')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      
+      alert(`Experiment Results:\n\n${ExperimentRunner.summarize(result)}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (status) status.textContent = `Experiment failed: ${errorMessage}`;
+    }
+    runBtn.disabled = false;
+  });
+}
+
+/**
+ * Switch the engine driving the simulation (in the worker when there is one).
+ * Author physics restarts from its initial condition; the other engines
+ * continue from the current spins.
+ */
+function selectEngine(id: PhysicsEngineId, simulation: Simulation): void {
+  const engines = window.app.engines;
+  if (!engines) return;
+  
+  window.app.activeEngine = id;
+  const reinitialize = id === 'author';
+  
+  if (window.app.workerClient) {
+    window.app.workerClient.setParams({ engine: id, reinitialize });
+    return;
+  }
+  
+  simulation.setEngine(engines[id]);
+  if (reinitialize) {
+    simulation.initializeEngine();
+  }
+  window.app.analytics?.setTemperature(
+    id === 'thermal' ? window.app.monteCarlo?.getConfig().temperature ?? null : null
+  );
 }
 
 function startAnimationLoop(simulation: Simulation, renderer: Renderer2D, lattice: Lattice): void {
   function animate(): void {
-    // Update simulation if running
-    if (window.app.isRunning) {
-      if (window.app.useAuthorMode && window.app.authorPhysics) {
-        // Use author's physics
-        window.app.authorPhysics.step(lattice);
-      } else if (simulation.isRunning && !simulation.isPaused) {
-        // Use standard simulation
-        simulation.step();
+    const workerClient = window.app.workerClient;
+    
+    if (workerClient) {
+      // Request the next step; the frame handler copies the result into the lattice
+      if (window.app.isRunning && !workerClient.isBusy()) {
+        workerClient.step();
       }
+    } else if (window.app.isRunning) {
+      // Step the active engine (in-thread fallback)
+      simulation.step();
     }
 
-    // Apply colorizer to renderer
-    if (window.app.colorizer) {
-      renderer.setColorizer(window.app.colorizer);
-    }
+    // Apply the shared colour source and render the current view
+    const activeRenderer = getActiveRenderer(renderer);
+    activeRenderer.setColorizer(window.app.colorizer);
+    activeRenderer.render(lattice);
 
-    // Render
-    renderer.render(lattice);
+    // Record the frame now: WebGL canvases are cleared once presented
+    const recorder = window.app.recorder;
+    if (recorder?.isRecording()) {
+      const state = getDisplayedState(simulation);
+      const chart = document.getElementById('energy-chart') as HTMLCanvasElement | null;
+      if (recorder.capture(activeRenderer.getCanvas(), { step: state.stepCount, time: state.time }, chart)) {
+        updateRecordingStatus(recorder);
+      }
+    }
 
-    // Update stats
-    updateStats(lattice, simulation);
+    // Update stats (worker frames update them on arrival)
+    if (!workerClient) {
+      updateStats(lattice, simulation);
+    }
 
     // Continue loop
     window.app.animationId = requestAnimationFrame(animate);
@@ -684,68 +1355,128 @@ function startAnimationLoop(simulation: Simulation, renderer: Renderer2D, lattic
   animate();
 }
 
+/**
+ * Time and step count of the state currently on screen
+ * (the last worker frame, or the in-thread simulation)
+ */
+function getDisplayedState(simulation: Simulation): { time: number; stepCount: number } {
+  const frame = window.app.latestFrame;
+  if (window.app.workerClient && frame) {
+    return { time: frame.time, stepCount: frame.stepCount };
+  }
+  // Read time/step directly: getState() computes full lattice statistics every frame
+  return { time: simulation.time, stepCount: simulation.stepCount };
+}
+
 function updateStats(lattice: Lattice, simulation: Simulation): void {
-  const state = simulation.getState();
+  const state = getDisplayedState(simulation);
+  const analytics = window.app.analytics;
+  if (!analytics) return;
   
-  // Calculate energies for charts
-  const energies = lattice.calculateTotalEnergy();
+  analytics.update(simulation, state.time, state.stepCount);
+  
+  // Calculate energies for charts (the active engine's metrics, weighted by J, E_0)
+  const energies = simulation.getEngine().calculateEnergy(lattice);
+  const metrics: WorkerFrameMetrics = {
+    E_sym: energies.E_sym,
+    E_asym: energies.E_asym,
+    E_0: energies.E_0,
+    E_0_ref: energies.E_0_ref,
+    A_kx: analytics.getComponents().modeAmplitude.getCurrentAmplitude(),
+    statsPanel: analytics.getStatsPanelData(),
+    conservation: simulation.getReversibilityValidator().getConservationStatus().status,
+    spectrum: analytics.getSpectrum(),
+    clusterTrails: analytics.getClusterTrails(),
+    domains: analytics.getDomains()
+  };
   
+  // Record data for export (every 10 steps to avoid too much data)
+  const dataPoint = state.stepCount % DATA_POINT_INTERVAL === 0
+    ? TDSDataExporter.createDataPoint(lattice, state.time, state.stepCount, metrics.domains)
+    : null;
+  
+  updateStatsDisplay(state.time, metrics, dataPoint);
+}
+
+/**
+ * Update stats panel, charts and export data from computed metrics
+ */
+function updateStatsDisplay(
+  time: number,
+  metrics: WorkerFrameMetrics,
+  dataPoint: TDSTimeSeriesData | null
+): void {
   // Update Real-Time Stats
-  if (window.app.analytics && window.app.simulation) {
-    window.app.analytics.update(window.app.simulation);
-    const analyticsData = window.app.analytics.getStatsPanelData();
-    
-    const correlationEl = document.getElementById('correlation-value');
-    const driftEl = document.getElementById('drift-value');
-    const rmsAkxEl = document.getElementById('rms-akx-value');
-    const conservationEl = document.getElementById('conservation-status');
-    
-    if (correlationEl) {
-      correlationEl.textContent = analyticsData.rho;
-    }
-    if (driftEl) {
-      driftEl.textContent = analyticsData.drift;
-    }
-    if (rmsAkxEl) {
-      rmsAkxEl.textContent = analyticsData.rmsAkx;
-    }
-    
-    // Update conservation status
-    if (conservationEl && simulation.getReversibilityValidator) {
-      const validator = simulation.getReversibilityValidator();
-      const statusObj = validator.getConservationStatus();
-      
-      if (statusObj.status === 'good') {
-        conservationEl.innerHTML = '✓ Good';
-        conservationEl.style.color = '#4CAF50';
-      } else if (statusObj.status === 'warning') {
-        conservationEl.innerHTML = '⚠ Warning';
-        conservationEl.style.color = '#FFC107';
-      } else {
-        conservationEl.innerHTML = '✗ Error';
-        conservationEl.style.color = '#F44336';
-      }
+  const correlationEl = document.getElementById('correlation-value');
+  const driftEl = document.getElementById('drift-value');
+  const rmsAkxEl = document.getElementById('rms-akx-value');
+  const conservationEl = document.getElementById('conservation-status');
+  
+  if (correlationEl) {
+    correlationEl.textContent = metrics.statsPanel.rho;
+  }
+  if (driftEl) {
+    driftEl.textContent = metrics.statsPanel.drift;
+  }
+  if (rmsAkxEl) {
+    rmsAkxEl.textContent = metrics.statsPanel.rmsAkx;
+  }
+  
+  const magnetizationEl = document.getElementById('magnetization-value');
+  const thermoEl = document.getElementById('thermo-value');
+  if (magnetizationEl) {
+    magnetizationEl.textContent = metrics.statsPanel.magnetization;
+  }
+  if (thermoEl) {
+    thermoEl.textContent = `${metrics.statsPanel.susceptibility} / ${metrics.statsPanel.specificHeat}`;
+  }
+  
+  const clustersEl = document.getElementById('clusters-value');
+  if (clustersEl) {
+    clustersEl.textContent = metrics.statsPanel.clusters;
+  }
+  if (window.app.renderer && window.app.lattice) {
+    getActiveRenderer(window.app.renderer).setClusterTrails(metrics.clusterTrails, window.app.lattice);
+  }
+  
+  // Update conservation status
+  if (conservationEl) {
+    if (metrics.conservation === 'good') {
+      conservationEl.innerHTML = '✓ Good';
+      conservationEl.style.color = '#4CAF50';
+    } else if (metrics.conservation === 'warning') {
+      conservationEl.innerHTML = '⚠ Warning';
+      conservationEl.style.color = '#FFC107';
+    } else {
+      conservationEl.innerHTML = '✗ Error';
+      conservationEl.style.color = '#F44336';
     }
   }
   
   // Update TDS Charts with normalized values
-  if (window.app.tdsCharts && window.app.analytics) {
-    const E_0_ref = window.app.analytics.getE0Ref();
+  if (window.app.tdsCharts) {
+    const E_0_ref = metrics.E_0_ref;
     window.app.tdsCharts.update({
-      time: state.time,
-      E_sym: energies.E_sym,
-      E_asym: energies.E_asym,
-      E_0: energies.E_0,
-      E_sym_norm: energies.E_sym / E_0_ref,
-      E_asym_norm: energies.E_asym / E_0_ref,
-      E_0_norm: energies.E_0 / E_0_ref,
-      A_kx: window.app.analytics.getComponents().modeAmplitude.getCurrentAmplitude()
+      time,
+      E_sym: metrics.E_sym,
+      E_asym: metrics.E_asym,
+      E_0: metrics.E_0,
+      E_sym_norm: metrics.E_sym / E_0_ref,
+      E_asym_norm: metrics.E_asym / E_0_ref,
+      E_0_norm: metrics.E_0 / E_0_ref,
+      A_kx: metrics.A_kx
     });
+    
+    if (metrics.spectrum) {
+      window.app.tdsCharts.updateSpectrum(metrics.spectrum);
+    }
+    if (metrics.domains) {
+      window.app.tdsCharts.updateDomains(metrics.domains);
+    }
   }
   
-  // Record data for export (every 10 steps to avoid too much data)
-  if (window.app.dataExporter && state.stepCount % 10 === 0) {
-    window.app.dataExporter.recordDataPoint(simulation, lattice);
+  if (window.app.dataExporter && dataPoint) {
+    window.app.dataExporter.addDataPoint(dataPoint);
     
     // Update data count display
     const dataCountEl = document.getElementById('export-data-count');
@@ -1,4 +1,4 @@
-import { Node } from '../core/Node.js';
+import { Node, NodeState } from '../core/Node.js';
 
 type Theme = 'light' | 'dark';
 type PaletteName = 'default' | 'energy' | 'phase';
@@ -22,6 +22,13 @@ interface RGB {
   b: number;
 }
 
+/** Palette entry drawn for each node state */
+const STATE_PALETTE_KEYS: Record<NodeState, string> = {
+  vacuum: 'symmetric',
+  broken: 'asymmetric',
+  anomalous: 'anomaly'
+};
+
 interface LegendEntry {
   color: string;
   label: string;
@@ -128,7 +135,7 @@ export class ColorScheme {
     const palette = this.palettes[this.currentPalette][this.theme];
     
     if (this.currentPalette === 'default') {
-      return (palette[node.state] as ColorPair) || (palette.symmetric as ColorPair);
+      return this.getStateColor(node.state);
     } else if (this.currentPalette === 'energy') {
       return this.getEnergyColor(node.energy);
     } else if (this.currentPalette === 'phase') {
@@ -138,6 +145,15 @@ export class ColorScheme {
     return palette.symmetric as ColorPair;
   }
 
+  getStateColor(state: NodeState): ColorPair {
+    const palette = this.palettes.default[this.theme];
+    return (palette[STATE_PALETTE_KEYS[state]] as ColorPair) || (palette.symmetric as ColorPair);
+  }
+
+  getPaletteName(): PaletteName {
+    return this.currentPalette;
+  }
+
   getEnergyColor(energy: number): ColorPair {
     const palette = this.palettes.energy[this.theme];
     
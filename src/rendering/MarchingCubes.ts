@@ -0,0 +1,126 @@
+/**
+ * MarchingCubes - Isosurfaces of a scalar volume
+ *
+ * Cells join eight neighbouring sites; along wrapped (periodic) axes the
+ * last cell joins the last site to the first, so surfaces crossing the edge
+ * are closed there. Vertices are in site coordinates (site x at x), so a
+ * wrapped cell reaches one site past the lattice.
+ *
+ * Normals are the interpolated central-difference gradient, pointing toward
+ * lower values, and every triangle is wound to face the same way: the front
+ * side of a surface faces the low side of the level.
+ */
+
+import type { ScalarVolume } from './VolumeFields.js';
+import { CORNER_OFFSETS, EDGE_CORNERS, TRIANGLE_TABLE } from './MarchingCubesTables.js';
+
+export interface IsosurfaceMesh {
+  positions: Float32Array; // xyz per vertex, three vertices per triangle
+  normals: Float32Array;
+  triangles: number;
+}
+
+/**
+ * Extract the surface where the volume crosses a level
+ * @param volume - Scalar volume
+ * @param level - Iso level, in field units
+ */
+export function extractIsosurface(volume: ScalarVolume, level: number): IsosurfaceMesh {
+  const { values, width, height, depth, wrap } = volume;
+  const sizes = [width, height, depth];
+  const cells = sizes.map((size, axis) => (wrap[axis] ? size : size - 1));
+  const positions: number[] = [];
+  const normals: number[] = [];
+
+  const site = (x: number, y: number, z: number): number =>
+    (z % depth) * width * height + (y % height) * width + (x % width);
+
+  // Central differences (one-sided at unwrapped edges)
+  const gradient = (coords: number[], out: number[]): void => {
+    for (let axis = 0; axis < 3; axis++) {
+      const size = sizes[axis];
+      const c = coords[axis];
+      const below = [...coords];
+      const above = [...coords];
+      below[axis] = wrap[axis] ? (c - 1 + size) % size : Math.max(0, c - 1);
+      above[axis] = wrap[axis] ? (c + 1) % size : Math.min(size - 1, c + 1);
+      const span = wrap[axis] ? 2 : above[axis] - below[axis];
+      out[axis] = span > 0
+        ? (values[site(above[0], above[1], above[2])] - values[site(below[0], below[1], below[2])]) / span
+        : 0;
+    }
+  };
+
+  const cornerValues = new Float64Array(8);
+  const cornerGradients = CORNER_OFFSETS.map(() => [0, 0, 0]);
+  const edgeVertices = EDGE_CORNERS.map(() => ({ position: [0, 0, 0], normal: [0, 0, 0] }));
+
+  for (let z = 0; z < cells[2]; z++) {
+    for (let y = 0; y < cells[1]; y++) {
+      for (let x = 0; x < cells[0]; x++) {
+        let caseIndex = 0;
+        for (let corner = 0; corner < 8; corner++) {
+          const [dx, dy, dz] = CORNER_OFFSETS[corner];
+          cornerValues[corner] = values[site(x + dx, y + dy, z + dz)];
+          if (cornerValues[corner] < level) caseIndex |= 1 << corner;
+        }
+
+        const edges = TRIANGLE_TABLE[caseIndex];
+        if (edges.length === 0) continue;
+
+        for (let corner = 0; corner < 8; corner++) {
+          const [dx, dy, dz] = CORNER_OFFSETS[corner];
+          gradient([(x + dx) % width, (y + dy) % height, (z + dz) % depth], cornerGradients[corner]);
+        }
+
+        // Vertices on the edges the surface crosses
+        for (const edge of new Set(edges)) {
+          const [a, b] = EDGE_CORNERS[edge];
+          const span = cornerValues[b] - cornerValues[a];
+          const t = span !== 0 ? (level - cornerValues[a]) / span : 0.5;
+          const vertex = edgeVertices[edge];
+          for (let axis = 0; axis < 3; axis++) {
+            const from = CORNER_OFFSETS[a][axis];
+            const to = CORNER_OFFSETS[b][axis];
+            vertex.position[axis] = [x, y, z][axis] + from + (to - from) * t;
+            const g = cornerGradients[a][axis] + (cornerGradients[b][axis] - cornerGradients[a][axis]) * t;
+            vertex.normal[axis] = 0 - g; // (not -g: no negative zeros)
+          }
+        }
+
+        for (let i = 0; i < edges.length; i += 3) {
+          const triangle = [edgeVertices[edges[i]], edgeVertices[edges[i + 1]], edgeVertices[edges[i + 2]]];
+          const [p0, p1, p2] = triangle.map(v => v.position);
+
+          // Face normal, then the winding that agrees with the gradient
+          const u = [p1[0] - p0[0], p1[1] - p0[1], p1[2] - p0[2]];
+          const v = [p2[0] - p0[0], p2[1] - p0[1], p2[2] - p0[2]];
+          const face = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+          const shading = triangle.reduce((sum, vertex) => [0, 1, 2].map(k => sum[k] + vertex.normal[k]), [0, 0, 0]);
+          if (face[0] * shading[0] + face[1] * shading[1] + face[2] * shading[2] < 0) {
+            [triangle[1], triangle[2]] = [triangle[2], triangle[1]];
+          }
+
+          for (const vertex of triangle) {
+            positions.push(...vertex.position);
+            const length = Math.hypot(...vertex.normal);
+            if (length > 0) {
+              normals.push(vertex.normal[0] / length, vertex.normal[1] / length, vertex.normal[2] / length);
+            } else {
+              // Flat gradient: fall back to the face normal
+              const faceLength = Math.hypot(...face) || 1;
+              const sign = face[0] * shading[0] + face[1] * shading[1] + face[2] * shading[2] < 0 ? -1 : 1;
+              normals.push(sign * face[0] / faceLength, sign * face[1] / faceLength, sign * face[2] / faceLength);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return {
+    positions: Float32Array.from(positions),
+    normals: Float32Array.from(normals),
+    triangles: positions.length / 9
+  };
+}
@@ -1,10 +1,34 @@
 // @ts-nocheck
 import { ColorScheme } from './ColorScheme.js';
 import { VisualEffects } from './VisualEffects.js';
+import { STATE_CODES } from '../core/LatticeStorage.js';
+
+/**
+ * Lattice axes shown by each slice plane (u across, v down, normal into the screen)
+ */
+export const VIEW_PLANES = {
+  xy: { u: 'x', v: 'y', normal: 'z' },
+  xz: { u: 'x', v: 'z', normal: 'y' },
+  yz: { u: 'y', v: 'z', normal: 'x' }
+};
+
+/**
+ * View modes: a single slice, or a projection of every column along the normal
+ */
+export const VIEW_MODES = {
+  slice: 'Slice',
+  meanSpin: 'Mean spin',
+  maxAsym: 'Max |E_asym|',
+  anomalyCount: 'Anomaly count'
+};
+
+const AXIS_EXTENT = { x: 'width', y: 'height', z: 'depth' };
 
 /**
  * Renderer2D class - Handles 2D canvas rendering of the lattice
  * Provides smooth animations, visual effects, and mini-map
+ * A 3D lattice is shown as one slice (plane and index) or as a projection
+ * of the columns along the slice normal.
  */
 export class Renderer2D {
   constructor(canvas, options = {}) {
@@ -19,6 +43,7 @@ export class Renderer2D {
       showConnections: options.showConnections !== false,
       showParticleTrails: options.showParticleTrails !== false,
       showMiniMap: options.showMiniMap !== false,
+      showClusterTrails: options.showClusterTrails !== false,
       nodeSize: options.nodeSize || 8,
       glowIntensity: options.glowIntensity || 0.8,
       animationSpeed: options.animationSpeed || 1.0,
@@ -42,6 +67,19 @@ export class Renderer2D {
     
     // Node transitions for smooth animations
     this.nodeTransitions = new Map();
+    
+    // Anomaly cluster centroid trails (see ClusterTracker)
+    this.clusterTrails = [];
+    
+    // Slice plane and index, and view mode (see setView)
+    this.view = {
+      plane: 'xy',
+      slice: 0,
+      mode: 'slice'
+    };
+    
+    // Projected column values of the current frame (projection modes)
+    this.projection = null;
   }
 
   /**
@@ -55,6 +93,135 @@ export class Renderer2D {
     this.ctx.imageSmoothingEnabled = true;
   }
 
+  /**
+   * Select the slice plane, slice index and view mode
+   * @param {{plane?: 'xy'|'xz'|'yz', slice?: number, mode?: string}} view - Fields to change
+   */
+  setView(view) {
+    const next = { ...this.view, ...view };
+    if (!VIEW_PLANES[next.plane]) {
+      throw new Error(`Unknown slice plane: ${next.plane}`);
+    }
+    if (!VIEW_MODES[next.mode]) {
+      throw new Error(`Unknown view mode: ${next.mode}`);
+    }
+    next.slice = Math.max(0, Math.floor(next.slice) || 0);
+    
+    // Transitions are keyed by site; a different plane or slice shows other sites
+    if (next.plane !== this.view.plane || next.slice !== this.view.slice) {
+      this.nodeTransitions.clear();
+    }
+    this.view = next;
+  }
+
+  /**
+   * Get the current view
+   * @returns {{plane: string, slice: number, mode: string}} Copy of the view
+   */
+  getView() {
+    return { ...this.view };
+  }
+
+  /**
+   * Extents of the current view
+   * @param {Lattice} lattice - Lattice object
+   * @returns {{axes: Object, width: number, height: number, depth: number, slice: number}}
+   *   Columns, rows, extent along the normal and the slice index clamped to it
+   */
+  getViewGrid(lattice) {
+    const axes = VIEW_PLANES[this.view.plane];
+    const depth = lattice[AXIS_EXTENT[axes.normal]];
+    return {
+      axes,
+      width: lattice[AXIS_EXTENT[axes.u]],
+      height: lattice[AXIS_EXTENT[axes.v]],
+      depth,
+      slice: Math.min(this.view.slice, depth - 1)
+    };
+  }
+
+  /**
+   * Lattice site at view column u, row v and depth w along the normal
+   * @param {Object} grid - View grid (see getViewGrid)
+   * @returns {{x: number, y: number, z: number}} Site
+   */
+  viewToSite(grid, u, v, w) {
+    const site = { x: 0, y: 0, z: 0 };
+    site[grid.axes.u] = u;
+    site[grid.axes.v] = v;
+    site[grid.axes.normal] = w;
+    return site;
+  }
+
+  /**
+   * Project every column along the slice normal
+   * @param {Lattice} lattice - Lattice object
+   * @param {Object} grid - View grid (see getViewGrid)
+   * @returns {{values: Float32Array, max: number}} Value per view cell (row-major) and its maximum
+   */
+  computeProjection(lattice, grid) {
+    const { spins, E_asym, states } = lattice.storage;
+    const stride = { x: 1, y: lattice.width, z: lattice.width * lattice.height };
+    const [su, sv, sw] = [stride[grid.axes.u], stride[grid.axes.v], stride[grid.axes.normal]];
+    const values = new Float32Array(grid.width * grid.height);
+    let max = 0;
+    
+    for (let v = 0; v < grid.height; v++) {
+      for (let u = 0; u < grid.width; u++) {
+        let value = 0;
+        for (let w = 0; w < grid.depth; w++) {
+          const index = u * su + v * sv + w * sw;
+          switch (this.view.mode) {
+            case 'meanSpin':
+              value += spins[index] / grid.depth;
+              break;
+            case 'maxAsym':
+              value = Math.max(value, Math.abs(E_asym[index]));
+              break;
+            case 'anomalyCount':
+              if (states[index] === STATE_CODES.anomalous) value++;
+              break;
+          }
+        }
+        values[v * grid.width + u] = value;
+        max = Math.max(max, Math.abs(value));
+      }
+    }
+    
+    return { values, max };
+  }
+
+  /**
+   * Color of a projected value
+   * Mean spin is diverging (blue -1, red +1); the others scale from dark
+   * to bright up to the frame maximum (anomaly count: the column length).
+   * @param {number} value - Projected value
+   * @param {number} max - Frame maximum
+   * @param {number} depth - Column length
+   * @returns {string} CSS color
+   */
+  getProjectionColor(value, max, depth) {
+    const mix = (from, to, t) => from.map((c, i) => Math.round(c + (to[i] - c) * t));
+    const neutral = [40, 44, 60];
+    let rgb;
+    
+    switch (this.view.mode) {
+      case 'meanSpin':
+        rgb = value >= 0 ? mix(neutral, [244, 67, 54], value) : mix(neutral, [33, 150, 243], -value);
+        break;
+      case 'maxAsym':
+        rgb = mix(neutral, [255, 193, 7], max > 0 ? value / max : 0);
+        break;
+      case 'anomalyCount':
+        rgb = mix(neutral, [231, 76, 60], depth > 0 ? value / depth : 0);
+        break;
+      default:
+        rgb = neutral;
+    }
+    
+    return `rgb(${rgb[0]}, ${rgb[1]}, ${rgb[2]})`;
+  }
+
   /**
    * Set custom colorizer for spectrum mode
    * @param {SpectrumColorizer} colorizer - Custom colorizer
@@ -80,28 +247,44 @@ export class Renderer2D {
     
     // Calculate node spacing
     const spacing = this.calculateSpacing(lattice);
+    const grid = this.getViewGrid(lattice);
+    this.projection = this.view.mode === 'slice' ? null : this.computeProjection(lattice, grid);
     
     // Render grid
     if (this.options.showGrid) {
       this.drawGrid(lattice, spacing);
     }
     
-    // Render connections
-    if (this.options.showConnections) {
+    // Render connections (a projection has no bonds of its own)
+    if (this.options.showConnections && !this.projection) {
       this.drawConnections(lattice, spacing);
     }
     
     // Render visual effects (background layer)
     this.visualEffects.render(this.ctx);
     
-    // Render nodes
-    this.drawNodes(lattice, spacing);
+    // Render nodes, or the projected columns
+    if (this.projection) {
+      this.drawProjection(spacing, grid);
+    } else {
+      this.drawNodes(lattice, spacing);
+    }
+    
+    // Render anomaly cluster trails
+    if (this.options.showClusterTrails) {
+      this.drawClusterTrails(lattice, spacing);
+    }
     
     // Render mini-map
     if (this.options.showMiniMap) {
       this.drawMiniMap(lattice);
     }
     
+    // Label 3D views with the plane and slice or projection
+    if (grid.depth > 1) {
+      this.drawViewLabel(grid);
+    }
+    
     // Increment animation frame
     this.animationFrame++;
   }
@@ -120,18 +303,19 @@ export class Renderer2D {
    * @returns {Object} Spacing information
    */
   calculateSpacing(lattice) {
+    const { width, height } = this.getViewGrid(lattice);
     const padding = 40;
     const availableWidth = this.canvas.width - 2 * padding - (this.options.showMiniMap ? this.miniMapSize + 20 : 0);
     const availableHeight = this.canvas.height - 2 * padding;
     
-    const cellWidth = availableWidth / (lattice.width - 1 || 1);
-    const cellHeight = availableHeight / (lattice.height - 1 || 1);
+    const cellWidth = availableWidth / (width - 1 || 1);
+    const cellHeight = availableHeight / (height - 1 || 1);
     const cellSize = Math.min(cellWidth, cellHeight);
     
     return {
       cellSize,
-      offsetX: padding + (availableWidth - cellSize * (lattice.width - 1)) / 2,
-      offsetY: padding + (availableHeight - cellSize * (lattice.height - 1)) / 2
+      offsetX: padding + (availableWidth - cellSize * (width - 1)) / 2,
+      offsetY: padding + (availableHeight - cellSize * (height - 1)) / 2
     };
   }
 
@@ -141,26 +325,27 @@ export class Renderer2D {
    * @param {Object} spacing - Spacing information
    */
   drawGrid(lattice, spacing) {
+    const { width, height } = this.getViewGrid(lattice);
     this.ctx.save();
     this.ctx.strokeStyle = this.colorScheme.getGridColor();
     this.ctx.lineWidth = 0.5;
     this.ctx.globalAlpha = 0.3;
     
     // Vertical lines
-    for (let x = 0; x < lattice.width; x++) {
+    for (let x = 0; x < width; x++) {
       const screenX = spacing.offsetX + x * spacing.cellSize;
       this.ctx.beginPath();
       this.ctx.moveTo(screenX, spacing.offsetY);
-      this.ctx.lineTo(screenX, spacing.offsetY + (lattice.height - 1) * spacing.cellSize);
+      this.ctx.lineTo(screenX, spacing.offsetY + (height - 1) * spacing.cellSize);
       this.ctx.stroke();
     }
     
     // Horizontal lines
-    for (let y = 0; y < lattice.height; y++) {
+    for (let y = 0; y < height; y++) {
       const screenY = spacing.offsetY + y * spacing.cellSize;
       this.ctx.beginPath();
       this.ctx.moveTo(spacing.offsetX, screenY);
-      this.ctx.lineTo(spacing.offsetX + (lattice.width - 1) * spacing.cellSize, screenY);
+      this.ctx.lineTo(spacing.offsetX + (width - 1) * spacing.cellSize, screenY);
       this.ctx.stroke();
     }
     
@@ -180,18 +365,23 @@ export class Renderer2D {
     
     // Animated pulse effect
     const pulse = 0.5 + 0.5 * Math.sin(this.animationFrame * 0.05);
+    const grid = this.getViewGrid(lattice);
+    const nodeAt = (u, v) => {
+      const site = this.viewToSite(grid, u, v, grid.slice);
+      return lattice.getNode(site.x, site.y, site.z);
+    };
     
-    for (let y = 0; y < lattice.height; y++) {
-      for (let x = 0; x < lattice.width; x++) {
-        const node = lattice.getNode(x, y);
+    for (let y = 0; y < grid.height; y++) {
+      for (let x = 0; x < grid.width; x++) {
+        const node = nodeAt(x, y);
         if (!node) continue;
         
         const screenX = spacing.offsetX + x * spacing.cellSize;
         const screenY = spacing.offsetY + y * spacing.cellSize;
         
         // Draw connections to right and down neighbors only (to avoid duplicates)
-        if (x < lattice.width - 1) {
-          const rightNode = lattice.getNode(x + 1, y);
+        if (x < grid.width - 1) {
+          const rightNode = nodeAt(x + 1, y);
           if (rightNode) {
             const rightX = spacing.offsetX + (x + 1) * spacing.cellSize;
             
@@ -206,8 +396,8 @@ export class Renderer2D {
           }
         }
         
-        if (y < lattice.height - 1) {
-          const downNode = lattice.getNode(x, y + 1);
+        if (y < grid.height - 1) {
+          const downNode = nodeAt(x, y + 1);
           if (downNode) {
             const downY = spacing.offsetY + (y + 1) * spacing.cellSize;
             
@@ -227,14 +417,16 @@ export class Renderer2D {
   }
 
   /**
-   * Draw all nodes
+   * Draw all nodes of the current slice
    * @param {Lattice} lattice - Lattice object
    * @param {Object} spacing - Spacing information
    */
   drawNodes(lattice, spacing) {
-    for (let y = 0; y < lattice.height; y++) {
-      for (let x = 0; x < lattice.width; x++) {
-        const node = lattice.getNode(x, y);
+    const grid = this.getViewGrid(lattice);
+    for (let y = 0; y < grid.height; y++) {
+      for (let x = 0; x < grid.width; x++) {
+        const site = this.viewToSite(grid, x, y, grid.slice);
+        const node = lattice.getNode(site.x, site.y, site.z);
         if (!node) continue;
         
         const screenX = spacing.offsetX + x * spacing.cellSize;
@@ -259,6 +451,103 @@ export class Renderer2D {
     }
   }
 
+  /**
+   * Draw the projected columns as a heat map
+   * @param {Object} spacing - Spacing information
+   * @param {Object} grid - View grid (see getViewGrid)
+   */
+  drawProjection(spacing, grid) {
+    const { values, max } = this.projection;
+    const size = Math.max(1, spacing.cellSize);
+    
+    this.ctx.save();
+    for (let v = 0; v < grid.height; v++) {
+      for (let u = 0; u < grid.width; u++) {
+        this.ctx.fillStyle = this.getProjectionColor(values[v * grid.width + u], max, grid.depth);
+        this.ctx.fillRect(
+          spacing.offsetX + u * spacing.cellSize - size / 2,
+          spacing.offsetY + v * spacing.cellSize - size / 2,
+          size,
+          size
+        );
+      }
+    }
+    this.ctx.restore();
+  }
+
+  /**
+   * Draw the plane and slice index or projection of the current view
+   * @param {Object} grid - View grid (see getViewGrid)
+   */
+  drawViewLabel(grid) {
+    const label = this.view.mode === 'slice'
+      ? `${this.view.plane} slice ${grid.axes.normal} = ${grid.slice} / ${grid.depth - 1}`
+      : `${VIEW_MODES[this.view.mode]} along ${grid.axes.normal} (${this.view.plane})`;
+    
+    this.ctx.save();
+    this.ctx.fillStyle = this.colorScheme.getTextColor();
+    this.ctx.font = '12px monospace';
+    this.ctx.globalAlpha = 0.8;
+    this.ctx.fillText(label, 10, 18);
+    this.ctx.restore();
+  }
+
+  /**
+   * Set the anomaly cluster trails to draw
+   * @param {Array<{id: number, points: Array<{x: number, y: number, z: number}>}>} trails - Centroid trails
+   * @param {Lattice} _lattice - Lattice object (unused; trails are in sites)
+   */
+  setClusterTrails(trails, _lattice) {
+    this.clusterTrails = trails || [];
+  }
+
+  /**
+   * Draw cluster centroid trails projected onto the view plane
+   * (a jump of more than half the lattice is a wrap across the edge and breaks the line)
+   * @param {Lattice} lattice - Lattice object
+   * @param {Object} spacing - Spacing information
+   */
+  drawClusterTrails(lattice, spacing) {
+    const { axes, width, height } = this.getViewGrid(lattice);
+    const toScreen = (point) => ({
+      x: spacing.offsetX + point[axes.u] * spacing.cellSize,
+      y: spacing.offsetY + point[axes.v] * spacing.cellSize
+    });
+    
+    this.ctx.save();
+    this.ctx.lineWidth = 2;
+    this.ctx.lineCap = 'round';
+    
+    for (const trail of this.clusterTrails) {
+      if (trail.points.length === 0) continue;
+      const color = `hsl(${(trail.id * 137.5) % 360}, 85%, 55%)`;
+      
+      this.ctx.strokeStyle = color;
+      this.ctx.beginPath();
+      trail.points.forEach((point, i) => {
+        const screen = toScreen(point);
+        const previous = trail.points[i - 1];
+        const wraps = previous &&
+          (Math.abs(point[axes.u] - previous[axes.u]) > width / 2 || Math.abs(point[axes.v] - previous[axes.v]) > height / 2);
+        if (i === 0 || wraps) {
+          this.ctx.moveTo(screen.x, screen.y);
+        } else {
+          this.ctx.lineTo(screen.x, screen.y);
+        }
+      });
+      this.ctx.stroke();
+      
+      // Current centroid
+      const head = toScreen(trail.points[trail.points.length - 1]);
+      this.ctx.fillStyle = color;
+      this.ctx.beginPath();
+      this.ctx.arc(head.x, head.y, 4, 0, Math.PI * 2);
+      this.ctx.fill();
+    }
+    
+    this.ctx.restore();
+  }
+
   /**
    * Draw a single node with glow effects
    * @param {Node} node - Node to draw
@@ -282,7 +571,7 @@ export class Renderer2D {
     const nodeSize = this.options.nodeSize;
     
     // Smooth state transitions
-    const transitionKey = `${node.position.x},${node.position.y}`;
+    const transitionKey = `${node.position.x},${node.position.y},${node.position.z}`;
     if (!this.nodeTransitions.has(transitionKey)) {
       this.nodeTransitions.set(transitionKey, {
         currentColor: colors.base,
@@ -388,20 +677,26 @@ export class Renderer2D {
     this.ctx.globalAlpha = 1.0;
     this.ctx.strokeRect(mapX, mapY, mapSize, mapSize);
     
-    // Draw lattice overview
-    const cellSize = mapSize / Math.max(lattice.width, lattice.height);
-    
-    for (let y = 0; y < lattice.height; y++) {
-      for (let x = 0; x < lattice.width; x++) {
-        const node = lattice.getNode(x, y);
-        if (!node) continue;
-        
-        const colors = this.colorScheme.getNodeColor(node);
-        const miniX = mapX + x * cellSize;
-        const miniY = mapY + y * cellSize;
+    // Draw lattice overview (the current slice or projection)
+    const grid = this.getViewGrid(lattice);
+    const cellSize = mapSize / Math.max(grid.width, grid.height);
+    
+    for (let y = 0; y < grid.height; y++) {
+      for (let x = 0; x < grid.width; x++) {
+        if (this.projection) {
+          this.ctx.fillStyle = this.getProjectionColor(
+            this.projection.values[y * grid.width + x],
+            this.projection.max,
+            grid.depth
+          );
+        } else {
+          const site = this.viewToSite(grid, x, y, grid.slice);
+          const node = lattice.getNode(site.x, site.y, site.z);
+          if (!node) continue;
+          this.ctx.fillStyle = this.colorScheme.getNodeColor(node).base;
+        }
         
-        this.ctx.fillStyle = colors.base;
-        this.ctx.fillRect(miniX, miniY, cellSize, cellSize);
+        this.ctx.fillRect(mapX + x * cellSize, mapY + y * cellSize, cellSize, cellSize);
       }
     }
     
@@ -414,6 +709,58 @@ export class Renderer2D {
     this.ctx.restore();
   }
 
+  /**
+   * Convert canvas coordinates to the lattice site under them
+   * (in the current slice; projections pick the site at the slice index)
+   * @param {number} screenX - Canvas X coordinate
+   * @param {number} screenY - Canvas Y coordinate
+   * @param {Lattice} lattice - Lattice object
+   * @returns {{x: number, y: number, z: number}|null} Site, or null outside the lattice
+   */
+  screenToLattice(screenX, screenY, lattice) {
+    const spacing = this.calculateSpacing(lattice);
+    const grid = this.getViewGrid(lattice);
+    const u = Math.round((screenX - spacing.offsetX) / spacing.cellSize);
+    const v = Math.round((screenY - spacing.offsetY) / spacing.cellSize);
+    
+    if (u < 0 || u >= grid.width || v < 0 || v >= grid.height) return null;
+    return this.viewToSite(grid, u, v, grid.slice);
+  }
+
+  /**
+   * Report clicks on lattice sites (for interactive perturbations)
+   * @param {Lattice} lattice - Lattice object
+   * @param {Function} callback - Called with the clicked site {x, y, z}
+   * @returns {Function} Removes the listener
+   */
+  enablePicking(lattice, callback) {
+    const onClick = (event) => {
+      // Account for CSS scaling of the canvas
+      const rect = this.canvas.getBoundingClientRect();
+      const screenX = (event.clientX - rect.left) * (this.canvas.width / rect.width);
+      const screenY = (event.clientY - rect.top) * (this.canvas.height / rect.height);
+      const site = this.screenToLattice(screenX, screenY, lattice);
+      if (!site) return;
+      
+      const spacing = this.calculateSpacing(lattice);
+      const { axes } = this.getViewGrid(lattice);
+      this.visualEffects.addRipple(
+        spacing.offsetX + site[axes.u] * spacing.cellSize,
+        spacing.offsetY + site[axes.v] * spacing.cellSize,
+        '#E74C3C',
+        80
+      );
+      callback(site);
+    };
+    
+    this.canvas.addEventListener('click', onClick);
+    this.canvas.style.cursor = 'crosshair';
+    return () => {
+      this.canvas.removeEventListener('click', onClick);
+      this.canvas.style.cursor = '';
+    };
+  }
+
   /**
    * Create anomaly at screen coordinates
    * @param {number} screenX - Screen X coordinate
@@ -422,19 +769,17 @@ export class Renderer2D {
    */
   createAnomalyAtPosition(screenX, screenY, lattice) {
     const spacing = this.calculateSpacing(lattice);
+    const site = this.screenToLattice(screenX, screenY, lattice);
     
-    // Convert screen coordinates to lattice coordinates
-    const latticeX = Math.round((screenX - spacing.offsetX) / spacing.cellSize);
-    const latticeY = Math.round((screenY - spacing.offsetY) / spacing.cellSize);
-    
-    if (latticeX >= 0 && latticeX < lattice.width && latticeY >= 0 && latticeY < lattice.height) {
-      const node = lattice.getNode(latticeX, latticeY);
+    if (site) {
+      const { axes } = this.getViewGrid(lattice);
+      const node = lattice.getNode(site.x, site.y, site.z);
       if (node) {
         node.state = 'anomaly';
         
         // Add visual effects
-        const effectX = spacing.offsetX + latticeX * spacing.cellSize;
-        const effectY = spacing.offsetY + latticeY * spacing.cellSize;
+        const effectX = spacing.offsetX + site[axes.u] * spacing.cellSize;
+        const effectY = spacing.offsetY + site[axes.v] * spacing.cellSize;
         
         this.visualEffects.addRipple(effectX, effectY, '#E74C3C', 80);
         this.visualEffects.addHalo(effectX, effectY, '#F39C12', 1500);
@@ -478,6 +823,14 @@ export class Renderer2D {
     return this.colorScheme;
   }
 
+  /**
+   * Get the canvas drawn on (for recording)
+   * @returns {HTMLCanvasElement} Canvas
+   */
+  getCanvas() {
+    return this.canvas;
+  }
+
   /**
    * Get visual effects instance
    * @returns {VisualEffects} Visual effects instance
@@ -4,6 +4,7 @@ import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import { ColorScheme } from './ColorScheme.js';
 import { VisualEffects } from './VisualEffects.js';
+import { VolumeRenderer } from './VolumeRenderer.js';
 
 /**
  * Renderer3D class - Handles 3D rendering of the lattice using Three.js
@@ -21,6 +22,7 @@ export class Renderer3D {
       showConnections: options.showConnections !== false,
       showParticleTrails: options.showParticleTrails !== false,
       showMiniMap: options.showMiniMap !== false,
+      showClusterTrails: options.showClusterTrails !== false,
       nodeSize: options.nodeSize || 0.3,
       glowIntensity: options.glowIntensity || 0.8,
       animationSpeed: options.animationSpeed || 1.0,
@@ -44,6 +46,18 @@ export class Renderer3D {
     // Connections
     this.connectionLines = null;
     
+    // Anomaly cluster centroid trails (see ClusterTracker)
+    this.clusterTrailLines = null;
+    
+    // Spin/spectrum colour source shared with Renderer2D (null: state palette)
+    this.colorizer = null;
+    
+    // The camera is fitted to the first lattice only, so user views persist
+    this.cameraFitted = false;
+    
+    // Volume and isosurface modes (see VolumeRenderer); 'nodes' draws the spheres
+    this.volumeRenderer = null;
+    
     // Particle system
     this.particleSystem = null;
     this.particles = [];
@@ -106,6 +120,8 @@ export class Renderer3D {
     // Set up lighting
     this.setupLighting();
     
+    this.volumeRenderer = new VolumeRenderer(this.scene);
+    
     // Create materials
     this.createMaterials();
     
@@ -233,6 +249,66 @@ export class Renderer3D {
     this.container.appendChild(this.instructionsElement);
   }
 
+  /**
+   * Set custom colorizer for spectrum mode (null restores the state palette)
+   * @param {SpectrumColorizer|null} colorizer - Custom colorizer
+   */
+  setColorizer(colorizer) {
+    this.colorizer = colorizer;
+  }
+
+  /**
+   * Set a THREE.Color to the node's colour from the active colour source
+   * @param {THREE.Color} color - Color to set
+   * @param {Object} node - Node object
+   * @returns {THREE.Color} The color
+   */
+  applyNodeColor(color, node) {
+    if (this.colorizer) {
+      const [r, g, b] = this.colorizer.getNodeColor(node);
+      return color.setRGB(r, g, b);
+    }
+    return color.set(this.colorScheme.getNodeColor(node).base);
+  }
+
+  /**
+   * Draw nodes, the raymarched volume or isosurfaces (see VolumeRenderer)
+   * Picking still hits the hidden node spheres in the volume modes.
+   * @param {'nodes'|'volume'|'isosurface'} mode - Render mode
+   */
+  setRenderMode(mode) {
+    this.volumeRenderer.setMode(mode);
+    const showNodes = mode === 'nodes';
+    if (this.instancedMesh) this.instancedMesh.visible = showNodes;
+    if (this.connectionLines) this.connectionLines.visible = showNodes;
+  }
+
+  /**
+   * Get the volume renderer, for its field and transfer function
+   * @returns {VolumeRenderer} Volume renderer
+   */
+  getVolumeRenderer() {
+    return this.volumeRenderer;
+  }
+
+  /**
+   * Point the camera at the lattice from a distance that shows all of it
+   * @param {Lattice} lattice - Lattice object
+   */
+  fitCamera(lattice) {
+    const extent = Math.max(lattice.width, lattice.height, lattice.depth || 1);
+    const distance = extent * 1.6;
+    
+    this.camera.position.set(distance, distance * 0.8, distance);
+    this.camera.lookAt(0, 0, 0);
+    this.controls.target.set(0, 0, 0);
+    this.controls.maxDistance = Math.max(50, distance * 3);
+    this.scene.fog.near = distance;
+    this.scene.fog.far = distance * 4;
+    this.controls.update();
+    this.cameraFitted = true;
+  }
+
   /**
    * Create node meshes with instanced rendering for performance
    * @param {Lattice} lattice - Lattice object
@@ -241,6 +317,10 @@ export class Renderer3D {
     // Clear existing meshes
     this.clearNodeMeshes();
     
+    if (!this.cameraFitted) {
+      this.fitCamera(lattice);
+    }
+    
     // Create geometry for nodes
     this.nodeGeometry = new THREE.SphereGeometry(this.options.nodeSize, 16, 16);
     
@@ -248,7 +328,12 @@ export class Renderer3D {
     const totalNodes = lattice.width * lattice.height * (lattice.depth || 1);
     
     // Create instanced mesh for better performance
-    const material = this.nodeMaterials.get('symmetric');
+    // (white base: instance colours are multiplied by the material colour)
+    const material = new THREE.MeshPhongMaterial({
+      color: 0xffffff,
+      shininess: 100,
+      specular: 0x444444
+    });
     this.instancedMesh = new THREE.InstancedMesh(
       this.nodeGeometry,
       material,
@@ -278,9 +363,7 @@ export class Renderer3D {
           this.instancedMesh.setMatrixAt(index, matrix);
           
           // Set initial color
-          const colors = this.colorScheme.getNodeColor(node);
-          color.set(colors.base);
-          this.instancedMesh.setColorAt(index, color);
+          this.instancedMesh.setColorAt(index, this.applyNodeColor(color, node));
           
           // Store mapping
           this.nodeMeshes.set(`${x},${y},${z}`, index);
@@ -295,6 +378,7 @@ export class Renderer3D {
       this.instancedMesh.instanceColor.needsUpdate = true;
     }
     
+    this.instancedMesh.visible = this.volumeRenderer.getSettings().mode === 'nodes';
     this.scene.add(this.instancedMesh);
     
     // Create connections if enabled
@@ -374,6 +458,7 @@ export class Renderer3D {
     });
     
     this.connectionLines = new THREE.LineSegments(geometry, material);
+    this.connectionLines.visible = this.volumeRenderer.getSettings().mode === 'nodes';
     this.scene.add(this.connectionLines);
   }
 
@@ -429,8 +514,12 @@ export class Renderer3D {
     // Update controls
     this.controls.update();
     
-    // Update node states
-    this.updateAllNodes(lattice);
+    // Update node states, or the volume that replaces them
+    if (this.volumeRenderer.getSettings().mode === 'nodes') {
+      this.updateAllNodes(lattice);
+    } else {
+      this.volumeRenderer.update(lattice);
+    }
     
     // Update particle system
     if (this.options.showParticleTrails) {
@@ -478,9 +567,7 @@ export class Renderer3D {
     const matrix = new THREE.Matrix4();
     
     // Update color
-    const colors = this.colorScheme.getNodeColor(node);
-    color.set(colors.base);
-    this.instancedMesh.setColorAt(index, color);
+    this.instancedMesh.setColorAt(index, this.applyNodeColor(color, node));
     
     // Update scale for anomalies (pulsing effect)
     let nodeScale = 1.0;
@@ -570,9 +657,7 @@ export class Renderer3D {
           }
           
           // Update color
-          const colors = this.colorScheme.getNodeColor(node);
-          color.set(colors.base);
-          this.instancedMesh.setColorAt(index, color);
+          this.instancedMesh.setColorAt(index, this.applyNodeColor(color, node));
           
           // Update scale for anomalies (pulsing effect)
           let nodeScale = 1.0;
@@ -662,9 +747,8 @@ export class Renderer3D {
    */
   addParticle3D(x, y, z, node) {
     const geometry = new THREE.SphereGeometry(0.1, 8, 8);
-    const colors = this.colorScheme.getNodeColor(node);
     const material = new THREE.MeshBasicMaterial({
-      color: new THREE.Color(colors.base),
+      color: this.applyNodeColor(new THREE.Color(), node),
       transparent: true,
       opacity: 1.0
     });
@@ -690,6 +774,60 @@ export class Renderer3D {
     });
   }
 
+  /**
+   * Replace the anomaly cluster trails with new centroid trails
+   * (a jump of more than half the lattice is a wrap across the edge and breaks the line)
+   * @param {Array<{id: number, points: Array<{x: number, y: number, z: number}>}>} trails - Centroid trails
+   * @param {Lattice} lattice - Lattice object
+   */
+  setClusterTrails(trails, lattice) {
+    this.clearClusterTrails();
+    if (!this.options.showClusterTrails || !trails || trails.length === 0) return;
+    
+    const depth = lattice.depth || 1;
+    const positions = [];
+    const colors = [];
+    const color = new THREE.Color();
+    
+    for (const trail of trails) {
+      color.setHSL(((trail.id * 137.5) % 360) / 360, 0.85, 0.55);
+      
+      for (let i = 1; i < trail.points.length; i++) {
+        const a = trail.points[i - 1];
+        const b = trail.points[i];
+        if (Math.abs(b.x - a.x) > lattice.width / 2 ||
+            Math.abs(b.y - a.y) > lattice.height / 2 ||
+            Math.abs(b.z - a.z) > depth / 2) {
+          continue;
+        }
+        
+        positions.push(a.x - lattice.width / 2, a.y - lattice.height / 2, a.z - depth / 2);
+        positions.push(b.x - lattice.width / 2, b.y - lattice.height / 2, b.z - depth / 2);
+        colors.push(color.r, color.g, color.b, color.r, color.g, color.b);
+      }
+    }
+    
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    
+    const material = new THREE.LineBasicMaterial({ vertexColors: true, linewidth: 2 });
+    this.clusterTrailLines = new THREE.LineSegments(geometry, material);
+    this.scene.add(this.clusterTrailLines);
+  }
+
+  /**
+   * Remove the cluster trails from the scene
+   */
+  clearClusterTrails() {
+    if (this.clusterTrailLines) {
+      this.scene.remove(this.clusterTrailLines);
+      this.clusterTrailLines.geometry.dispose();
+      this.clusterTrailLines.material.dispose();
+      this.clusterTrailLines = null;
+    }
+  }
+
   /**
    * Render mini-map overlay
    * @param {Lattice} lattice - Lattice object
@@ -704,17 +842,17 @@ export class Renderer3D {
     
     // Draw lattice overview (top-down view)
     const cellSize = size / Math.max(lattice.width, lattice.height);
+    const color = new THREE.Color();
     
     for (let y = 0; y < lattice.height; y++) {
       for (let x = 0; x < lattice.width; x++) {
         const node = lattice.getNode(x, y, 0);
         if (!node) continue;
         
-        const colors = this.colorScheme.getNodeColor(node);
         const miniX = x * cellSize;
         const miniY = y * cellSize;
         
-        ctx.fillStyle = colors.base;
+        ctx.fillStyle = `#${this.applyNodeColor(color, node).getHexString()}`;
         ctx.fillRect(miniX, miniY, cellSize, cellSize);
       }
     }
@@ -749,6 +887,7 @@ export class Renderer3D {
   handleResize() {
     const width = this.container.clientWidth;
     const height = this.container.clientHeight;
+    if (width === 0 || height === 0) return; // Hidden (e.g. the 2D view is shown)
     
     this.camera.aspect = width / height;
     this.camera.updateProjectionMatrix();
@@ -756,6 +895,69 @@ export class Renderer3D {
     this.renderer.setSize(width, height);
   }
 
+  /**
+   * Lattice site of the node under a pointer position
+   * @param {number} clientX - Pointer X (client coordinates)
+   * @param {number} clientY - Pointer Y (client coordinates)
+   * @param {Lattice} lattice - Lattice object
+   * @returns {{x: number, y: number, z: number}|null} Site, or null if no node was hit
+   */
+  pickSite(clientX, clientY, lattice) {
+    if (!this.instancedMesh) return null;
+    
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    const pointer = new THREE.Vector2(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1
+    );
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(pointer, this.camera);
+    
+    const hit = raycaster.intersectObject(this.instancedMesh).find(h => h.instanceId !== undefined);
+    if (!hit) return null;
+    
+    // Instances are laid out in storage order (x fastest, then y, then z)
+    const plane = lattice.width * lattice.height;
+    const index = hit.instanceId;
+    return {
+      x: index % lattice.width,
+      y: Math.floor((index % plane) / lattice.width),
+      z: Math.floor(index / plane)
+    };
+  }
+
+  /**
+   * Report clicks on lattice sites (for interactive perturbations);
+   * drags that rotate or pan the camera are ignored
+   * @param {Lattice} lattice - Lattice object
+   * @param {Function} callback - Called with the clicked site {x, y, z}
+   * @returns {Function} Removes the listeners
+   */
+  enablePicking(lattice, callback) {
+    const element = this.renderer.domElement;
+    let down = null;
+    
+    const onPointerDown = (event) => {
+      down = { x: event.clientX, y: event.clientY };
+    };
+    const onPointerUp = (event) => {
+      if (!down || event.button !== 0) return;
+      const moved = Math.hypot(event.clientX - down.x, event.clientY - down.y);
+      down = null;
+      if (moved > 4) return;
+      
+      const site = this.pickSite(event.clientX, event.clientY, lattice);
+      if (site) callback(site);
+    };
+    
+    element.addEventListener('pointerdown', onPointerDown);
+    element.addEventListener('pointerup', onPointerUp);
+    return () => {
+      element.removeEventListener('pointerdown', onPointerDown);
+      element.removeEventListener('pointerup', onPointerUp);
+    };
+  }
+
   /**
    * Set rendering options
    * @param {Object} options - Options to update
@@ -794,6 +996,14 @@ export class Renderer3D {
     this.createMaterials();
   }
 
+  /**
+   * Get the canvas drawn on (for recording; read it right after render)
+   * @returns {HTMLCanvasElement} Canvas
+   */
+  getCanvas() {
+    return this.renderer.domElement;
+  }
+
   /**
    * Get color scheme for legend generation
    * @returns {ColorScheme} Color scheme instance
@@ -810,6 +1020,8 @@ export class Renderer3D {
     
     // Dispose geometries and materials
     this.clearNodeMeshes();
+    this.clearClusterTrails();
+    this.volumeRenderer.dispose();
     
     if (this.nodeGeometry) {
       this.nodeGeometry.dispose();
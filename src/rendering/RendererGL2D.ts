@@ -0,0 +1,553 @@
+/**
+ * RendererGL2D - WebGL2 renderer for the 2D view of large lattices
+ *
+ * An alternative to Renderer2D that draws the whole view in one pass: the
+ * lattice storage arrays are uploaded as 3D textures as they are (spins,
+ * states, E_sym, E_asym, phases) and a fragment shader colours every cell,
+ * with the SpectrumColorizer LUTs (also uploaded as textures, when the
+ * colorizer or its k_x changes) or the ColorScheme palette (state, energy
+ * or phase bins). Slices and column projections use the same view as
+ * Renderer2D (see VIEW_PLANES and VIEW_MODES); projections loop over the
+ * column in the shader.
+ *
+ * Glow, particles, ripples, the mini-map and cluster trails are Canvas2D
+ * effects and are not drawn. Use RendererGL2D.isSupported() and fall back
+ * to Renderer2D when it is false; the constructor throws without WebGL2.
+ */
+
+import type { Lattice } from '../core/Lattice.js';
+import type { NodeState } from '../core/Node.js';
+import { ColorScheme } from './ColorScheme.js';
+import type { SpectrumColorizer } from './SpectrumColorizer.js';
+import { VIEW_PLANES, VIEW_MODES } from './Renderer2D.js';
+import { ErrorHandler } from '../utils/ErrorHandler.js';
+
+type ViewPlane = keyof typeof VIEW_PLANES;
+type ViewMode = keyof typeof VIEW_MODES;
+type Axis = 'x' | 'y' | 'z';
+
+export interface GLView {
+  plane: ViewPlane;
+  slice: number;
+  mode: ViewMode;
+}
+
+export interface GLViewGrid {
+  axes: { u: Axis; v: Axis; normal: Axis };
+  width: number;
+  height: number;
+  depth: number;
+  slice: number;
+}
+
+export interface GLSpacing {
+  cellSize: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface PaletteUniforms {
+  mode: number;          // 0: state, 1: energy bins, 2: phase bins
+  colors: Float32Array;  // Four RGB colours in 0..1
+}
+
+const AXIS_EXTENT = { x: 'width', y: 'height', z: 'depth' } as const;
+const AXIS_VECTORS: Record<Axis, [number, number, number]> = { x: [1, 0, 0], y: [0, 1, 0], z: [0, 0, 1] };
+const MODE_CODES: Record<ViewMode, number> = { slice: 0, meanSpin: 1, maxAsym: 2, anomalyCount: 3 };
+const STATE_ORDER: NodeState[] = ['vacuum', 'broken', 'anomalous']; // By STATE_CODES
+const PADDING = 40;
+
+/**
+ * Palette of the colour scheme as shader uniforms
+ * Colours are those ColorScheme gives each state, energy bin (0.25 steps)
+ * or phase bin (90° around 0°, 90°, 180° and 270°).
+ * @param colorScheme - Colour scheme
+ */
+export function getPaletteUniforms(colorScheme: ColorScheme): PaletteUniforms {
+  const palette = colorScheme.getPaletteName();
+  const pairs = palette === 'energy'
+    ? [0.1, 0.3, 0.6, 0.9].map(energy => colorScheme.getEnergyColor(energy))
+    : palette === 'phase'
+      ? [0, 0.5, 1, 1.5].map(turn => colorScheme.getPhaseColor(turn * Math.PI))
+      : [...STATE_ORDER, STATE_ORDER[0]].map(state => colorScheme.getStateColor(state));
+
+  const colors = new Float32Array(12);
+  pairs.forEach((pair, i) => {
+    const { r, g, b } = colorScheme.hexToRgb(pair.base);
+    colors.set([r / 255, g / 255, b / 255], i * 3);
+  });
+  return { mode: palette === 'energy' ? 1 : palette === 'phase' ? 2 : 0, colors };
+}
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 aPosition;
+void main() {
+  gl_Position = vec4(aPosition, 0.0, 1.0);
+}
+`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp int;
+precision highp sampler3D;
+precision highp isampler3D;
+precision highp usampler3D;
+
+uniform vec2 uResolution;
+uniform vec2 uOffset;
+uniform float uCellSize;
+uniform ivec3 uGrid;       // View columns, rows and depth along the normal
+uniform int uSlice;
+uniform ivec3 uAxisU;
+uniform ivec3 uAxisV;
+uniform ivec3 uAxisN;
+uniform int uMode;         // 0: slice, 1: mean spin, 2: max |E_asym|, 3: anomaly count
+uniform int uColorSource;  // 0: palette, 1: colorizer LUTs
+uniform int uPaletteMode;  // 0: state, 1: energy, 2: phase
+uniform vec3 uPalette[4];
+uniform vec3 uBackground;
+uniform float uAsymMax;
+
+uniform isampler3D uSpins;
+uniform usampler3D uStates;
+uniform sampler3D uEsym;
+uniform sampler3D uEasym;
+uniform sampler3D uPhases;
+uniform sampler3D uBright;
+uniform sampler3D uDark;
+
+out vec4 outColor;
+
+const vec3 NEUTRAL = vec3(40.0, 44.0, 60.0) / 255.0;
+const float TWO_PI = 6.28318530718;
+
+vec3 siteColor(ivec3 site) {
+  if (uColorSource == 1) {
+    return texelFetch(uSpins, site, 0).r > 0 ? texelFetch(uBright, site, 0).rgb : texelFetch(uDark, site, 0).rgb;
+  }
+  if (uPaletteMode == 1) {
+    float energy = texelFetch(uEsym, site, 0).r + texelFetch(uEasym, site, 0).r;
+    return uPalette[energy < 0.25 ? 0 : energy < 0.5 ? 1 : energy < 0.75 ? 2 : 3];
+  }
+  if (uPaletteMode == 2) {
+    float degrees = mod(texelFetch(uPhases, site, 0).r, TWO_PI) * 360.0 / TWO_PI;
+    return uPalette[degrees < 45.0 || degrees >= 315.0 ? 0 : degrees < 135.0 ? 1 : degrees < 225.0 ? 2 : 3];
+  }
+  return uPalette[min(int(texelFetch(uStates, site, 0).r), 2)];
+}
+
+vec3 projectionColor(ivec3 base) {
+  float value = 0.0;
+  for (int w = 0; w < uGrid.z; w++) {
+    ivec3 site = base + w * uAxisN;
+    if (uMode == 1) {
+      value += float(texelFetch(uSpins, site, 0).r);
+    } else if (uMode == 2) {
+      value = max(value, abs(texelFetch(uEasym, site, 0).r));
+    } else if (texelFetch(uStates, site, 0).r == 2u) {
+      value += 1.0;
+    }
+  }
+
+  if (uMode == 1) {
+    float mean = value / float(uGrid.z);
+    return mean >= 0.0
+      ? mix(NEUTRAL, vec3(244.0, 67.0, 54.0) / 255.0, mean)
+      : mix(NEUTRAL, vec3(33.0, 150.0, 243.0) / 255.0, -mean);
+  }
+  if (uMode == 2) {
+    return mix(NEUTRAL, vec3(255.0, 193.0, 7.0) / 255.0, uAsymMax > 0.0 ? value / uAsymMax : 0.0);
+  }
+  return mix(NEUTRAL, vec3(231.0, 76.0, 60.0) / 255.0, value / float(uGrid.z));
+}
+
+void main() {
+  // Canvas coordinates (y down), cell centres at uOffset + index * uCellSize
+  vec2 point = vec2(gl_FragCoord.x, uResolution.y - gl_FragCoord.y);
+  vec2 cell = (point - uOffset) / uCellSize + 0.5;
+  ivec2 uv = ivec2(floor(cell));
+  if (uv.x < 0 || uv.y < 0 || uv.x >= uGrid.x || uv.y >= uGrid.y) {
+    outColor = vec4(uBackground, 1.0);
+    return;
+  }
+
+  // Slice cells are separated by a thin gap; projections form a heat map
+  vec2 inside = fract(cell);
+  if (uMode == 0 && uCellSize >= 4.0 && (min(inside.x, inside.y) < 0.08 || max(inside.x, inside.y) > 0.92)) {
+    outColor = vec4(uBackground, 1.0);
+    return;
+  }
+
+  ivec3 base = uv.x * uAxisU + uv.y * uAxisV;
+  outColor = vec4(uMode == 0 ? siteColor(base + uSlice * uAxisN) : projectionColor(base), 1.0);
+}
+`;
+
+/** Storage arrays and colorizer LUTs, each a 3D texture on its own unit */
+const TEXTURES = {
+  uSpins: { unit: 0, internalFormat: 'R8I', format: 'RED_INTEGER', type: 'BYTE' },
+  uStates: { unit: 1, internalFormat: 'R8UI', format: 'RED_INTEGER', type: 'UNSIGNED_BYTE' },
+  uEsym: { unit: 2, internalFormat: 'R32F', format: 'RED', type: 'FLOAT' },
+  uEasym: { unit: 3, internalFormat: 'R32F', format: 'RED', type: 'FLOAT' },
+  uPhases: { unit: 4, internalFormat: 'R32F', format: 'RED', type: 'FLOAT' },
+  uBright: { unit: 5, internalFormat: 'RGB32F', format: 'RGB', type: 'FLOAT' },
+  uDark: { unit: 6, internalFormat: 'RGB32F', format: 'RGB', type: 'FLOAT' }
+} as const;
+
+type TextureName = keyof typeof TEXTURES;
+
+export class RendererGL2D {
+  private readonly canvas: HTMLCanvasElement;
+  private readonly gl: WebGL2RenderingContext;
+  private readonly program: WebGLProgram;
+  private readonly quad: WebGLBuffer;
+  private readonly uniforms = new Map<string, WebGLUniformLocation | null>();
+  private readonly colorScheme: ColorScheme;
+  private textures: Partial<Record<TextureName, WebGLTexture>> = {};
+  private textureSize: [number, number, number] | null = null;
+  private view: GLView = { plane: 'xy', slice: 0, mode: 'slice' };
+  private colorizer: SpectrumColorizer | null = null;
+  private lutKey: { colorizer: SpectrumColorizer; kx: number } | null = null;
+
+  /**
+   * Whether this renderer can run here
+   */
+  static isSupported(): boolean {
+    return ErrorHandler.isWebGLSupported(2);
+  }
+
+  /**
+   * @param canvas - Canvas to draw on (not one that has a 2D context)
+   * @param options - Theme
+   */
+  constructor(canvas: HTMLCanvasElement, options: { theme?: 'light' | 'dark' } = {}) {
+    const gl = canvas.getContext('webgl2');
+    if (!gl) {
+      throw new Error('WebGL2 is not available');
+    }
+    this.canvas = canvas;
+    this.gl = gl;
+    this.colorScheme = new ColorScheme(options.theme || 'light');
+    this.program = this.createProgram();
+
+    // One triangle pair over the whole canvas
+    this.quad = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quad);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]), gl.STATIC_DRAW);
+    const position = gl.getAttribLocation(this.program, 'aPosition');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+  }
+
+  private createProgram(): WebGLProgram {
+    const gl = this.gl;
+    const compile = (type: number, source: string): WebGLShader => {
+      const shader = gl.createShader(type)!;
+      gl.shaderSource(shader, source);
+      gl.compileShader(shader);
+      if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        throw new Error(`Shader compilation failed: ${gl.getShaderInfoLog(shader)}`);
+      }
+      return shader;
+    };
+
+    const program = gl.createProgram()!;
+    gl.attachShader(program, compile(gl.VERTEX_SHADER, VERTEX_SHADER));
+    gl.attachShader(program, compile(gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`Shader linking failed: ${gl.getProgramInfoLog(program)}`);
+    }
+    gl.useProgram(program);
+    for (const [name, { unit }] of Object.entries(TEXTURES)) {
+      gl.uniform1i(gl.getUniformLocation(program, name), unit);
+    }
+    return program;
+  }
+
+  private uniform(name: string): WebGLUniformLocation | null {
+    if (!this.uniforms.has(name)) {
+      this.uniforms.set(name, this.gl.getUniformLocation(this.program, name));
+    }
+    return this.uniforms.get(name)!;
+  }
+
+  /**
+   * Initialize canvas size
+   */
+  initialize(width: number, height: number): void {
+    this.resize(width, height);
+  }
+
+  /**
+   * Resize canvas
+   */
+  resize(width: number, height: number): void {
+    this.canvas.width = width;
+    this.canvas.height = height;
+  }
+
+  /**
+   * Select the slice plane, slice index and view mode (as Renderer2D.setView)
+   */
+  setView(view: Partial<GLView>): void {
+    const next = { ...this.view, ...view };
+    if (!VIEW_PLANES[next.plane]) {
+      throw new Error(`Unknown slice plane: ${next.plane}`);
+    }
+    if (!VIEW_MODES[next.mode]) {
+      throw new Error(`Unknown view mode: ${next.mode}`);
+    }
+    next.slice = Math.max(0, Math.floor(next.slice) || 0);
+    this.view = next;
+  }
+
+  /**
+   * Get the current view
+   */
+  getView(): GLView {
+    return { ...this.view };
+  }
+
+  /**
+   * Extents of the current view, with the slice index clamped to the depth
+   */
+  getViewGrid(lattice: Lattice): GLViewGrid {
+    const axes = VIEW_PLANES[this.view.plane] as GLViewGrid['axes'];
+    const depth = lattice[AXIS_EXTENT[axes.normal]];
+    return {
+      axes,
+      width: lattice[AXIS_EXTENT[axes.u]],
+      height: lattice[AXIS_EXTENT[axes.v]],
+      depth,
+      slice: Math.min(this.view.slice, depth - 1)
+    };
+  }
+
+  /**
+   * Lattice site at view column u, row v and depth w along the normal
+   */
+  viewToSite(grid: GLViewGrid, u: number, v: number, w: number): { x: number; y: number; z: number } {
+    const site = { x: 0, y: 0, z: 0 };
+    site[grid.axes.u] = u;
+    site[grid.axes.v] = v;
+    site[grid.axes.normal] = w;
+    return site;
+  }
+
+  /**
+   * Cell size and the canvas position of cell (0, 0), as Renderer2D lays
+   * out its nodes (without the mini-map)
+   */
+  calculateSpacing(lattice: Lattice): GLSpacing {
+    const { width, height } = this.getViewGrid(lattice);
+    const availableWidth = this.canvas.width - 2 * PADDING;
+    const availableHeight = this.canvas.height - 2 * PADDING;
+    const cellSize = Math.min(availableWidth / (width - 1 || 1), availableHeight / (height - 1 || 1));
+
+    return {
+      cellSize,
+      offsetX: PADDING + (availableWidth - cellSize * (width - 1)) / 2,
+      offsetY: PADDING + (availableHeight - cellSize * (height - 1)) / 2
+    };
+  }
+
+  /**
+   * Colour from a colorizer's LUTs (null: the colour scheme palette)
+   */
+  setColorizer(colorizer: SpectrumColorizer | null): void {
+    this.colorizer = colorizer;
+  }
+
+  /**
+   * Set color scheme palette
+   */
+  setPalette(palette: 'default' | 'energy' | 'phase'): void {
+    this.colorScheme.setPalette(palette);
+  }
+
+  /**
+   * Set theme
+   */
+  setTheme(theme: 'light' | 'dark'): void {
+    this.colorScheme.setTheme(theme);
+  }
+
+  /**
+   * Get the canvas drawn on (for recording; read it right after render)
+   */
+  getCanvas(): HTMLCanvasElement {
+    return this.canvas;
+  }
+
+  /**
+   * Get color scheme for legend generation
+   */
+  getColorScheme(): ColorScheme {
+    return this.colorScheme;
+  }
+
+  /**
+   * Cluster trails are not drawn by this renderer (kept for interface parity)
+   */
+  setClusterTrails(): void {
+    // Intentionally empty
+  }
+
+  /**
+   * Allocate the textures for the lattice size (all of them, so every
+   * sampler is bound to a complete texture)
+   */
+  private allocateTextures(lattice: Lattice): void {
+    const gl = this.gl;
+    const { width, height, depth } = lattice;
+    Object.values(this.textures).forEach(texture => gl.deleteTexture(texture));
+    this.textures = {};
+    this.lutKey = null;
+
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    for (const [name, spec] of Object.entries(TEXTURES) as [TextureName, (typeof TEXTURES)[TextureName]][]) {
+      const texture = gl.createTexture()!;
+      gl.activeTexture(gl.TEXTURE0 + spec.unit);
+      gl.bindTexture(gl.TEXTURE_3D, texture);
+      gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.texImage3D(
+        gl.TEXTURE_3D, 0, gl[spec.internalFormat], width, height, depth, 0,
+        gl[spec.format], gl[spec.type], null
+      );
+      this.textures[name] = texture;
+    }
+    this.textureSize = [width, height, depth];
+  }
+
+  private upload(name: TextureName, data: ArrayBufferView, lattice: Lattice): void {
+    const gl = this.gl;
+    const spec = TEXTURES[name];
+    gl.activeTexture(gl.TEXTURE0 + spec.unit);
+    gl.bindTexture(gl.TEXTURE_3D, this.textures[name]!);
+    gl.texSubImage3D(
+      gl.TEXTURE_3D, 0, 0, 0, 0, lattice.width, lattice.height, lattice.depth,
+      gl[spec.format], gl[spec.type], data
+    );
+  }
+
+  /**
+   * Upload what the current view and colour source read, and draw
+   */
+  render(lattice: Lattice): void {
+    const gl = this.gl;
+    const { spins, states, E_sym, E_asym, phases } = lattice.storage;
+    const size = this.textureSize;
+    if (!size || size[0] !== lattice.width || size[1] !== lattice.height || size[2] !== lattice.depth) {
+      this.allocateTextures(lattice);
+    }
+
+    const grid = this.getViewGrid(lattice);
+    const spacing = this.calculateSpacing(lattice);
+    const palette = getPaletteUniforms(this.colorScheme);
+    const mode = MODE_CODES[this.view.mode];
+    const useLUTs = mode === 0 && this.colorizer !== null;
+
+    // Only the arrays this frame reads
+    if (mode === 0 && useLUTs) {
+      this.upload('uSpins', spins, lattice);
+      const colorizer = this.colorizer!;
+      if (!this.lutKey || this.lutKey.colorizer !== colorizer || this.lutKey.kx !== colorizer.getKx()) {
+        const { bright, dark } = colorizer.getLUTs();
+        this.upload('uBright', bright, lattice);
+        this.upload('uDark', dark, lattice);
+        this.lutKey = { colorizer, kx: colorizer.getKx() };
+      }
+    } else if (mode === 0 && palette.mode === 1) {
+      this.upload('uEsym', E_sym, lattice);
+      this.upload('uEasym', E_asym, lattice);
+    } else if (mode === 0 && palette.mode === 2) {
+      this.upload('uPhases', phases, lattice);
+    } else if (mode === 0 || mode === 3) {
+      this.upload('uStates', states, lattice);
+    } else if (mode === 1) {
+      this.upload('uSpins', spins, lattice);
+    } else {
+      this.upload('uEasym', E_asym, lattice);
+    }
+
+    let asymMax = 0;
+    if (mode === 2) {
+      for (let i = 0; i < E_asym.length; i++) asymMax = Math.max(asymMax, Math.abs(E_asym[i]));
+    }
+
+    const background = this.colorScheme.hexToRgb(this.colorScheme.getBackgroundColor());
+    gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+    gl.useProgram(this.program);
+    gl.uniform2f(this.uniform('uResolution'), this.canvas.width, this.canvas.height);
+    gl.uniform2f(this.uniform('uOffset'), spacing.offsetX, spacing.offsetY);
+    gl.uniform1f(this.uniform('uCellSize'), spacing.cellSize);
+    gl.uniform3i(this.uniform('uGrid'), grid.width, grid.height, grid.depth);
+    gl.uniform1i(this.uniform('uSlice'), grid.slice);
+    gl.uniform3i(this.uniform('uAxisU'), ...AXIS_VECTORS[grid.axes.u]);
+    gl.uniform3i(this.uniform('uAxisV'), ...AXIS_VECTORS[grid.axes.v]);
+    gl.uniform3i(this.uniform('uAxisN'), ...AXIS_VECTORS[grid.axes.normal]);
+    gl.uniform1i(this.uniform('uMode'), mode);
+    gl.uniform1i(this.uniform('uColorSource'), useLUTs ? 1 : 0);
+    gl.uniform1i(this.uniform('uPaletteMode'), palette.mode);
+    gl.uniform3fv(this.uniform('uPalette'), palette.colors);
+    gl.uniform3f(this.uniform('uBackground'), background.r / 255, background.g / 255, background.b / 255);
+    gl.uniform1f(this.uniform('uAsymMax'), asymMax);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quad);
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+  }
+
+  /**
+   * Lattice site under canvas coordinates (in the current slice; projections
+   * pick the site at the slice index)
+   * @returns Site, or null outside the lattice
+   */
+  screenToLattice(screenX: number, screenY: number, lattice: Lattice): { x: number; y: number; z: number } | null {
+    const spacing = this.calculateSpacing(lattice);
+    const grid = this.getViewGrid(lattice);
+    const u = Math.round((screenX - spacing.offsetX) / spacing.cellSize);
+    const v = Math.round((screenY - spacing.offsetY) / spacing.cellSize);
+
+    if (u < 0 || u >= grid.width || v < 0 || v >= grid.height) return null;
+    return this.viewToSite(grid, u, v, grid.slice);
+  }
+
+  /**
+   * Report clicks on lattice sites (for interactive perturbations)
+   * @param callback - Called with the clicked site
+   * @returns Removes the listener
+   */
+  enablePicking(lattice: Lattice, callback: (site: { x: number; y: number; z: number }) => void): () => void {
+    const onClick = (event: MouseEvent): void => {
+      // Account for CSS scaling of the canvas
+      const rect = this.canvas.getBoundingClientRect();
+      const site = this.screenToLattice(
+        (event.clientX - rect.left) * (this.canvas.width / rect.width),
+        (event.clientY - rect.top) * (this.canvas.height / rect.height),
+        lattice
+      );
+      if (site) callback(site);
+    };
+
+    this.canvas.addEventListener('click', onClick);
+    this.canvas.style.cursor = 'crosshair';
+    return () => {
+      this.canvas.removeEventListener('click', onClick);
+      this.canvas.style.cursor = '';
+    };
+  }
+
+  /**
+   * Free the GPU resources
+   */
+  dispose(): void {
+    const gl = this.gl;
+    Object.values(this.textures).forEach(texture => gl.deleteTexture(texture));
+    this.textures = {};
+    this.textureSize = null;
+    gl.deleteBuffer(this.quad);
+    gl.deleteProgram(this.program);
+  }
+}
@@ -8,6 +8,7 @@
  */
 
 import { Node } from '../core/Node.js';
+import { LatticeDimensions, resolveDimensions } from '../core/Lattice.js';
 
 export interface ColorLUTs {
   bright: Float32Array;
@@ -18,7 +19,7 @@ export class SpectrumColorizer {
   private brightLUT: Float32Array;
   private darkLUT: Float32Array;
   private kx: number;
-  private N: number;
+  private readonly dimensions: LatticeDimensions;
   private readonly SAT_PCT = 90;
   private readonly L_BRIGHT = 70;
   private readonly L_DARK = 30;
@@ -26,13 +27,13 @@ export class SpectrumColorizer {
   /**
    * Create a new SpectrumColorizer
    * @param kx - Wave number (mode index)
-   * @param N - Lattice size
+   * @param size - Lattice size N (cube) or the lattice dimensions
    */
-  constructor(kx: number, N: number) {
+  constructor(kx: number, size: number | LatticeDimensions) {
     this.kx = kx;
-    this.N = N;
+    this.dimensions = resolveDimensions(size);
     
-    const nodeCount = N * N * N;
+    const nodeCount = this.getNodeCount();
     this.brightLUT = new Float32Array(nodeCount * 3);
     this.darkLUT = new Float32Array(nodeCount * 3);
     
@@ -40,16 +41,17 @@ export class SpectrumColorizer {
   }
 
   /**
-   * Rebuild color lookup tables when kx or N changes
+   * Rebuild color lookup tables when kx changes
    */
   private rebuildLUTs(): void {
+    const { width, height, depth } = this.dimensions;
     let idx = 0;
     
-    for (let z = 0; z < this.N; z++) {
-      for (let y = 0; y < this.N; y++) {
-        for (let x = 0; x < this.N; x++) {
-          // Calculate hue based on wave phase
-          const base = ((x * this.kx) % this.N) / (this.N - 1);
+    for (let z = 0; z < depth; z++) {
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          // Calculate hue based on wave phase along x
+          const base = ((x * this.kx) % width) / Math.max(1, width - 1);
           const hue = (270 + 360 * base) % 360;
           
           // Generate bright and dark colors
@@ -139,7 +141,16 @@ export class SpectrumColorizer {
    */
   private getNodeIndex(node: Node): number {
     const { x, y, z } = node.position;
-    return z * (this.N * this.N) + y * this.N + x;
+    const { width, height } = this.dimensions;
+    return z * (width * height) + y * width + x;
+  }
+
+  /**
+   * Number of nodes covered by the LUTs
+   */
+  private getNodeCount(): number {
+    const { width, height, depth } = this.dimensions;
+    return width * height * depth;
   }
 
   /**
@@ -159,10 +170,17 @@ export class SpectrumColorizer {
   }
 
   /**
-   * Get lattice size
+   * Get lattice size along x (the wave axis)
    */
   getN(): number {
-    return this.N;
+    return this.dimensions.width;
+  }
+
+  /**
+   * Get lattice dimensions
+   */
+  getDimensions(): LatticeDimensions {
+    return { ...this.dimensions };
   }
 
   /**
@@ -178,11 +196,11 @@ export class SpectrumColorizer {
   /**
    * Create simple white/gray colorizer (non-spectrum mode)
    */
-  static createSimple(N: number): SpectrumColorizer {
-    const colorizer = new SpectrumColorizer(0, N);
+  static createSimple(size: number | LatticeDimensions): SpectrumColorizer {
+    const colorizer = new SpectrumColorizer(0, size);
     
     // Override LUTs with white/gray
-    const nodeCount = N * N * N;
+    const nodeCount = colorizer.getNodeCount();
     for (let i = 0; i < nodeCount * 3; i += 3) {
       colorizer.brightLUT[i] = 1.0;
       colorizer.brightLUT[i + 1] = 1.0;
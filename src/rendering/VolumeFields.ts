@@ -0,0 +1,197 @@
+/**
+ * VolumeFields - Scalar fields of the lattice for volume rendering
+ *
+ * Samples a field on every site (spin, |E_asym| or the local
+ * magnetisation, a box average of the spins) together with the range the
+ * transfer function maps onto [0, 1]. Spin-like fields use the fixed range
+ * [-1, 1] so colours stay stable over time; |E_asym| uses [0, max].
+ *
+ * The transfer function turns a normalized value into colour and opacity:
+ * a colour map, and a window [low, high] outside which the volume is
+ * transparent. Its iso level (also normalized) places the isosurface.
+ */
+
+import type { Lattice } from '../core/Lattice.js';
+import { resolveCoordinate } from '../core/Boundary.js';
+
+export type VolumeFieldName = 'spin' | 'E_asym' | 'magnetization';
+
+export type VolumeColormap = 'diverging' | 'heat' | 'grayscale';
+
+/** Field labels for selects */
+export const VOLUME_FIELDS: Record<VolumeFieldName, string> = {
+  spin: 'Spin',
+  E_asym: '|E_asym|',
+  magnetization: 'Local magnetisation'
+};
+
+/** Colour map labels for selects */
+export const VOLUME_COLORMAPS: Record<VolumeColormap, string> = {
+  diverging: 'Blue-red',
+  heat: 'Heat',
+  grayscale: 'Grayscale'
+};
+
+export interface ScalarVolume {
+  values: Float32Array;   // One value per site, in storage order
+  width: number;
+  height: number;
+  depth: number;
+  min: number;            // Value mapped to 0 by the transfer function
+  max: number;            // Value mapped to 1
+  wrap: [boolean, boolean, boolean]; // Axes where the field continues periodically
+}
+
+export interface TransferFunction {
+  colormap: VolumeColormap;
+  opacity: number;        // Opacity of one site inside the window
+  low: number;            // Window start, normalized
+  high: number;           // Window end, normalized
+  level: number;          // Isosurface level, normalized
+}
+
+export const DEFAULT_TRANSFER_FUNCTION: TransferFunction = {
+  colormap: 'diverging',
+  opacity: 0.1,
+  low: 0,
+  high: 1,
+  level: 0.5
+};
+
+/** Entries of the transfer table (RGBA bytes each) */
+export const TRANSFER_TABLE_SIZE = 256;
+
+/**
+ * Average of the spins over the (2r + 1)³ box around every site
+ * The box follows the boundary conditions: it wraps across periodic edges,
+ * picks up the sign across twisted ones, mirrors at reflecting ones and is
+ * cut off at open ones. The box is separable, so it is averaged one axis at
+ * a time.
+ * @param lattice - Lattice to sample
+ * @param radius - Box half-width in sites (default 1)
+ */
+export function localMagnetization(lattice: Lattice, radius: number = 1): Float32Array {
+  const { width, height, depth, boundary } = lattice;
+  const sizes = [width, height, depth];
+  const strides = [1, width, width * height];
+  const conditions = [boundary.x, boundary.y, boundary.z];
+  const n = lattice.storage.spins.length;
+
+  let current = Float32Array.from(lattice.storage.spins);
+  for (let axis = 0; axis < 3; axis++) {
+    const size = sizes[axis];
+    const stride = strides[axis];
+
+    // Sites of the box along this axis for every coordinate
+    const boxes: { coord: number; sign: number }[][] = [];
+    for (let c = 0; c < size; c++) {
+      const box: { coord: number; sign: number }[] = [];
+      for (let d = -radius; d <= radius; d++) {
+        const resolved = resolveCoordinate(c + d, size, conditions[axis]);
+        if (resolved) box.push(resolved);
+      }
+      boxes.push(box);
+    }
+
+    const next = new Float32Array(n);
+    for (let i = 0; i < n; i++) {
+      const c = Math.floor(i / stride) % size;
+      const base = i - c * stride;
+      const box = boxes[c];
+      let sum = 0;
+      for (const { coord, sign } of box) {
+        sum += sign * current[base + coord * stride];
+      }
+      next[i] = sum / box.length;
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Sample a field of the lattice
+ * @param lattice - Lattice to sample
+ * @param field - Field to sample
+ * @param radius - Box half-width of the local magnetisation
+ */
+export function sampleVolume(lattice: Lattice, field: VolumeFieldName, radius: number = 1): ScalarVolume {
+  const { width, height, depth, boundary } = lattice;
+  const { spins, E_asym } = lattice.storage;
+  const wrap: ScalarVolume['wrap'] = [
+    boundary.x === 'periodic' && width > 1,
+    boundary.y === 'periodic' && height > 1,
+    boundary.z === 'periodic' && depth > 1
+  ];
+
+  switch (field) {
+    case 'spin':
+      return { values: Float32Array.from(spins), width, height, depth, min: -1, max: 1, wrap };
+    case 'magnetization':
+      return { values: localMagnetization(lattice, radius), width, height, depth, min: -1, max: 1, wrap };
+    case 'E_asym': {
+      const values = new Float32Array(E_asym.length);
+      let max = 0;
+      for (let i = 0; i < values.length; i++) {
+        values[i] = Math.abs(E_asym[i]);
+        max = Math.max(max, values[i]);
+      }
+      return { values, width, height, depth, min: 0, max: max > 0 ? max : 1, wrap };
+    }
+    default:
+      throw new Error(`Unknown volume field: ${field}`);
+  }
+}
+
+/**
+ * Colour of a colour map at t in [0, 1], as RGB in 0..1
+ */
+export function colormapColor(colormap: VolumeColormap, t: number): [number, number, number] {
+  const s = Math.min(1, Math.max(0, t));
+  switch (colormap) {
+    case 'diverging': {
+      // Cool-warm: blue through light gray to red
+      const [from, to, u] = s < 0.5
+        ? [[0.23, 0.3, 0.75], [0.87, 0.87, 0.87], s * 2]
+        : [[0.87, 0.87, 0.87], [0.71, 0.02, 0.15], s * 2 - 1];
+      return [0, 1, 2].map(k => from[k] + (to[k] - from[k]) * u) as [number, number, number];
+    }
+    case 'heat':
+      // Black, red, yellow, white
+      return [Math.min(1, s * 3), Math.min(1, Math.max(0, s * 3 - 1)), Math.max(0, s * 3 - 2)];
+    case 'grayscale':
+      return [s, s, s];
+    default:
+      throw new Error(`Unknown colour map: ${colormap}`);
+  }
+}
+
+/**
+ * Tabulate a transfer function as RGBA bytes (TRANSFER_TABLE_SIZE entries)
+ * Opacity falls off over a few entries at the window edges so a narrow
+ * window does not band.
+ * @param transfer - Transfer function
+ * @param out - Table to fill (allocated if omitted)
+ */
+export function buildTransferTable(
+  transfer: TransferFunction,
+  out: Uint8Array = new Uint8Array(TRANSFER_TABLE_SIZE * 4)
+): Uint8Array {
+  const edge = 2 / TRANSFER_TABLE_SIZE;
+  const low = Math.min(transfer.low, transfer.high);
+  const high = Math.max(transfer.low, transfer.high);
+  const opacity = Math.min(1, Math.max(0, transfer.opacity));
+
+  for (let i = 0; i < TRANSFER_TABLE_SIZE; i++) {
+    const t = i / (TRANSFER_TABLE_SIZE - 1);
+    const [r, g, b] = colormapColor(transfer.colormap, t);
+    const inside = Math.min(1, Math.max(0, (t - low) / edge + 1), Math.max(0, (high - t) / edge + 1));
+
+    out[i * 4] = Math.round(r * 255);
+    out[i * 4 + 1] = Math.round(g * 255);
+    out[i * 4 + 2] = Math.round(b * 255);
+    out[i * 4 + 3] = Math.round(opacity * inside * 255);
+  }
+  return out;
+}
@@ -0,0 +1,323 @@
+/**
+ * VolumeRenderer - Volume and isosurface views of the lattice for Renderer3D
+ *
+ * Adds two alternatives to the per-node spheres to the Renderer3D scene:
+ * - volume: the sampled field (see VolumeFields) is uploaded as a 3D
+ *   texture and raymarched front to back through a box around the lattice,
+ *   coloured and made transparent by the transfer function
+ * - isosurface: marching cubes surface at the transfer function's level;
+ *   for spin and local magnetisation at level 0.5 (zero) these are the
+ *   domain walls. Each side is painted with the colour of the domain
+ *   behind it, so a bubble shows its own colour from outside.
+ * Both are placed so site (x, y, z) sits where Renderer3D draws its node.
+ */
+
+import * as THREE from 'three';
+import type { Lattice } from '../core/Lattice.js';
+import {
+  buildTransferTable,
+  colormapColor,
+  sampleVolume,
+  DEFAULT_TRANSFER_FUNCTION,
+  TRANSFER_TABLE_SIZE,
+  type ScalarVolume,
+  type TransferFunction,
+  type VolumeFieldName
+} from './VolumeFields.js';
+import { extractIsosurface } from './MarchingCubes.js';
+
+export type VolumeRenderMode = 'nodes' | 'volume' | 'isosurface';
+
+/** Render mode labels for selects */
+export const VOLUME_RENDER_MODES: Record<VolumeRenderMode, string> = {
+  nodes: 'Nodes',
+  volume: 'Volume',
+  isosurface: 'Isosurface'
+};
+
+export interface VolumeSettings {
+  mode: VolumeRenderMode;
+  field: VolumeFieldName;
+  transfer: TransferFunction;
+}
+
+const VERTEX_SHADER = /* glsl */ `
+  out vec3 vOrigin;
+  out vec3 vDirection;
+
+  void main() {
+    // Ray from the camera in box coordinates ([-0.5, 0.5]³)
+    vOrigin = vec3(inverse(modelMatrix) * vec4(cameraPosition, 1.0));
+    vDirection = position - vOrigin;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+const FRAGMENT_SHADER = /* glsl */ `
+  precision highp float;
+  precision highp sampler3D;
+
+  uniform sampler3D uVolume;
+  uniform sampler2D uTransfer;
+  uniform float uStep;      // Ray step in box coordinates
+  uniform float uSampling;  // Sites per step (opacity correction)
+
+  in vec3 vOrigin;
+  in vec3 vDirection;
+  out vec4 outColor;
+
+  vec2 hitBox(vec3 origin, vec3 direction) {
+    vec3 inverseDirection = 1.0 / direction;
+    vec3 t0 = (vec3(-0.5) - origin) * inverseDirection;
+    vec3 t1 = (vec3(0.5) - origin) * inverseDirection;
+    vec3 tMin = min(t0, t1);
+    vec3 tMax = max(t0, t1);
+    return vec2(max(tMin.x, max(tMin.y, tMin.z)), min(tMax.x, min(tMax.y, tMax.z)));
+  }
+
+  void main() {
+    vec3 direction = normalize(vDirection);
+    vec2 bounds = hitBox(vOrigin, direction);
+    if (bounds.x > bounds.y) discard;
+    bounds.x = max(bounds.x, 0.0);
+
+    vec4 color = vec4(0.0);
+    for (float t = bounds.x; t < bounds.y; t += uStep) {
+      float value = texture(uVolume, vOrigin + t * direction + 0.5).r;
+      vec4 sampleColor = texture(uTransfer, vec2(value, 0.5));
+      float alpha = 1.0 - pow(1.0 - sampleColor.a, uSampling);
+      color.rgb += (1.0 - color.a) * alpha * sampleColor.rgb;
+      color.a += (1.0 - color.a) * alpha;
+      if (color.a >= 0.98) break;
+    }
+
+    if (color.a <= 0.0) discard;
+    outColor = vec4(color.rgb / color.a, color.a);
+  }
+`;
+
+export class VolumeRenderer {
+  private readonly scene: THREE.Scene;
+  private mode: VolumeRenderMode = 'nodes';
+  private field: VolumeFieldName = 'magnetization';
+  private transfer: TransferFunction = { ...DEFAULT_TRANSFER_FUNCTION };
+
+  // Volume mode
+  private volumeMesh: THREE.Mesh<THREE.BoxGeometry, THREE.ShaderMaterial> | null = null;
+  private volumeTexture: THREE.Data3DTexture | null = null;
+  private readonly transferTexture: THREE.DataTexture;
+
+  // Isosurface mode (front and back side share the geometry)
+  private surfaceGroup: THREE.Group | null = null;
+  private readonly surfaceMaterials: [THREE.MeshPhongMaterial, THREE.MeshPhongMaterial];
+
+  // Last sample drawn, to skip rebuilding an unchanged field
+  private lastVolume: ScalarVolume | null = null;
+  private dirty = true;
+
+  /**
+   * @param scene - Scene of the Renderer3D to draw into
+   */
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+    this.transferTexture = new THREE.DataTexture(
+      buildTransferTable(this.transfer),
+      TRANSFER_TABLE_SIZE,
+      1,
+      THREE.RGBAFormat
+    );
+    this.transferTexture.magFilter = THREE.LinearFilter;
+    this.transferTexture.minFilter = THREE.LinearFilter;
+    this.transferTexture.needsUpdate = true;
+
+    this.surfaceMaterials = [
+      new THREE.MeshPhongMaterial({ side: THREE.FrontSide, shininess: 60 }),
+      new THREE.MeshPhongMaterial({ side: THREE.BackSide, shininess: 60 })
+    ];
+    this.updateSurfaceColors();
+  }
+
+  /**
+   * Current mode, field and transfer function
+   */
+  getSettings(): VolumeSettings {
+    return { mode: this.mode, field: this.field, transfer: { ...this.transfer } };
+  }
+
+  /**
+   * Switch between nodes (nothing drawn here), volume and isosurface
+   * @param mode - Render mode
+   */
+  setMode(mode: VolumeRenderMode): void {
+    if (!(mode in VOLUME_RENDER_MODES)) {
+      throw new Error(`Unknown render mode: ${mode}`);
+    }
+    this.mode = mode;
+    this.dirty = true;
+    if (this.volumeMesh) this.volumeMesh.visible = mode === 'volume';
+    if (this.surfaceGroup) this.surfaceGroup.visible = mode === 'isosurface';
+  }
+
+  /**
+   * Select the sampled field
+   * @param field - Field name
+   */
+  setField(field: VolumeFieldName): void {
+    this.field = field;
+    this.dirty = true;
+  }
+
+  /**
+   * Update part of the transfer function
+   * @param transfer - Colour map, opacity, window or iso level
+   */
+  setTransferFunction(transfer: Partial<TransferFunction>): void {
+    this.transfer = { ...this.transfer, ...transfer };
+    buildTransferTable(this.transfer, this.transferTexture.image.data as Uint8Array);
+    this.transferTexture.needsUpdate = true;
+    this.updateSurfaceColors();
+    this.dirty = true;
+  }
+
+  /**
+   * Resample the lattice and redraw the active mode
+   * @param lattice - Lattice to draw
+   */
+  update(lattice: Lattice): void {
+    if (this.mode === 'nodes') return;
+
+    const volume = sampleVolume(lattice, this.field);
+    if (!this.dirty && this.lastVolume && sameVolume(this.lastVolume, volume)) return;
+    this.lastVolume = volume;
+    this.dirty = false;
+
+    if (this.mode === 'volume') {
+      this.updateVolume(volume);
+    } else {
+      this.updateSurface(volume);
+    }
+  }
+
+  /**
+   * Upload the volume texture, rebuilding the box when the lattice size changes
+   */
+  private updateVolume(volume: ScalarVolume): void {
+    const { width, height, depth, values, min, max } = volume;
+    const texture = this.volumeTexture;
+    if (!texture || texture.image.width !== width || texture.image.height !== height || texture.image.depth !== depth) {
+      this.disposeVolume();
+      this.volumeTexture = new THREE.Data3DTexture(new Uint8Array(values.length), width, height, depth);
+      this.volumeTexture.format = THREE.RedFormat;
+      this.volumeTexture.type = THREE.UnsignedByteType;
+      this.volumeTexture.minFilter = THREE.LinearFilter;
+      this.volumeTexture.magFilter = THREE.LinearFilter;
+      this.volumeTexture.unpackAlignment = 1;
+
+      const extent = Math.max(width, height, depth);
+      const material = new THREE.ShaderMaterial({
+        glslVersion: THREE.GLSL3,
+        uniforms: {
+          uVolume: { value: this.volumeTexture },
+          uTransfer: { value: this.transferTexture },
+          uStep: { value: 0.5 / extent },
+          uSampling: { value: 0.5 }
+        },
+        vertexShader: VERTEX_SHADER,
+        fragmentShader: FRAGMENT_SHADER,
+        side: THREE.BackSide,
+        transparent: true,
+        depthWrite: false
+      });
+
+      // Texel centres on the node positions (x - width / 2)
+      this.volumeMesh = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), material);
+      this.volumeMesh.scale.set(width, height, depth);
+      this.volumeMesh.position.set(-0.5, -0.5, -0.5);
+      this.scene.add(this.volumeMesh);
+    }
+
+    const data = this.volumeTexture!.image.data as Uint8Array;
+    const scale = 255 / (max - min);
+    for (let i = 0; i < values.length; i++) {
+      data[i] = Math.round(Math.min(255, Math.max(0, (values[i] - min) * scale)));
+    }
+    this.volumeTexture!.needsUpdate = true;
+    this.volumeMesh!.visible = true;
+  }
+
+  /**
+   * Rebuild the isosurface at the transfer function's level
+   */
+  private updateSurface(volume: ScalarVolume): void {
+    const { positions, normals } = extractIsosurface(
+      volume,
+      volume.min + this.transfer.level * (volume.max - volume.min)
+    );
+
+    if (!this.surfaceGroup) {
+      const geometry = new THREE.BufferGeometry();
+      this.surfaceGroup = new THREE.Group();
+      for (const material of this.surfaceMaterials) {
+        this.surfaceGroup.add(new THREE.Mesh(geometry, material));
+      }
+      this.scene.add(this.surfaceGroup);
+    }
+
+    // Vertices are in site coordinates
+    this.surfaceGroup.position.set(-volume.width / 2, -volume.height / 2, -volume.depth / 2);
+    const geometry = (this.surfaceGroup.children[0] as THREE.Mesh).geometry;
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+    geometry.computeBoundingSphere();
+    this.surfaceGroup.visible = true;
+  }
+
+  /**
+   * Surfaces face the low side: the front shows the high end of the colour
+   * map (the domain behind it), the back the low end
+   */
+  private updateSurfaceColors(): void {
+    const [front, back] = this.surfaceMaterials;
+    front.color.setRGB(...colormapColor(this.transfer.colormap, 1));
+    back.color.setRGB(...colormapColor(this.transfer.colormap, 0));
+  }
+
+  private disposeVolume(): void {
+    if (this.volumeMesh) {
+      this.scene.remove(this.volumeMesh);
+      this.volumeMesh.geometry.dispose();
+      this.volumeMesh.material.dispose();
+      this.volumeMesh = null;
+    }
+    if (this.volumeTexture) {
+      this.volumeTexture.dispose();
+      this.volumeTexture = null;
+    }
+  }
+
+  /**
+   * Remove everything from the scene and free GPU resources
+   */
+  dispose(): void {
+    this.disposeVolume();
+    if (this.surfaceGroup) {
+      this.scene.remove(this.surfaceGroup);
+      (this.surfaceGroup.children[0] as THREE.Mesh).geometry.dispose();
+      this.surfaceGroup = null;
+    }
+    this.surfaceMaterials.forEach(material => material.dispose());
+    this.transferTexture.dispose();
+    this.lastVolume = null;
+  }
+}
+
+function sameVolume(a: ScalarVolume, b: ScalarVolume): boolean {
+  if (a.values.length !== b.values.length || a.width !== b.width || a.height !== b.height ||
+      a.min !== b.min || a.max !== b.max || a.wrap.some((wrap, axis) => wrap !== b.wrap[axis])) {
+    return false;
+  }
+  for (let i = 0; i < a.values.length; i++) {
+    if (a.values[i] !== b.values[i]) return false;
+  }
+  return true;
+}
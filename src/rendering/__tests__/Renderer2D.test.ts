@@ -0,0 +1,53 @@
+/**
+ * Tests for Renderer2D slice and projection views
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { Renderer2D } from '../Renderer2D.js';
+import { Lattice } from '../../core/Lattice.js';
+import { STATE_CODES } from '../../core/LatticeStorage.js';
+
+// Views only need the canvas size; nothing is drawn
+const canvas = { width: 800, height: 600, getContext: () => ({}) } as unknown as HTMLCanvasElement;
+
+describe('Renderer2D views', () => {
+  test('should map slices of each plane to lattice sites', () => {
+    const lattice = new Lattice(4, 5, 6);
+    const renderer = new Renderer2D(canvas);
+
+    renderer.setView({ plane: 'xz', slice: 9 });
+    const grid = renderer.getViewGrid(lattice);
+    expect(grid).toMatchObject({ width: 4, height: 6, depth: 5, slice: 4 });
+    expect(renderer.viewToSite(grid, 1, 2, grid.slice)).toEqual({ x: 1, y: 4, z: 2 });
+
+    renderer.setView({ plane: 'yz', slice: 3 });
+    const spacing = renderer.calculateSpacing(lattice);
+    const site = renderer.screenToLattice(spacing.offsetX + 2 * spacing.cellSize, spacing.offsetY + 5 * spacing.cellSize, lattice);
+    expect(site).toEqual({ x: 3, y: 2, z: 5 });
+
+    expect(() => renderer.setView({ plane: 'xw' })).toThrow('Unknown slice plane');
+  });
+
+  test('should project columns along the slice normal', () => {
+    const lattice = new Lattice(3, 3, 4);
+    const { spins, E_asym, states } = lattice.storage;
+    spins.fill(1);
+    states.fill(STATE_CODES.vacuum);
+    E_asym.fill(0);
+    spins[lattice.getIndex(1, 1, 0)] = -1;
+    states[lattice.getIndex(1, 1, 2)] = STATE_CODES.anomalous;
+    states[lattice.getIndex(1, 1, 3)] = STATE_CODES.anomalous;
+    E_asym[lattice.getIndex(2, 0, 1)] = -0.75;
+
+    const renderer = new Renderer2D(canvas);
+    const project = (mode: string) => {
+      renderer.setView({ plane: 'xy', mode });
+      return renderer.computeProjection(lattice, renderer.getViewGrid(lattice));
+    };
+
+    expect(project('meanSpin').values[1 * 3 + 1]).toBeCloseTo(0.5);
+    expect(project('maxAsym')).toMatchObject({ max: 0.75 });
+    expect(project('maxAsym').values[0 * 3 + 2]).toBeCloseTo(0.75);
+    expect(Array.from(project('anomalyCount').values)).toEqual([0, 0, 0, 0, 2, 0, 0, 0, 0]);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Tests for the WebGL2 2D renderer's palette and fallback
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { RendererGL2D, getPaletteUniforms } from '../RendererGL2D.js';
+import { ColorScheme } from '../ColorScheme.js';
+
+describe('RendererGL2D', () => {
+  test('should pass the colour scheme palette to the shader', () => {
+    const colorScheme = new ColorScheme('light');
+    const state = getPaletteUniforms(colorScheme);
+    expect(state.mode).toBe(0);
+    // vacuum #4A90E2, broken #F5A623, anomalous #E74C3C
+    expect(Array.from(state.colors.slice(0, 9)).map(c => Math.round(c * 255))).toEqual([74, 144, 226, 245, 166, 35, 231, 76, 60]);
+
+    colorScheme.setPalette('energy');
+    const energy = getPaletteUniforms(colorScheme);
+    expect(energy.mode).toBe(1);
+    expect(Math.round(energy.colors[9] * 255)).toBe(0xE7);
+  });
+
+  test('should report missing WebGL2 so callers fall back to Canvas', () => {
+    // No DOM here: the support check fails instead of throwing
+    expect(RendererGL2D.isSupported()).toBe(false);
+
+    const canvas = { getContext: () => null } as unknown as HTMLCanvasElement;
+    expect(() => new RendererGL2D(canvas)).toThrow('WebGL2 is not available');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Tests for the volume fields, transfer function and isosurfaces
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { buildTransferTable, localMagnetization, sampleVolume, DEFAULT_TRANSFER_FUNCTION } from '../VolumeFields.js';
+import { extractIsosurface } from '../MarchingCubes.js';
+import { Lattice } from '../../core/Lattice.js';
+
+function slab(lattice: Lattice): Lattice {
+  for (let z = 0; z < lattice.depth; z++) {
+    for (let y = 0; y < lattice.height; y++) {
+      for (let x = 0; x < lattice.width; x++) {
+        lattice.storage.spins[lattice.getIndex(x, y, z)] = x < 2 ? 1 : -1;
+      }
+    }
+  }
+  return lattice;
+}
+
+describe('Volume rendering', () => {
+  test('should sample fields through the boundary conditions', () => {
+    const lattice = slab(new Lattice(4, 3, 3, undefined, 'periodic'));
+    expect(localMagnetization(lattice)[lattice.getIndex(1, 1, 1)]).toBeCloseTo(1 / 3);
+    expect(localMagnetization(lattice)[lattice.getIndex(0, 1, 1)]).toBeCloseTo(1 / 3);
+
+    lattice.setBoundary({ x: 'antiperiodic', y: 'periodic', z: 'periodic' });
+    expect(localMagnetization(lattice)[lattice.getIndex(0, 1, 1)]).toBeCloseTo(1);
+    expect(sampleVolume(lattice, 'spin').wrap).toEqual([false, true, true]);
+
+    lattice.storage.E_asym.fill(0);
+    lattice.storage.E_asym[5] = -0.5;
+    expect(sampleVolume(lattice, 'E_asym')).toMatchObject({ min: 0, max: 0.5 });
+
+    const table = buildTransferTable({ ...DEFAULT_TRANSFER_FUNCTION, opacity: 1, low: 0.5, high: 1 });
+    expect(table[3]).toBe(0);
+    expect(table[255 * 4 + 3]).toBe(255);
+    expect(Array.from(table.slice(255 * 4, 255 * 4 + 3))).toEqual([181, 5, 38]);
+  });
+
+  test('should extract domain walls, closed across periodic edges', () => {
+    const lattice = slab(new Lattice(4, 3, 3, undefined, 'periodic'));
+    lattice.setBoundary('open');
+    const open = extractIsosurface(sampleVolume(lattice, 'spin'), 0);
+    expect(open.triangles).toBe(8);
+    for (let v = 0; v < open.triangles * 3; v++) {
+      expect(open.positions[v * 3]).toBeCloseTo(1.5);
+      expect(Array.from(open.normals.slice(v * 3, v * 3 + 3))).toEqual([1, 0, 0]);
+    }
+
+    // The wrapped wall between x = 3 and x = 0 faces the other way
+    lattice.setBoundary('periodic');
+    const periodic = extractIsosurface(sampleVolume(lattice, 'spin'), 0);
+    expect(periodic.triangles).toBe(2 * 2 * 3 * 3);
+    const walls = new Set<number>();
+    for (let v = 0; v < periodic.triangles * 3; v++) {
+      walls.add(periodic.positions[v * 3]);
+      expect(periodic.normals[v * 3]).toBe(periodic.positions[v * 3] === 1.5 ? 1 : -1);
+    }
+    expect([...walls].sort()).toEqual([1.5, 3.5]);
+  });
+});
@@ -90,6 +90,18 @@ export class AnalyticsDashboard {
               <canvas id="phase-chart"></canvas>
             </div>
 
+            <!-- Spatial Correlation -->
+            <div class="dashboard-card chart-card">
+              <h4>Correlation Function C(r)</h4>
+              <canvas id="correlation-chart"></canvas>
+            </div>
+
+            <!-- Structure Factor -->
+            <div class="dashboard-card chart-card">
+              <h4>Structure Factor S(q)</h4>
+              <canvas id="structure-factor-chart"></canvas>
+            </div>
+
             <!-- Detailed Statistics -->
             <div class="dashboard-card detailed-stats-card">
               <h4>Detailed Metrics</h4>
@@ -144,6 +156,10 @@ export class AnalyticsDashboard {
 
     // Phase Diagram (Scatter)
     this.createPhaseChart();
+
+    // Spatial Correlation and Structure Factor (Line)
+    this.createCorrelationChart();
+    this.createStructureFactorChart();
   }
 
   createEnergyChart() {
@@ -333,6 +349,111 @@ export class AnalyticsDashboard {
     this.charts.set('phase', chart);
   }
 
+  createCorrelationChart() {
+    const canvas = document.getElementById('correlation-chart');
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    const chart = new Chart(ctx, {
+      type: 'line',
+      data: {
+        labels: [],
+        datasets: [{
+          label: 'Spin',
+          data: [],
+          borderColor: 'rgba(0, 188, 212, 1)',
+          borderWidth: 2,
+          pointRadius: 2,
+          tension: 0
+        }, {
+          label: 'State',
+          data: [],
+          borderColor: 'rgba(255, 152, 0, 1)',
+          borderWidth: 2,
+          borderDash: [4, 3],
+          pointRadius: 2,
+          tension: 0
+        }]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        scales: {
+          y: {
+            suggestedMin: 0,
+            suggestedMax: 1,
+            title: {
+              display: true,
+              text: 'C(r) / C(0)'
+            }
+          },
+          x: {
+            title: {
+              display: true,
+              text: 'Distance r'
+            }
+          }
+        },
+        plugins: {
+          legend: {
+            display: true
+          }
+        }
+      }
+    });
+
+    this.charts.set('correlation', chart);
+  }
+
+  createStructureFactorChart() {
+    const canvas = document.getElementById('structure-factor-chart');
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    const chart = new Chart(ctx, {
+      type: 'line',
+      data: {
+        labels: [],
+        datasets: [{
+          label: 'Spin S(q)',
+          data: [],
+          borderColor: 'rgba(103, 58, 183, 1)',
+          backgroundColor: 'rgba(103, 58, 183, 0.1)',
+          borderWidth: 2,
+          fill: true,
+          pointRadius: 2,
+          tension: 0
+        }]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        scales: {
+          y: {
+            beginAtZero: true,
+            title: {
+              display: true,
+              text: 'S(q)'
+            }
+          },
+          x: {
+            title: {
+              display: true,
+              text: '|q|'
+            }
+          }
+        },
+        plugins: {
+          legend: {
+            display: false
+          }
+        }
+      }
+    });
+
+    this.charts.set('structureFactor', chart);
+  }
+
   attachEventListeners() {
     // Layout selector
     const layoutSelector = document.getElementById('layout-selector');
@@ -420,7 +541,11 @@ export class AnalyticsDashboard {
       elements.propagationRate.textContent = metrics.anomalies.propagationRate.toFixed(3);
     }
     if (elements.correlationLength) {
-      elements.correlationLength.textContent = metrics.correlationLength.toFixed(2);
+      const { correlationLength, correlationLengthError } = metrics;
+      const length = Number.isFinite(correlationLength) ? correlationLength.toFixed(2) : '∞';
+      elements.correlationLength.textContent = correlationLengthError !== null && Number.isFinite(correlationLengthError)
+        ? `${length} ± ${correlationLengthError.toFixed(2)}`
+        : length;
     }
   }
 
@@ -471,6 +596,24 @@ export class AnalyticsDashboard {
       phaseChart.data.datasets[0].data = points;
       phaseChart.update('none');
     }
+
+    // Update Correlation Function and Structure Factor Charts
+    const correlation = this.metrics.getCorrelation();
+    const correlationChart = this.charts.get('correlation');
+    if (correlationChart && correlation) {
+      correlationChart.data.labels = correlation.spin.r;
+      correlationChart.data.datasets[0].data = correlation.spin.correlation;
+      correlationChart.data.datasets[1].data = correlation.state.correlation;
+      correlationChart.update('none');
+    }
+
+    const structureFactorChart = this.charts.get('structureFactor');
+    if (structureFactorChart && correlation) {
+      // q = 0 holds the mean field (Bragg peak) and would flatten the curve
+      structureFactorChart.data.labels = correlation.spin.q.slice(1).map(q => q.toFixed(2));
+      structureFactorChart.data.datasets[0].data = correlation.spin.structureFactor.slice(1);
+      structureFactorChart.update('none');
+    }
   }
 
   changeLayout(layout) {
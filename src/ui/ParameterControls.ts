@@ -1,10 +1,28 @@
 /**
  * ParameterControls - Scientific parameter controls for TDS simulation
- * Provides sliders and inputs for J, E_0, tolerance, and other physics parameters
+ * Provides sliders and inputs for J (optionally per axis), h, E_0, tolerance, and other physics parameters,
+ * plus the initial condition picker (inputs generated from the registry's parameter specs)
  */
 
+import {
+  InitialConditionSpec,
+  InitialConditionParamSpec,
+  BitmapData,
+  WaveComponent,
+  getInitialCondition,
+  listInitialConditions,
+  resolveInitialCondition
+} from '../core/InitialConditions.js';
+
+/** Imported images are downscaled to at most this many pixels per side */
+const MAX_BITMAP_SIZE = 128;
+
 export interface TDSParameters {
   J: number;              // Coupling strength
+  Jx?: number;            // Per-axis coupling overrides (undefined = J)
+  Jy?: number;
+  Jz?: number;
+  h: number;              // External field
   E_0: number;            // Total conserved energy
   tolerance: number;      // Conservation tolerance
   k_x: number;            // Wave number
@@ -15,12 +33,19 @@ export interface ParameterChangeCallback {
   (params: TDSParameters): void;
 }
 
+export interface InitialConditionChangeCallback {
+  (condition: InitialConditionSpec): void;
+}
+
 export class ParameterControls {
   private params: TDSParameters;
   private onChange: ParameterChangeCallback | null = null;
+  private initialCondition: InitialConditionSpec;
+  private onInitialConditionChange: InitialConditionChangeCallback | null = null;
 
-  constructor(initialParams: TDSParameters) {
+  constructor(initialParams: TDSParameters, initialCondition: InitialConditionSpec = { id: 'cosine', params: {} }) {
     this.params = { ...initialParams };
+    this.initialCondition = resolveInitialCondition(initialCondition);
   }
 
   /**
@@ -51,6 +76,46 @@ export class ParameterControls {
           <div style="font-size: 11px; color: #888; margin-top: 3px;">
             Controls spin alignment interaction strength
           </div>
+          <div style="display: flex; gap: 6px; margin-top: 8px;">
+            ${(['Jx', 'Jy', 'Jz'] as const).map(key => `
+              <label style="flex: 1; font-size: 11px; color: #aaa;">
+                ${key}
+                <input 
+                  type="number" 
+                  id="${key.toLowerCase()}-input" 
+                  step="0.1" 
+                  placeholder="J" 
+                  value="${this.params[key] ?? ''}"
+                  style="width: 100%; padding: 3px; background: #0f3460; color: #ccc; border: 1px solid #2c5f8d; border-radius: 4px; font-size: 11px;"
+                />
+              </label>
+            `).join('')}
+          </div>
+          <div style="font-size: 11px; color: #888; margin-top: 3px;">
+            Anisotropic coupling per axis (blank = J)
+          </div>
+        </div>
+
+        <!-- External Field h -->
+        <div style="margin-bottom: 15px;">
+          <div style="display: flex; justify-content: space-between; margin-bottom: 5px;">
+            <label style="font-size: 13px; color: #ccc;">
+              <strong>h</strong> (External Field)
+            </label>
+            <span id="h-value" style="font-family: monospace; color: #4CAF50; font-size: 13px;">${this.params.h.toFixed(2)}</span>
+          </div>
+          <input 
+            type="range" 
+            id="h-slider" 
+            min="-1.0" 
+            max="1.0" 
+            step="0.05" 
+            value="${this.params.h}"
+            style="width: 100%; cursor: pointer;"
+          />
+          <div style="font-size: 11px; color: #888; margin-top: 3px;">
+            Favors spins aligned with +1 (h &gt; 0) or -1 (h &lt; 0)
+          </div>
         </div>
 
         <!-- Total Energy E_0 -->
@@ -141,6 +206,27 @@ export class ParameterControls {
           </div>
         </div>
 
+        <!-- Initial Condition -->
+        <div style="margin-top: 15px; padding-top: 15px; border-top: 1px solid #0f3460;">
+          <label for="ic-select" style="display: block; font-size: 13px; color: #ccc; margin-bottom: 5px;">
+            <strong>Initial Condition</strong>
+          </label>
+          <select id="ic-select" style="width: 100%; padding: 6px; background: #0f3460; color: #ccc; border: 1px solid #2c5f8d; border-radius: 4px; font-size: 12px;">
+            ${listInitialConditions().map(def => `
+              <option value="${def.id}" ${def.id === this.initialCondition.id ? 'selected' : ''}>${def.label}</option>
+            `).join('')}
+          </select>
+          <div id="ic-params" style="margin-top: 10px;">
+            ${this.createInitialConditionParamsHTML()}
+          </div>
+          <button 
+            id="apply-ic-btn" 
+            style="width: 100%; margin-top: 10px; padding: 8px; background: #4CAF50; color: white; border: none; border-radius: 4px; cursor: pointer; font-size: 12px; transition: all 0.2s;"
+          >
+            ▶ Apply Initial Condition
+          </button>
+        </div>
+
         <!-- Reset to defaults -->
         <div style="margin-top: 15px; padding-top: 15px; border-top: 1px solid #0f3460;">
           <button 
@@ -168,6 +254,26 @@ export class ParameterControls {
       this.notifyChange();
     });
 
+    // Per-axis coupling inputs (blank falls back to J)
+    for (const key of ['Jx', 'Jy', 'Jz'] as const) {
+      const input = document.getElementById(`${key.toLowerCase()}-input`) as HTMLInputElement;
+      input?.addEventListener('change', () => {
+        const value = parseFloat(input.value);
+        this.params[key] = Number.isFinite(value) ? value : undefined;
+        this.notifyChange();
+      });
+    }
+
+    // h slider
+    const hSlider = document.getElementById('h-slider') as HTMLInputElement;
+    const hValue = document.getElementById('h-value');
+    hSlider?.addEventListener('input', (e) => {
+      const value = parseFloat((e.target as HTMLInputElement).value);
+      this.params.h = value;
+      if (hValue) hValue.textContent = value.toFixed(2);
+      this.notifyChange();
+    });
+
     // E_0 slider
     const e0Slider = document.getElementById('e0-slider') as HTMLInputElement;
     const e0Value = document.getElementById('e0-value');
@@ -214,6 +320,199 @@ export class ParameterControls {
     resetBtn?.addEventListener('click', () => {
       this.resetToDefaults();
     });
+
+    // Initial condition picker
+    const icSelect = document.getElementById('ic-select') as HTMLSelectElement;
+    icSelect?.addEventListener('change', () => {
+      this.initialCondition = resolveInitialCondition({ id: icSelect.value, params: {} });
+      const paramsEl = document.getElementById('ic-params');
+      if (paramsEl) paramsEl.innerHTML = this.createInitialConditionParamsHTML();
+      this.attachBitmapListener();
+    });
+    this.attachBitmapListener();
+
+    const applyIcBtn = document.getElementById('apply-ic-btn');
+    applyIcBtn?.addEventListener('click', () => {
+      this.readInitialConditionInputs();
+      if (this.onInitialConditionChange) {
+        this.onInitialConditionChange(this.getInitialCondition());
+      }
+    });
+  }
+
+  /**
+   * Create inputs for the selected initial condition's parameters
+   */
+  private createInitialConditionParamsHTML(): string {
+    const definition = getInitialCondition(this.initialCondition.id);
+    if (!definition) return '';
+
+    const inputStyle = 'width: 100%; padding: 4px; background: #0f3460; color: #ccc; border: 1px solid #2c5f8d; border-radius: 4px; font-family: monospace; font-size: 12px;';
+    const rows = definition.params.map(spec => {
+      const id = `ic-param-${spec.key}`;
+      const value = this.initialCondition.params[spec.key];
+      let input: string;
+
+      switch (spec.type) {
+        case 'boolean':
+          input = `<input type="checkbox" id="${id}" ${value ? 'checked' : ''} />`;
+          break;
+        case 'choice':
+          input = `<select id="${id}" style="${inputStyle}">
+            ${(spec.options ?? []).map(option => `<option value="${option}" ${option === value ? 'selected' : ''}>${option}</option>`).join('')}
+          </select>`;
+          break;
+        case 'waves':
+          input = `<textarea id="${id}" rows="3" style="${inputStyle}">${ParameterControls.formatWaves(value as WaveComponent[])}</textarea>`;
+          break;
+        case 'bitmap': {
+          const image = value as BitmapData | null;
+          input = `<input type="file" id="${id}" accept="image/*" style="font-size: 11px; color: #ccc;" />
+            <span id="${id}-info" style="font-size: 11px; color: #888;">${image ? `${image.width}×${image.height}` : 'No image'}</span>`;
+          break;
+        }
+        default:
+          input = `<input type="number" id="${id}" value="${value}" ${spec.min !== undefined ? `min="${spec.min}"` : ''} ${spec.max !== undefined ? `max="${spec.max}"` : ''} ${spec.step !== undefined ? `step="${spec.step}"` : ''} style="${inputStyle}" />`;
+      }
+
+      return `
+        <div style="margin-bottom: 8px;">
+          <label for="${id}" style="display: block; font-size: 12px; color: #ccc; margin-bottom: 3px;">${spec.label}</label>
+          ${input}
+          ${spec.description ? `<div style="font-size: 11px; color: #888; margin-top: 2px;">${spec.description}</div>` : ''}
+        </div>
+      `;
+    });
+
+    return `
+      <div style="font-size: 11px; color: #888; margin-bottom: 8px;">${definition.description}</div>
+      ${rows.join('')}
+    `;
+  }
+
+  /**
+   * Read the parameter inputs into the current initial condition
+   */
+  private readInitialConditionInputs(): void {
+    const definition = getInitialCondition(this.initialCondition.id);
+    if (!definition) return;
+
+    const params = { ...this.initialCondition.params };
+    definition.params.forEach((spec: InitialConditionParamSpec) => {
+      const el = document.getElementById(`ic-param-${spec.key}`) as HTMLInputElement | null;
+      if (!el) return;
+
+      switch (spec.type) {
+        case 'number':
+        case 'integer': {
+          const value = spec.type === 'integer' ? parseInt(el.value, 10) : parseFloat(el.value);
+          if (!isNaN(value)) params[spec.key] = value;
+          break;
+        }
+        case 'boolean':
+          params[spec.key] = el.checked;
+          break;
+        case 'choice':
+          params[spec.key] = el.value;
+          break;
+        case 'waves':
+          params[spec.key] = ParameterControls.parseWaves(el.value);
+          break;
+        case 'bitmap':
+          // Set by the file input listener
+          break;
+      }
+    });
+
+    this.initialCondition = { id: this.initialCondition.id, params };
+  }
+
+  /**
+   * Load images picked in a bitmap parameter input
+   */
+  private attachBitmapListener(): void {
+    const definition = getInitialCondition(this.initialCondition.id);
+    definition?.params
+      .filter(spec => spec.type === 'bitmap')
+      .forEach(spec => {
+        const input = document.getElementById(`ic-param-${spec.key}`) as HTMLInputElement | null;
+        input?.addEventListener('change', async () => {
+          const file = input.files?.[0];
+          if (!file) return;
+          try {
+            const image = await ParameterControls.loadBitmap(file);
+            this.initialCondition.params[spec.key] = image;
+            const info = document.getElementById(`ic-param-${spec.key}-info`);
+            if (info) info.textContent = `${image.width}×${image.height}`;
+          } catch (error) {
+            console.error('Failed to load image:', error);
+          }
+        });
+      });
+  }
+
+  /**
+   * Decode an image file to grayscale values in [0, 1]
+   */
+  private static async loadBitmap(file: Blob): Promise<BitmapData> {
+    const bitmap = await window.createImageBitmap(file);
+    const scale = Math.min(1, MAX_BITMAP_SIZE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('2D canvas is not available');
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+    const data: number[] = [];
+    for (let i = 0; i < pixels.length; i += 4) {
+      const luma = (0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2]) / 255;
+      data.push(Math.round(luma * 1000) / 1000);
+    }
+
+    return { width, height, data };
+  }
+
+  /**
+   * Format waves as "kx, ky, kz, amplitude, phase" lines
+   */
+  private static formatWaves(waves: WaveComponent[]): string {
+    return waves.map(w => [w.kx, w.ky, w.kz, w.amplitude, w.phase].join(', ')).join('\n');
+  }
+
+  /**
+   * Parse "kx, ky, kz[, amplitude[, phase]]" lines (invalid lines are skipped)
+   */
+  private static parseWaves(text: string): WaveComponent[] {
+    return text
+      .split('\n')
+      .map(line => line.split(',').map(part => parseFloat(part.trim())))
+      .filter(values => values.length >= 3 && values.slice(0, 3).every(v => !isNaN(v)))
+      .map(([kx, ky, kz, amplitude, phase]) => ({
+        kx,
+        ky,
+        kz,
+        amplitude: amplitude === undefined || isNaN(amplitude) ? 1 : amplitude,
+        phase: phase === undefined || isNaN(phase) ? 0 : phase
+      }));
+  }
+
+  /**
+   * Set initial condition callback (called when "Apply" is pressed)
+   */
+  setOnInitialConditionChange(callback: InitialConditionChangeCallback): void {
+    this.onInitialConditionChange = callback;
+  }
+
+  /**
+   * Get the selected initial condition
+   */
+  getInitialCondition(): InitialConditionSpec {
+    return { id: this.initialCondition.id, params: { ...this.initialCondition.params } };
   }
 
   /**
@@ -238,6 +537,7 @@ export class ParameterControls {
   private resetToDefaults(): void {
     this.params = {
       J: 1.0,
+      h: 0,
       E_0: 1.0,
       tolerance: 1e-6,
       k_x: 6,
@@ -250,6 +550,16 @@ export class ParameterControls {
     if (jSlider) jSlider.value = this.params.J.toString();
     if (jValue) jValue.textContent = this.params.J.toFixed(2);
 
+    for (const key of ['Jx', 'Jy', 'Jz'] as const) {
+      const input = document.getElementById(`${key.toLowerCase()}-input`) as HTMLInputElement;
+      if (input) input.value = '';
+    }
+
+    const hSlider = document.getElementById('h-slider') as HTMLInputElement;
+    const hValue = document.getElementById('h-value');
+    if (hSlider) hSlider.value = this.params.h.toString();
+    if (hValue) hValue.textContent = this.params.h.toFixed(2);
+
     const e0Slider = document.getElementById('e0-slider') as HTMLInputElement;
     const e0Value = document.getElementById('e0-value');
     if (e0Slider) e0Slider.value = this.params.E_0.toString();
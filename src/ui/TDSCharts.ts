@@ -4,6 +4,8 @@
  */
 
 import { Chart, ChartConfiguration, registerables } from 'chart.js';
+import type { SpectrumSummary } from '../analytics/SpectrumAnalyzer.js';
+import type { DomainSample } from '../analytics/DomainAnalyzer.js';
 
 // Register Chart.js components
 Chart.register(...registerables);
@@ -19,10 +21,18 @@ export interface TDSDataPoint {
   A_kx: number;
 }
 
+/** Lowest power shown on the logarithmic spectrum axis */
+const SPECTRUM_FLOOR = 1e-6;
+
 export class TDSCharts {
   private energyChart: Chart | null = null;
   private conservationChart: Chart | null = null;
+  private spectrumChart: Chart | null = null;
+  private domainChart: Chart | null = null;
+  private lastSpectrumSequence = -1;
+  private lastDomainStep = -1;
   private dataHistory: TDSDataPoint[] = [];
+  private domainHistory: DomainSample[] = [];
   private readonly maxDataPoints = 100;
 
   /**
@@ -280,6 +290,278 @@ export class TDSCharts {
     this.conservationChart = new Chart(canvas, config);
   }
 
+  /**
+   * Initialize power spectrum chart P(k_x) (log scale)
+   */
+  initSpectrumChart(canvasId: string): void {
+    const canvas = document.getElementById(canvasId) as HTMLCanvasElement;
+    if (!canvas) return;
+
+    const config: ChartConfiguration = {
+      type: 'bar',
+      data: {
+        labels: [],
+        datasets: [
+          {
+            label: 'P(k_x)',
+            data: [],
+            backgroundColor: 'rgba(186, 104, 200, 0.6)',
+            borderColor: '#BA68C8',
+            borderWidth: 1
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: false,
+        plugins: {
+          legend: {
+            display: false
+          },
+          title: {
+            display: true,
+            text: 'Power spectrum P(k_x)',
+            color: '#ccc',
+            font: {
+              family: 'sans-serif',
+              size: 13,
+              weight: 'normal'
+            }
+          },
+          tooltip: {
+            backgroundColor: 'rgba(0, 0, 0, 0.8)',
+            titleColor: '#BA68C8',
+            bodyColor: '#ccc',
+            borderColor: '#BA68C8',
+            borderWidth: 1,
+            callbacks: {
+              label: (context) => `P: ${context.parsed.y?.toExponential(2) ?? '0'}`
+            }
+          }
+        },
+        scales: {
+          x: {
+            display: true,
+            title: {
+              display: true,
+              text: 'k_x',
+              color: '#888',
+              font: {
+                family: 'monospace',
+                size: 11
+              }
+            },
+            ticks: {
+              color: '#888',
+              font: {
+                family: 'monospace',
+                size: 10
+              }
+            },
+            grid: {
+              color: 'rgba(255, 255, 255, 0.05)'
+            }
+          },
+          y: {
+            type: 'logarithmic',
+            display: true,
+            min: SPECTRUM_FLOOR,
+            max: 1,
+            title: {
+              display: true,
+              text: 'Power',
+              color: '#888',
+              font: {
+                family: 'monospace',
+                size: 11
+              }
+            },
+            ticks: {
+              color: '#888',
+              font: {
+                family: 'monospace',
+                size: 10
+              }
+            },
+            grid: {
+              color: 'rgba(255, 255, 255, 0.1)'
+            }
+          }
+        }
+      }
+    };
+
+    this.spectrumChart = new Chart(canvas, config);
+  }
+
+  /**
+   * Initialize domain chart (wall density, domain and bubble counts)
+   */
+  initDomainChart(canvasId: string): void {
+    const canvas = document.getElementById(canvasId) as HTMLCanvasElement;
+    if (!canvas) return;
+
+    const axisStyle = (text: string) => ({
+      display: true,
+      text,
+      color: '#888',
+      font: {
+        family: 'monospace',
+        size: 11
+      }
+    });
+    const tickStyle = {
+      color: '#888',
+      font: {
+        family: 'monospace',
+        size: 10
+      }
+    };
+
+    const config: ChartConfiguration = {
+      type: 'line',
+      data: {
+        labels: [],
+        datasets: [
+          {
+            label: 'Wall density',
+            data: [],
+            borderColor: '#FF7043',
+            backgroundColor: 'rgba(255, 112, 67, 0.1)',
+            borderWidth: 2,
+            pointRadius: 0,
+            tension: 0,
+            yAxisID: 'y'
+          },
+          {
+            label: 'Domains',
+            data: [],
+            borderColor: '#26C6DA',
+            borderWidth: 1.5,
+            pointRadius: 0,
+            tension: 0,
+            yAxisID: 'y1'
+          },
+          {
+            label: 'Bubbles',
+            data: [],
+            borderColor: '#FFCA28',
+            borderWidth: 1.5,
+            borderDash: [4, 3],
+            pointRadius: 0,
+            tension: 0,
+            yAxisID: 'y1'
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: false,
+        plugins: {
+          legend: {
+            display: true,
+            position: 'top',
+            labels: {
+              color: '#ccc',
+              font: {
+                family: 'monospace',
+                size: 11
+              },
+              usePointStyle: true
+            }
+          },
+          title: {
+            display: true,
+            text: 'Domain walls and topology',
+            color: '#ccc',
+            font: {
+              family: 'sans-serif',
+              size: 13,
+              weight: 'normal'
+            }
+          },
+          tooltip: {
+            mode: 'index',
+            intersect: false,
+            backgroundColor: 'rgba(0, 0, 0, 0.8)',
+            titleColor: '#FF7043',
+            bodyColor: '#ccc',
+            borderColor: '#FF7043',
+            borderWidth: 1
+          }
+        },
+        scales: {
+          x: {
+            display: true,
+            title: axisStyle('Step'),
+            ticks: tickStyle,
+            grid: {
+              color: 'rgba(255, 255, 255, 0.05)'
+            }
+          },
+          y: {
+            display: true,
+            position: 'left',
+            min: 0,
+            title: axisStyle('Walls / bond'),
+            ticks: tickStyle,
+            grid: {
+              color: 'rgba(255, 255, 255, 0.1)'
+            }
+          },
+          y1: {
+            display: true,
+            position: 'right',
+            min: 0,
+            title: axisStyle('Count'),
+            ticks: tickStyle,
+            grid: {
+              drawOnChartArea: false
+            }
+          }
+        }
+      }
+    };
+
+    this.domainChart = new Chart(canvas, config);
+  }
+
+  /**
+   * Update domain chart (one point per analyzed step)
+   */
+  updateDomains(sample: DomainSample): void {
+    if (!this.domainChart || sample.step === this.lastDomainStep) return;
+
+    this.lastDomainStep = sample.step;
+    this.domainHistory.push(sample);
+    if (this.domainHistory.length > this.maxDataPoints) {
+      this.domainHistory.shift();
+    }
+
+    this.domainChart.data.labels = this.domainHistory.map(d => String(d.step));
+    this.domainChart.data.datasets[0].data = this.domainHistory.map(d => d.wallDensity);
+    this.domainChart.data.datasets[1].data = this.domainHistory.map(d => d.domainCount);
+    this.domainChart.data.datasets[2].data = this.domainHistory.map(d => d.bubbles);
+
+    this.domainChart.update('none');
+  }
+
+  /**
+   * Update spectrum chart (skips summaries that were already drawn)
+   */
+  updateSpectrum(summary: SpectrumSummary): void {
+    if (!this.spectrumChart || summary.sequence === this.lastSpectrumSequence) return;
+
+    this.lastSpectrumSequence = summary.sequence;
+    this.spectrumChart.data.labels = summary.k.map(k => String(k));
+    // Empty modes would vanish on the log axis
+    this.spectrumChart.data.datasets[0].data = summary.power.map(p => Math.max(p, SPECTRUM_FLOOR));
+
+    this.spectrumChart.update('none');
+  }
+
   /**
    * Update charts with new data point
    */
@@ -348,6 +630,21 @@ export class TDSCharts {
       });
       this.conservationChart.update();
     }
+    if (this.spectrumChart) {
+      this.lastSpectrumSequence = -1;
+      this.spectrumChart.data.labels = [];
+      this.spectrumChart.data.datasets[0].data = [];
+      this.spectrumChart.update();
+    }
+    if (this.domainChart) {
+      this.lastDomainStep = -1;
+      this.domainHistory = [];
+      this.domainChart.data.labels = [];
+      this.domainChart.data.datasets.forEach(dataset => {
+        dataset.data = [];
+      });
+      this.domainChart.update();
+    }
   }
 
   /**
@@ -362,5 +659,13 @@ export class TDSCharts {
       this.conservationChart.destroy();
       this.conservationChart = null;
     }
+    if (this.spectrumChart) {
+      this.spectrumChart.destroy();
+      this.spectrumChart = null;
+    }
+    if (this.domainChart) {
+      this.domainChart.destroy();
+      this.domainChart = null;
+    }
   }
 }
@@ -2,7 +2,7 @@
 /* eslint-disable */
 /**
  * Timeline Component
- * Manages playback controls, history scrubbing, and bookmarks
+ * Manages playback controls, history scrubbing, branches and bookmarks
  */
 export class Timeline {
   constructor(simulation) {
@@ -102,6 +102,14 @@ export class Timeline {
             <p class="empty-message">No bookmarks yet. Click 🔖 to add one!</p>
           </div>
         </div>
+
+        <div class="bookmarks-panel" id="branches-panel">
+          <div class="bookmarks-header">
+            <h4>Branches</h4>
+          </div>
+          <div class="bookmarks-list" id="branches-list"></div>
+          <div class="branch-compare" id="branch-compare"></div>
+        </div>
       </div>
     `;
   }
@@ -245,8 +253,11 @@ export class Timeline {
 
   stepBackward() {
     this.pause();
-    if (this.simulation && this.simulation.history.length > 0) {
-      this.simulation.restorePreviousState();
+    if (this.simulation) {
+      const { currentIndex } = this.simulation.getHistoryInfo();
+      if (currentIndex > 0) {
+        this.simulation.seekToStep(currentIndex - 1);
+      }
     }
     this.update();
   }
@@ -254,9 +265,7 @@ export class Timeline {
   seek(timeIndex) {
     if (!this.simulation) return;
 
-    const history = this.simulation.history;
-    if (timeIndex >= 0 && timeIndex < history.length) {
-      this.simulation.restoreState(timeIndex);
+    if (this.simulation.seekToStep(timeIndex)) {
       this.update();
     }
   }
@@ -278,17 +287,18 @@ export class Timeline {
     if (!this.simulation) return;
 
     const currentTime = this.simulation.time;
-    const currentIndex = this.simulation.history.length - 1;
 
     if (!description) {
       description = prompt('Enter bookmark description:', `Bookmark at t=${currentTime.toFixed(2)}`);
       if (!description) return;
     }
 
+    // The simulation keeps the history index in sync when old history is evicted
+    const simulationBookmark = this.simulation.addBookmark(description);
     const bookmark = {
-      id: Date.now(),
+      id: simulationBookmark.id,
+      branchId: simulationBookmark.branchId,
       time: currentTime,
-      index: currentIndex,
       description: description,
       timestamp: new Date().toLocaleString()
     };
@@ -299,15 +309,15 @@ export class Timeline {
   }
 
   removeBookmark(bookmarkId) {
+    this.simulation?.removeBookmark(bookmarkId);
     this.bookmarks = this.bookmarks.filter(b => b.id !== bookmarkId);
     this.renderBookmarks();
     this.renderBookmarkMarkers();
   }
 
   jumpToBookmark(bookmarkId) {
-    const bookmark = this.bookmarks.find(b => b.id === bookmarkId);
-    if (bookmark) {
-      this.seek(bookmark.index);
+    if (this.simulation && this.simulation.jumpToBookmark(bookmarkId)) {
+      this.update();
     }
   }
 
@@ -320,11 +330,14 @@ export class Timeline {
       return;
     }
 
+    const branchNames = new Map(this.simulation.getBranches().map(b => [b.id, b.name]));
+
     bookmarksList.innerHTML = this.bookmarks.map(bookmark => `
       <div class="bookmark-item" data-id="${bookmark.id}">
         <div class="bookmark-info">
           <div class="bookmark-description">${bookmark.description}</div>
           <div class="bookmark-meta">
+            <span class="bookmark-branch">${branchNames.get(bookmark.branchId) ?? ''}</span>
             <span class="bookmark-time">t=${bookmark.time.toFixed(2)}</span>
             <span class="bookmark-timestamp">${bookmark.timestamp}</span>
           </div>
@@ -360,11 +373,21 @@ export class Timeline {
     const bookmarksContainer = document.getElementById('timeline-bookmarks');
     if (!bookmarksContainer || !this.simulation) return;
 
-    const maxIndex = this.simulation.history.length - 1;
-    if (maxIndex <= 0) return;
+    const { historyLength, branchId } = this.simulation.getHistoryInfo();
+    const maxIndex = historyLength - 1;
+
+    // Bookmarks whose history was evicted are gone from the simulation
+    const indices = new Map(this.simulation.getBookmarks().map(b => [b.id, b.historyIndex]));
+    this.bookmarks = this.bookmarks.filter(b => indices.has(b.id));
+
+    if (maxIndex <= 0) {
+      bookmarksContainer.innerHTML = '';
+      return;
+    }
 
-    bookmarksContainer.innerHTML = this.bookmarks.map(bookmark => {
-      const position = (bookmark.index / maxIndex) * 100;
+    // Only bookmarks on the active branch sit on the track
+    bookmarksContainer.innerHTML = this.bookmarks.filter(b => b.branchId === branchId).map(bookmark => {
+      const position = (indices.get(bookmark.id) / maxIndex) * 100;
       return `
         <div 
           class="bookmark-marker" 
@@ -384,6 +407,102 @@ export class Timeline {
     });
   }
 
+  switchBranch(branchId) {
+    this.pause();
+    if (this.simulation && this.simulation.switchBranch(branchId)) {
+      this.update();
+    }
+  }
+
+  renameBranch(branchId) {
+    const branch = this.simulation?.getBranches().find(b => b.id === branchId);
+    if (!branch) return;
+
+    const name = prompt('Branch name:', branch.name);
+    if (name && this.simulation.renameBranch(branchId, name)) {
+      this.renderBranches();
+      this.renderBookmarks();
+    }
+  }
+
+  /**
+   * Delete a branch and the branches forked from it (frees their history)
+   */
+  deleteBranch(branchId) {
+    const branch = this.simulation?.getBranches().find(b => b.id === branchId);
+    if (!branch || !confirm(`Delete branch "${branch.name}" and the branches forked from it?`)) return;
+
+    if (this.simulation.deleteBranch(branchId)) {
+      this.update();
+      this.renderBookmarks();
+    }
+  }
+
+  /**
+   * Show the final-state statistics of a branch against its parent's
+   */
+  compareWithParent(branchId) {
+    const branch = this.simulation?.getBranches().find(b => b.id === branchId);
+    const compareEl = document.getElementById('branch-compare');
+    if (!branch || branch.parentId === null || !compareEl) return;
+
+    this.pause();
+    const comparison = this.simulation.compareBranches(branch.parentId, branchId);
+    if (!comparison) return;
+
+    const { a, b, diff } = comparison;
+    const rows = ['vacuum', 'broken', 'anomalous', 'totalE_sym', 'totalE_asym', 'T_info', 'phaseCoherence'];
+    compareEl.innerHTML = `
+      <div class="branch-compare-header">${b.name} (step ${b.stepCount}) − ${a.name} (step ${a.stepCount})</div>
+      ${rows.map(key => `
+        <div class="branch-compare-row">
+          <span>${key}</span>
+          <span>${diff[key] >= 0 ? '+' : ''}${diff[key].toFixed(3)}</span>
+        </div>
+      `).join('')}
+    `;
+    this.update();
+  }
+
+  renderBranches() {
+    const branchesList = document.getElementById('branches-list');
+    if (!branchesList || !this.simulation) return;
+
+    const { branchId } = this.simulation.getHistoryInfo();
+    const branches = this.simulation.getBranches();
+    const names = new Map(branches.map(b => [b.id, b.name]));
+
+    branchesList.innerHTML = branches.map(branch => `
+      <div class="bookmark-item${branch.id === branchId ? ' active' : ''}" data-id="${branch.id}">
+        <div class="bookmark-info">
+          <div class="bookmark-description">${branch.name}</div>
+          <div class="bookmark-meta">
+            <span>${branch.parentId === null ? 'root' : `from ${names.get(branch.parentId)}`}</span>
+            <span>${branch.length} steps</span>
+          </div>
+        </div>
+        <div class="bookmark-actions">
+          <button class="bookmark-action-btn switch-branch-btn" data-id="${branch.id}" title="Switch to branch">↗</button>
+          <button class="bookmark-action-btn rename-branch-btn" data-id="${branch.id}" title="Rename branch">✎</button>
+          ${branch.parentId === null ? '' : `<button class="bookmark-action-btn compare-branch-btn" data-id="${branch.id}" title="Compare with parent">⇄</button>`}
+          ${branch.parentId === null || branch.id === branchId ? '' : `<button class="bookmark-action-btn delete-branch-btn" data-id="${branch.id}" title="Delete branch">✕</button>`}
+        </div>
+      </div>
+    `).join('');
+
+    const actions = [
+      ['.switch-branch-btn', id => this.switchBranch(id)],
+      ['.rename-branch-btn', id => this.renameBranch(id)],
+      ['.compare-branch-btn', id => this.compareWithParent(id)],
+      ['.delete-branch-btn', id => this.deleteBranch(id)]
+    ];
+    for (const [selector, action] of actions) {
+      branchesList.querySelectorAll(selector).forEach(btn => {
+        btn.addEventListener('click', (e) => action(parseInt(e.target.dataset.id)));
+      });
+    }
+  }
+
   toggleBookmarksPanel() {
     const panel = document.getElementById('bookmarks-list');
     const toggleBtn = document.getElementById('toggle-bookmarks-btn');
@@ -403,6 +522,8 @@ export class Timeline {
       this.bookmarks = [];
       this.renderBookmarks();
       this.renderBookmarkMarkers();
+      const compareEl = document.getElementById('branch-compare');
+      if (compareEl) compareEl.innerHTML = '';
       this.update();
     }
   }
@@ -411,8 +532,7 @@ export class Timeline {
     if (!this.simulation) return;
 
     const currentTime = this.simulation.time;
-    const historyLength = this.simulation.history.length;
-    const currentIndex = historyLength - 1;
+    const { historyLength, currentIndex } = this.simulation.getHistoryInfo();
 
     // Update time display
     const currentTimeEl = document.getElementById('current-time');
@@ -423,7 +543,7 @@ export class Timeline {
     }
     
     if (maxTimeEl && historyLength > 0) {
-      const maxTime = this.simulation.history[historyLength - 1].time || currentTime;
+      const maxTime = this.simulation.getHistoryEntry(historyLength - 1)?.time || currentTime;
       maxTimeEl.textContent = maxTime.toFixed(2);
     }
 
@@ -441,8 +561,9 @@ export class Timeline {
       progress.style.width = `${percentage}%`;
     }
 
-    // Update bookmark markers
+    // Update bookmark markers and branches
     this.renderBookmarkMarkers();
+    this.renderBranches();
   }
 
   updatePlayIcon() {
@@ -337,6 +337,15 @@ export class DataExporter {
     `;
   }
 
+  /**
+   * Download a blob (recordings and other binary exports)
+   */
+  static downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    this.downloadURL(url, filename);
+    URL.revokeObjectURL(url);
+  }
+
   /**
    * Download file with given content
    */
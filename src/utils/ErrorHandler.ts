@@ -421,11 +421,14 @@ export class ErrorHandler {
 
   /**
    * Check if WebGL is supported
+   * @param version - 1 for WebGL, 2 for WebGL2
    */
-  static isWebGLSupported(): boolean {
+  static isWebGLSupported(version: 1 | 2 = 1): boolean {
     try {
       const canvas = document.createElement('canvas');
-      const gl = canvas.getContext('webgl') || canvas.getContext('experimental-webgl');
+      const gl = version === 2
+        ? canvas.getContext('webgl2')
+        : canvas.getContext('webgl') || canvas.getContext('experimental-webgl');
       return !!gl;
     } catch {
       return false;
@@ -0,0 +1,189 @@
+/**
+ * GifEncoder - Animated GIF (89a) encoding of RGBA frames
+ *
+ * Every frame is quantized to one fixed colour cube (6 red × 7 green × 6
+ * blue levels, 252 colours), written once as the global colour table, and
+ * LZW compressed as it is added, so only the compressed frames are kept
+ * in memory. The animation loops forever unless a loop count is given.
+ */
+
+const RED_LEVELS = 6;
+const GREEN_LEVELS = 7;
+const BLUE_LEVELS = 6;
+const MIN_CODE_SIZE = 8;  // 256-entry colour table
+const MAX_CODE = 4096;    // LZW codes are at most 12 bits
+
+export interface GifOptions {
+  delay?: number;   // Frame duration in ms (default 100; GIF stores 1/100 s)
+  loop?: number;    // Repetitions (default 0: forever)
+}
+
+/**
+ * Palette index of an RGB colour in the colour cube
+ */
+export function quantizeColor(r: number, g: number, b: number): number {
+  const ri = Math.round((r * (RED_LEVELS - 1)) / 255);
+  const gi = Math.round((g * (GREEN_LEVELS - 1)) / 255);
+  const bi = Math.round((b * (BLUE_LEVELS - 1)) / 255);
+  return (ri * GREEN_LEVELS + gi) * BLUE_LEVELS + bi;
+}
+
+/**
+ * Colour table of the cube, padded to 256 entries (RGB bytes)
+ */
+function buildColorTable(): Uint8Array {
+  const table = new Uint8Array(256 * 3);
+  for (let ri = 0; ri < RED_LEVELS; ri++) {
+    for (let gi = 0; gi < GREEN_LEVELS; gi++) {
+      for (let bi = 0; bi < BLUE_LEVELS; bi++) {
+        const index = (ri * GREEN_LEVELS + gi) * BLUE_LEVELS + bi;
+        table[index * 3] = Math.round((ri * 255) / (RED_LEVELS - 1));
+        table[index * 3 + 1] = Math.round((gi * 255) / (GREEN_LEVELS - 1));
+        table[index * 3 + 2] = Math.round((bi * 255) / (BLUE_LEVELS - 1));
+      }
+    }
+  }
+  return table;
+}
+
+/**
+ * LZW-compress palette indices into GIF image data
+ * (minimum code size byte, then sub-blocks of up to 255 bytes, then a terminator)
+ */
+export function lzwEncode(indices: Uint8Array): Uint8Array {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const emit = (code: number): void => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      bytes.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      // Table full: start over
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = MIN_CODE_SIZE + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) bytes.push(bitBuffer & 0xff);
+
+  const blocks = [MIN_CODE_SIZE];
+  for (let i = 0; i < bytes.length; i += 255) {
+    const block = bytes.slice(i, i + 255);
+    blocks.push(block.length, ...block);
+  }
+  blocks.push(0);
+  return Uint8Array.from(blocks);
+}
+
+export class GifEncoder {
+  private readonly width: number;
+  private readonly height: number;
+  private readonly delay: number;
+  private readonly loop: number;
+  private readonly frames: Uint8Array[] = [];
+
+  /**
+   * @param width - Frame width in pixels
+   * @param height - Frame height in pixels
+   * @param options - Frame delay and loop count
+   */
+  constructor(width: number, height: number, options: GifOptions = {}) {
+    if (width < 1 || height < 1 || width > 0xffff || height > 0xffff) {
+      throw new Error(`Invalid GIF size: ${width}×${height}`);
+    }
+    this.width = width;
+    this.height = height;
+    this.delay = Math.max(0, Math.round((options.delay ?? 100) / 10));
+    this.loop = options.loop ?? 0;
+  }
+
+  /**
+   * Quantize, compress and keep one frame
+   * @param rgba - width × height RGBA pixels (alpha is ignored)
+   */
+  addFrame(rgba: Uint8Array | Uint8ClampedArray): void {
+    const pixels = this.width * this.height;
+    if (rgba.length < pixels * 4) {
+      throw new Error(`Frame has ${rgba.length / 4} pixels, expected ${pixels}`);
+    }
+    const indices = new Uint8Array(pixels);
+    for (let i = 0; i < pixels; i++) {
+      indices[i] = quantizeColor(rgba[i * 4], rgba[i * 4 + 1], rgba[i * 4 + 2]);
+    }
+    this.frames.push(lzwEncode(indices));
+  }
+
+  /**
+   * Frames added so far
+   */
+  getFrameCount(): number {
+    return this.frames.length;
+  }
+
+  /**
+   * Assemble the GIF file
+   */
+  finish(): Uint8Array {
+    const word = (value: number): number[] => [value & 0xff, (value >> 8) & 0xff];
+    const header = [
+      ...Array.from('GIF89a', c => c.charCodeAt(0)),
+      // Logical screen: global colour table of 2^(7 + 1) entries
+      ...word(this.width), ...word(this.height), 0xf7, 0, 0,
+      ...buildColorTable(),
+      // NETSCAPE2.0 loop extension
+      0x21, 0xff, 0x0b, ...Array.from('NETSCAPE2.0', c => c.charCodeAt(0)), 0x03, 0x01, ...word(this.loop), 0x00
+    ];
+
+    const parts: ArrayLike<number>[] = [header];
+    for (const frame of this.frames) {
+      parts.push(
+        // Graphic control: frame delay, no transparency
+        [0x21, 0xf9, 0x04, 0x00, ...word(this.delay), 0x00, 0x00],
+        // Image descriptor: full frame, global colour table
+        [0x2c, 0, 0, 0, 0, ...word(this.width), ...word(this.height), 0x00],
+        frame
+      );
+    }
+    parts.push([0x3b]);
+
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      output.set(part, offset);
+      offset += part.length;
+    }
+    return output;
+  }
+}
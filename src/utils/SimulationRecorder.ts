@@ -0,0 +1,317 @@
+/**
+ * SimulationRecorder - Video and image-sequence recording of simulation runs
+ *
+ * Frames are taken from a renderer canvas (Renderer2D, RendererGL2D or
+ * Renderer3D) every `stepInterval` simulation steps of the displayed state,
+ * independent of the wall-clock frame rate. Each frame can carry the energy
+ * chart in a strip below the lattice and a step/time overlay. On stop the
+ * frames are written as:
+ * - webm: replayed at `fps` through MediaRecorder, so the video runs at a
+ *   fixed rate however fast the simulation was
+ * - png:  a numbered PNG sequence (frame-00000.png, ...) in a ZIP archive
+ * - gif:  an animated GIF encoded in-app (see GifEncoder)
+ * PNG and WebM frames are kept as PNG blobs, GIF frames are compressed as
+ * they are captured. WebGL canvases keep no drawing buffer between frames,
+ * so capture right after the renderer has drawn (in the same task).
+ */
+
+import { GifEncoder } from './GifEncoder.js';
+import { createZip } from './ZipWriter.js';
+
+export type RecordingFormat = 'webm' | 'png' | 'gif';
+
+/** Format labels for selects */
+export const RECORDING_FORMATS: Record<RecordingFormat, string> = {
+  webm: 'WebM video',
+  png: 'PNG sequence (ZIP)',
+  gif: 'Animated GIF'
+};
+
+export interface RecorderOptions {
+  format?: RecordingFormat;   // Default webm
+  stepInterval?: number;      // Simulation steps between frames (default 10)
+  fps?: number;               // Playback rate of the output (default 15)
+  includeChart?: boolean;     // Energy chart below the lattice (default true)
+  includeOverlay?: boolean;   // Step and time in the corner (default true)
+  maxFrames?: number;         // Recording stops capturing after this many (default 1000)
+}
+
+export interface FrameInfo {
+  step: number;
+  time: number;
+}
+
+export interface RecordedFile {
+  filename: string;
+  blob: Blob;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RecordingLayout {
+  width: number;
+  height: number;
+  lattice: Rect;
+  chart: Rect | null;
+}
+
+/** Largest share of the lattice height given to the chart strip */
+const CHART_STRIP_RATIO = 0.35;
+const BACKGROUND = '#0f3460';
+const CHART_BACKGROUND = '#16213e';
+
+/**
+ * Frame layout: the source canvas on top and the chart, scaled to fit a
+ * strip below it with its aspect ratio kept. Sizes are rounded up to even
+ * numbers, as video encoders require.
+ * @param source - Renderer canvas size
+ * @param chart - Chart canvas size (null: no chart)
+ */
+export function getRecordingLayout(
+  source: { width: number; height: number },
+  chart: { width: number; height: number } | null
+): RecordingLayout {
+  const even = (value: number): number => Math.ceil(value / 2) * 2;
+  const width = even(source.width);
+  const lattice = { x: 0, y: 0, width: source.width, height: source.height };
+  if (!chart || chart.width <= 0 || chart.height <= 0) {
+    return { width, height: even(source.height), lattice, chart: null };
+  }
+
+  const stripHeight = Math.round(Math.min(width * chart.height / chart.width, source.height * CHART_STRIP_RATIO));
+  const chartWidth = Math.round(stripHeight * chart.width / chart.height);
+  return {
+    width,
+    height: even(source.height + stripHeight),
+    lattice,
+    chart: { x: Math.round((width - chartWidth) / 2), y: source.height, width: chartWidth, height: stripHeight }
+  };
+}
+
+/**
+ * First step at or after `step` on the capture grid start + k × interval
+ */
+export function nextCaptureStep(start: number, interval: number, step: number): number {
+  if (step <= start) return start;
+  return start + Math.ceil((step - start) / interval) * interval;
+}
+
+export class SimulationRecorder {
+  private readonly options: Required<RecorderOptions>;
+  private recording = false;
+  private startStep = 0;
+  private nextStep = 0;
+  private frameCount = 0;
+  private frames: Promise<Blob | null>[] = [];
+  private gif: GifEncoder | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private layout: RecordingLayout | null = null;
+
+  /**
+   * Whether this browser can write the format
+   */
+  static isFormatSupported(format: RecordingFormat): boolean {
+    if (format !== 'webm') return true;
+    return typeof MediaRecorder !== 'undefined' && SimulationRecorder.getWebMType() !== null;
+  }
+
+  private static getWebMType(): string | null {
+    const types = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+    return types.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+  }
+
+  constructor(options: RecorderOptions = {}) {
+    this.options = {
+      format: options.format ?? 'webm',
+      stepInterval: Math.max(1, Math.floor(options.stepInterval ?? 10)),
+      fps: Math.max(1, options.fps ?? 15),
+      includeChart: options.includeChart !== false,
+      includeOverlay: options.includeOverlay !== false,
+      maxFrames: Math.max(1, options.maxFrames ?? 1000)
+    };
+  }
+
+  /**
+   * Start recording; the first frame is the one at `step`
+   * @param step - Step of the displayed state
+   */
+  start(step: number): void {
+    if (!SimulationRecorder.isFormatSupported(this.options.format)) {
+      throw new Error(`${RECORDING_FORMATS[this.options.format]} recording is not supported by this browser`);
+    }
+    this.recording = true;
+    this.startStep = step;
+    this.nextStep = step;
+    this.frameCount = 0;
+    this.frames = [];
+    this.gif = null;
+    this.layout = null;
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  getOptions(): Required<RecorderOptions> {
+    return { ...this.options };
+  }
+
+  /**
+   * Whether the state at `step` is the next frame to capture
+   */
+  isDue(step: number): boolean {
+    return this.recording && step >= this.nextStep && this.frameCount < this.options.maxFrames;
+  }
+
+  /**
+   * Capture a frame if one is due at this step
+   * @param source - Renderer canvas, just drawn
+   * @param info - Step and time of the drawn state
+   * @param chart - Chart canvas for the strip below (ignored without includeChart)
+   * @returns Whether a frame was captured
+   */
+  capture(source: HTMLCanvasElement, info: FrameInfo, chart: HTMLCanvasElement | null = null): boolean {
+    if (!this.isDue(info.step) || source.width === 0 || source.height === 0) return false;
+
+    // All frames share the first frame's layout (sources are scaled into it)
+    if (!this.layout) {
+      this.layout = getRecordingLayout(source, this.options.includeChart ? chart : null);
+    }
+    const layout = this.layout;
+    const ctx = this.prepareCanvas(layout);
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, layout.width, layout.height);
+    ctx.drawImage(source, layout.lattice.x, layout.lattice.y, layout.lattice.width, layout.lattice.height);
+    if (chart && layout.chart) {
+      ctx.fillStyle = CHART_BACKGROUND;
+      ctx.fillRect(0, layout.chart.y, layout.width, layout.chart.height);
+      ctx.drawImage(chart, layout.chart.x, layout.chart.y, layout.chart.width, layout.chart.height);
+    }
+    if (this.options.includeOverlay) {
+      this.drawOverlay(ctx, info);
+    }
+
+    if (this.options.format === 'gif') {
+      if (!this.gif) {
+        this.gif = new GifEncoder(layout.width, layout.height, { delay: 1000 / this.options.fps });
+      }
+      this.gif.addFrame(ctx.getImageData(0, 0, layout.width, layout.height).data);
+    } else {
+      // toBlob copies the canvas now, so the canvas can be reused at once
+      const canvas = this.canvas!;
+      this.frames.push(new Promise(resolve => canvas.toBlob(resolve, 'image/png')));
+    }
+
+    this.frameCount++;
+    this.nextStep = nextCaptureStep(this.startStep, this.options.stepInterval, info.step + 1);
+    return true;
+  }
+
+  /**
+   * Stop recording and write the captured frames
+   * @returns The recording, or null if no frame was captured
+   */
+  async stop(): Promise<RecordedFile | null> {
+    this.recording = false;
+    if (this.frameCount === 0) return null;
+
+    const name = `tds-recording-${new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5)}`;
+    switch (this.options.format) {
+      case 'gif':
+        return { filename: `${name}.gif`, blob: new Blob([this.gif!.finish() as BlobPart], { type: 'image/gif' }) };
+      case 'png':
+        return { filename: `${name}.zip`, blob: await this.encodePNGSequence() };
+      case 'webm':
+        return { filename: `${name}.webm`, blob: await this.encodeWebM() };
+    }
+  }
+
+  /**
+   * Composite canvas, sized to the frame layout
+   */
+  private prepareCanvas(layout: RecordingLayout): CanvasRenderingContext2D {
+    if (!this.canvas) {
+      this.canvas = document.createElement('canvas');
+    }
+    if (this.canvas.width !== layout.width || this.canvas.height !== layout.height) {
+      this.canvas.width = layout.width;
+      this.canvas.height = layout.height;
+    }
+    return this.canvas.getContext('2d', { willReadFrequently: this.options.format === 'gif' })!;
+  }
+
+  private drawOverlay(ctx: CanvasRenderingContext2D, info: FrameInfo): void {
+    const text = `step ${info.step}   t = ${info.time.toFixed(2)}`;
+    const size = Math.max(12, Math.round(ctx.canvas.width / 50));
+    ctx.save();
+    ctx.font = `${size}px monospace`;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.fillRect(8, 8, ctx.measureText(text).width + size, size * 1.6);
+    ctx.fillStyle = '#ffffff';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, 8 + size / 2, 8 + size * 0.8);
+    ctx.restore();
+  }
+
+  private async collectFrames(): Promise<Blob[]> {
+    const frames = await Promise.all(this.frames);
+    this.frames = [];
+    return frames.filter((frame): frame is Blob => frame !== null);
+  }
+
+  private async encodePNGSequence(): Promise<Blob> {
+    const frames = await this.collectFrames();
+    const entries = await Promise.all(frames.map(async (frame, i) => ({
+      name: `frame-${String(i).padStart(5, '0')}.png`,
+      data: new Uint8Array(await frame.arrayBuffer())
+    })));
+    return new Blob([createZip(entries) as BlobPart], { type: 'application/zip' });
+  }
+
+  /**
+   * Play the frames into a MediaRecorder at the configured rate
+   */
+  private async encodeWebM(): Promise<Blob> {
+    const frames = await this.collectFrames();
+    const canvas = document.createElement('canvas');
+    canvas.width = this.canvas!.width;
+    canvas.height = this.canvas!.height;
+    const ctx = canvas.getContext('2d')!;
+    const mimeType = SimulationRecorder.getWebMType()!;
+    const stream = canvas.captureStream(this.options.fps);
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+
+    const frameTime = 1000 / this.options.fps;
+    recorder.start();
+    const started = window.performance.now();
+    for (let i = 0; i < frames.length; i++) {
+      const bitmap = await window.createImageBitmap(frames[i]);
+      ctx.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      // Hold each frame until the next one is due
+      const wait = started + (i + 1) * frameTime - window.performance.now();
+      await new Promise(resolve => setTimeout(resolve, Math.max(0, wait)));
+    }
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(track => track.stop());
+
+    return new Blob(chunks, { type: 'video/webm' });
+  }
+}
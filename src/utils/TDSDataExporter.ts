@@ -5,6 +5,8 @@
 
 import { Simulation } from '../core/Simulation.js';
 import { Lattice } from '../core/Lattice.js';
+import type { InitialConditionSpec } from '../core/InitialConditions.js';
+import { analyzeDomains, DomainSample } from '../analytics/DomainAnalyzer.js';
 
 export interface TDSTimeSeriesData {
   time: number;
@@ -18,6 +20,12 @@ export interface TDSTimeSeriesData {
   brokenCount: number;
   anomalousCount: number;
   conservationDeviation: number;
+  wallDensity: number;    // Anti-aligned bonds per bond
+  domainCount: number;
+  largestDomain: number;
+  eulerUp: number;        // Euler characteristic of the +1 phase
+  eulerDown: number;      // Euler characteristic of the -1 phase
+  bubbleCount: number;    // Domains of the minority spin
 }
 
 export interface TDSExportMetadata {
@@ -26,6 +34,10 @@ export interface TDSExportMetadata {
   latticeSize: { width: number; height: number; depth: number };
   parameters: {
     J: number;
+    Jx?: number;
+    Jy?: number;
+    Jz?: number;
+    h?: number;
     E_0: number;
     tolerance: number;
     k_x: number;
@@ -33,6 +45,7 @@ export interface TDSExportMetadata {
   };
   totalSteps: number;
   dataPoints: number;
+  initialCondition?: InitialConditionSpec;
 }
 
 export class TDSDataExporter {
@@ -43,31 +56,58 @@ export class TDSDataExporter {
    * Record current simulation state
    */
   recordDataPoint(simulation: Simulation, lattice: Lattice): void {
-    const state = simulation.getState();
+    this.addDataPoint(
+      TDSDataExporter.createDataPoint(lattice, simulation.time, simulation.stepCount)
+    );
+  }
+
+  /**
+   * Record a data point computed elsewhere (e.g. in the simulation worker)
+   */
+  addDataPoint(dataPoint: TDSTimeSeriesData): void {
+    this.timeSeriesData.push(dataPoint);
+
+    // Keep only last N points
+    if (this.timeSeriesData.length > this.maxDataPoints) {
+      this.timeSeriesData.shift();
+    }
+  }
+
+  /**
+   * Build a time series data point from the current lattice state
+   * @param domains - Domain analysis already done for this step (e.g. AdvancedAnalytics.getDomains), reused if its step matches
+   */
+  static createDataPoint(
+    lattice: Lattice,
+    time: number,
+    stepCount: number,
+    domains: DomainSample | null = null
+  ): TDSTimeSeriesData {
     const stats = lattice.getStatistics();
     const energies = lattice.calculateTotalEnergy();
-    const tInfo = lattice.calculateT_info(1.0);
+    if (domains?.step !== stepCount) {
+      domains = analyzeDomains(lattice, stepCount);
+    }
 
-    const dataPoint: TDSTimeSeriesData = {
-      time: state.time,
-      stepCount: state.stepCount,
+    return {
+      time,
+      stepCount,
       E_sym: energies.E_sym,
       E_asym: energies.E_asym,
       E_0: energies.E_0,
-      T_info: tInfo,
+      T_info: stats.T_info,
       phaseCoherence: stats.phaseCoherence || 0,
       vacuumCount: stats.vacuum,
       brokenCount: stats.broken,
       anomalousCount: stats.anomalous,
-      conservationDeviation: Math.abs((energies.E_sym + energies.E_asym) - energies.E_0)
+      conservationDeviation: Math.abs((energies.E_sym + energies.E_asym) - energies.E_0),
+      wallDensity: domains.wallDensity,
+      domainCount: domains.domainCount,
+      largestDomain: domains.largestDomain,
+      eulerUp: domains.eulerUp,
+      eulerDown: domains.eulerDown,
+      bubbleCount: domains.bubbles
     };
-
-    this.timeSeriesData.push(dataPoint);
-
-    // Keep only last N points
-    if (this.timeSeriesData.length > this.maxDataPoints) {
-      this.timeSeriesData.shift();
-    }
   }
 
   /**
@@ -79,15 +119,25 @@ export class TDSDataExporter {
     csv += `# Simulation Version: ${metadata.simulationVersion}\n`;
     csv += `# Lattice Size: ${metadata.latticeSize.width}×${metadata.latticeSize.height}×${metadata.latticeSize.depth}\n`;
     csv += `# Parameters: J=${metadata.parameters.J}, E_0=${metadata.parameters.E_0}, ε=${metadata.parameters.tolerance}\n`;
+    const { Jx, Jy, Jz, h } = metadata.parameters;
+    if (Jx !== undefined || Jy !== undefined || Jz !== undefined) {
+      csv += `# Anisotropy: Jx=${Jx ?? metadata.parameters.J}, Jy=${Jy ?? metadata.parameters.J}, Jz=${Jz ?? metadata.parameters.J}\n`;
+    }
+    if (h !== undefined) {
+      csv += `# External field: h=${h}\n`;
+    }
     csv += `# Total Steps: ${metadata.totalSteps}, Data Points: ${metadata.dataPoints}\n`;
+    if (metadata.initialCondition) {
+      csv += `# Initial Condition: ${metadata.initialCondition.id} ${JSON.stringify(metadata.initialCondition.params)}\n`;
+    }
     csv += '#\n';
     
     // Header
-    csv += 'time,step,E_sym,E_asym,E_0,T_info,phase_coherence,vacuum_count,broken_count,anomalous_count,conservation_deviation\n';
+    csv += 'time,step,E_sym,E_asym,E_0,T_info,phase_coherence,vacuum_count,broken_count,anomalous_count,conservation_deviation,wall_density,domain_count,largest_domain,euler_up,euler_down,bubble_count\n';
     
     // Data rows
     this.timeSeriesData.forEach(d => {
-      csv += `${d.time.toFixed(3)},${d.stepCount},${d.E_sym.toFixed(6)},${d.E_asym.toFixed(6)},${d.E_0.toFixed(6)},${d.T_info.toFixed(6)},${d.phaseCoherence.toFixed(6)},${d.vacuumCount},${d.brokenCount},${d.anomalousCount},${d.conservationDeviation.toExponential(6)}\n`;
+      csv += `${d.time.toFixed(3)},${d.stepCount},${d.E_sym.toFixed(6)},${d.E_asym.toFixed(6)},${d.E_0.toFixed(6)},${d.T_info.toFixed(6)},${d.phaseCoherence.toFixed(6)},${d.vacuumCount},${d.brokenCount},${d.anomalousCount},${d.conservationDeviation.toExponential(6)},${d.wallDensity.toFixed(6)},${d.domainCount},${d.largestDomain},${d.eulerUp},${d.eulerDown},${d.bubbleCount}\n`;
     });
     
     return csv;
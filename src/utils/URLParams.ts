@@ -10,6 +10,7 @@ interface SimulationState {
   anomalyProbability?: number;
   interactionRange?: number;
   timeStep?: number;
+  seed?: number;
   [key: string]: unknown;
 }
 
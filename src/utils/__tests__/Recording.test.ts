@@ -0,0 +1,96 @@
+/**
+ * Tests for the recording encoders and frame scheduling
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { GifEncoder, lzwEncode, quantizeColor } from '../GifEncoder.js';
+import { crc32, createZip } from '../ZipWriter.js';
+import { getRecordingLayout, nextCaptureStep } from '../SimulationRecorder.js';
+
+/**
+ * Reference GIF LZW decoder (minimum code size 8)
+ */
+function lzwDecode(data: Uint8Array): number[] {
+  const bytes: number[] = [];
+  for (let i = 1; data[i] > 0; i += data[i] + 1) {
+    bytes.push(...data.subarray(i + 1, i + 1 + data[i]));
+  }
+
+  const output: number[] = [];
+  let table: number[][] = [];
+  let codeSize = 9;
+  let previous: number[] | null = null;
+  let bit = 0;
+  for (;;) {
+    let code = 0;
+    for (let k = 0; k < codeSize; k++, bit++) {
+      code |= ((bytes[bit >> 3] >> (bit & 7)) & 1) << k;
+    }
+    if (code === 256) {
+      table = Array.from({ length: 258 }, (_, i) => [i]);
+      codeSize = 9;
+      previous = null;
+      continue;
+    }
+    if (code === 257) return output;
+
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+    output.push(...entry);
+    if (previous && table.length < 4096) {
+      table.push([...previous, entry[0]]);
+    }
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    previous = entry;
+  }
+}
+
+describe('Recording', () => {
+  test('should LZW encode GIF frames losslessly and assemble the file', () => {
+    // Noise long enough to fill the code table and clear it
+    let seed = 12345;
+    const indices = new Uint8Array(40000);
+    for (let i = 0; i < indices.length; i++) {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      indices[i] = i % 7 === 0 ? 3 : seed % 252;
+    }
+    expect(lzwDecode(lzwEncode(indices))).toEqual(Array.from(indices));
+
+    const encoder = new GifEncoder(2, 1, { delay: 50 });
+    encoder.addFrame(new Uint8Array([255, 0, 0, 255, 0, 0, 255, 255]));
+    encoder.addFrame(new Uint8Array([0, 0, 255, 255, 255, 255, 255, 255]));
+    const gif = encoder.finish();
+    expect(String.fromCharCode(...gif.subarray(0, 6))).toBe('GIF89a');
+    expect(gif[gif.length - 1]).toBe(0x3b);
+    expect(encoder.getFrameCount()).toBe(2);
+    // Last frame: image data follows the 10-byte image descriptor
+    const frame = gif.subarray(gif.lastIndexOf(0x2c, gif.length - 8) + 10, gif.length - 1);
+    expect(lzwDecode(frame)).toEqual([quantizeColor(0, 0, 255), quantizeColor(255, 255, 255)]);
+  });
+
+  test('should store files in a ZIP with CRC-32 checksums', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+
+    const data = new Uint8Array([1, 2, 3]);
+    const zip = createZip([{ name: 'frame-00000.png', data }]);
+    const view = new DataView(zip.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(Array.from(zip.subarray(45, 48))).toEqual([1, 2, 3]);
+    // End of central directory: one entry, directory right after the data
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(1);
+    expect(view.getUint32(end + 16, true)).toBe(48);
+  });
+
+  test('should schedule frames by step and fit the chart strip', () => {
+    expect(nextCaptureStep(100, 10, 90)).toBe(100);
+    expect(nextCaptureStep(100, 10, 101)).toBe(110);
+    expect(nextCaptureStep(100, 10, 127)).toBe(130);
+
+    const layout = getRecordingLayout({ width: 801, height: 600 }, { width: 400, height: 200 });
+    expect(layout.width).toBe(802);
+    expect(layout.chart).toEqual({ x: 191, y: 600, width: 420, height: 210 });
+    expect(layout.height).toBe(810);
+    expect(getRecordingLayout({ width: 800, height: 601 }, null)).toMatchObject({ height: 602, chart: null });
+  });
+});
@@ -0,0 +1,17 @@
+/**
+ * SimulationWorker - Web Worker entry point
+ *
+ * Runs SimulationWorkerHost off the UI thread. Frames are posted with their
+ * lattice buffers transferred, so no copy is made on the way back.
+ */
+
+import { SimulationWorkerHost } from './SimulationWorkerHost.js';
+import type { WorkerRequest } from './WorkerProtocol.js';
+
+const host = new SimulationWorkerHost((response, transfer = []) => {
+  self.postMessage(response, { transfer });
+});
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  void host.handleMessage(event.data);
+};
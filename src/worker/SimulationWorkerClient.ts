@@ -0,0 +1,247 @@
+/**
+ * SimulationWorkerClient - UI thread side of the simulation worker
+ *
+ * Wraps the Worker with typed requests. Frames are delivered to 'frame'
+ * listeners; snapshot, Photon Window and experiment requests return promises matched
+ * to their responses by request id.
+ */
+
+import type { ExportData } from '../core/Simulation.js';
+import type { InitialConditionSpec } from '../core/InitialConditions.js';
+import type { PerturbationSpec } from '../core/Perturbations.js';
+import type { MonteCarloConfig } from '../core/MonteCarlo.js';
+import type { PhotonWindowResult } from '../analytics/PhotonWindowTest.js';
+import type { ExperimentProtocol, ExperimentResult } from '../analytics/ExperimentRunner.js';
+import type {
+  WorkerRequest,
+  WorkerResponse,
+  WorkerInitOptions,
+  WorkerEngine,
+  WorkerFrame
+} from './WorkerProtocol.js';
+
+interface WorkerClientCallbacks {
+  ready: (() => void) | null;
+  frame: ((frame: WorkerFrame) => void) | null;
+  error: ((message: string) => void) | null;
+}
+
+interface PendingRequest {
+  resolve: (value: never) => void;
+  reject: (error: Error) => void;
+}
+
+export class SimulationWorkerClient {
+  private readonly worker: Worker;
+  private readonly callbacks: WorkerClientCallbacks = {
+    ready: null,
+    frame: null,
+    error: null
+  };
+  private readonly pending = new Map<number, PendingRequest>();
+  private nextRequestId: number = 1;
+  private awaitingFrame: boolean = false;
+
+  /**
+   * Check whether module workers can be used in this environment
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Start the worker and initialize its simulation
+   * @param options - Lattice size, parameters and engine
+   */
+  constructor(options: WorkerInitOptions) {
+    this.worker = new Worker(new URL('./SimulationWorker.ts', import.meta.url), {
+      type: 'module'
+    });
+    this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      this.handleResponse(event.data);
+    };
+    this.worker.onerror = (event: ErrorEvent) => {
+      this.awaitingFrame = false;
+      this.callbacks.error?.(event.message);
+    };
+
+    this.awaitingFrame = true;
+    this.send({ type: 'init', options });
+  }
+
+  /**
+   * Register a callback
+   */
+  on<K extends keyof WorkerClientCallbacks>(event: K, callback: WorkerClientCallbacks[K]): this {
+    this.callbacks[event] = callback;
+    return this;
+  }
+
+  /**
+   * Check whether a requested frame has not arrived yet
+   * (the render loop skips stepping until it has)
+   */
+  isBusy(): boolean {
+    return this.awaitingFrame;
+  }
+
+  /**
+   * Advance the simulation by a number of steps
+   */
+  step(count: number = 1): void {
+    this.awaitingFrame = true;
+    this.send({ type: 'step', count });
+  }
+
+  /**
+   * Run N steps in the worker, streaming a frame after each step
+   */
+  run(steps: number): void {
+    this.send({ type: 'run', steps });
+  }
+
+  /**
+   * Stop a running 'run' request
+   */
+  pause(): void {
+    this.send({ type: 'pause' });
+  }
+
+  /**
+   * Update simulation parameters, wave number, thermal settings and/or engine
+   * @param reinitialize - Re-seed the lattice with the author's cosine wave
+   */
+  setParams(update: {
+    params?: WorkerInitOptions['params'];
+    k_x?: number;
+    engine?: WorkerEngine;
+    initialCondition?: InitialConditionSpec | null;
+    thermal?: MonteCarloConfig;
+    reinitialize?: boolean;
+  }): void {
+    this.send({ type: 'setParams', ...update });
+  }
+
+  /**
+   * Reset the simulation to its seeded initial state
+   */
+  reset(): void {
+    this.send({ type: 'reset' });
+  }
+
+  /**
+   * Create an anomaly near the lattice center
+   */
+  createAnomaly(radius: number = 2, energyBoost: number = 2.0): void {
+    this.send({ type: 'anomaly', radius, energyBoost });
+  }
+
+  /**
+   * Apply a perturbation now (recorded in the worker's history)
+   */
+  applyPerturbation(spec: PerturbationSpec): void {
+    this.send({ type: 'perturb', spec });
+  }
+
+  /**
+   * Schedule a perturbation at a step count (continuous ones: for duration steps, default until cancelled)
+   */
+  schedulePerturbation(spec: PerturbationSpec, step?: number, duration?: number): void {
+    this.send({ type: 'schedulePerturbation', spec, step, duration });
+  }
+
+  /**
+   * Cancel a scheduled perturbation (no id: all of them)
+   */
+  cancelPerturbation(id?: number): void {
+    this.send({ type: 'cancelPerturbation', id });
+  }
+
+  /**
+   * Request a full simulation export
+   */
+  snapshot(): Promise<ExportData> {
+    return this.request<ExportData>(requestId => ({ type: 'snapshot', requestId }));
+  }
+
+  /**
+   * Run the Photon Window test for the active engine
+   */
+  photonTest(steps: number = 100): Promise<PhotonWindowResult> {
+    return this.request<PhotonWindowResult>(requestId => ({
+      type: 'photonTest',
+      requestId,
+      steps
+    }));
+  }
+
+  /**
+   * Run an experiment protocol headlessly in the worker (the displayed run is untouched)
+   */
+  runExperiment(protocol: ExperimentProtocol): Promise<ExperimentResult> {
+    return this.request<ExperimentResult>(requestId => ({
+      type: 'experiment',
+      requestId,
+      protocol
+    }));
+  }
+
+  /**
+   * Stop the worker and reject outstanding requests
+   */
+  terminate(): void {
+    this.worker.terminate();
+    for (const pending of this.pending.values()) {
+      pending.reject(new Error('Simulation worker terminated'));
+    }
+    this.pending.clear();
+  }
+
+  private request<T>(build: (requestId: number) => WorkerRequest): Promise<T> {
+    const requestId = this.nextRequestId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(requestId, { resolve: resolve as (value: never) => void, reject });
+      this.send(build(requestId));
+    });
+  }
+
+  private send(request: WorkerRequest): void {
+    this.worker.postMessage(request);
+  }
+
+  private handleResponse(response: WorkerResponse): void {
+    switch (response.type) {
+      case 'ready':
+        this.callbacks.ready?.();
+        break;
+      case 'frame':
+        this.awaitingFrame = false;
+        this.callbacks.frame?.(response);
+        break;
+      case 'snapshot':
+        this.settle(response.requestId, response.data);
+        break;
+      case 'photonTestResult':
+      case 'experimentResult':
+        this.settle(response.requestId, response.result);
+        break;
+      case 'error':
+        this.awaitingFrame = false;
+        if (response.requestId !== undefined && this.pending.has(response.requestId)) {
+          this.pending.get(response.requestId)!.reject(new Error(response.message));
+          this.pending.delete(response.requestId);
+        } else {
+          this.callbacks.error?.(response.message);
+        }
+        break;
+    }
+  }
+
+  private settle(requestId: number, value: unknown): void {
+    const pending = this.pending.get(requestId);
+    if (!pending) return;
+
+    this.pending.delete(requestId);
+    pending.resolve(value as never);
+  }
+}
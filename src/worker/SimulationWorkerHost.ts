@@ -0,0 +1,368 @@
+/**
+ * SimulationWorkerHost - Simulation engine side of the worker protocol
+ *
+ * Owns the Lattice, the Simulation with one instance of every PhysicsEngine,
+ * and AdvancedAnalytics, and answers WorkerRequests by posting WorkerResponses. Has no dependency on
+ * the worker global scope, so it can be driven directly in tests.
+ */
+
+import { Lattice } from '../core/Lattice.js';
+import { Simulation } from '../core/Simulation.js';
+import { AuthorPhysics } from '../core/AuthorPhysics.js';
+import { SwapDynamics } from '../core/SwapDynamics.js';
+import { MonteCarlo } from '../core/MonteCarlo.js';
+import { StochasticEngine } from '../core/StochasticEngine.js';
+import type { PhysicsEngine } from '../core/PhysicsEngine.js';
+import { AdvancedAnalytics } from '../analytics/AdvancedAnalytics.js';
+import { PhotonWindowTest } from '../analytics/PhotonWindowTest.js';
+import { ExperimentRunner } from '../analytics/ExperimentRunner.js';
+import { TDSDataExporter } from '../utils/TDSDataExporter.js';
+import {
+  WorkerRequest,
+  WorkerResponse,
+  WorkerInitOptions,
+  WorkerEngine,
+  WorkerFrame,
+  DATA_POINT_INTERVAL,
+  getTransferables
+} from './WorkerProtocol.js';
+
+/**
+ * Steps executed per chunk of a 'run' request before posting a frame and
+ * yielding to the message queue (chunks end on data point steps)
+ */
+const RUN_CHUNK_STEPS = DATA_POINT_INTERVAL;
+
+export type PostResponse = (response: WorkerResponse, transfer?: Transferable[]) => void;
+
+export class SimulationWorkerHost {
+  private readonly post: PostResponse;
+  private simulation: Simulation | null = null;
+  private authorPhysics: AuthorPhysics | null = null;
+  private monteCarlo: MonteCarlo | null = null;
+  private engines: Record<WorkerEngine, PhysicsEngine> | null = null;
+  private analytics: AdvancedAnalytics | null = null;
+  private engine: WorkerEngine = 'author';
+  private lastDataPointStep: number = -1;
+  private remainingRunSteps: number = 0;
+  private runTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Create a new host
+   * @param post - Sends a response (with optional transferables) to the UI thread
+   */
+  constructor(post: PostResponse) {
+    this.post = post;
+  }
+
+  /**
+   * Handle a request from the UI thread
+   */
+  async handleMessage(request: WorkerRequest): Promise<void> {
+    try {
+      switch (request.type) {
+        case 'init':
+          this.init(request.options);
+          this.post({ type: 'ready' });
+          this.postFrame();
+          break;
+        case 'step':
+          this.stepEngine(request.count ?? 1);
+          this.postFrame();
+          break;
+        case 'run':
+          this.startRun(request.steps);
+          break;
+        case 'pause':
+          this.stopRun();
+          this.postFrame();
+          break;
+        case 'setParams':
+          this.setParams(request);
+          this.postFrame();
+          break;
+        case 'snapshot':
+          this.post({
+            type: 'snapshot',
+            requestId: request.requestId,
+            data: this.requireSimulation().export()
+          });
+          break;
+        case 'photonTest':
+          await this.runPhotonTest(request.requestId, request.steps);
+          break;
+        case 'experiment':
+          this.post({
+            type: 'experimentResult',
+            requestId: request.requestId,
+            result: await new ExperimentRunner(request.protocol).run()
+          });
+          break;
+        case 'reset':
+          this.reset();
+          this.postFrame();
+          break;
+        case 'anomaly':
+          this.createAnomaly(request.radius ?? 2, request.energyBoost ?? 2.0);
+          this.postFrame();
+          break;
+        case 'perturb':
+          this.requireSimulation().applyPerturbation(request.spec);
+          this.postFrame();
+          break;
+        case 'schedulePerturbation':
+          this.requireSimulation().schedulePerturbation(request.spec, request.step, request.duration);
+          break;
+        case 'cancelPerturbation':
+          this.cancelPerturbations(request.id);
+          break;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const requestId = 'requestId' in request ? request.requestId : undefined;
+      this.post({ type: 'error', requestId, message });
+    }
+  }
+
+  /**
+   * Check whether a 'run' request is in progress
+   */
+  isRunning(): boolean {
+    return this.remainingRunSteps > 0;
+  }
+
+  /**
+   * Get the current step count of the active engine
+   */
+  getStepCount(): number {
+    return this.simulation?.stepCount ?? 0;
+  }
+
+  /**
+   * Build the engine from init options
+   */
+  private init(options: WorkerInitOptions): void {
+    this.stopRun();
+
+    const lattice = new Lattice(
+      options.width,
+      options.height,
+      options.depth,
+      undefined,
+      options.boundary
+    );
+
+    const stochastic = new StochasticEngine();
+    this.simulation = new Simulation(lattice, options.params, stochastic);
+    this.authorPhysics = new AuthorPhysics(lattice, options.k_x);
+    this.authorPhysics.setInitialCondition(options.initialCondition ?? null);
+    this.authorPhysics.setHamiltonian(lattice.getHamiltonian());
+    this.monteCarlo = new MonteCarlo(options.thermal, this.simulation.random);
+    this.engines = {
+      stochastic,
+      author: this.authorPhysics,
+      swap: new SwapDynamics(),
+      thermal: this.monteCarlo
+    };
+    // E_0_ref = total number of bonds (3 * N^3 for a periodic 3D lattice)
+    this.analytics = new AdvancedAnalytics({
+      kx: options.k_x,
+      latticeSize: lattice,
+      E_0_ref: lattice.getBondCount(),
+      maxLogEntries: 1500
+    });
+    this.lastDataPointStep = -1;
+    this.selectEngine(options.engine);
+    this.simulation.initializeEngine();
+  }
+
+  /**
+   * Make an engine drive the simulation
+   */
+  private selectEngine(engine: WorkerEngine): void {
+    this.engine = engine;
+    this.requireSimulation().setEngine(this.engines![engine]);
+    this.updateAnalyticsTemperature();
+  }
+
+  /**
+   * χ and C are only meaningful for the thermal engine
+   */
+  private updateAnalyticsTemperature(): void {
+    this.analytics!.setTemperature(
+      this.engine === 'thermal' ? this.monteCarlo!.getConfig().temperature : null
+    );
+  }
+
+  /**
+   * Advance the active engine and record analytics for each step
+   */
+  private stepEngine(count: number): void {
+    const simulation = this.requireSimulation();
+
+    for (let i = 0; i < count; i++) {
+      simulation.step();
+      this.analytics!.update(simulation, simulation.time);
+    }
+  }
+
+  /**
+   * Run a number of steps in chunks so 'pause' requests can interleave;
+   * one frame is posted per chunk
+   */
+  private startRun(steps: number): void {
+    this.stopRun();
+    this.remainingRunSteps = steps;
+    this.runChunk();
+  }
+
+  private runChunk(): void {
+    // Stop on the next multiple of the chunk size (either direction), so the frame carries a data point
+    const { stepCount, direction } = this.requireSimulation();
+    const offset = stepCount % RUN_CHUNK_STEPS;
+    const toBoundary = direction < 0 ? offset || RUN_CHUNK_STEPS : RUN_CHUNK_STEPS - offset;
+    const count = Math.min(toBoundary, this.remainingRunSteps);
+    this.stepEngine(count);
+    this.remainingRunSteps -= count;
+    this.postFrame();
+
+    this.runTimer = this.remainingRunSteps > 0 ? setTimeout(() => this.runChunk(), 0) : null;
+  }
+
+  private stopRun(): void {
+    if (this.runTimer !== null) {
+      clearTimeout(this.runTimer);
+      this.runTimer = null;
+    }
+    this.remainingRunSteps = 0;
+  }
+
+  /**
+   * Apply parameter, wave number and engine changes
+   */
+  private setParams(request: Extract<WorkerRequest, { type: 'setParams' }>): void {
+    const simulation = this.requireSimulation();
+
+    if (request.params) {
+      simulation.updateParameters(request.params);
+      this.authorPhysics!.setHamiltonian(simulation.lattice.getHamiltonian());
+    }
+
+    if (request.k_x !== undefined) {
+      this.authorPhysics!.setKx(request.k_x);
+      this.analytics!.setKx(request.k_x);
+    }
+
+    if (request.thermal !== undefined) {
+      this.monteCarlo!.configure(request.thermal);
+    }
+
+    if (request.engine !== undefined && request.engine !== this.engine) {
+      this.selectEngine(request.engine);
+    } else {
+      this.updateAnalyticsTemperature();
+    }
+
+    if (request.initialCondition !== undefined) {
+      this.authorPhysics!.setInitialCondition(request.initialCondition);
+    }
+
+    if (request.reinitialize) {
+      simulation.initializeEngine();
+    }
+  }
+
+  /**
+   * Reset the simulation and analytics to the seeded initial state
+   */
+  private reset(): void {
+    this.stopRun();
+
+    const simulation = this.requireSimulation();
+    simulation.reset();
+    this.analytics!.reset();
+    this.monteCarlo!.resetCounters();
+    this.lastDataPointStep = -1;
+  }
+
+  /**
+   * Create an anomaly near the lattice center (seeded position), recorded in history
+   */
+  private createAnomaly(radius: number, energyBoost: number): void {
+    const simulation = this.requireSimulation();
+    const lattice = simulation.lattice;
+    const x = Math.floor(lattice.width / 2) + Math.floor(lattice.random.next() * 6 - 3);
+    const y = Math.floor(lattice.height / 2) + Math.floor(lattice.random.next() * 6 - 3);
+
+    simulation.applyPerturbation({ id: 'anomaly', params: { x, y, z: 0, radius, energyBoost } });
+  }
+
+  /**
+   * Cancel one scheduled perturbation, or all of them
+   */
+  private cancelPerturbations(id?: number): void {
+    const simulation = this.requireSimulation();
+    const ids = id === undefined ? simulation.getScheduledPerturbations().map(p => p.id) : [id];
+    for (const perturbationId of ids) simulation.cancelPerturbation(perturbationId);
+  }
+
+  /**
+   * Run the Photon Window test through the active engine
+   */
+  private async runPhotonTest(requestId: number, steps: number): Promise<void> {
+    this.stopRun();
+
+    const result = await new PhotonWindowTest().run(this.requireSimulation(), steps);
+
+    this.post({ type: 'photonTestResult', requestId, result });
+    this.postFrame();
+  }
+
+  /**
+   * Post the current lattice arrays and metrics to the UI thread
+   */
+  private postFrame(): void {
+    const simulation = this.requireSimulation();
+    const lattice = simulation.lattice;
+    const analytics = this.analytics!;
+    const energies = simulation.getEngine().calculateEnergy(lattice);
+    const time = simulation.time;
+    const stepCount = simulation.stepCount;
+    const domains = analytics.getDomains();
+    const recordDataPoint =
+      stepCount % DATA_POINT_INTERVAL === 0 && stepCount !== this.lastDataPointStep;
+
+    const frame: WorkerFrame = {
+      time,
+      stepCount,
+      running: this.isRunning(),
+      buffers: lattice.storage.exportBuffers(),
+      metrics: {
+        E_sym: energies.E_sym,
+        E_asym: energies.E_asym,
+        E_0: energies.E_0,
+        E_0_ref: energies.E_0_ref,
+        A_kx: analytics.getComponents().modeAmplitude.getCurrentAmplitude(),
+        statsPanel: analytics.getStatsPanelData(),
+        conservation: simulation.getReversibilityValidator().getConservationStatus().status,
+        spectrum: analytics.getSpectrum(),
+        clusterTrails: analytics.getClusterTrails(),
+        domains
+      },
+      dataPoint: recordDataPoint ? TDSDataExporter.createDataPoint(lattice, time, stepCount, domains) : null
+    };
+
+    if (recordDataPoint) {
+      this.lastDataPointStep = stepCount;
+    }
+
+    this.post({ type: 'frame', ...frame }, getTransferables(frame.buffers));
+  }
+
+  private requireSimulation(): Simulation {
+    if (!this.simulation) {
+      throw new Error('Simulation worker is not initialized');
+    }
+    return this.simulation;
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * WorkerProtocol - Messages between the UI thread and the simulation worker
+ *
+ * The worker owns the authoritative Lattice, Simulation (with every
+ * PhysicsEngine) and AdvancedAnalytics. The UI thread sends requests and
+ * receives frames that carry transferable copies of the lattice arrays plus precomputed metrics,
+ * so it only has to copy the buffers into its own lattice and draw.
+ */
+
+import type { SimulationParams, ExportData } from '../core/Simulation.js';
+import type { StorageBuffers } from '../core/LatticeStorage.js';
+import type { BoundaryOption } from '../core/Boundary.js';
+import type { InitialConditionSpec } from '../core/InitialConditions.js';
+import type { PerturbationSpec } from '../core/Perturbations.js';
+import type { MonteCarloConfig } from '../core/MonteCarlo.js';
+import type { PhysicsEngineId } from '../core/PhysicsEngine.js';
+import type { PhotonWindowResult } from '../analytics/PhotonWindowTest.js';
+import type { ExperimentProtocol, ExperimentResult } from '../analytics/ExperimentRunner.js';
+import type { SpectrumSummary } from '../analytics/SpectrumAnalyzer.js';
+import type { ClusterTrail } from '../analytics/ClusterTracker.js';
+import type { DomainSample } from '../analytics/DomainAnalyzer.js';
+import type { TDSTimeSeriesData } from '../utils/TDSDataExporter.js';
+
+/** Which PhysicsEngine the worker's Simulation steps (thermal = Monte Carlo sweeps at temperature T) */
+export type WorkerEngine = PhysicsEngineId;
+
+export interface WorkerInitOptions {
+  width: number;
+  height: number;
+  depth: number;
+  boundary?: BoundaryOption; // Default open, as Lattice
+  params: Partial<SimulationParams>;
+  k_x: number;
+  engine: WorkerEngine;
+  initialCondition?: InitialConditionSpec; // Default: cosine at k_x
+  thermal?: MonteCarloConfig;
+}
+
+export type WorkerRequest =
+  | { type: 'init'; options: WorkerInitOptions }
+  | { type: 'step'; count?: number }
+  | { type: 'run'; steps: number }
+  | { type: 'pause' }
+  | {
+      type: 'setParams';
+      params?: Partial<SimulationParams>;
+      k_x?: number;
+      engine?: WorkerEngine;
+      initialCondition?: InitialConditionSpec | null;
+      thermal?: MonteCarloConfig;
+      reinitialize?: boolean;
+    }
+  | { type: 'snapshot'; requestId: number }
+  | { type: 'photonTest'; requestId: number; steps: number }
+  | { type: 'experiment'; requestId: number; protocol: ExperimentProtocol } // Runs on its own lattice
+  | { type: 'reset' }
+  | { type: 'anomaly'; radius?: number; energyBoost?: number }
+  | { type: 'perturb'; spec: PerturbationSpec }
+  | { type: 'schedulePerturbation'; spec: PerturbationSpec; step?: number; duration?: number }
+  | { type: 'cancelPerturbation'; id?: number }; // No id: cancel all
+
+/** Metrics computed in the worker for one frame */
+export interface WorkerFrameMetrics {
+  E_sym: number;
+  E_asym: number;
+  E_0: number;
+  E_0_ref: number;
+  A_kx: number;
+  statsPanel: {
+    rho: string;
+    drift: string;
+    rmsAkx: string;
+    magnetization: string;
+    susceptibility: string;
+    specificHeat: string;
+    clusters: string;
+  };
+  conservation: 'good' | 'warning' | 'error';
+  spectrum: SpectrumSummary | null; // Latest P(k_x), refreshed every spectrumInterval steps
+  clusterTrails: ClusterTrail[]; // Centroid trails of the largest anomaly clusters
+  domains: DomainSample | null; // Domain walls and topology of the spin field
+}
+
+export interface WorkerFrame {
+  time: number;
+  stepCount: number;
+  running: boolean;
+  buffers: StorageBuffers;
+  metrics: WorkerFrameMetrics;
+  dataPoint: TDSTimeSeriesData | null; // Recorded every 10 steps
+}
+
+export type WorkerResponse =
+  | { type: 'ready' }
+  | ({ type: 'frame' } & WorkerFrame)
+  | { type: 'snapshot'; requestId: number; data: ExportData }
+  | { type: 'photonTestResult'; requestId: number; result: PhotonWindowResult }
+  | { type: 'experimentResult'; requestId: number; result: ExperimentResult }
+  | { type: 'error'; requestId?: number; message: string };
+
+/** Recording interval for time series data points (in steps) */
+export const DATA_POINT_INTERVAL = 10;
+
+/**
+ * Collect the transferable buffers of a frame
+ */
+export function getTransferables(buffers: StorageBuffers): ArrayBuffer[] {
+  return [buffers.spins, buffers.states, buffers.E_sym, buffers.E_asym, buffers.phases];
+}
@@ -0,0 +1,89 @@
+/**
+ * Tests for SimulationWorkerHost (worker protocol without a Worker)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { SimulationWorkerHost } from '../SimulationWorkerHost.js';
+import type { WorkerResponse } from '../WorkerProtocol.js';
+
+function createHost(): { host: SimulationWorkerHost; responses: WorkerResponse[] } {
+  const responses: WorkerResponse[] = [];
+  const host = new SimulationWorkerHost(response => {
+    responses.push(response);
+  });
+  return { host, responses };
+}
+
+function lastFrame(responses: WorkerResponse[]): Extract<WorkerResponse, { type: 'frame' }> {
+  const frames = responses.filter(
+    (response): response is Extract<WorkerResponse, { type: 'frame' }> => response.type === 'frame'
+  );
+  return frames[frames.length - 1];
+}
+
+const initOptions = {
+  width: 4,
+  height: 4,
+  depth: 4,
+  params: { seed: 5 },
+  k_x: 1,
+  engine: 'author' as const
+};
+
+describe('SimulationWorkerHost', () => {
+  test('should post ready and an initial frame with lattice buffers', async () => {
+    const { host, responses } = createHost();
+    await host.handleMessage({ type: 'init', options: initOptions });
+
+    expect(responses[0].type).toBe('ready');
+    const frame = lastFrame(responses);
+    expect(frame.stepCount).toBe(0);
+    expect(new Int8Array(frame.buffers.spins)).toHaveLength(64);
+    expect(frame.dataPoint).not.toBeNull();
+  });
+
+  test('should step the author engine and conserve energy', async () => {
+    const { host, responses } = createHost();
+    await host.handleMessage({ type: 'init', options: initOptions });
+    await host.handleMessage({ type: 'step', count: 3 });
+
+    const frame = lastFrame(responses);
+    expect(frame.stepCount).toBe(3);
+    expect(frame.metrics.E_sym + frame.metrics.E_asym).toBeCloseTo(frame.metrics.E_0);
+  });
+
+  test('should run in chunks with one frame each, ending on data point steps', async () => {
+    const { host, responses } = createHost();
+    await host.handleMessage({ type: 'init', options: initOptions });
+    await host.handleMessage({ type: 'step', count: 3 });
+    responses.length = 0;
+
+    await host.handleMessage({ type: 'run', steps: 25 });
+    while (host.isRunning()) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    const frames = responses.filter(response => response.type === 'frame');
+    expect(frames.map(frame => frame.stepCount)).toEqual([10, 20, 28]);
+    expect(frames.map(frame => frame.dataPoint !== null)).toEqual([true, true, false]);
+  });
+
+  test('should answer photon tests and snapshots by request id', async () => {
+    const { host, responses } = createHost();
+    await host.handleMessage({ type: 'init', options: initOptions });
+    await host.handleMessage({ type: 'photonTest', requestId: 7, steps: 10 });
+    await host.handleMessage({ type: 'snapshot', requestId: 8 });
+
+    const photon = responses.find(response => response.type === 'photonTestResult');
+    const snapshot = responses.find(response => response.type === 'snapshot');
+    expect(photon).toMatchObject({ requestId: 7, result: { passed: true } });
+    expect(snapshot).toMatchObject({ requestId: 8, data: { params: { seed: 5 } } });
+  });
+
+  test('should report an error before init', async () => {
+    const { host, responses } = createHost();
+    await host.handleMessage({ type: 'snapshot', requestId: 1 });
+
+    expect(responses[0]).toMatchObject({ type: 'error', requestId: 1 });
+  });
+});